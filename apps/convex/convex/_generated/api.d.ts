@@ -8,21 +8,45 @@
  * @module
  */
 
+import type * as actions_checklist from "../actions/checklist.js";
+import type * as actions_compare from "../actions/compare.js";
+import type * as actions_locations from "../actions/locations.js";
 import type * as actions_query from "../actions/query.js";
+import type * as answerCache from "../answerCache.js";
+import type * as boundaries from "../boundaries.js";
+import type * as changes from "../changes.js";
+import type * as checklists from "../checklists.js";
 import type * as conversations from "../conversations.js";
+import type * as crons from "../crons.js";
 import type * as jurisdictions from "../jurisdictions.js";
+import type * as lib_activities from "../lib/activities.js";
+import type * as lib_cache from "../lib/cache.js";
+import type * as lib_checklist from "../lib/checklist.js";
+import type * as lib_citations from "../lib/citations.js";
+import type * as lib_compare from "../lib/compare.js";
 import type * as lib_confidence from "../lib/confidence.js";
 import type * as lib_embed from "../lib/embed.js";
 import type * as lib_generate from "../lib/generate.js";
 import type * as lib_geocode from "../lib/geocode.js";
+import type * as lib_hybrid from "../lib/hybrid.js";
+import type * as lib_locations from "../lib/locations.js";
 import type * as lib_parse from "../lib/parse.js";
+import type * as lib_permits from "../lib/permits.js";
 import type * as lib_prompt from "../lib/prompt.js";
+import type * as lib_relevance from "../lib/relevance.js";
 import type * as lib_retrieve from "../lib/retrieve.js";
+import type * as lib_rewrite from "../lib/rewrite.js";
+import type * as lib_structured from "../lib/structured.js";
+import type * as lib_verdict from "../lib/verdict.js";
+import type * as lib_verify from "../lib/verify.js";
+import type * as locations from "../locations.js";
 import type * as messages from "../messages.js";
 import type * as mutations_saveQuery from "../mutations/saveQuery.js";
+import type * as permits from "../permits.js";
 import type * as queries_getHistory from "../queries/getHistory.js";
 import type * as queries_getQuery from "../queries/getQuery.js";
 import type * as query_types from "../query/types.js";
+import type * as query_validators from "../query/validators.js";
 import type * as sources from "../sources.js";
 
 import type {
@@ -32,21 +56,45 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  "actions/checklist": typeof actions_checklist;
+  "actions/compare": typeof actions_compare;
+  "actions/locations": typeof actions_locations;
   "actions/query": typeof actions_query;
+  answerCache: typeof answerCache;
+  boundaries: typeof boundaries;
+  changes: typeof changes;
+  checklists: typeof checklists;
   conversations: typeof conversations;
+  crons: typeof crons;
   jurisdictions: typeof jurisdictions;
+  "lib/activities": typeof lib_activities;
+  "lib/cache": typeof lib_cache;
+  "lib/checklist": typeof lib_checklist;
+  "lib/citations": typeof lib_citations;
+  "lib/compare": typeof lib_compare;
   "lib/confidence": typeof lib_confidence;
   "lib/embed": typeof lib_embed;
   "lib/generate": typeof lib_generate;
   "lib/geocode": typeof lib_geocode;
+  "lib/hybrid": typeof lib_hybrid;
+  "lib/locations": typeof lib_locations;
   "lib/parse": typeof lib_parse;
+  "lib/permits": typeof lib_permits;
   "lib/prompt": typeof lib_prompt;
+  "lib/relevance": typeof lib_relevance;
   "lib/retrieve": typeof lib_retrieve;
+  "lib/rewrite": typeof lib_rewrite;
+  "lib/structured": typeof lib_structured;
+  "lib/verdict": typeof lib_verdict;
+  "lib/verify": typeof lib_verify;
+  locations: typeof locations;
   messages: typeof messages;
   "mutations/saveQuery": typeof mutations_saveQuery;
+  permits: typeof permits;
   "queries/getHistory": typeof queries_getHistory;
   "queries/getQuery": typeof queries_getQuery;
   "query/types": typeof query_types;
+  "query/validators": typeof query_validators;
   sources: typeof sources;
 }>;
 
@@ -0,0 +1,183 @@
+'use node';
+
+import { action } from '../_generated/server';
+import { v } from 'convex/values';
+import { internal } from '../_generated/api';
+
+import { geocodeAddress } from '../lib/geocode';
+import { embedQuery } from '../lib/embed';
+import { retrieveChunksWithCounts } from '../lib/retrieve';
+import { buildSystemPrompt, buildUserPrompt } from '../lib/prompt';
+import { generateAnswer, generateStructuredAnswer } from '../lib/generate';
+import { parseAnswer, parseStructuredAnswer } from '../lib/parse';
+import { resolveActivities } from '../lib/activities';
+import { findPreemptionRules } from '../lib/preemption';
+import {
+  buildActivityQuestion,
+  buildChecklistItems,
+  resolveChecklistDependencies,
+  createClaudeDependencyResolver,
+  type ActivityPermits,
+} from '../lib/checklist';
+import type {
+  ChecklistResult,
+  DetectedActivity,
+  JurisdictionResult,
+} from '../query/types';
+
+/** Minimum chunks per jurisdiction so local permits are never crowded out */
+const JURISDICTION_QUOTA = 2;
+
+/**
+ * New-store checklist action - permits needed to open a store at an address.
+ *
+ * Pipeline steps:
+ * 1. Geocode address -> jurisdictions
+ * 2. For each business activity (in parallel): ask a permits sub-query
+ *    across all resolved jurisdictions (retrieval boosted to the activity's
+ *    categories, structured answer with markdown fallback)
+ * 3. Deduplicate permits across activities into checklist items
+ * 4. Resolve dependencies between items
+ * 5. Save the checklist so teams can check items off
+ *
+ * @param address - Store address
+ * @param activities - Activity or group IDs from the taxonomy (e.g., ["beer_sales", "pharmacy"])
+ * @param userId - Optional requesting user
+ * @returns ChecklistResult with the saved checklist's items
+ */
+export const generateChecklist = action({
+  args: {
+    address: v.string(),
+    activities: v.array(v.string()),
+    userId: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<ChecklistResult> => {
+    const startTime = Date.now();
+
+    // Get API keys from environment
+    const geocodioKey = process.env['GEOCODIO_API_KEY'];
+    const openaiKey = process.env['OPENAI_API_KEY'];
+    const pineconeKey = process.env['PINECONE_API_KEY'];
+    const anthropicKey = process.env['ANTHROPIC_API_KEY'];
+
+    if (!openaiKey || !pineconeKey || !anthropicKey) {
+      throw new Error(
+        'Missing required API keys (OPENAI_API_KEY, PINECONE_API_KEY, ANTHROPIC_API_KEY)'
+      );
+    }
+
+    const activities = resolveActivities([...new Set(args.activities)]);
+    if (activities.length === 0) {
+      throw new Error('At least one business activity is required');
+    }
+
+    // Step 1: Geocode address to jurisdictions (offline without Geocodio);
+    // unincorporated addresses have no city layer
+    const jurisdictionResult = await geocodeAddress(args.address, geocodioKey, {
+      classify: (point) => ctx.runQuery(internal.boundaries.classify, point),
+    });
+    const { jurisdictions } = jurisdictionResult;
+
+    // Step 2: One permits sub-query per activity
+    const answers = await Promise.all(
+      activities.map((activity) =>
+        askActivityPermits(activity, jurisdictionResult, {
+          openaiKey,
+          pineconeKey,
+          anthropicKey,
+        })
+      )
+    );
+
+    // Steps 3-4: Deduplicate permits and resolve dependencies
+    const items = await resolveChecklistDependencies(
+      buildChecklistItems(answers),
+      createClaudeDependencyResolver(anthropicKey)
+    );
+
+    // Step 5: Save checklist
+    const processingTimeMs = Date.now() - startTime;
+    const checklistId = await ctx.runMutation(internal.checklists.save, {
+      userId: args.userId,
+      address: args.address,
+      jurisdictions,
+      activities: activities.map(({ group, activity, label }) => ({
+        group,
+        activity,
+        label,
+      })),
+      items,
+      processingTimeMs,
+    });
+
+    return {
+      checklistId,
+      address: args.address,
+      jurisdictions,
+      activities,
+      items,
+      processingTimeMs,
+    };
+  },
+});
+
+/**
+ * Helper: Ask the permits sub-query for one activity
+ */
+async function askActivityPermits(
+  activity: DetectedActivity,
+  jurisdictionResult: JurisdictionResult,
+  keys: { openaiKey: string; pineconeKey: string; anthropicKey: string }
+): Promise<ActivityPermits> {
+  const { jurisdictions } = jurisdictionResult;
+  const question = buildActivityQuestion(activity);
+  const queryEmbedding = await embedQuery(question, keys.openaiKey);
+
+  const { chunks } = await retrieveChunksWithCounts(
+    queryEmbedding,
+    jurisdictions,
+    keys.pineconeKey,
+    {
+      topK: 50,
+      minScore: 0.5,
+      rerank: true,
+      finalTopK: 15,
+      queryText: question,
+      jurisdictionQuota: JURISDICTION_QUOTA,
+      categories: activity.categories,
+    }
+  );
+  if (chunks.length === 0) {
+    console.warn(`No regulatory text retrieved for ${activity.label}`);
+    return { activity, permits: [], sections: [] };
+  }
+
+  const userPrompt = buildUserPrompt(question, chunks, jurisdictions, [], {
+    locality: jurisdictionResult,
+    preemptionRules: findPreemptionRules(jurisdictions, activity.categories),
+  });
+  const structured = parseStructuredAnswer(
+    await generateStructuredAnswer(
+      buildSystemPrompt({ structured: true }),
+      userPrompt,
+      keys.anthropicKey
+    ),
+    chunks
+  );
+  if (structured) {
+    return {
+      activity,
+      permits: structured.permits,
+      sections: structured.sections,
+    };
+  }
+
+  console.warn(
+    `Structured answer for ${activity.label} did not match schema, falling back to markdown generation`
+  );
+  const parsed = parseAnswer(
+    await generateAnswer(buildSystemPrompt(), userPrompt, keys.anthropicKey),
+    chunks
+  );
+  return { activity, permits: parsed.permits, sections: parsed.sections };
+}
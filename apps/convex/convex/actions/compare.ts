@@ -0,0 +1,259 @@
+'use node';
+
+import { action, type ActionCtx } from '../_generated/server';
+import { v } from 'convex/values';
+import { internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { canonicalJurisdictionIds } from '@compliance-iq/shared-types';
+
+import { geocodeAddress, toLocationGeocode } from '../lib/geocode';
+import { embedQuery } from '../lib/embed';
+import { retrieveChunksWithCounts } from '../lib/retrieve';
+import { calculateConfidence } from '../lib/confidence';
+import { COMPARISON_SYSTEM_PROMPT, buildComparisonPrompt } from '../lib/prompt';
+import { generateComparison } from '../lib/generate';
+import { activityCategories, classifyActivities } from '../lib/activities';
+import {
+  mergeComparisonChunks,
+  parseComparisonAnswer,
+  partitionJurisdictions,
+  renderComparisonMarkdown,
+  targetRetrievalCounts,
+} from '../lib/compare';
+import type {
+  ComparisonResult,
+  ComparisonTarget,
+  JurisdictionRetrievalCount,
+  RetrievedChunk,
+} from '../query/types';
+
+/** Most targets one comparison can cover */
+const MAX_TARGETS = 10;
+
+/** Minimum chunks per jurisdiction so local law is never crowded out */
+const JURISDICTION_QUOTA = 2;
+
+/** Final chunks for the shared (federal/state) retrieval */
+const SHARED_TOP_K = 15;
+
+/** Final chunks per target for its county/municipal retrieval */
+const LOCAL_TOP_K = 8;
+
+/**
+ * Multi-location comparison action - one question across several stores.
+ *
+ * Pipeline steps:
+ * 1. Resolve each target's jurisdictions (stored on the location, or geocoded)
+ * 2. Embed the question once
+ * 3. Retrieve federal/state chunks once for all targets, and county/municipal
+ *    chunks per target (in parallel), then merge them into one numbered
+ *    source list
+ * 4. Generate the comparison (submit_comparison tool): a common section plus
+ *    each target's differences
+ * 5. Score confidence separately for the common section (sources that apply
+ *    everywhere) and each target (sources for its jurisdictions)
+ *
+ * @param question - Compliance question to ask for every target
+ * @param locationIds - Store locations to compare
+ * @param addresses - Addresses to compare (after the locations)
+ * @returns ComparisonResult with the common section and per-target differences
+ */
+export const compareLocations = action({
+  args: {
+    question: v.string(),
+    locationIds: v.optional(v.array(v.id('locations'))),
+    addresses: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args): Promise<ComparisonResult> => {
+    const startTime = Date.now();
+
+    // Get API keys from environment
+    const geocodioKey = process.env['GEOCODIO_API_KEY'];
+    const openaiKey = process.env['OPENAI_API_KEY'];
+    const pineconeKey = process.env['PINECONE_API_KEY'];
+    const anthropicKey = process.env['ANTHROPIC_API_KEY'];
+
+    if (!openaiKey || !pineconeKey || !anthropicKey) {
+      throw new Error(
+        'Missing required API keys (OPENAI_API_KEY, PINECONE_API_KEY, ANTHROPIC_API_KEY)'
+      );
+    }
+
+    const locationIds = [...new Set(args.locationIds ?? [])];
+    const addresses = [...new Set(args.addresses ?? [])];
+    const targetCount = locationIds.length + addresses.length;
+    if (targetCount < 2 || targetCount > MAX_TARGETS) {
+      throw new Error(
+        `A comparison needs between 2 and ${MAX_TARGETS} locations or addresses`
+      );
+    }
+
+    // Step 1: Resolve jurisdictions per target
+    const targets = await Promise.all([
+      ...locationIds.map((id) => resolveLocationTarget(ctx, id, geocodioKey)),
+      ...addresses.map((address) =>
+        resolveAddressTarget(ctx, address, geocodioKey)
+      ),
+    ]);
+
+    // Step 2: Embed the question once
+    const queryEmbedding = await embedQuery(args.question, openaiKey);
+
+    // Step 3: Shared federal/state retrieval, per-target local retrieval
+    const { shared, local } = partitionJurisdictions(
+      targets.map((target) => target.jurisdictions)
+    );
+    const categories = activityCategories(classifyActivities(args.question));
+    const retrieve = (jurisdictions: string[], finalTopK: number) =>
+      jurisdictions.length > 0
+        ? retrieveChunksWithCounts(queryEmbedding, jurisdictions, pineconeKey, {
+            topK: 50,
+            minScore: 0.5,
+            rerank: true,
+            finalTopK,
+            queryText: args.question,
+            jurisdictionQuota: JURISDICTION_QUOTA,
+            categories,
+          })
+        : Promise.resolve({
+            chunks: [] as RetrievedChunk[],
+            jurisdictionCounts: [] as JurisdictionRetrievalCount[],
+          });
+
+    const [sharedResult, ...localResults] = await Promise.all([
+      retrieve(shared, SHARED_TOP_K),
+      ...local.map((jurisdictions) => retrieve(jurisdictions, LOCAL_TOP_K)),
+    ]);
+    const counts = [sharedResult!, ...localResults].flatMap(
+      (result) => result.jurisdictionCounts
+    );
+
+    const sources = mergeComparisonChunks(
+      sharedResult!.chunks,
+      localResults.map((result) => result.chunks),
+      targets.map((target) => target.jurisdictions)
+    );
+    if (sources.chunks.length === 0) {
+      throw new Error('No regulatory text retrieved for any location');
+    }
+
+    // Step 4: Generate the comparison
+    const parsed = parseComparisonAnswer(
+      await generateComparison(
+        COMPARISON_SYSTEM_PROMPT,
+        buildComparisonPrompt(args.question, targets, sources.chunks),
+        anthropicKey
+      ),
+      sources,
+      targets
+    );
+    if (!parsed) {
+      throw new Error('Comparison answer did not match the expected schema');
+    }
+    for (const warning of parsed.warnings) {
+      console.warn('Comparison warning:', warning);
+    }
+
+    // Step 5: Confidence for the common section and each target
+    const commonJurisdictions = shared.filter((id) =>
+      targets.every((target) => target.jurisdictions.includes(id))
+    );
+
+    return {
+      question: args.question,
+      summary: parsed.summary,
+      common: {
+        ...parsed.common,
+        confidence: calculateConfidence(
+          sources.common,
+          commonJurisdictions,
+          targetRetrievalCounts(counts, commonJurisdictions)
+        ),
+      },
+      locations: targets.map((target, i) => ({
+        target,
+        ...parsed.locations[i]!,
+        confidence: calculateConfidence(
+          sources.byTarget[i]!,
+          target.jurisdictions,
+          targetRetrievalCounts(counts, target.jurisdictions)
+        ),
+      })),
+      chunks: sources.chunks,
+      markdown: renderComparisonMarkdown(
+        parsed.summary,
+        parsed.common.content,
+        targets.map((target, i) => ({
+          label: target.label,
+          content: parsed.locations[i]!.content,
+        }))
+      ),
+      processingTimeMs: Date.now() - startTime,
+    };
+  },
+});
+
+/**
+ * Helper: Target for a store location (stored jurisdictions, else geocoded)
+ */
+async function resolveLocationTarget(
+  ctx: ActionCtx,
+  id: Id<'locations'>,
+  geocodioKey: string | undefined
+): Promise<ComparisonTarget> {
+  const location = await ctx.runQuery(internal.locations.lookup, { id });
+  if (!location) {
+    throw new Error(`Location not found: ${id}`);
+  }
+
+  if (location.jurisdictions) {
+    return {
+      label: location.name,
+      address: location.address,
+      locationId: id,
+      jurisdictions: canonicalJurisdictionIds(location.jurisdictions),
+      incorporation: location.incorporation,
+      etj: location.etj,
+    };
+  }
+
+  // Not geocoded yet (or the background geocode failed): resolve now
+  const jurisdictionResult = await geocodeAddress(
+    location.address,
+    geocodioKey,
+    { classify: (point) => ctx.runQuery(internal.boundaries.classify, point) }
+  );
+  const fields = toLocationGeocode(jurisdictionResult);
+  if (fields) {
+    await ctx.runMutation(internal.locations.saveGeocode, {
+      id,
+      address: location.address,
+      ...fields,
+    });
+  }
+
+  return {
+    label: location.name,
+    address: location.address,
+    locationId: id,
+    jurisdictions: jurisdictionResult.jurisdictions,
+    incorporation: jurisdictionResult.incorporation,
+    etj: jurisdictionResult.etj,
+  };
+}
+
+/**
+ * Helper: Target for a free-text address
+ */
+async function resolveAddressTarget(
+  ctx: ActionCtx,
+  address: string,
+  geocodioKey: string | undefined
+): Promise<ComparisonTarget> {
+  const { jurisdictions, incorporation, etj } = await geocodeAddress(
+    address,
+    geocodioKey,
+    { classify: (point) => ctx.runQuery(internal.boundaries.classify, point) }
+  );
+  return { label: address, address, jurisdictions, incorporation, etj };
+}
@@ -0,0 +1,53 @@
+'use node';
+
+import { internalAction } from '../_generated/server';
+import { v } from 'convex/values';
+import { internal } from '../_generated/api';
+
+import { geocodeAddress, toLocationGeocode } from '../lib/geocode';
+
+/**
+ * Geocode a store location and store its jurisdictions.
+ *
+ * Scheduled when a location is created, imported, or its address changes.
+ * Addresses that don't resolve to a state are left ungeocoded (queries for
+ * the location retry geocoding).
+ *
+ * @param id - Location to geocode
+ */
+export const geocode = internalAction({
+  args: { id: v.id('locations') },
+  handler: async (ctx, args): Promise<void> => {
+    const geocodioKey = process.env['GEOCODIO_API_KEY'];
+    if (!geocodioKey) {
+      console.warn('GEOCODIO_API_KEY not set, skipping location geocoding');
+      return;
+    }
+
+    const location = await ctx.runQuery(internal.locations.lookup, {
+      id: args.id,
+    });
+    if (!location) {
+      return;
+    }
+
+    const fields = toLocationGeocode(
+      await geocodeAddress(location.address, geocodioKey, {
+        classify: (point) => ctx.runQuery(internal.boundaries.classify, point),
+      })
+    );
+    if (!fields) {
+      console.warn(
+        `Could not resolve jurisdictions for location ${args.id}:`,
+        location.address
+      );
+      return;
+    }
+
+    await ctx.runMutation(internal.locations.saveGeocode, {
+      id: args.id,
+      address: location.address,
+      ...fields,
+    });
+  },
+});
@@ -1,44 +1,111 @@
-"use node";
+'use node';
 
 import { action } from '../_generated/server';
 import { v } from 'convex/values';
 import { internal } from '../_generated/api';
+import type { Doc } from '../_generated/dataModel';
+import {
+  canonicalJurisdictionIds,
+  isIsoDate,
+} from '@compliance-iq/shared-types';
 
-import { geocodeAddress, getFallbackJurisdictions } from '../lib/geocode';
+import {
+  geocodeAddress,
+  getFallbackJurisdictions,
+  toLocationGeocode,
+  type BoundaryClassifier,
+} from '../lib/geocode';
 import { embedQuery } from '../lib/embed';
-import { retrieveChunks } from '../lib/retrieve';
-import { calculateConfidence } from '../lib/confidence';
-import { buildSystemPrompt, buildUserPrompt } from '../lib/prompt';
-import { generateAnswer } from '../lib/generate';
-import { parseAnswer } from '../lib/parse';
+import {
+  retrieveChunksWithCounts,
+  retrievePendingRules,
+  createModelReranker,
+} from '../lib/retrieve';
+import { createClaudeRelevanceScorer } from '../lib/relevance';
+import { calculateConfidence, applyGroundedness } from '../lib/confidence';
+import {
+  buildSystemPrompt,
+  buildUserPrompt,
+  buildRegenerationPrompt,
+  MAX_HISTORY_TURNS,
+} from '../lib/prompt';
+import { streamAnswer, streamStructuredAnswer } from '../lib/generate';
+import { parseAnswer, parseStructuredAnswer } from '../lib/parse';
+import { isStructuredAnswer, renderAnswerMarkdown } from '../lib/structured';
+import { rewriteFollowUpQuery } from '../lib/rewrite';
+import { classifyActivities, activityCategories } from '../lib/activities';
+import { findPreemptionRules } from '../lib/preemption';
+import {
+  verifyGroundedness,
+  createClaudeClaimVerifier,
+  REGENERATION_THRESHOLD,
+} from '../lib/verify';
+import {
+  ANSWER_CACHE_INDEX_VERSION,
+  NEAR_DUPLICATE_CANDIDATES,
+  NEAR_DUPLICATE_THRESHOLD,
+  buildCacheScopeKey,
+  normalizeQuestion,
+} from '../lib/cache';
 import type {
   QueryResult,
   GeneratedAnswer,
+  ConversationContext,
+  RetrievedChunk,
 } from '../query/types';
 
+/** Minimum chunks per jurisdiction so local law is never crowded out */
+const JURISDICTION_QUOTA = 2;
+
 /**
  * Main query action - orchestrates the full RAG pipeline.
  *
  * Pipeline steps:
- * 1. Geocode address -> jurisdictions
- * 2. Embed query -> vector
- * 3. Retrieve chunks from Pinecone
- * 4. Calculate confidence from retrieval
+ * 0. Load conversation context, create pending assistant message in Convex
+ * 1. Geocode address -> jurisdictions (a store location's stored jurisdictions,
+ *    or the conversation's last location for follow-ups)
+ * 2. Rewrite follow-up into a standalone query, classify it into business
+ *    activities (lib/activities.ts), embed it -> vector
+ *    (standalone questions are first looked up in the answer cache, by
+ *    normalized text and then by near-duplicate embedding; a hit skips 3-7)
+ * 3. Retrieve chunks from Pinecone (hybrid vector + lexical, cited sections by ID),
+ *    reranked by model relevance, with a minimum share per jurisdiction;
+ *    chunks in the detected activities' categories are boosted; with an
+ *    as-of date, federal chunks are limited to the versions in force then;
+ *    pending Federal Register rules for the retrieved CFR parts are looked up
+ *    alongside (current-law questions only) and listed in the prompt
+ * 4. Calculate confidence from retrieval (incl. missing vs outranked jurisdictions)
  * 5. Build system + user prompts
- * 6. Generate answer with Claude
- * 7. Parse answer into structured format
- * 8. Persist to Convex
+ * 6. Stream a structured answer from Claude (submit_answer tool; markdown
+ *    generation if the tool input doesn't validate), patching the message
+ *    content with the rendered markdown as it arrives, then verify each cited
+ *    claim against its chunk (one regeneration if poorly grounded) and fold
+ *    groundedness into confidence
+ * 7. Take sections/permits/verdicts from the structured answer (regex-parse
+ *    markdown answers); roll level verdicts up into the overall verdict
+ * 8. Persist final answer and mark message complete
+ *
+ * If any step after 0 fails, the message is marked 'error' and the error rethrown.
+ * Clients that pass a conversationId can subscribe to messages.byConversation
+ * to render the answer while it streams.
  *
  * @param question - Natural language compliance question
  * @param address - Optional address for jurisdiction resolution
- * @param conversationId - Optional conversation ID for context
+ * @param locationId - Optional store location (used instead of address)
+ * @param conversationId - Optional conversation ID; earlier turns are used as context
+ * @param bypassCache - Force a fresh answer (the cache entry is refreshed)
+ * @param asOfDate - Answer under the law in force on this date (YYYY-MM-DD);
+ *   point-in-time answers are never cached
  * @returns QueryResult with answer, citations, permits, and metadata
  */
 export const processQuery = action({
   args: {
     question: v.string(),
     address: v.optional(v.string()),
+    locationId: v.optional(v.id('locations')),
     conversationId: v.optional(v.id('conversations')),
+    bypassCache: v.optional(v.boolean()),
+    asOfDate: v.optional(v.string()),
   },
   handler: async (ctx, args): Promise<QueryResult> => {
     const startTime = Date.now();
@@ -54,90 +121,399 @@ export const processQuery = action({
         'Missing required API keys (OPENAI_API_KEY, PINECONE_API_KEY, ANTHROPIC_API_KEY)'
       );
     }
-
-    // Step 1: Geocode address to jurisdictions
-    let jurisdictionResult = getFallbackJurisdictions();
-    if (args.address && geocodioKey) {
-      try {
-        jurisdictionResult = await geocodeAddress(args.address, geocodioKey);
-      } catch (error) {
-        console.warn('Geocoding failed, using federal-only fallback:', error);
-      }
+    if (args.asOfDate !== undefined && !isIsoDate(args.asOfDate)) {
+      throw new Error(
+        `Invalid asOfDate: ${args.asOfDate} (expected YYYY-MM-DD)`
+      );
     }
-    const { jurisdictions } = jurisdictionResult;
 
-    // Step 2: Generate query embedding
-    const queryEmbedding = await embedQuery(args.question, openaiKey);
+    // Step 0: Load earlier turns (before this question is saved)
+    let context: ConversationContext = { turns: [] };
+    if (args.conversationId) {
+      context = await ctx.runQuery(
+        internal.queries.getQuery.getConversationContext,
+        { conversationId: args.conversationId, maxTurns: MAX_HISTORY_TURNS }
+      );
+    }
 
-    // Step 3: Retrieve relevant chunks from Pinecone
-    const chunks = await retrieveChunks(
-      queryEmbedding,
-      jurisdictions,
-      pineconeKey,
-      { topK: 50, minScore: 0.5, rerank: true, finalTopK: 15 }
+    // Create pending assistant message so clients can watch it stream
+    const { conversationId, messageId } = await ctx.runMutation(
+      internal.mutations.saveQuery.startQuery,
+      {
+        conversationId: args.conversationId,
+        question: args.question,
+      }
     );
 
-    // Step 4: Calculate confidence based on retrieval
-    const confidence = calculateConfidence(chunks, jurisdictions);
+    try {
+      // Step 1: Geocode address to jurisdictions
+      // Store locations use their stored jurisdictions (geocoded once);
+      // follow-ups without an address reuse the conversation's last location
+      const location = args.locationId
+        ? await ctx.runQuery(internal.locations.lookup, {
+            id: args.locationId,
+          })
+        : null;
+      if (args.locationId && !location) {
+        throw new Error(`Location not found: ${args.locationId}`);
+      }
+      const address = location?.address ?? args.address ?? context.address;
+      const classify: BoundaryClassifier = (point) =>
+        ctx.runQuery(internal.boundaries.classify, point);
+      let jurisdictionResult = getFallbackJurisdictions();
+      if (location?.jurisdictions) {
+        jurisdictionResult = {
+          ...jurisdictionResult,
+          jurisdictions: canonicalJurisdictionIds(location.jurisdictions),
+          state: location.state,
+          incorporation: location.incorporation,
+          etj: location.etj,
+          resolver: 'geocodio', // Only Geocodio results are stored
+        };
+      } else if (location) {
+        // Not geocoded yet (or the background geocode failed): resolve now
+        try {
+          jurisdictionResult = await geocodeAddress(
+            location.address,
+            geocodioKey,
+            { classify }
+          );
+          const fields = toLocationGeocode(jurisdictionResult);
+          if (fields) {
+            await ctx.runMutation(internal.locations.saveGeocode, {
+              id: location._id,
+              address: location.address,
+              ...fields,
+            });
+          }
+        } catch (error) {
+          console.warn('Geocoding failed, using federal-only fallback:', error);
+        }
+      } else if (!args.address && context.jurisdictions) {
+        jurisdictionResult = {
+          ...jurisdictionResult,
+          jurisdictions: canonicalJurisdictionIds(context.jurisdictions),
+        };
+      } else if (args.address) {
+        try {
+          jurisdictionResult = await geocodeAddress(args.address, geocodioKey, {
+            classify,
+          });
+        } catch (error) {
+          console.warn('Geocoding failed, using federal-only fallback:', error);
+        }
+      }
+      const { jurisdictions } = jurisdictionResult;
 
-    // Step 5: Build prompts
-    const systemPrompt = buildSystemPrompt();
-    const userPrompt = buildUserPrompt(args.question, chunks, jurisdictions);
+      // Step 2: Rewrite follow-ups into a standalone query, then embed it
+      const retrievalQuery = await rewriteFollowUpQuery(
+        args.question,
+        context.turns,
+        anthropicKey
+      );
+      const activities = classifyActivities(retrievalQuery);
 
-    // Step 6: Generate answer with Claude
-    const rawAnswer = await generateAnswer(systemPrompt, userPrompt, anthropicKey);
+      // Answers to follow-ups depend on the conversation, so only standalone
+      // questions about current law use the cache
+      const cacheable = context.turns.length === 0 && !args.asOfDate;
+      const useCache = cacheable && !args.bypassCache;
+      const normalizedQuestion = normalizeQuestion(retrievalQuery);
+      const scopeKey = buildCacheScopeKey(jurisdictions);
 
-    // Step 7: Parse answer into structured format
-    const parsed = parseAnswer(rawAnswer, chunks);
+      let cached: Doc<'answerCache'> | null = null;
+      if (useCache) {
+        cached = await ctx.runQuery(internal.answerCache.lookup, {
+          scopeKey,
+          normalizedQuestion,
+        });
+      }
 
-    // Log any warnings
-    if (parsed.warnings.length > 0) {
-      console.warn('Answer parsing warnings:', parsed.warnings);
-    }
+      let queryEmbedding: number[] = [];
+      if (!cached) {
+        queryEmbedding = await embedQuery(retrievalQuery, openaiKey);
 
-    // Build GeneratedAnswer
-    const answer: GeneratedAnswer = {
-      summary: extractSummary(rawAnswer), // First paragraph or first 500 chars
-      sections: parsed.sections,
-      permits: parsed.permits,
-      citations: parsed.citations,
-      confidence,
-    };
+        if (useCache) {
+          const matches = await ctx.vectorSearch(
+            'answerCache',
+            'by_embedding',
+            {
+              vector: queryEmbedding,
+              limit: NEAR_DUPLICATE_CANDIDATES,
+              filter: (q) => q.eq('scopeKey', scopeKey),
+            }
+          );
+          const ids = matches
+            .filter((match) => match._score >= NEAR_DUPLICATE_THRESHOLD)
+            .map((match) => match._id);
+          if (ids.length > 0) {
+            cached = await ctx.runQuery(internal.answerCache.firstServable, {
+              ids,
+            });
+          }
+        }
+      }
 
-    // Step 8: Persist to Convex
-    const { conversationId, messageId } = await ctx.runMutation(
-      internal.mutations.saveQuery.saveQueryResult,
-      {
-        conversationId: args.conversationId,
-        question: args.question,
-        address: args.address,
+      if (cached) {
+        await ctx.runMutation(internal.mutations.saveQuery.saveQueryResult, {
+          messageId,
+          address,
+          jurisdictions,
+          answerContent: cached.answerContent,
+          citations: cached.answer.citations,
+          permits: cached.answer.permits,
+          confidence: cached.answer.confidence,
+          groundedness: cached.answer.groundedness,
+          verdict: cached.answer.verdict,
+          preemptedProvisions: cached.answer.preemptedProvisions,
+          pendingRules: cached.answer.pendingRules,
+          retrievedChunkIds: cached.retrievedChunks.map((chunk) => chunk.id),
+          processingTimeMs: Date.now() - startTime,
+        });
+        await ctx.runMutation(internal.answerCache.recordHit, {
+          cacheId: cached._id,
+        });
+
+        return {
+          queryId: messageId,
+          conversationId,
+          question: args.question,
+          address,
+          jurisdictions,
+          activities,
+          jurisdictionCounts: cached.jurisdictionCounts,
+          answer: cached.answer,
+          retrievedChunks: cached.retrievedChunks,
+          processingTimeMs: Date.now() - startTime,
+          cached: true,
+        };
+      }
+
+      // Step 3: Retrieve relevant chunks from Pinecone
+      const { chunks, jurisdictionCounts } = await retrieveChunksWithCounts(
+        queryEmbedding,
+        jurisdictions,
+        pineconeKey,
+        {
+          topK: 50,
+          minScore: 0.5,
+          rerank: true,
+          finalTopK: 15,
+          queryText: retrievalQuery,
+          jurisdictionQuota: JURISDICTION_QUOTA,
+          categories: activityCategories(activities),
+          asOfDate: args.asOfDate,
+          reranker: createModelReranker(
+            createClaudeRelevanceScorer(anthropicKey)
+          ),
+        }
+      );
+
+      // Step 3b: Look up pending Federal Register rules for the cited CFR
+      // parts (current-law questions only)
+      const pendingRules =
+        args.asOfDate === undefined
+          ? await retrievePendingRules(queryEmbedding, chunks, pineconeKey)
+          : [];
+
+      // Step 4: Calculate confidence based on retrieval
+      const confidence = calculateConfidence(
+        chunks,
+        jurisdictions,
+        jurisdictionCounts
+      );
+
+      // Step 5: Build prompts
+      const userPrompt = buildUserPrompt(
+        args.question,
+        chunks,
+        jurisdictions,
+        context.turns,
+        {
+          locality: jurisdictionResult,
+          preemptionRules: findPreemptionRules(jurisdictions, [
+            ...activityCategories(activities),
+            ...chunks.flatMap((chunk) =>
+              chunk.category ? [chunk.category] : []
+            ),
+          ]),
+          asOfDate: args.asOfDate,
+          pendingRules,
+        }
+      );
+
+      // Step 6: Stream answer from Claude into the pending message
+      const onContent = async (text: string) => {
+        await ctx.runMutation(
+          internal.mutations.saveQuery.updateMessageContent,
+          {
+            messageId,
+            content: text,
+          }
+        );
+      };
+      let generation = await generateAnswerText(
+        userPrompt,
+        chunks,
+        anthropicKey,
+        onContent
+      );
+      let rawAnswer = generation.text;
+
+      // Step 6b: Verify each cited claim against its chunk; regenerate once
+      // (streaming over the same message) if the answer is poorly grounded
+      const verifier = createClaudeClaimVerifier(anthropicKey);
+      let groundedness = await verifyGroundedness(rawAnswer, chunks, verifier);
+      if (groundedness.groundedness < REGENERATION_THRESHOLD) {
+        const retry = await generateAnswerText(
+          buildRegenerationPrompt(userPrompt, groundedness.flagged),
+          chunks,
+          anthropicKey,
+          onContent
+        );
+        const retryGroundedness = await verifyGroundedness(
+          retry.text,
+          chunks,
+          verifier
+        );
+        if (retryGroundedness.groundedness >= groundedness.groundedness) {
+          generation = retry;
+          rawAnswer = retry.text;
+          groundedness = retryGroundedness;
+        }
+        groundedness = { ...groundedness, regenerated: true };
+      }
+      if (groundedness.flagged.length > 0) {
+        console.warn('Ungrounded claims in answer:', groundedness.flagged);
+      }
+      const verifiedConfidence = applyGroundedness(confidence, groundedness);
+
+      // Step 7: Use the structured answer, or parse the markdown fallback
+      const parsed = generation.structured ?? parseAnswer(rawAnswer, chunks);
+
+      // Log any warnings
+      if (parsed.warnings.length > 0) {
+        console.warn('Answer parsing warnings:', parsed.warnings);
+      }
+
+      // Build GeneratedAnswer
+      const answer: GeneratedAnswer = {
+        summary: generation.structured?.summary ?? extractSummary(rawAnswer),
+        sections: parsed.sections,
+        permits: parsed.permits,
+        citations: parsed.citations,
+        confidence: verifiedConfidence,
+        groundedness,
+        verdict: parsed.verdict,
+        preemptedProvisions: parsed.preemptedProvisions,
+        pendingRules: pendingRules.length > 0 ? pendingRules : undefined,
+      };
+
+      // Step 8: Persist final answer and mark message complete
+      await ctx.runMutation(internal.mutations.saveQuery.saveQueryResult, {
+        messageId,
+        address,
         jurisdictions,
         answerContent: rawAnswer,
         citations: parsed.citations,
         permits: parsed.permits,
-        confidence: {
-          level: confidence.level,
-          score: confidence.score,
-          reason: confidence.reason,
-        },
+        confidence: verifiedConfidence,
+        groundedness,
+        verdict: parsed.verdict,
+        preemptedProvisions: parsed.preemptedProvisions,
+        pendingRules: answer.pendingRules,
+        asOfDate: args.asOfDate,
+        retrievedChunkIds: chunks.map((chunk) => chunk.id),
         processingTimeMs: Date.now() - startTime,
+      });
+
+      // Cache the answer for repeated questions (best-effort)
+      if (cacheable) {
+        try {
+          await ctx.runMutation(internal.answerCache.store, {
+            normalizedQuestion,
+            scopeKey,
+            indexVersion: ANSWER_CACHE_INDEX_VERSION,
+            jurisdictions,
+            embedding: queryEmbedding,
+            answerContent: rawAnswer,
+            answer,
+            retrievedChunks: chunks,
+            jurisdictionCounts,
+          });
+        } catch (error) {
+          console.warn('Failed to cache answer:', error);
+        }
       }
-    );
 
-    const processingTimeMs = Date.now() - startTime;
+      const processingTimeMs = Date.now() - startTime;
 
-    return {
-      queryId: messageId,
-      question: args.question,
-      address: args.address,
-      jurisdictions,
-      answer,
-      retrievedChunks: chunks,
-      processingTimeMs,
-    };
+      return {
+        queryId: messageId,
+        conversationId,
+        question: args.question,
+        retrievalQuery:
+          retrievalQuery !== args.question ? retrievalQuery : undefined,
+        address,
+        jurisdictions,
+        activities,
+        jurisdictionCounts,
+        answer,
+        retrievedChunks: chunks,
+        processingTimeMs,
+        asOfDate: args.asOfDate,
+      };
+    } catch (error) {
+      // Mark the pending message as failed so subscribers stop waiting
+      await ctx.runMutation(internal.mutations.saveQuery.failQuery, {
+        messageId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
   },
 });
 
+/**
+ * Helper: Generate the answer in structured-output mode, falling back to
+ * markdown generation if the tool input doesn't match the schema
+ *
+ * Either way the answer text is markdown (structured answers are rendered),
+ * streamed to onContent as it grows.
+ *
+ * @returns Answer markdown, plus the parsed structured answer if available
+ */
+async function generateAnswerText(
+  userPrompt: string,
+  chunks: RetrievedChunk[],
+  apiKey: string,
+  onContent: (text: string) => Promise<void>
+): Promise<{
+  text: string;
+  structured: ReturnType<typeof parseStructuredAnswer>;
+}> {
+  const input = await streamStructuredAnswer(
+    buildSystemPrompt({ structured: true }),
+    userPrompt,
+    apiKey,
+    { onProgress: (partial) => onContent(renderAnswerMarkdown(partial)) }
+  );
+
+  if (isStructuredAnswer(input)) {
+    return {
+      text: renderAnswerMarkdown(input),
+      structured: parseStructuredAnswer(input, chunks)!,
+    };
+  }
+
+  console.warn(
+    'Structured answer did not match schema, falling back to markdown generation'
+  );
+  const text = await streamAnswer(buildSystemPrompt(), userPrompt, apiKey, {
+    onProgress: onContent,
+  });
+  return { text, structured: null };
+}
+
 /**
  * Helper: Extract summary from answer (first paragraph)
  */
@@ -0,0 +1,210 @@
+import { v } from 'convex/values';
+import {
+  internalQuery,
+  internalMutation,
+  type QueryCtx,
+} from './_generated/server';
+import type { Doc } from './_generated/dataModel';
+import {
+  generatedAnswerValidator,
+  retrievedChunkValidator,
+  jurisdictionCountValidator,
+} from './query/validators';
+import { ANSWER_CACHE_TTL_MS } from './lib/cache';
+
+/**
+ * Answer Cache: generated answers reused for repeated questions
+ *
+ * Entries are keyed by scope (index version + jurisdiction set) and
+ * normalized question, with a vector index on the query embedding for
+ * near-duplicate matches. An entry is served only while:
+ * - it has not expired (TTL), and
+ * - none of its jurisdictions has been re-scraped since it was created
+ *   (jurisdictions.lastScrapedAt), so re-ingested law is never masked.
+ *
+ * Written and read by the processQuery action (actions/query.ts).
+ */
+
+/**
+ * Find a servable entry by exact scope + normalized question
+ */
+export const lookup = internalQuery({
+  args: {
+    scopeKey: v.string(),
+    normalizedQuestion: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db
+      .query('answerCache')
+      .withIndex('by_scope_question', (q) =>
+        q
+          .eq('scopeKey', args.scopeKey)
+          .eq('normalizedQuestion', args.normalizedQuestion)
+      )
+      .first();
+
+    return entry && (await isServable(ctx, entry)) ? entry : null;
+  },
+});
+
+/**
+ * Return the first servable entry from near-duplicate vector search results
+ *
+ * @param ids Candidate entry IDs, best match first
+ */
+export const firstServable = internalQuery({
+  args: {
+    ids: v.array(v.id('answerCache')),
+  },
+  handler: async (ctx, args) => {
+    for (const id of args.ids) {
+      const entry = await ctx.db.get(id);
+      if (entry && (await isServable(ctx, entry))) {
+        return entry;
+      }
+    }
+    return null;
+  },
+});
+
+/**
+ * Store a freshly generated answer, replacing any entry with the same key
+ */
+export const store = internalMutation({
+  args: {
+    normalizedQuestion: v.string(),
+    scopeKey: v.string(),
+    indexVersion: v.string(),
+    jurisdictions: v.array(v.string()),
+    embedding: v.array(v.float64()),
+    answerContent: v.string(),
+    answer: generatedAnswerValidator,
+    retrievedChunks: v.array(retrievedChunkValidator),
+    jurisdictionCounts: v.optional(v.array(jurisdictionCountValidator)),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    const existing = await ctx.db
+      .query('answerCache')
+      .withIndex('by_scope_question', (q) =>
+        q
+          .eq('scopeKey', args.scopeKey)
+          .eq('normalizedQuestion', args.normalizedQuestion)
+      )
+      .collect();
+    for (const entry of existing) {
+      await ctx.db.delete(entry._id);
+    }
+
+    return await ctx.db.insert('answerCache', {
+      ...args,
+      hitCount: 0,
+      expiresAt: now + ANSWER_CACHE_TTL_MS,
+      createdAt: now,
+    });
+  },
+});
+
+/**
+ * Record that an entry was served
+ */
+export const recordHit = internalMutation({
+  args: { cacheId: v.id('answerCache') },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get(args.cacheId);
+    if (!entry) {
+      return;
+    }
+
+    await ctx.db.patch(args.cacheId, {
+      hitCount: entry.hitCount + 1,
+      lastHitAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Delete expired entries (run periodically from crons.ts)
+ */
+export const purgeExpired = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query('answerCache')
+      .withIndex('by_expires', (q) => q.lt('expiresAt', Date.now()))
+      .take(500);
+
+    for (const entry of expired) {
+      await ctx.db.delete(entry._id);
+    }
+
+    return { deleted: expired.length };
+  },
+});
+
+/**
+ * Whether an entry is unexpired and none of its jurisdictions was
+ * re-scraped after it was created
+ */
+async function isServable(
+  ctx: QueryCtx,
+  entry: Doc<'answerCache'>
+): Promise<boolean> {
+  if (entry.expiresAt <= Date.now()) {
+    return false;
+  }
+
+  for (const jurisdictionId of entry.jurisdictions) {
+    const jurisdiction = await findJurisdiction(ctx, jurisdictionId);
+    if (
+      jurisdiction?.lastScrapedAt !== undefined &&
+      jurisdiction.lastScrapedAt > entry.createdAt
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Resolve a pipeline jurisdiction identifier to its jurisdictions record
+ *
+ * Identifiers: "US" (federal), "TX" (state), "TX-48201" (county FIPS),
+ * "TX-houston" (city ID).
+ */
+async function findJurisdiction(
+  ctx: QueryCtx,
+  jurisdictionId: string
+): Promise<Doc<'jurisdictions'> | null> {
+  if (jurisdictionId === 'US') {
+    return await ctx.db
+      .query('jurisdictions')
+      .withIndex('by_type', (q) => q.eq('type', 'federal'))
+      .first();
+  }
+
+  const [stateCode, local] = jurisdictionId.split(/-(.+)/);
+  if (!local) {
+    return await ctx.db
+      .query('jurisdictions')
+      .withIndex('by_state', (q) => q.eq('stateCode', stateCode))
+      .filter((q) => q.eq(q.field('type'), 'state'))
+      .first();
+  }
+
+  if (/^\d{5}$/.test(local)) {
+    return await ctx.db
+      .query('jurisdictions')
+      .withIndex('by_county_fips', (q) => q.eq('countyFips', local))
+      .filter((q) => q.eq(q.field('type'), 'county'))
+      .first();
+  }
+
+  return await ctx.db
+    .query('jurisdictions')
+    .withIndex('by_city_id', (q) => q.eq('cityId', local))
+    .filter((q) => q.eq(q.field('type'), 'city'))
+    .first();
+}
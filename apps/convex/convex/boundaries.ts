@@ -0,0 +1,109 @@
+import { v } from 'convex/values';
+import { query, mutation, internalQuery } from './_generated/server';
+import { classifyPoint } from './lib/boundaries';
+
+/**
+ * Boundaries: City limits and ETJ polygons used to tell incorporated from
+ * unincorporated addresses (see lib/boundaries.ts)
+ *
+ * Loaded from a GeoJSON file with scripts/load-boundaries.ts.
+ */
+
+const boundaryKindValidator = v.union(
+  v.literal('city_limits'),
+  v.literal('etj')
+);
+
+/**
+ * List loaded boundaries (without polygons)
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const boundaries = await ctx.db.query('boundaries').collect();
+    return boundaries.map(({ polygons, ...boundary }) => ({
+      ...boundary,
+      positions: polygons.flat(2).length,
+    }));
+  },
+});
+
+/**
+ * Create or replace a city's limits or ETJ
+ */
+export const replace = mutation({
+  args: {
+    jurisdictionId: v.string(),
+    name: v.string(),
+    kind: boundaryKindValidator,
+    polygons: v.array(v.array(v.array(v.array(v.number())))),
+    bbox: v.array(v.number()),
+    source: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('boundaries')
+      .withIndex('by_jurisdiction_kind', (q) =>
+        q.eq('jurisdictionId', args.jurisdictionId).eq('kind', args.kind)
+      )
+      .unique();
+
+    if (existing) {
+      await ctx.db.replace(existing._id, { ...args, loadedAt: Date.now() });
+      return existing._id;
+    }
+    return await ctx.db.insert('boundaries', {
+      ...args,
+      loadedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Delete a city's boundaries (both kinds unless one is given)
+ */
+export const remove = mutation({
+  args: {
+    jurisdictionId: v.string(),
+    kind: v.optional(boundaryKindValidator),
+  },
+  handler: async (ctx, args) => {
+    const boundaries = await ctx.db
+      .query('boundaries')
+      .withIndex('by_jurisdiction_kind', (q) =>
+        args.kind
+          ? q.eq('jurisdictionId', args.jurisdictionId).eq('kind', args.kind)
+          : q.eq('jurisdictionId', args.jurisdictionId)
+      )
+      .collect();
+
+    for (const boundary of boundaries) {
+      await ctx.db.delete(boundary._id);
+    }
+    return boundaries.length;
+  },
+});
+
+/**
+ * Classify geocoded coordinates against the loaded boundaries
+ *
+ * @param lat - Latitude
+ * @param lng - Longitude
+ * @param postalCityId - Jurisdiction ID of the city Geocodio returned
+ * @returns Incorporation, containing city, and ETJ city (see classifyPoint)
+ */
+export const classify = internalQuery({
+  args: {
+    lat: v.number(),
+    lng: v.number(),
+    postalCityId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const boundaries = await ctx.db.query('boundaries').collect();
+    return classifyPoint(
+      { lat: args.lat, lng: args.lng },
+      boundaries,
+      args.postalCityId
+    );
+  },
+});
@@ -0,0 +1,234 @@
+import { v } from 'convex/values';
+import { query, mutation } from './_generated/server';
+import type { Doc } from './_generated/dataModel';
+import { diffSegmentValidator } from './query/validators';
+import { subscriptionTarget, isAffectedAnswer } from './lib/changes';
+import type { ChangeFeedItem } from './query/types';
+
+/**
+ * Changes: citation subscriptions and the regulatory change feed
+ *
+ * Ingestion runs record section-level change events (with a redline diff)
+ * via recordChanges; users subscribe to a section or a whole part/chapter
+ * by citation and read the matching events with feed.
+ */
+
+/** Default number of feed entries */
+const DEFAULT_FEED_LIMIT = 50;
+
+/** Recent answers scanned for ones that used a changed section */
+const AFFECTED_ANSWER_SCAN = 500;
+
+/** Affected answers listed per feed entry */
+const MAX_AFFECTED_ANSWERS = 10;
+
+/**
+ * Record change events from an ingestion run
+ *
+ * Called by the data pipeline workers (apps/workers/src/lib/changes.ts).
+ * An event identical to the latest one for its section (e.g. from a
+ * retried workflow step) is skipped.
+ */
+export const recordChanges = mutation({
+  args: {
+    events: v.array(
+      v.object({
+        sourceKey: v.string(),
+        sourceType: v.union(
+          v.literal('federal'),
+          v.literal('state'),
+          v.literal('county'),
+          v.literal('municipal')
+        ),
+        jurisdiction: v.string(),
+        sectionKey: v.string(),
+        chapterKey: v.string(),
+        citation: v.string(),
+        heading: v.optional(v.string()),
+        changeType: v.union(
+          v.literal('added'),
+          v.literal('modified'),
+          v.literal('removed')
+        ),
+        diff: v.array(diffSegmentValidator),
+      })
+    ),
+    detectedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    let recorded = 0;
+
+    for (const event of args.events) {
+      const latest = await ctx.db
+        .query('changeEvents')
+        .withIndex('by_section', (q) => q.eq('sectionKey', event.sectionKey))
+        .order('desc')
+        .first();
+      if (
+        latest &&
+        latest.changeType === event.changeType &&
+        JSON.stringify(latest.diff) === JSON.stringify(event.diff)
+      ) {
+        continue;
+      }
+
+      await ctx.db.insert('changeEvents', {
+        ...event,
+        detectedAt: args.detectedAt,
+      });
+      recorded++;
+    }
+
+    return { recorded };
+  },
+});
+
+/**
+ * Subscribe a user to changes of a cited section or part/chapter
+ *
+ * @throws Error if the citation isn't recognized
+ */
+export const subscribe = mutation({
+  args: {
+    userId: v.string(),
+    citation: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const target = subscriptionTarget(args.citation);
+    if (!target) {
+      throw new Error(`Unrecognized citation: ${args.citation}`);
+    }
+
+    const existing = await ctx.db
+      .query('subscriptions')
+      .withIndex('by_user_target', (q) =>
+        q.eq('userId', args.userId).eq('targetKey', target.targetKey)
+      )
+      .first();
+    if (existing) {
+      return existing._id;
+    }
+
+    return await ctx.db.insert('subscriptions', {
+      userId: args.userId,
+      citation: args.citation.trim(),
+      targetKey: target.targetKey,
+      scope: target.scope,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Remove a subscription
+ */
+export const unsubscribe = mutation({
+  args: { id: v.id('subscriptions') },
+  handler: async (ctx, args) => {
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * List a user's subscriptions (newest first)
+ */
+export const listSubscriptions = query({
+  args: { userId: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('subscriptions')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .order('desc')
+      .collect();
+  },
+});
+
+/**
+ * Change feed for a user's subscriptions (newest first)
+ *
+ * Each entry carries the redline diff and the recent answers that were
+ * generated from the section before it changed.
+ */
+export const feed = query({
+  args: {
+    userId: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<ChangeFeedItem[]> => {
+    const limit = args.limit ?? DEFAULT_FEED_LIMIT;
+    const subscriptions = await ctx.db
+      .query('subscriptions')
+      .withIndex('by_user', (q) => q.eq('userId', args.userId))
+      .collect();
+
+    // Newest events per subscription, merged (a section can match a
+    // section and a chapter subscription)
+    const events = new Map<
+      string,
+      { event: Doc<'changeEvents'>; subscriptions: string[] }
+    >();
+    for (const subscription of subscriptions) {
+      const matches =
+        subscription.scope === 'section'
+          ? await ctx.db
+              .query('changeEvents')
+              .withIndex('by_section', (q) =>
+                q.eq('sectionKey', subscription.targetKey)
+              )
+              .order('desc')
+              .take(limit)
+          : await ctx.db
+              .query('changeEvents')
+              .withIndex('by_chapter', (q) =>
+                q.eq('chapterKey', subscription.targetKey)
+              )
+              .order('desc')
+              .take(limit);
+
+      for (const event of matches) {
+        const entry = events.get(event._id) ?? { event, subscriptions: [] };
+        entry.subscriptions.push(subscription.citation);
+        events.set(event._id, entry);
+      }
+    }
+
+    const entries = [...events.values()]
+      .sort((a, b) => b.event.detectedAt - a.event.detectedAt)
+      .slice(0, limit);
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const answers = (
+      await ctx.db
+        .query('messages')
+        .withIndex('by_status', (q) => q.eq('status', 'complete'))
+        .order('desc')
+        .take(AFFECTED_ANSWER_SCAN)
+    ).filter((m) => m.role === 'assistant' && m.retrievedChunkIds?.length);
+
+    return entries.map(({ event, subscriptions: matched }) => ({
+      eventId: event._id,
+      citation: event.citation,
+      heading: event.heading,
+      sourceType: event.sourceType,
+      jurisdiction: event.jurisdiction,
+      changeType: event.changeType,
+      diff: event.diff,
+      subscriptions: matched,
+      affectedAnswers: answers
+        .filter(
+          (m) =>
+            m.createdAt < event.detectedAt &&
+            isAffectedAnswer(m.retrievedChunkIds!, event.sectionKey)
+        )
+        .slice(0, MAX_AFFECTED_ANSWERS)
+        .map((m) => ({
+          messageId: m._id,
+          conversationId: m.conversationId,
+          createdAt: m.createdAt,
+        })),
+      detectedAt: event.detectedAt,
+    }));
+  },
+});
@@ -0,0 +1,131 @@
+import { v } from 'convex/values';
+import { query, mutation, internalMutation } from './_generated/server';
+import { checklistItemValidator } from './query/validators';
+
+/**
+ * Checklists: new-store opening checklists
+ *
+ * Created by the checklist generator (actions/checklist.ts); teams then
+ * check items off as permits are obtained.
+ */
+
+/**
+ * List checklists, optionally for a user or an address (newest first)
+ */
+export const list = query({
+  args: {
+    userId: v.optional(v.string()),
+    address: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    if (args.userId !== undefined) {
+      return await ctx.db
+        .query('checklists')
+        .withIndex('by_user', (q) => q.eq('userId', args.userId))
+        .order('desc')
+        .collect();
+    }
+
+    if (args.address !== undefined) {
+      return await ctx.db
+        .query('checklists')
+        .withIndex('by_address', (q) => q.eq('address', args.address!))
+        .order('desc')
+        .collect();
+    }
+
+    return await ctx.db.query('checklists').order('desc').collect();
+  },
+});
+
+/**
+ * Get a single checklist by ID
+ */
+export const get = query({
+  args: { id: v.id('checklists') },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id);
+  },
+});
+
+/**
+ * Check an item off (or un-check it)
+ */
+export const setItemCompleted = mutation({
+  args: {
+    id: v.id('checklists'),
+    itemKey: v.string(),
+    completed: v.boolean(),
+    userId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const checklist = await ctx.db.get(args.id);
+    if (!checklist) {
+      throw new Error(`Checklist not found: ${args.id}`);
+    }
+    if (!checklist.items.some((item) => item.key === args.itemKey)) {
+      throw new Error(`Checklist item not found: ${args.itemKey}`);
+    }
+
+    const now = Date.now();
+    const items = checklist.items.map((item) => {
+      if (item.key !== args.itemKey) {
+        return item;
+      }
+      return args.completed
+        ? {
+            ...item,
+            completed: true,
+            completedAt: now,
+            completedBy: args.userId,
+          }
+        : {
+            ...item,
+            completed: false,
+            completedAt: undefined,
+            completedBy: undefined,
+          };
+    });
+
+    await ctx.db.patch(args.id, { items, updatedAt: now });
+  },
+});
+
+/**
+ * Delete a checklist
+ */
+export const remove = mutation({
+  args: { id: v.id('checklists') },
+  handler: async (ctx, args) => {
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Save a generated checklist
+ */
+export const save = internalMutation({
+  args: {
+    userId: v.optional(v.string()),
+    address: v.string(),
+    jurisdictions: v.array(v.string()),
+    activities: v.array(
+      v.object({
+        group: v.string(),
+        activity: v.optional(v.string()),
+        label: v.string(),
+      })
+    ),
+    items: v.array(checklistItemValidator),
+    processingTimeMs: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    return await ctx.db.insert('checklists', {
+      ...args,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
@@ -0,0 +1,16 @@
+import { cronJobs } from 'convex/server';
+import { internal } from './_generated/api';
+
+/**
+ * Scheduled jobs
+ */
+const crons = cronJobs();
+
+// Remove expired answer cache entries
+crons.hourly(
+  'purge expired answer cache',
+  { minuteUTC: 0 },
+  internal.answerCache.purgeExpired
+);
+
+export default crons;
@@ -1,4 +1,5 @@
 import { v } from 'convex/values';
+import { cityJurisdictionId } from '@compliance-iq/shared-types';
 import { query, mutation } from './_generated/server';
 
 /**
@@ -355,7 +356,7 @@ export const listTexasCities = query({
         name: city.name,
         cityId: city.cityId,
         platform: city.platform,
-        jurisdictionId: `TX-${city.cityId}`,
+        jurisdictionId: cityJurisdictionId('TX', city.cityId),
         covered: !!jurisdiction,
         lastScrapedAt: jurisdiction?.lastScrapedAt,
         vectorCount: jurisdiction?.vectorCount || 0,
@@ -395,7 +396,7 @@ export const updateCityStatus = mutation({
       .first();
 
     const city = TARGET_CITIES.find((c) => c.cityId === cityId);
-    const jurisdictionId = `TX-${cityId}`;
+    const jurisdictionId = cityJurisdictionId('TX', cityId);
 
     if (existing) {
       // Update existing record
@@ -452,7 +453,7 @@ export const getCityByCityId = query({
       name: city?.name || `City ${args.cityId}`,
       cityId: args.cityId,
       platform: city?.platform,
-      jurisdictionId: `TX-${args.cityId}`,
+      jurisdictionId: cityJurisdictionId('TX', args.cityId),
       covered: !!jurisdiction,
       status: jurisdiction?.status || 'pending',
       lastScrapedAt: jurisdiction?.lastScrapedAt,
@@ -0,0 +1,472 @@
+import type { ActivityGroupId, DetectedActivity } from '../query/types';
+
+/**
+ * Business Activity Taxonomy
+ *
+ * Costco business activities (PRD `costco_business_activities`) mapped to the
+ * regulatory `category` tags the ingestion pipelines put on chunks (e.g.
+ * TARGET_TITLES in apps/workers/src/federal/types.ts). Questions are
+ * classified into activities by keyword before retrieval, and the activities'
+ * categories boost (or filter) matching chunks in retrieveChunks.
+ */
+
+/**
+ * A specific business activity (e.g., beer sales)
+ */
+export interface ActivityDefinition {
+  /** Activity identifier (e.g., "beer_sales") */
+  id: string;
+  /** Display label */
+  label: string;
+  /** Keywords and phrases that indicate the activity (lowercase) */
+  keywords: string[];
+  /** Categories in addition to the group's categories */
+  categories?: string[];
+}
+
+/**
+ * A business activity group (e.g., alcohol)
+ */
+export interface ActivityGroup {
+  /** Group identifier (e.g., "alcohol") */
+  id: ActivityGroupId;
+  /** Display label */
+  label: string;
+  /** Keywords that indicate the group without a specific activity */
+  keywords: string[];
+  /** Chunk categories regulating every activity in the group */
+  categories: string[];
+  /** Activities in the group */
+  activities: ActivityDefinition[];
+}
+
+/**
+ * Costco business activity taxonomy
+ */
+export const ACTIVITY_TAXONOMY: ActivityGroup[] = [
+  {
+    id: 'food_retail',
+    label: 'Food Retail',
+    keywords: [
+      'grocery',
+      'food retail',
+      'food sales',
+      'sell food',
+      'retail food',
+    ],
+    categories: ['food-retail', 'food-safety'],
+    activities: [
+      {
+        id: 'fresh_produce',
+        label: 'Fresh Produce',
+        keywords: ['produce', 'fruit', 'vegetable'],
+      },
+      {
+        id: 'fresh_meat_poultry',
+        label: 'Fresh Meat & Poultry',
+        keywords: ['meat', 'poultry', 'butcher', 'beef', 'pork'],
+      },
+      {
+        id: 'fresh_seafood',
+        label: 'Fresh Seafood',
+        keywords: ['seafood', 'fish', 'shellfish'],
+      },
+      {
+        id: 'frozen_foods',
+        label: 'Frozen Foods',
+        keywords: ['frozen food', 'freezer'],
+      },
+      {
+        id: 'bakery',
+        label: 'Bakery',
+        keywords: ['bakery', 'baked goods', 'bread'],
+      },
+      {
+        id: 'deli_prepared_foods',
+        label: 'Deli & Prepared Foods',
+        keywords: ['deli', 'prepared food', 'ready-to-eat'],
+      },
+      {
+        id: 'dairy',
+        label: 'Dairy',
+        keywords: ['dairy', 'milk', 'cheese', 'egg'],
+      },
+      {
+        id: 'packaged_goods',
+        label: 'Packaged Goods',
+        keywords: ['packaged food', 'food label', 'nutrition label'],
+      },
+    ],
+  },
+  {
+    id: 'food_service',
+    label: 'Food Service',
+    keywords: [
+      'food service',
+      'food court',
+      'restaurant',
+      'food establishment',
+      'food handler',
+    ],
+    categories: ['food-safety', 'health'],
+    activities: [
+      {
+        id: 'food_court_hot_food',
+        label: 'Food Court Hot Food',
+        keywords: ['hot food', 'hot dog', 'cooking'],
+      },
+      {
+        id: 'food_court_pizza',
+        label: 'Food Court Pizza',
+        keywords: ['pizza'],
+      },
+      {
+        id: 'sushi_preparation',
+        label: 'Sushi Preparation',
+        keywords: ['sushi', 'raw fish', 'acidified rice'],
+      },
+      {
+        id: 'rotisserie_chicken',
+        label: 'Rotisserie Chicken',
+        keywords: ['rotisserie'],
+      },
+      { id: 'cake_decorating', label: 'Cake Decorating', keywords: ['cake'] },
+    ],
+  },
+  {
+    id: 'alcohol',
+    label: 'Alcohol',
+    keywords: ['alcohol', 'alcoholic', 'liquor', 'tabc', 'ttb'],
+    categories: ['alcohol', 'licensing'],
+    activities: [
+      {
+        id: 'beer_sales',
+        label: 'Beer Sales',
+        keywords: ['beer', 'malt beverage'],
+      },
+      { id: 'wine_sales', label: 'Wine Sales', keywords: ['wine'] },
+      {
+        id: 'spirits_sales',
+        label: 'Spirits Sales',
+        keywords: ['spirits', 'distilled spirits', 'whiskey', 'vodka'],
+      },
+      {
+        id: 'alcohol_tastings',
+        label: 'Alcohol Tastings',
+        keywords: ['tasting', 'sampling'],
+      },
+    ],
+  },
+  {
+    id: 'pharmacy',
+    label: 'Pharmacy',
+    keywords: ['pharmacy', 'pharmacist', 'drug', 'medication'],
+    categories: ['pharmacy'],
+    activities: [
+      {
+        id: 'prescription_dispensing',
+        label: 'Prescription Dispensing',
+        keywords: ['prescription', 'dispensing', 'dispense'],
+      },
+      {
+        id: 'controlled_substances',
+        label: 'Controlled Substances',
+        keywords: ['controlled substance', 'dea', 'schedule ii', 'opioid'],
+        categories: ['criminal'],
+      },
+      {
+        id: 'immunizations',
+        label: 'Immunizations',
+        keywords: ['immunization', 'vaccine', 'vaccination', 'flu shot'],
+      },
+      {
+        id: 'compounding',
+        label: 'Compounding',
+        keywords: ['compounding', 'compound'],
+      },
+    ],
+  },
+  {
+    id: 'optical',
+    label: 'Optical',
+    keywords: ['optical', 'vision center'],
+    categories: ['professional-regulation', 'licensing'],
+    activities: [
+      {
+        id: 'eyeglass_sales',
+        label: 'Eyeglass Sales',
+        keywords: ['eyeglass', 'glasses', 'spectacle', 'optician'],
+      },
+      {
+        id: 'contact_lens_sales',
+        label: 'Contact Lens Sales',
+        keywords: ['contact lens'],
+      },
+      {
+        id: 'optometry_services',
+        label: 'Optometry Services',
+        keywords: ['optometry', 'optometrist', 'eye exam'],
+      },
+    ],
+  },
+  {
+    id: 'hearing',
+    label: 'Hearing',
+    keywords: ['hearing center'],
+    categories: ['professional-regulation', 'licensing'],
+    activities: [
+      {
+        id: 'hearing_aid_sales',
+        label: 'Hearing Aid Sales',
+        keywords: ['hearing aid', 'hearing instrument'],
+      },
+      {
+        id: 'hearing_tests',
+        label: 'Hearing Tests',
+        keywords: ['hearing test', 'audiometric', 'audiologist'],
+      },
+    ],
+  },
+  {
+    id: 'fuel',
+    label: 'Fuel',
+    keywords: ['fuel', 'gas station', 'fueling'],
+    categories: ['fuel', 'hazmat', 'environmental'],
+    activities: [
+      {
+        id: 'gasoline_retail',
+        label: 'Gasoline Retail',
+        keywords: ['gasoline', 'gas pump', 'vapor recovery'],
+      },
+      { id: 'diesel_retail', label: 'Diesel Retail', keywords: ['diesel'] },
+      {
+        id: 'underground_storage_tanks',
+        label: 'Underground Storage Tanks',
+        keywords: ['underground storage tank', 'ust', 'storage tank'],
+        categories: ['water'],
+      },
+    ],
+  },
+  {
+    id: 'tire_service',
+    label: 'Tire Service',
+    keywords: ['tire center', 'auto service'],
+    categories: ['environmental', 'hazmat'],
+    activities: [
+      {
+        id: 'tire_sales',
+        label: 'Tire Sales',
+        keywords: ['tire sale', 'sell tire'],
+        categories: ['consumer-protection'],
+      },
+      {
+        id: 'tire_installation',
+        label: 'Tire Installation',
+        keywords: ['tire installation', 'install tire', 'mount tire'],
+      },
+      {
+        id: 'tire_disposal',
+        label: 'Tire Disposal',
+        keywords: ['scrap tire', 'used tire', 'tire disposal', 'waste tire'],
+      },
+    ],
+  },
+  {
+    id: 'photo',
+    label: 'Photo',
+    keywords: ['photo center'],
+    categories: ['consumer-protection'],
+    activities: [
+      {
+        id: 'photo_processing',
+        label: 'Photo Processing',
+        keywords: ['photo processing', 'photo printing', 'film developing'],
+        categories: ['hazmat'],
+      },
+      {
+        id: 'passport_photos',
+        label: 'Passport Photos',
+        keywords: ['passport photo'],
+      },
+    ],
+  },
+  {
+    id: 'general_operations',
+    label: 'General Operations',
+    keywords: [],
+    categories: [],
+    activities: [
+      {
+        id: 'employment',
+        label: 'Employment',
+        keywords: [
+          'employee',
+          'employment',
+          'wage',
+          'overtime',
+          'hiring',
+          'osha',
+        ],
+        categories: ['employment'],
+      },
+      {
+        id: 'signage',
+        label: 'Signage',
+        keywords: ['sign', 'signage', 'billboard'],
+        categories: ['building', 'municipal-ordinance'],
+      },
+      {
+        id: 'parking',
+        label: 'Parking',
+        keywords: ['parking', 'parking lot'],
+        categories: ['building', 'transportation', 'municipal-ordinance'],
+      },
+      {
+        id: 'waste_disposal',
+        label: 'Waste Disposal',
+        keywords: ['waste', 'recycling', 'trash', 'garbage'],
+        categories: ['environmental', 'hazmat'],
+      },
+      {
+        id: 'fire_safety',
+        label: 'Fire Safety',
+        keywords: ['fire code', 'fire safety', 'sprinkler', 'fire marshal'],
+        categories: ['building'],
+      },
+      {
+        id: 'accessibility',
+        label: 'Accessibility',
+        keywords: ['accessibility', 'ada', 'wheelchair', 'accessible'],
+        categories: ['building'],
+      },
+      {
+        id: 'firearms_on_premises',
+        label: 'Firearms on Premises',
+        keywords: [
+          'firearm',
+          'gun',
+          'handgun',
+          'concealed carry',
+          'open carry',
+          '30.06',
+          '30.07',
+        ],
+        categories: ['firearms', 'criminal'],
+      },
+    ],
+  },
+];
+
+/**
+ * Classify a question into business activities
+ *
+ * Matches taxonomy keywords (whole words, optional plural) against the
+ * question. A group is reported on its own only when none of its specific
+ * activities matched.
+ *
+ * @param question - Question or standalone retrieval query
+ * @returns Detected activities in taxonomy order
+ *
+ * @example
+ * ```ts
+ * classifyActivities('Can we hold wine tastings at the Austin warehouse?')
+ * // => [
+ * //   { group: 'alcohol', activity: 'wine_sales', label: 'Wine Sales', ... },
+ * //   { group: 'alcohol', activity: 'alcohol_tastings', label: 'Alcohol Tastings', ... },
+ * // ]
+ * ```
+ */
+export function classifyActivities(question: string): DetectedActivity[] {
+  const text = question.toLowerCase();
+  const detected: DetectedActivity[] = [];
+
+  for (const group of ACTIVITY_TAXONOMY) {
+    const groupTerms = matchKeywords(text, group.keywords);
+    const activities = group.activities.flatMap((activity) => {
+      const terms = matchKeywords(text, activity.keywords);
+      return terms.length > 0 ? [{ activity, terms }] : [];
+    });
+
+    for (const { activity, terms } of activities) {
+      detected.push(toDetectedActivity(group, activity, terms));
+    }
+
+    if (activities.length === 0 && groupTerms.length > 0) {
+      detected.push(toDetectedActivity(group, undefined, groupTerms));
+    }
+  }
+
+  return detected;
+}
+
+/**
+ * Look up taxonomy activities or groups by identifier
+ *
+ * @param ids - Activity (e.g., "beer_sales") or group (e.g., "pharmacy") identifiers
+ * @returns Activities in the given order (matchedTerms empty)
+ * @throws Error if an identifier is not in the taxonomy
+ *
+ * @example
+ * ```ts
+ * resolveActivities(['beer_sales', 'pharmacy'])
+ * // => [
+ * //   { group: 'alcohol', activity: 'beer_sales', label: 'Beer Sales', ... },
+ * //   { group: 'pharmacy', label: 'Pharmacy', categories: ['pharmacy'], ... },
+ * // ]
+ * ```
+ */
+export function resolveActivities(ids: string[]): DetectedActivity[] {
+  return ids.map((id) => {
+    for (const group of ACTIVITY_TAXONOMY) {
+      if (group.id === id) {
+        return toDetectedActivity(group);
+      }
+
+      const activity = group.activities.find((a) => a.id === id);
+      if (activity) {
+        return toDetectedActivity(group, activity);
+      }
+    }
+
+    throw new Error(`Unknown business activity: ${id}`);
+  });
+}
+
+/**
+ * Union of the regulatory categories of detected activities
+ *
+ * @param activities - Activities from classifyActivities
+ * @returns Distinct chunk categories
+ */
+export function activityCategories(activities: DetectedActivity[]): string[] {
+  return [...new Set(activities.flatMap((activity) => activity.categories))];
+}
+
+/**
+ * Build a DetectedActivity for a group or one of its activities
+ */
+function toDetectedActivity(
+  group: ActivityGroup,
+  activity?: ActivityDefinition,
+  matchedTerms: string[] = []
+): DetectedActivity {
+  return {
+    group: group.id,
+    activity: activity?.id,
+    label: activity?.label ?? group.label,
+    categories: [
+      ...new Set([...group.categories, ...(activity?.categories ?? [])]),
+    ],
+    matchedTerms,
+  };
+}
+
+/**
+ * Keywords found in text as whole words (allowing a plural suffix)
+ */
+function matchKeywords(text: string, keywords: string[]): string[] {
+  return keywords.filter((keyword) => {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${escaped}(?:s|es)?\\b`).test(text);
+  });
+}
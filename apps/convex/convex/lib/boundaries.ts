@@ -0,0 +1,390 @@
+import {
+  canonicalJurisdictionId,
+  cityJurisdictionId,
+  getJurisdiction,
+} from '@compliance-iq/shared-types';
+import type {
+  EtjCity,
+  Incorporation,
+  JurisdictionResult,
+} from '../query/types';
+
+/**
+ * City Limits and ETJ Boundaries
+ *
+ * Texas county ordinances mostly apply outside city limits, and cities
+ * regulate some land outside their limits through their extraterritorial
+ * jurisdiction (ETJ). The city Geocodio returns is the postal city, which
+ * says neither, so geocoded points are checked against boundary polygons:
+ * - inside a city's limits: incorporated in that city
+ * - outside the limits: unincorporated, so the city layer is dropped from
+ *   retrieval, and the ETJ (if any) is noted in the prompt
+ *
+ * Boundary data is supplied as a GeoJSON file (one Polygon or MultiPolygon
+ * feature per city and kind) loaded into the boundaries table with
+ * scripts/load-boundaries.ts. Points outside all loaded data stay
+ * undetermined and keep the postal city.
+ */
+
+export type BoundaryKind = 'city_limits' | 'etj';
+
+/** [lng, lat] */
+export type Position = number[];
+
+/** GeoJSON MultiPolygon coordinates: polygons -> rings (outer first, then holes) -> positions */
+export type MultiPolygon = Position[][][];
+
+/**
+ * One city's limits or ETJ
+ */
+export interface Boundary {
+  /** Canonical city jurisdiction ID (e.g., "TX-houston") */
+  jurisdictionId: string;
+  /** City name (e.g., "Houston") */
+  name: string;
+  kind: BoundaryKind;
+  polygons: MultiPolygon;
+  /** [minLng, minLat, maxLng, maxLat] */
+  bbox: number[];
+}
+
+/**
+ * Where a point lies relative to the loaded boundaries
+ */
+export interface BoundaryClassification {
+  /** Unset when no loaded boundary data covers the point */
+  incorporation?: Incorporation;
+  /** City whose limits contain the point */
+  city?: EtjCity;
+  /** City whose ETJ contains the point (unincorporated only) */
+  etj?: EtjCity;
+}
+
+/**
+ * Most vertices kept per ring; longer rings are thinned when loaded so
+ * documents stay within Convex array and size limits
+ */
+export const MAX_RING_POSITIONS = 2000;
+
+const BOUNDARY_KINDS: BoundaryKind[] = ['city_limits', 'etj'];
+
+/**
+ * Parse a boundary GeoJSON FeatureCollection
+ *
+ * Each feature needs `properties.kind` ("city_limits" or "etj") and the
+ * city as `properties.jurisdictionId` (any ID or alias the registry knows)
+ * or `properties.city` (a name); `properties.name` overrides the display
+ * name. Features for the same city and kind are merged.
+ *
+ * @param geojson - Parsed GeoJSON
+ * @param stateCode - State of cities given by name
+ * @returns One boundary per city and kind
+ * @throws Error naming the first invalid feature
+ *
+ * @example
+ * ```ts
+ * parseBoundaryGeoJson({
+ *   type: 'FeatureCollection',
+ *   features: [{
+ *     type: 'Feature',
+ *     properties: { city: 'Houston', kind: 'etj' },
+ *     geometry: { type: 'Polygon', coordinates: [[[-95.9, 29.5], ...]] },
+ *   }],
+ * });
+ * // => [{ jurisdictionId: 'TX-houston', name: 'Houston', kind: 'etj', ... }]
+ * ```
+ */
+export function parseBoundaryGeoJson(
+  geojson: unknown,
+  stateCode = 'TX'
+): Boundary[] {
+  const collection = geojson as { type?: unknown; features?: unknown };
+  if (
+    !collection ||
+    collection.type !== 'FeatureCollection' ||
+    !Array.isArray(collection.features)
+  ) {
+    throw new Error('Boundary data must be a GeoJSON FeatureCollection');
+  }
+
+  const byKey = new Map<string, Boundary>();
+  collection.features.forEach((feature: unknown, i: number) => {
+    const { properties, geometry } = (feature ?? {}) as {
+      properties?: Record<string, unknown>;
+      geometry?: { type?: unknown; coordinates?: unknown };
+    };
+
+    const kind = properties?.['kind'];
+    if (!BOUNDARY_KINDS.includes(kind as BoundaryKind)) {
+      throw new Error(
+        `Feature ${i}: properties.kind must be one of ${BOUNDARY_KINDS.join(', ')}`
+      );
+    }
+
+    const id = properties?.['jurisdictionId'];
+    const city = properties?.['city'];
+    const jurisdictionId =
+      typeof id === 'string' && id.trim()
+        ? canonicalJurisdictionId(id)
+        : typeof city === 'string' && city.trim()
+          ? cityJurisdictionId(stateCode, city)
+          : undefined;
+    if (!jurisdictionId) {
+      throw new Error(
+        `Feature ${i}: properties.jurisdictionId or properties.city is required`
+      );
+    }
+
+    const polygons = toMultiPolygon(geometry);
+    if (!polygons) {
+      throw new Error(
+        `Feature ${i}: geometry must be a Polygon or MultiPolygon`
+      );
+    }
+
+    const label = properties?.['name'];
+    const name =
+      typeof label === 'string' && label.trim()
+        ? label.trim()
+        : (getJurisdiction(jurisdictionId)?.name ??
+          (typeof city === 'string' ? city.trim() : jurisdictionId));
+
+    const key = `${jurisdictionId}|${kind}`;
+    const existing = byKey.get(key);
+    const merged = [...(existing?.polygons ?? []), ...polygons];
+    byKey.set(key, {
+      jurisdictionId,
+      name: existing?.name ?? name,
+      kind: kind as BoundaryKind,
+      polygons: merged,
+      bbox: boundingBox(merged),
+    });
+  });
+
+  return [...byKey.values()];
+}
+
+/**
+ * Whether a point lies inside a MultiPolygon (even-odd rule; holes excluded)
+ *
+ * @param point - Coordinates to test
+ * @param polygons - MultiPolygon coordinates ([lng, lat] positions)
+ */
+export function containsPoint(
+  point: { lat: number; lng: number },
+  polygons: MultiPolygon
+): boolean {
+  return polygons.some((rings) => {
+    let inside = false;
+    for (const ring of rings) {
+      if (ringContains(ring, point.lng, point.lat)) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  });
+}
+
+/**
+ * Classify a point against the loaded boundaries
+ *
+ * Inside a city's limits is incorporated (the postal city wins when limits
+ * overlap in the data). Outside all limits is unincorporated when the
+ * point is in an ETJ or the postal city's limits are loaded; otherwise the
+ * data doesn't cover the point and incorporation is left unset.
+ *
+ * @param point - Geocoded coordinates
+ * @param boundaries - Loaded boundaries
+ * @param postalCityId - Jurisdiction ID of the city Geocodio returned
+ * @returns Classification of the point
+ */
+export function classifyPoint(
+  point: { lat: number; lng: number },
+  boundaries: Boundary[],
+  postalCityId?: string
+): BoundaryClassification {
+  const containing = boundaries.filter(
+    (boundary) =>
+      inBoundingBox(point, boundary.bbox) &&
+      containsPoint(point, boundary.polygons)
+  );
+  const toCity = (boundary: Boundary): EtjCity => ({
+    jurisdictionId: boundary.jurisdictionId,
+    name: boundary.name,
+  });
+
+  const limits = containing.filter((b) => b.kind === 'city_limits');
+  if (limits.length > 0) {
+    const city =
+      limits.find((b) => b.jurisdictionId === postalCityId) ?? limits[0]!;
+    return { incorporation: 'incorporated', city: toCity(city) };
+  }
+
+  const etj = containing.find((b) => b.kind === 'etj');
+  const postalCityLoaded = boundaries.some(
+    (b) => b.kind === 'city_limits' && b.jurisdictionId === postalCityId
+  );
+  if (etj || postalCityLoaded) {
+    return {
+      incorporation: 'unincorporated',
+      etj: etj ? toCity(etj) : undefined,
+    };
+  }
+  return {};
+}
+
+/**
+ * Apply a boundary classification to a geocoding result
+ *
+ * Incorporated results take the containing city as their municipal
+ * jurisdiction (it can differ from the postal city); unincorporated
+ * results lose the municipal jurisdiction and record the ETJ city.
+ *
+ * @param result - Result of geocodeAddress
+ * @param classification - Result of classifyPoint
+ * @returns Updated result (unchanged if the classification is empty)
+ */
+export function applyBoundaryClassification(
+  result: JurisdictionResult,
+  classification: BoundaryClassification
+): JurisdictionResult {
+  const { incorporation, city, etj } = classification;
+  if (!incorporation) {
+    return result;
+  }
+
+  const nonMunicipal = result.jurisdictions.filter(
+    (id) => !isMunicipalJurisdictionId(id)
+  );
+
+  if (incorporation === 'incorporated' && city) {
+    return {
+      ...result,
+      jurisdictions: [...nonMunicipal, city.jurisdictionId],
+      city: city.name,
+      cityId: city.jurisdictionId.replace(/^[A-Z]{2}-/, ''),
+      incorporation,
+      etj: undefined,
+    };
+  }
+
+  return {
+    ...result,
+    jurisdictions: nonMunicipal,
+    city: undefined,
+    cityId: undefined,
+    incorporation: 'unincorporated',
+    etj,
+  };
+}
+
+/**
+ * Whether a canonical jurisdiction ID is a city ("TX-houston", not "TX-48201")
+ */
+export function isMunicipalJurisdictionId(id: string): boolean {
+  return /^[A-Z]{2}-/.test(id) && !/^[A-Z]{2}-\d{5}$/.test(id);
+}
+
+/**
+ * Polygon or MultiPolygon geometry as MultiPolygon coordinates (rings
+ * thinned to MAX_RING_POSITIONS), or null if invalid
+ */
+function toMultiPolygon(
+  geometry:
+    | {
+        type?: unknown;
+        coordinates?: unknown;
+      }
+    | undefined
+): MultiPolygon | null {
+  const polygons =
+    geometry?.type === 'Polygon'
+      ? [geometry.coordinates]
+      : geometry?.type === 'MultiPolygon'
+        ? geometry.coordinates
+        : undefined;
+  if (!Array.isArray(polygons) || polygons.length === 0) {
+    return null;
+  }
+
+  const isPosition = (p: unknown) =>
+    Array.isArray(p) &&
+    p.length >= 2 &&
+    typeof p[0] === 'number' &&
+    typeof p[1] === 'number';
+  const valid = polygons.every(
+    (rings) =>
+      Array.isArray(rings) &&
+      rings.length > 0 &&
+      rings.every(
+        (ring) =>
+          Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition)
+      )
+  );
+  if (!valid) {
+    return null;
+  }
+
+  return (polygons as Position[][][]).map((rings) =>
+    rings.map((ring) => thinRing(ring.map(([lng, lat]) => [lng!, lat!])))
+  );
+}
+
+/**
+ * Keep every nth vertex of a long ring (closing vertex kept)
+ */
+function thinRing(ring: Position[]): Position[] {
+  if (ring.length <= MAX_RING_POSITIONS) {
+    return ring;
+  }
+  const step = Math.ceil(ring.length / (MAX_RING_POSITIONS - 1));
+  const thinned = ring.filter((_, i) => i % step === 0);
+  thinned.push(ring[ring.length - 1]!);
+  return thinned;
+}
+
+function boundingBox(polygons: MultiPolygon): number[] {
+  const positions = polygons.flat(2);
+  const lngs = positions.map((p) => p[0]!);
+  const lats = positions.map((p) => p[1]!);
+  return [
+    Math.min(...lngs),
+    Math.min(...lats),
+    Math.max(...lngs),
+    Math.max(...lats),
+  ];
+}
+
+function inBoundingBox(
+  point: { lat: number; lng: number },
+  bbox: number[]
+): boolean {
+  const [minLng, minLat, maxLng, maxLat] = bbox as [
+    number,
+    number,
+    number,
+    number,
+  ];
+  return (
+    point.lng >= minLng &&
+    point.lng <= maxLng &&
+    point.lat >= minLat &&
+    point.lat <= maxLat
+  );
+}
+
+/**
+ * Ray casting: whether a horizontal ray from (x, y) crosses the ring an odd
+ * number of times
+ */
+function ringContains(ring: Position[], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i] as [number, number];
+    const [xj, yj] = ring[j] as [number, number];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,70 @@
+/**
+ * Answer Cache Keys
+ *
+ * Key derivation and policy constants for the query-level answer cache
+ * (see ../answerCache.ts). Cache entries are scoped by index version and
+ * jurisdiction set, and matched by normalized question text or, failing
+ * that, by near-duplicate query embedding.
+ */
+
+/**
+ * Version of the retrieval index + answer pipeline.
+ * Bump when the Pinecone index, embedding model, prompts or answer format
+ * change so previously cached answers are no longer served.
+ */
+export const ANSWER_CACHE_INDEX_VERSION = 'compliance-embeddings/v3';
+
+/** Time-to-live for cached answers (7 days) */
+export const ANSWER_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Minimum embedding similarity for a near-duplicate cache hit */
+export const NEAR_DUPLICATE_THRESHOLD = 0.97;
+
+/** Number of near-duplicate candidates checked per lookup */
+export const NEAR_DUPLICATE_CANDIDATES = 5;
+
+/**
+ * Normalize a question for exact cache matching
+ *
+ * Lowercases, strips punctuation (keeping dotted section numbers and §)
+ * and collapses whitespace.
+ *
+ * @param question Question or retrieval query
+ * @returns Normalized question text
+ *
+ * @example
+ * ```ts
+ * normalizeQuestion('  Do I need a permit to sell BEER? ')
+ * // => "do i need a permit to sell beer"
+ * ```
+ */
+export function normalizeQuestion(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/[^a-z0-9§.\s]/g, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build the cache scope key for an index version and jurisdiction set
+ *
+ * Jurisdictions are sorted so the same set always yields the same key.
+ *
+ * @param jurisdictions Resolved jurisdictions (e.g., ["US", "TX", "TX-48201"])
+ * @param indexVersion Index version (default: ANSWER_CACHE_INDEX_VERSION)
+ * @returns Scope key
+ *
+ * @example
+ * ```ts
+ * buildCacheScopeKey(['US', 'TX', 'TX-48201'])
+ * // => "compliance-embeddings/v3|TX|TX-48201|US"
+ * ```
+ */
+export function buildCacheScopeKey(
+  jurisdictions: string[],
+  indexVersion: string = ANSWER_CACHE_INDEX_VERSION
+): string {
+  return [indexVersion, ...[...new Set(jurisdictions)].sort()].join('|');
+}
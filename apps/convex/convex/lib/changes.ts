@@ -0,0 +1,124 @@
+/**
+ * Regulatory Change Subscriptions Module
+ *
+ * Maps the citations users subscribe to onto the keys the ingestion
+ * pipelines record change events under (apps/workers/src/lib/changes.ts):
+ * - sectionKey: chunk ID without the chunk index (e.g. "cfr-21-117-117.5")
+ * - chapterKey: sectionKey without the section (e.g. "cfr-21-117",
+ *   "municipal-houston-10")
+ *
+ * Pure functions, no Convex dependencies.
+ */
+
+import { normalizeCityId } from '@compliance-iq/shared-types';
+import { detectCitations } from './citations';
+
+/**
+ * What a subscription matches change events on
+ */
+export interface SubscriptionTarget {
+  /** sectionKey or chapterKey of the change events to match */
+  targetKey: string;
+  /** Whether targetKey is a section or a whole part/chapter */
+  scope: 'section' | 'chapter';
+}
+
+/** Chapter markers, rewritten to a section marker for detectCitations */
+const CHAPTER_MARKER = /\b(?:ch(?:apter|\.)|part)\s*/i;
+
+/**
+ * County or city code citation, e.g. "Harris County Code § 1.02",
+ * "Houston, Tex., Code of Ordinances sect. 10-2", "Houston Code ch. 10"
+ */
+const LOCAL_CODE_PATTERN =
+  /^\s*([A-Za-z][A-Za-z .'-]*?)(\s+County)?,?\s+(?:Tex(?:as|\.)?,?\s+)?(?:[A-Za-z]+\s+)?Code\b.*?(§{1,2}|sect?(?:ion|\.)?|ch(?:apter|\.)?)\s*(\d+[\w.-]*?)\.?(?:\s*\(\d{4}\))?\s*$/i;
+
+/**
+ * Resolve a citation to the change events a subscription should match
+ *
+ * Sections match one section's events; bare part or chapter references
+ * ("21 CFR part 117", "Houston Code ch. 10") match every section in it.
+ * The chapter of a county or city section is its leading number
+ * (e.g. 10-2 -> chapter 10), as parsed by the ingestion pipelines.
+ *
+ * @param citation Citation as entered by the user
+ * @returns Subscription target, or null if the citation isn't recognized
+ *
+ * @example
+ * ```ts
+ * subscriptionTarget('21 CFR 117.5')
+ * // => { targetKey: 'cfr-21-117-117.5', scope: 'section' }
+ *
+ * subscriptionTarget('Houston Code ch. 10')
+ * // => { targetKey: 'municipal-houston-10', scope: 'chapter' }
+ * ```
+ */
+export function subscriptionTarget(
+  citation: string
+): SubscriptionTarget | null {
+  const [ref] = detectCitations(citation.replace(CHAPTER_MARKER, '§ '));
+  if (ref?.kind === 'usc') {
+    // U.S. Code sections sit directly under the title
+    return { targetKey: `usc-${ref.title}-${ref.section}`, scope: 'section' };
+  }
+  if (ref) {
+    const [parent, rest] = ref.section.split('.');
+    let chapterKey: string;
+    switch (ref.kind) {
+      case 'cfr':
+        chapterKey = `cfr-${ref.title}-${parent}`;
+        break;
+      case 'tx-statute':
+        chapterKey = `tx-statute-${ref.code}-${parent}`;
+        break;
+      case 'tac':
+        chapterKey = `tx-tac-${ref.title}-${parent}`;
+        break;
+    }
+    return rest
+      ? { targetKey: `${chapterKey}-${ref.section}`, scope: 'section' }
+      : { targetKey: chapterKey, scope: 'chapter' };
+  }
+
+  const local = citation.match(LOCAL_CODE_PATTERN);
+  if (!local) {
+    return null;
+  }
+
+  const [, place, county, marker, number] = local;
+  const prefix = county
+    ? `county-${place!.trim().toLowerCase().replace(/\s+/g, '-')}`
+    : `municipal-${normalizeCityId(place!)}`;
+
+  if (/^ch/i.test(marker!)) {
+    return { targetKey: `${prefix}-${number}`, scope: 'chapter' };
+  }
+  const chapter = number!.split(/[-.]/)[0];
+  return { targetKey: `${prefix}-${chapter}-${number}`, scope: 'section' };
+}
+
+/**
+ * sectionKey of a Pinecone chunk ID (drops the chunk index and any
+ * "@{effectiveDate}" version suffix)
+ *
+ * @example
+ * ```ts
+ * chunkSectionKey('cfr-21-117-117.5-1@2021-03-01') // => "cfr-21-117-117.5"
+ * ```
+ */
+export function chunkSectionKey(chunkId: string): string {
+  return chunkId.replace(/@.*$/, '').replace(/-\d+$/, '');
+}
+
+/**
+ * Check whether an answer used a changed section as context
+ *
+ * @param retrievedChunkIds Chunk IDs stored on the assistant message
+ * @param sectionKey sectionKey of the change event
+ */
+export function isAffectedAnswer(
+  retrievedChunkIds: string[],
+  sectionKey: string
+): boolean {
+  return retrievedChunkIds.some((id) => chunkSectionKey(id) === sectionKey);
+}
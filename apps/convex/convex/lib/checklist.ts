@@ -0,0 +1,254 @@
+'use node';
+
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  ChecklistItem,
+  DetectedActivity,
+  JurisdictionSection,
+  Permit,
+} from '../query/types';
+import { permitLevel, permitTypeKey } from './permits';
+
+/**
+ * New-Store Checklist Building
+ *
+ * The checklist generator (actions/checklist.ts) asks one permits question
+ * per business activity. This module turns those answers into a checklist:
+ * 1. Permits are deduplicated across activities by level + normalized name
+ *    (e.g. the state Food Establishment Permit required by both the deli and
+ *    the food court is one item listing both activities)
+ * 2. Dependencies between items (e.g. a certificate of occupancy before the
+ *    health permit) are resolved in one model call, falling back to none
+ */
+
+// Dependency resolution constants
+const MODEL = 'claude-haiku-4-5-20251001';
+const MAX_TOKENS = 1024;
+const TEMPERATURE = 0;
+
+const LEVEL_ORDER: ChecklistItem['level'][] = [
+  'federal',
+  'state',
+  'county',
+  'municipal',
+];
+
+const DEPENDENCY_SYSTEM_PROMPT = `You order the permits and licenses needed to open a retail store.
+
+For each numbered item, list the numbers of the other items that must be obtained before it can be applied for or issued (e.g. a certificate of occupancy before a food establishment permit, a federal registration before the state license that requires it). Only list dependencies that are required, not merely convenient.
+
+Output ONLY a JSON object mapping each item number to an array of prerequisite item numbers, e.g. {"1": [], "2": [1]}.`;
+
+/**
+ * Permits found in the answer to one activity's sub-query
+ */
+export interface ActivityPermits {
+  /** Activity the sub-query asked about */
+  activity: DetectedActivity;
+  /** Permits from the parsed answer */
+  permits: Permit[];
+  /** Answer sections (used for jurisdiction names per level) */
+  sections: JurisdictionSection[];
+}
+
+/**
+ * Returns, for each item, the indexes of the items it depends on
+ */
+export type DependencyResolver = (
+  items: ChecklistItem[]
+) => Promise<number[][]>;
+
+/**
+ * Build the permits question asked for one activity
+ *
+ * @param activity - Business activity
+ * @returns Sub-query text
+ *
+ * @example
+ * ```ts
+ * buildActivityQuestion(beerSales)
+ * // => "What permits, licenses, and registrations are required for beer sales at a new retail warehouse store?"
+ * ```
+ */
+export function buildActivityQuestion(activity: DetectedActivity): string {
+  return `What permits, licenses, and registrations are required for ${activity.label.toLowerCase()} at a new retail warehouse store?`;
+}
+
+/**
+ * Deduplicate permits across activity answers into checklist items
+ *
+ * Items are keyed by level and normalized name. Merged items list every
+ * activity that requires them and every distinct citation. Items are
+ * ordered federal first, then by name; dependencies start empty.
+ *
+ * @param answers - Permits per activity
+ * @returns Checklist items
+ */
+export function buildChecklistItems(
+  answers: ActivityPermits[]
+): ChecklistItem[] {
+  const items = new Map<string, ChecklistItem>();
+
+  for (const { activity, permits, sections } of answers) {
+    for (const permit of permits) {
+      const level = permitLevel(permit.jurisdiction);
+      const key = `${level}:${permitTypeKey(permit.name)}`;
+      const existing = items.get(key);
+
+      if (existing) {
+        addUnique(existing.activities, activity.label);
+        for (const citation of permit.citation.split(/;\s*/)) {
+          if (!existing.citation.split(/;\s*/).includes(citation)) {
+            existing.citation = `${existing.citation}; ${citation}`;
+          }
+        }
+        existing.url ??= permit.url;
+        continue;
+      }
+
+      items.set(key, {
+        key,
+        name: permit.name,
+        level,
+        jurisdiction:
+          sections.find((section) => section.level === level)
+            ?.jurisdictionName ?? capitalize(level),
+        issuingAgency: permit.issuingAgency,
+        citation: permit.citation,
+        url: permit.url,
+        activities: [activity.label],
+        dependencies: [],
+        completed: false,
+      });
+    }
+  }
+
+  return [...items.values()].sort(
+    (a, b) =>
+      LEVEL_ORDER.indexOf(a.level) - LEVEL_ORDER.indexOf(b.level) ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Fill in item dependencies using a resolver
+ *
+ * Self references, out-of-range indexes and edges that would create a cycle
+ * are dropped. If the resolver fails, items are returned without
+ * dependencies so the checklist is never blocked.
+ *
+ * @param items - Checklist items from buildChecklistItems
+ * @param resolver - Dependency resolver (e.g., createClaudeDependencyResolver)
+ * @returns Items with dependencies set to prerequisite item keys
+ */
+export async function resolveChecklistDependencies(
+  items: ChecklistItem[],
+  resolver: DependencyResolver
+): Promise<ChecklistItem[]> {
+  if (items.length < 2) {
+    return items;
+  }
+
+  let resolved: number[][];
+  try {
+    resolved = await resolver(items);
+  } catch (error) {
+    console.warn('Checklist dependency resolution failed:', error);
+    return items;
+  }
+
+  const edges: number[][] = items.map(() => []);
+  items.forEach((_, i) => {
+    for (const dep of resolved[i] ?? []) {
+      if (
+        Number.isInteger(dep) &&
+        dep >= 0 &&
+        dep < items.length &&
+        dep !== i &&
+        !edges[i]!.includes(dep) &&
+        !reaches(edges, dep, i)
+      ) {
+        edges[i]!.push(dep);
+      }
+    }
+  });
+
+  return items.map((item, i) => ({
+    ...item,
+    dependencies: edges[i]!.map((dep) => items[dep]!.key),
+  }));
+}
+
+/**
+ * Create a dependency resolver backed by Claude
+ *
+ * @param apiKey - Anthropic API key
+ * @returns DependencyResolver
+ * @throws Error if the response is not a JSON object of number arrays
+ */
+export function createClaudeDependencyResolver(
+  apiKey: string
+): DependencyResolver {
+  const client = new Anthropic({ apiKey });
+
+  return async (items) => {
+    const numbered = items
+      .map(
+        (item, i) =>
+          `[${i + 1}] ${item.name} (${item.issuingAgency}, ${item.level}) - ${item.citation}`
+      )
+      .join('\n');
+
+    const response = await client.messages.create({
+      model: MODEL,
+      max_tokens: MAX_TOKENS,
+      temperature: TEMPERATURE,
+      system: DEPENDENCY_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: numbered }],
+    });
+
+    const textBlock = response.content.find((block) => block.type === 'text');
+    const text = textBlock && textBlock.type === 'text' ? textBlock.text : '';
+    const json = text.match(/\{[\s\S]*\}/)?.[0];
+    const result: unknown = json ? JSON.parse(json) : null;
+
+    if (!result || typeof result !== 'object' || Array.isArray(result)) {
+      throw new Error('Dependency resolver returned an invalid result');
+    }
+
+    // Model output is 1-based
+    const deps = result as Record<string, unknown>;
+    return items.map((_, i) => {
+      const entry = deps[String(i + 1)];
+      return Array.isArray(entry)
+        ? entry.filter((n) => typeof n === 'number').map((n) => n - 1)
+        : [];
+    });
+  };
+}
+
+/**
+ * Whether `to` is reachable from `from` along dependency edges
+ */
+function reaches(edges: number[][], from: number, to: number): boolean {
+  const stack = [from];
+  const seen = new Set<number>();
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node === to) return true;
+    if (seen.has(node)) continue;
+    seen.add(node);
+    stack.push(...edges[node]!);
+  }
+  return false;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function addUnique(values: string[], value: string): void {
+  if (!values.includes(value)) {
+    values.push(value);
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Citation Detection Module
+ *
+ * Detects citation-shaped references in a question (e.g. "21 CFR 117.5",
+ * "21 U.S.C. § 812", "Tex. Alco. Bev. Code § 22.01", "16 TAC 5.31") and maps
+ * them to the deterministic Pinecone chunk IDs produced by the ingestion
+ * pipelines.
+ *
+ * Chunk ID formats mirror apps/workers/src/lib/citations.ts:
+ * - CFR: cfr-{title}-{part}-{section}-{chunkIndex}
+ * - U.S. Code: usc-{title}-{section}-{chunkIndex}
+ * - Texas statute: tx-statute-{code}-{chapter}-{section}-{chunkIndex}
+ * - TAC: tx-tac-{title}-{chapter}-{section}-{chunkIndex}
+ */
+
+/**
+ * Constants
+ */
+/** Maximum chunks fetched per cited section (long sections are split) */
+export const MAX_CHUNKS_PER_SECTION = 5;
+
+/**
+ * Texas Code abbreviation to Bluebook format mapping
+ * Mirrors TEXAS_CODE_ABBREVIATIONS in apps/workers/src/lib/citations.ts
+ */
+const TEXAS_CODE_ABBREVIATIONS: Record<string, string> = {
+  AG: 'Agric. Code',
+  AL: 'Alco. Bev. Code',
+  BC: 'Bus. & Com. Code',
+  BO: 'Bus. Orgs. Code',
+  CP: 'Civ. Prac. & Rem. Code',
+  CR: 'Crim. Proc. Code',
+  ED: 'Educ. Code',
+  EL: 'Elec. Code',
+  ES: 'Estates Code',
+  FA: 'Fam. Code',
+  FI: 'Fin. Code',
+  GV: "Gov't Code",
+  HS: 'Health & Safety Code',
+  HR: 'Hum. Res. Code',
+  IN: 'Ins. Code',
+  LA: 'Lab. Code',
+  LG: "Loc. Gov't Code",
+  NR: 'Nat. Res. Code',
+  OC: 'Occ. Code',
+  PW: 'Parks & Wild. Code',
+  PE: 'Penal Code',
+  PR: 'Prop. Code',
+  SD: 'Spec. Dist. Local Laws Code',
+  TX: 'Tax Code',
+  TN: 'Transp. Code',
+  UT: 'Util. Code',
+  WA: 'Water Code',
+};
+
+/**
+ * Unabbreviated Texas code names as users tend to write them
+ */
+const TEXAS_CODE_NAMES: Record<string, string> = {
+  AG: 'Agriculture Code',
+  AL: 'Alcoholic Beverage Code',
+  BC: 'Business and Commerce Code',
+  BO: 'Business Organizations Code',
+  CP: 'Civil Practice and Remedies Code',
+  CR: 'Code of Criminal Procedure',
+  ED: 'Education Code',
+  EL: 'Election Code',
+  ES: 'Estates Code',
+  FA: 'Family Code',
+  FI: 'Finance Code',
+  GV: 'Government Code',
+  HS: 'Health and Safety Code',
+  HR: 'Human Resources Code',
+  IN: 'Insurance Code',
+  LA: 'Labor Code',
+  LG: 'Local Government Code',
+  NR: 'Natural Resources Code',
+  OC: 'Occupations Code',
+  PW: 'Parks and Wildlife Code',
+  PE: 'Penal Code',
+  PR: 'Property Code',
+  SD: 'Special District Local Laws Code',
+  TX: 'Tax Code',
+  TN: 'Transportation Code',
+  UT: 'Utilities Code',
+  WA: 'Water Code',
+};
+
+/**
+ * A citation reference detected in free text
+ */
+export type CitationReference =
+  | {
+      kind: 'cfr';
+      /** CFR title number (e.g., 21) */
+      title: number;
+      /** Section number (e.g., "117.5") */
+      section: string;
+    }
+  | {
+      kind: 'usc';
+      /** U.S. Code title number (e.g., 21) */
+      title: number;
+      /** Section number (e.g., "812", "360bbb-3") */
+      section: string;
+    }
+  | {
+      kind: 'tx-statute';
+      /** Texas code abbreviation (e.g., "AL") */
+      code: string;
+      /** Section number (e.g., "22.01") */
+      section: string;
+    }
+  | {
+      kind: 'tac';
+      /** TAC title number (e.g., 16) */
+      title: number;
+      /** Section number (e.g., "5.31") */
+      section: string;
+    };
+
+/** Section number: digits with optional dotted parts, e.g. 117.5, 481.002 */
+const SECTION = String.raw`(\d+(?:\.\d+)+|\d+)`;
+/** Optional section marker between source and section number */
+const SECTION_MARKER = String.raw`\s*(?:§{1,2}|sec(?:tion|\.)?|part)?\s*`;
+
+const CFR_PATTERN = new RegExp(
+  String.raw`\b(\d{1,2})\s*C\.?\s?F\.?\s?R\.?${SECTION_MARKER}${SECTION}`,
+  'gi'
+);
+/** U.S. Code sections are undotted, with optional letters and dashes (e.g. 360bbb-3) */
+const USC_PATTERN = new RegExp(
+  String.raw`\b(\d{1,2})\s*U\.?\s?S\.?\s?C\.?(?:\s?A\.?)?${SECTION_MARKER}(\d+[a-z]*(?:-\d+[a-z]*)?)\b`,
+  'gi'
+);
+const TAC_PATTERN = new RegExp(
+  String.raw`\b(\d{1,2})\s*(?:TAC|Tex(?:as|\.)?\s*Admin(?:istrative|\.)?\s*Code)${SECTION_MARKER}${SECTION}`,
+  'gi'
+);
+
+/**
+ * Normalize a code name for loose matching ("Alco. Bev. Code" -> "alcobevcode")
+ */
+function normalizeCodeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\band\b/g, '&')
+    .replace(/[^a-z&]/g, '');
+}
+
+/**
+ * Lookup from normalized code name (Bluebook or full) to code abbreviation
+ */
+const TEXAS_CODE_LOOKUP: Map<string, string> = new Map(
+  Object.keys(TEXAS_CODE_ABBREVIATIONS).flatMap((code) => [
+    [normalizeCodeName(TEXAS_CODE_ABBREVIATIONS[code]!), code],
+    [normalizeCodeName(TEXAS_CODE_NAMES[code]!), code],
+  ])
+);
+
+const TEXAS_STATUTE_PATTERN = new RegExp(
+  String.raw`\bTex(?:as|\.)?\s+((?:[A-Za-z.'&]+\s+){0,5}?Code)(?:\s+Ann\.?)?${SECTION_MARKER}${SECTION}`,
+  'gi'
+);
+
+/**
+ * Detect citation-shaped references in free text
+ *
+ * Recognizes CFR, U.S. Code, Texas statute and Texas Administrative Code
+ * citations in Bluebook and common informal forms. Duplicates are removed.
+ *
+ * @param text Question or query text
+ * @returns Detected citation references in order of appearance
+ *
+ * @example
+ * ```ts
+ * detectCitations('What does 21 CFR 117.5 say?')
+ * // => [{ kind: 'cfr', title: 21, section: '117.5' }]
+ *
+ * detectCitations('Tex. Alco. Bev. Code § 22.01')
+ * // => [{ kind: 'tx-statute', code: 'AL', section: '22.01' }]
+ * ```
+ */
+export function detectCitations(text: string): CitationReference[] {
+  const found: Array<{ index: number; ref: CitationReference }> = [];
+
+  for (const match of text.matchAll(CFR_PATTERN)) {
+    found.push({
+      index: match.index ?? 0,
+      ref: { kind: 'cfr', title: Number(match[1]), section: match[2]! },
+    });
+  }
+
+  for (const match of text.matchAll(USC_PATTERN)) {
+    found.push({
+      index: match.index ?? 0,
+      ref: { kind: 'usc', title: Number(match[1]), section: match[2]! },
+    });
+  }
+
+  for (const match of text.matchAll(TAC_PATTERN)) {
+    found.push({
+      index: match.index ?? 0,
+      ref: { kind: 'tac', title: Number(match[1]), section: match[2]! },
+    });
+  }
+
+  for (const match of text.matchAll(TEXAS_STATUTE_PATTERN)) {
+    const code = TEXAS_CODE_LOOKUP.get(normalizeCodeName(match[1]!));
+    if (code) {
+      found.push({
+        index: match.index ?? 0,
+        ref: { kind: 'tx-statute', code, section: match[2]! },
+      });
+    }
+  }
+
+  const seen = new Set<string>();
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map((f) => f.ref)
+    .filter((ref) => {
+      const key = citationKey(ref);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Build the deterministic chunk IDs for a cited section
+ *
+ * The parent part/chapter is derived from the section number
+ * (e.g. 117.5 -> part 117, 22.01 -> chapter 22). Since the chunk count of a
+ * section is unknown, IDs for the first `maxChunks` chunks are returned;
+ * IDs that don't exist are simply absent from a Pinecone fetch.
+ *
+ * @param ref Citation reference from detectCitations
+ * @param maxChunks Number of chunk indices to generate (default: 5)
+ * @returns Candidate Pinecone chunk IDs, or [] for bare part/chapter references
+ *
+ * @example
+ * ```ts
+ * citationChunkIds({ kind: 'cfr', title: 21, section: '117.5' }, 2)
+ * // => ["cfr-21-117-117.5-0", "cfr-21-117-117.5-1"]
+ * ```
+ */
+export function citationChunkIds(
+  ref: CitationReference,
+  maxChunks: number = MAX_CHUNKS_PER_SECTION
+): string[] {
+  // U.S. Code sections sit directly under the title
+  if (ref.kind === 'usc') {
+    return Array.from(
+      { length: maxChunks },
+      (_, i) => `usc-${ref.title}-${ref.section}-${i}`
+    );
+  }
+
+  const [parent, rest] = ref.section.split('.');
+  if (!rest) {
+    return [];
+  }
+
+  let prefix: string;
+  switch (ref.kind) {
+    case 'cfr':
+      prefix = `cfr-${ref.title}-${parent}-${ref.section}`;
+      break;
+    case 'tx-statute':
+      prefix = `tx-statute-${ref.code}-${parent}-${ref.section}`;
+      break;
+    case 'tac':
+      prefix = `tx-tac-${ref.title}-${parent}-${ref.section}`;
+      break;
+  }
+
+  return Array.from({ length: maxChunks }, (_, i) => `${prefix}-${i}`);
+}
+
+/**
+ * Format a citation reference as search text matching stored chunk citations
+ *
+ * @example
+ * ```ts
+ * formatCitationReference({ kind: 'tx-statute', code: 'AL', section: '22.01' })
+ * // => "Tex. Alco. Bev. Code Ann. § 22.01"
+ * ```
+ */
+export function formatCitationReference(ref: CitationReference): string {
+  switch (ref.kind) {
+    case 'cfr':
+      return `${ref.title} C.F.R. § ${ref.section}`;
+    case 'usc':
+      return `${ref.title} U.S.C. § ${ref.section}`;
+    case 'tx-statute':
+      return `Tex. ${TEXAS_CODE_ABBREVIATIONS[ref.code]} Ann. § ${ref.section}`;
+    case 'tac':
+      return `${ref.title} Tex. Admin. Code § ${ref.section}`;
+  }
+}
+
+/**
+ * Stable key for de-duplicating references
+ */
+function citationKey(ref: CitationReference): string {
+  return ref.kind === 'tx-statute'
+    ? `${ref.kind}:${ref.code}:${ref.section}`
+    : `${ref.kind}:${ref.title}:${ref.section}`;
+}
@@ -0,0 +1,254 @@
+import type {
+  Citation,
+  ComparisonTarget,
+  JurisdictionRetrievalCount,
+  RetrievedChunk,
+} from '../query/types';
+import { extractCitations, validateCitations } from './parse';
+
+/**
+ * Multi-Location Comparison
+ *
+ * One question asked across several stores (see actions/compare.ts):
+ * - federal and state jurisdictions are retrieved once for all targets,
+ *   county and municipal jurisdictions once per target
+ * - the retrievals are merged into one numbered source list, so the common
+ *   section and every target's differences cite the same [N] numbers
+ * - Claude submits the answer through the submit_comparison tool, which is
+ *   validated and rendered side by side here
+ */
+
+/**
+ * submit_comparison tool input
+ */
+export interface ComparisonAnswer {
+  summary: string;
+  common: string;
+  locations: Array<{
+    /** 1-based target number from the prompt */
+    location: number;
+    differences: string;
+  }>;
+}
+
+/**
+ * Sources split by who they apply to
+ */
+export interface ComparisonChunks {
+  /** All sources, numbered for the prompt ([N] = index + 1) */
+  chunks: RetrievedChunk[];
+  /** Sources whose jurisdiction applies to every target */
+  common: RetrievedChunk[];
+  /** Sources applicable to each target, in target order */
+  byTarget: RetrievedChunk[][];
+}
+
+/** Shown for a target Claude reported no differences for */
+const NO_DIFFERENCES = 'No differences found in available sources.';
+
+/**
+ * Split target jurisdictions into shared and per-target retrieval scopes
+ *
+ * Federal and state jurisdictions are retrieved once across all targets
+ * (stores in the same state share them); county and municipal
+ * jurisdictions are specific to each target.
+ *
+ * @param targets - Resolved jurisdictions per target
+ * @returns Shared jurisdictions (deduplicated) and local jurisdictions per target
+ *
+ * @example
+ * ```ts
+ * partitionJurisdictions([
+ *   ['US', 'TX', 'TX-48201', 'TX-houston'],
+ *   ['US', 'TX', 'TX-48453', 'TX-austin'],
+ * ]);
+ * // => { shared: ['US', 'TX'], local: [['TX-48201', 'TX-houston'], ['TX-48453', 'TX-austin']] }
+ * ```
+ */
+export function partitionJurisdictions(targets: string[][]): {
+  shared: string[];
+  local: string[][];
+} {
+  const isShared = (id: string) => id === 'US' || /^[A-Z]{2}$/.test(id);
+
+  return {
+    shared: [...new Set(targets.flat().filter(isShared))],
+    local: targets.map((jurisdictions) =>
+      jurisdictions.filter((id) => !isShared(id))
+    ),
+  };
+}
+
+/**
+ * Merge the shared and per-target retrievals into one numbered source list
+ *
+ * Shared sources come first, then each target's local sources; a chunk
+ * retrieved more than once is listed once.
+ *
+ * @param shared - Chunks retrieved for the shared jurisdictions
+ * @param local - Chunks retrieved for each target's local jurisdictions
+ * @param targets - Resolved jurisdictions per target
+ * @returns Numbered sources, plus the common and per-target subsets
+ */
+export function mergeComparisonChunks(
+  shared: RetrievedChunk[],
+  local: RetrievedChunk[][],
+  targets: string[][]
+): ComparisonChunks {
+  const seen = new Set<string>();
+  const chunks: RetrievedChunk[] = [];
+  for (const chunk of [shared, ...local].flat()) {
+    if (!seen.has(chunk.id)) {
+      seen.add(chunk.id);
+      chunks.push(chunk);
+    }
+  }
+
+  return {
+    chunks,
+    common: chunks.filter((chunk) =>
+      targets.every((jurisdictions) =>
+        jurisdictions.includes(chunk.jurisdiction)
+      )
+    ),
+    byTarget: targets.map((jurisdictions) =>
+      chunks.filter((chunk) => jurisdictions.includes(chunk.jurisdiction))
+    ),
+  };
+}
+
+/**
+ * Retrieval counts that apply to one target
+ *
+ * @param counts - Counts from every retrieval (shared and local)
+ * @param jurisdictions - The target's jurisdictions
+ * @returns Counts for the target's jurisdictions
+ */
+export function targetRetrievalCounts(
+  counts: JurisdictionRetrievalCount[],
+  jurisdictions: string[]
+): JurisdictionRetrievalCount[] {
+  return counts.filter((count) => jurisdictions.includes(count.jurisdiction));
+}
+
+/**
+ * Check that tool input has the ComparisonAnswer shape
+ *
+ * @param input - Raw tool_use input from Claude
+ * @param targetCount - Number of targets in the prompt
+ * @returns Whether the input is a complete ComparisonAnswer
+ */
+export function isComparisonAnswer(
+  input: unknown,
+  targetCount: number
+): input is ComparisonAnswer {
+  if (!input || typeof input !== 'object') return false;
+  const answer = input as { [K in keyof ComparisonAnswer]?: unknown };
+
+  return (
+    typeof answer.summary === 'string' &&
+    typeof answer.common === 'string' &&
+    Array.isArray(answer.locations) &&
+    answer.locations.every(
+      (entry) =>
+        entry &&
+        typeof entry === 'object' &&
+        Number.isInteger(entry.location) &&
+        entry.location >= 1 &&
+        entry.location <= targetCount &&
+        typeof entry.differences === 'string'
+    )
+  );
+}
+
+/**
+ * Parse a comparison answer from submit_comparison tool input
+ *
+ * Citations are resolved against the numbered sources. A target's
+ * differences citing another target's local sources are flagged in
+ * `warnings` (the citation is kept so the answer can be reviewed).
+ *
+ * @param input - Raw tool_use input from Claude
+ * @param sources - Merged sources from mergeComparisonChunks
+ * @param targets - Compared targets, in prompt order
+ * @returns Parsed answer, or null if the input is not a valid ComparisonAnswer
+ */
+export function parseComparisonAnswer(
+  input: unknown,
+  sources: ComparisonChunks,
+  targets: ComparisonTarget[]
+): {
+  summary: string;
+  common: { content: string; citations: Citation[] };
+  locations: Array<{ content: string; citations: Citation[] }>;
+  warnings: string[];
+} | null {
+  if (!isComparisonAnswer(input, targets.length)) {
+    return null;
+  }
+
+  const { chunks } = sources;
+  const warnings: string[] = [];
+
+  const allText = [
+    input.summary,
+    input.common,
+    ...input.locations.map((entry) => entry.differences),
+  ].join('\n\n');
+  const validation = validateCitations(allText, chunks);
+  if (!validation.valid) {
+    warnings.push(
+      `Invalid citation references found: [${validation.invalidRefs.join(', ')}] (references to non-existent chunks)`
+    );
+  }
+
+  const locations = targets.map((target, i) => {
+    const content =
+      input.locations
+        .filter((entry) => entry.location === i + 1)
+        .map((entry) => entry.differences.trim())
+        .filter(Boolean)
+        .join('\n\n') || NO_DIFFERENCES;
+    const citations = extractCitations(content, chunks);
+
+    const foreign = citations.filter(
+      (citation) => !target.jurisdictions.includes(citation.jurisdiction)
+    );
+    if (foreign.length > 0) {
+      warnings.push(
+        `${target.label} cites sources from other jurisdictions: [${foreign.map((citation) => citation.id).join(', ')}]`
+      );
+    }
+
+    return { content, citations };
+  });
+
+  const common = input.common.trim();
+  return {
+    summary: input.summary.trim(),
+    common: { content: common, citations: extractCitations(common, chunks) },
+    locations,
+    warnings,
+  };
+}
+
+/**
+ * Render a comparison side by side: common requirements, then one section
+ * per target
+ *
+ * @param summary - Direct answer to how the targets differ
+ * @param common - Markdown requirements common to all targets
+ * @param locations - Each target's label and markdown differences
+ * @returns Markdown answer
+ */
+export function renderComparisonMarkdown(
+  summary: string,
+  common: string,
+  locations: Array<{ label: string; content: string }>
+): string {
+  return [
+    summary,
+    `## Common to All Locations\n\n${common}`,
+    ...locations.map(({ label, content }) => `## ${label}\n\n${content}`),
+  ].join('\n\n');
+}
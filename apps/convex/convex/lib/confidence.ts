@@ -1,4 +1,9 @@
-import type { RetrievedChunk, ConfidenceScore } from '../query/types';
+import type {
+  RetrievedChunk,
+  ConfidenceScore,
+  GroundednessReport,
+  JurisdictionRetrievalCount,
+} from '../query/types';
 
 /**
  * Confidence Scoring for RAG Retrieval
@@ -10,16 +15,28 @@ import type { RetrievedChunk, ConfidenceScore } from '../query/types';
  * 1. Average semantic similarity (how well chunks match query)
  * 2. Jurisdiction coverage (what % of target jurisdictions are represented)
  * 3. Citation coverage (what % of chunks have valid citations)
+ *
+ * When per-jurisdiction retrieval counts are available, uncovered
+ * jurisdictions are split into "missing" (no relevant indexed text, e.g. the
+ * county has no ordinance on the topic) and "outranked" (relevant text was
+ * retrieved but did not make the final set). Only outranked jurisdictions
+ * count against coverage, since missing law is not a retrieval failure.
+ *
+ * After generation, applyGroundedness folds in a 4th metric: the share of
+ * cited claims that verification found supported by their cited chunk.
  */
 
 // Scoring weights
 const SIMILARITY_WEIGHT = 0.5; // 50% - semantic relevance is most important
 const COVERAGE_WEIGHT = 0.3; // 30% - jurisdiction completeness matters
 const CITATION_WEIGHT = 0.2; // 20% - citation quality ensures traceability
+const GROUNDEDNESS_WEIGHT = 0.3; // Share of the final score once claims are verified
 
 // Classification thresholds
 const HIGH_THRESHOLD = 0.8; // Above 0.8 = High confidence
 const MEDIUM_THRESHOLD = 0.6; // Above 0.6 = Medium confidence
+const HIGH_GROUNDEDNESS = 0.9; // High confidence requires nearly all claims supported
+const LOW_GROUNDEDNESS = 0.5; // Below this, confidence is Low regardless of retrieval
 
 /**
  * Calculate retrieval-based confidence score for a set of retrieved chunks.
@@ -31,11 +48,13 @@ const MEDIUM_THRESHOLD = 0.6; // Above 0.6 = Medium confidence
  *
  * @param chunks - Retrieved chunks from Pinecone
  * @param targetJurisdictions - Jurisdictions we wanted to retrieve for (e.g., ["US", "TX", "TX-48201"])
+ * @param jurisdictionCounts - Optional per-jurisdiction counts from retrieveChunksWithCounts
  * @returns ConfidenceScore with level, numeric score, explanation, and underlying metrics
  */
 export function calculateConfidence(
   chunks: RetrievedChunk[],
-  targetJurisdictions: string[]
+  targetJurisdictions: string[],
+  jurisdictionCounts?: JurisdictionRetrievalCount[]
 ): ConfidenceScore {
   // Metric 1: Average Semantic Similarity
   // Higher similarity scores mean chunks are more relevant to the query
@@ -47,9 +66,28 @@ export function calculateConfidence(
   // Metric 2: Jurisdiction Coverage
   // What percentage of target jurisdictions are represented in the results?
   const representedJurisdictions = new Set(chunks.map((c) => c.jurisdiction));
+
+  // Split uncovered jurisdictions into missing vs outranked when counts are known
+  const uncovered = targetJurisdictions.filter(
+    (j) => !representedJurisdictions.has(j)
+  );
+  let jurisdictionGaps: ConfidenceScore['jurisdictionGaps'];
+  if (jurisdictionCounts) {
+    const available = new Map(
+      jurisdictionCounts.map((c) => [c.jurisdiction, c.available])
+    );
+    jurisdictionGaps = {
+      missing: uncovered.filter((j) => (available.get(j) ?? 0) === 0),
+      outranked: uncovered.filter((j) => (available.get(j) ?? 0) > 0),
+    };
+  }
+
+  const coverableCount =
+    targetJurisdictions.length - (jurisdictionGaps?.missing.length ?? 0);
   const jurisdictionCoverage =
-    targetJurisdictions.length > 0
-      ? representedJurisdictions.size / targetJurisdictions.length
+    coverableCount > 0
+      ? targetJurisdictions.filter((j) => representedJurisdictions.has(j))
+          .length / coverableCount
       : 0;
 
   // Metric 3: Citation Coverage
@@ -67,23 +105,22 @@ export function calculateConfidence(
     citationCoverage * CITATION_WEIGHT;
 
   // Classify confidence level
-  let level: 'High' | 'Medium' | 'Low';
-  if (score > HIGH_THRESHOLD && jurisdictionCoverage === 1.0) {
-    // High confidence requires excellent score AND full jurisdiction coverage
-    level = 'High';
-  } else if (score > MEDIUM_THRESHOLD) {
-    level = 'Medium';
-  } else {
-    level = 'Low';
-  }
+  const level = classifyLevel(score, jurisdictionCoverage);
 
   // Generate human-readable explanation
-  const reason = `${level}: ${representedJurisdictions.size}/${targetJurisdictions.length} jurisdictions covered, avg similarity ${avgSimilarity.toFixed(2)}, ${(citationCoverage * 100).toFixed(0)}% chunks have citations`;
+  let reason = `${level}: ${targetJurisdictions.length - uncovered.length}/${targetJurisdictions.length} jurisdictions covered, avg similarity ${avgSimilarity.toFixed(2)}, ${(citationCoverage * 100).toFixed(0)}% chunks have citations`;
+  if (jurisdictionGaps?.missing.length) {
+    reason += `; no relevant indexed law for ${jurisdictionGaps.missing.join(', ')}`;
+  }
+  if (jurisdictionGaps?.outranked.length) {
+    reason += `; relevant law outranked for ${jurisdictionGaps.outranked.join(', ')}`;
+  }
 
   return {
     level,
     score,
     reason,
+    jurisdictionGaps,
     metrics: {
       avgSimilarity,
       jurisdictionCoverage,
@@ -91,3 +128,61 @@ export function calculateConfidence(
     },
   };
 }
+
+/**
+ * Fold answer groundedness into a retrieval-based confidence score.
+ *
+ * The score becomes a weighted blend of the retrieval score and the share
+ * of supported claims. High confidence additionally requires nearly all
+ * claims to be supported; poorly grounded answers are always Low.
+ *
+ * @param confidence - Retrieval-based confidence from calculateConfidence
+ * @param report - Groundedness report from verifyGroundedness
+ * @returns ConfidenceScore including the groundedness metric
+ */
+export function applyGroundedness(
+  confidence: ConfidenceScore,
+  report: GroundednessReport
+): ConfidenceScore {
+  const { groundedness } = report;
+  const score =
+    confidence.score * (1 - GROUNDEDNESS_WEIGHT) +
+    groundedness * GROUNDEDNESS_WEIGHT;
+
+  let level = classifyLevel(score, confidence.metrics.jurisdictionCoverage);
+  if (groundedness < LOW_GROUNDEDNESS) {
+    level = 'Low';
+  } else if (level === 'High' && groundedness < HIGH_GROUNDEDNESS) {
+    level = 'Medium';
+  }
+
+  const reason = `${confidence.reason.replace(/^(High|Medium|Low):/, `${level}:`)}; ${report.supportedClaims}/${report.totalClaims} cited claims supported by their sources`;
+
+  return {
+    ...confidence,
+    level,
+    score,
+    reason,
+    metrics: {
+      ...confidence.metrics,
+      groundedness,
+    },
+  };
+}
+
+/**
+ * Classify a combined score into a confidence level.
+ * High confidence requires excellent score AND full jurisdiction coverage.
+ */
+function classifyLevel(
+  score: number,
+  jurisdictionCoverage: number
+): ConfidenceScore['level'] {
+  if (score > HIGH_THRESHOLD && jurisdictionCoverage === 1.0) {
+    return 'High';
+  }
+  if (score > MEDIUM_THRESHOLD) {
+    return 'Medium';
+  }
+  return 'Low';
+}
@@ -0,0 +1,197 @@
+import {
+  JURISDICTIONS,
+  getJurisdiction,
+  type JurisdictionDefinition,
+} from '@compliance-iq/shared-types';
+import type { JurisdictionResult } from '../query/types';
+
+/**
+ * Offline Texas Gazetteer
+ *
+ * Resolves Texas addresses to jurisdictions without a network call, for when
+ * Geocodio is unavailable or unconfigured (see geocode.ts). Cities and
+ * counties come from the shared jurisdiction registry
+ * (@compliance-iq/shared-types), which covers the municipal and county
+ * pipeline targets; this module adds the ZIP codes each city's post office
+ * serves.
+ *
+ * Resolution order: city name in the address, then ZIP code, then
+ * "<name> County"; an address that is only recognizably in Texas resolves
+ * to state level. Cities spanning several counties map to their principal
+ * county (the registry parent). Addresses marked "Unincorporated" resolve
+ * to their county without a city (the county is taken from the named city
+ * if there is one).
+ */
+
+/** Inclusive ZIP code ranges per registry city ID */
+const CITY_ZIPS: Record<string, Array<[number, number]>> = {
+  'TX-houston': [
+    [77001, 77099],
+    [77201, 77299],
+  ],
+  'TX-san_antonio': [[78201, 78299]],
+  'TX-dallas': [[75201, 75399]],
+  'TX-austin': [[78701, 78799]],
+  'TX-fort_worth': [[76101, 76199]],
+  'TX-el_paso': [[79901, 79999]],
+  'TX-arlington': [
+    [76001, 76019],
+    [76094, 76096],
+  ],
+  'TX-plano': [
+    [75023, 75026],
+    [75074, 75075],
+    [75086, 75086],
+    [75093, 75094],
+  ],
+  'TX-corpus_christi': [
+    [78401, 78419],
+    [78426, 78427],
+    [78460, 78480],
+  ],
+  'TX-lubbock': [[79401, 79499]],
+  'TX-laredo': [[78040, 78049]],
+  'TX-irving': [
+    [75038, 75039],
+    [75060, 75063],
+  ],
+  'TX-garland': [[75040, 75049]],
+  'TX-frisco': [[75033, 75036]],
+  'TX-mckinney': [[75069, 75072]],
+  'TX-amarillo': [[79101, 79199]],
+  'TX-grand_prairie': [[75050, 75054]],
+  'TX-brownsville': [[78520, 78526]],
+  'TX-pasadena': [[77501, 77508]],
+  'TX-killeen': [[76540, 76549]],
+};
+
+const inTexas = (j: JurisdictionDefinition) => j.id.startsWith('TX-');
+const CITIES = JURISDICTIONS.filter(
+  (j) => j.level === 'municipal' && inTexas(j)
+);
+const COUNTIES = JURISDICTIONS.filter(
+  (j) => j.level === 'county' && inTexas(j)
+);
+
+/** Texas ZIP codes: 75xxx-79xxx, plus 885xx (El Paso) */
+const TEXAS_ZIP = /^(7[5-9]\d{3}|885\d{2})$/;
+
+/**
+ * Resolve a Texas address to jurisdictions from the bundled gazetteer
+ *
+ * @param address - Free-text street address
+ * @returns JurisdictionResult with resolver 'gazetteer', or null if the
+ *   address is not recognizably in Texas
+ *
+ * @example
+ * ```ts
+ * resolveFromGazetteer('1000 Main St, Houston, TX 77002');
+ * // => { jurisdictions: ['US', 'TX', 'TX-48201', 'TX-houston'], cityId: 'houston', resolver: 'gazetteer', ... }
+ * ```
+ */
+export function resolveFromGazetteer(
+  address: string
+): JurisdictionResult | null {
+  const zip = extractZip(address);
+  const state = extractState(address);
+
+  // Addresses elsewhere (e.g., "Pasadena, CA") must not match Texas names
+  if (
+    (state !== undefined && state !== 'TX') ||
+    (zip !== undefined && !TEXAS_ZIP.test(zip))
+  ) {
+    return null;
+  }
+
+  const postalCity =
+    findCityByName(address) ?? (zip ? findCityByZip(zip) : undefined);
+  const county =
+    findCountyByName(address) ??
+    (postalCity?.parentId ? getJurisdiction(postalCity.parentId) : undefined);
+  const unincorporated = /\bunincorporated\b/i.test(address);
+  const city = unincorporated ? undefined : postalCity;
+
+  if (!state && !zip && !city && !county) {
+    return null;
+  }
+
+  const jurisdictions = ['US', 'TX'];
+  if (county) {
+    jurisdictions.push(county.id);
+  }
+  if (city) {
+    jurisdictions.push(city.id);
+  }
+
+  return {
+    jurisdictions,
+    state: 'TX',
+    county: county
+      ? { name: county.name, fips: county.id.slice('TX-'.length) }
+      : undefined,
+    city: city?.name,
+    cityId: city?.id.slice('TX-'.length),
+    incorporation: unincorporated ? 'unincorporated' : undefined,
+    resolver: 'gazetteer',
+    raw: {},
+  };
+}
+
+/**
+ * Last 5-digit ZIP code after the street line (ZIP+4 allowed), so 5-digit
+ * house numbers aren't taken for ZIP codes
+ */
+function extractZip(address: string): string | undefined {
+  const locality = address.split(',').slice(1).join(',');
+  const matches = [...locality.matchAll(/\b(\d{5})(?:-\d{4})?\b/g)];
+  return matches[matches.length - 1]?.[1];
+}
+
+/**
+ * Two-letter state code (or "Texas") after the city, if given
+ */
+function extractState(address: string): string | undefined {
+  if (/,\s*Texas\b/i.test(address)) {
+    return 'TX';
+  }
+  const match = address.match(
+    /,\s*([A-Za-z]{2})\.?(?:\s+\d{5}(?:-\d{4})?)?\s*$/
+  );
+  return match?.[1]?.toUpperCase();
+}
+
+/**
+ * City named in the address
+ *
+ * Only the part after the street line is searched, so "Dallas Pkwy" or
+ * "Austin Ave" don't resolve to those cities.
+ */
+function findCityByName(address: string): JurisdictionDefinition | undefined {
+  const locality = address.split(',').slice(1).join(',');
+  return CITIES.find(
+    (city) =>
+      containsName(locality, city.name) &&
+      !containsName(locality, `${city.name} County`)
+  );
+}
+
+function findCityByZip(zip: string): JurisdictionDefinition | undefined {
+  const value = parseInt(zip, 10);
+  return CITIES.find((city) =>
+    (CITY_ZIPS[city.id] ?? []).some(
+      ([from, to]) => value >= from && value <= to
+    )
+  );
+}
+
+function findCountyByName(address: string): JurisdictionDefinition | undefined {
+  return COUNTIES.find((county) => containsName(address, county.name));
+}
+
+/**
+ * Whole-word, case-insensitive name match
+ */
+function containsName(text: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}\\b`, 'i').test(text);
+}
@@ -1,24 +1,196 @@
-"use node";
+'use node';
 
 import Anthropic from '@anthropic-ai/sdk';
+import { isStructuredAnswer, type PartialStructuredAnswer } from './structured';
 
 /**
  * Claude Answer Generation
  *
- * Non-streaming answer generation using Claude API.
- * Streaming is deferred to Phase 9 (QUERY-05).
+ * Answer generation using Claude API:
+ * - generateAnswer: single request, returns the complete text
+ * - streamAnswer: streams tokens and reports the accumulated text as it grows
+ *
+ * Structured-output mode (Claude submits summary/sections/permits through the
+ * submit_answer tool instead of markdown):
+ * - generateStructuredAnswer: single request, returns the tool input
+ * - streamStructuredAnswer: reports the partially parsed tool input as it grows
+ *
+ * Multi-location comparisons use the submit_comparison tool:
+ * - generateComparison: single request, returns the tool input
  */
 
 // Generation constants
 const MODEL = 'claude-sonnet-4-5-20250929';
 const MAX_TOKENS = 4096;
 const TEMPERATURE = 0; // Factual accuracy
+const DEFAULT_FLUSH_INTERVAL_MS = 250; // Throttle for streaming progress callbacks
+
+/**
+ * Tool Claude is required to call in structured-output mode.
+ * Input schema mirrors StructuredAnswer.
+ */
+export const ANSWER_TOOL: Anthropic.Tool = {
+  name: 'submit_answer',
+  description:
+    'Submit the compliance answer, organized by jurisdiction level, with [N] citations and the required permits.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      summary: {
+        type: 'string',
+        description:
+          'Direct 1-3 sentence answer to the question, with [N] citations',
+      },
+      sections: {
+        type: 'array',
+        description:
+          'Requirements per jurisdiction level, in order federal, state, county, municipal; omit levels with no applicable requirements',
+        items: {
+          type: 'object',
+          properties: {
+            level: {
+              type: 'string',
+              enum: ['federal', 'state', 'county', 'municipal'],
+            },
+            jurisdictionName: {
+              type: 'string',
+              description:
+                'e.g. "United States", "Texas", "Harris County", "Houston"',
+            },
+            content: {
+              type: 'string',
+              description: 'Markdown requirements with [N] citations',
+            },
+            verdict: {
+              type: 'string',
+              enum: [
+                'permitted',
+                'permitted_with_permits',
+                'restricted',
+                'prohibited',
+                'unclear',
+              ],
+              description:
+                'Whether the activity asked about is allowed at this level',
+            },
+            blockingCitations: {
+              type: 'array',
+              items: { type: 'integer' },
+              description:
+                'Source numbers [N] of provisions that prohibit or restrict the activity',
+            },
+          },
+          required: ['level', 'jurisdictionName', 'content', 'verdict'],
+        },
+      },
+      permits: {
+        type: 'array',
+        description: 'Every permit or license the sources require',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            issuingAgency: { type: 'string' },
+            jurisdiction: {
+              type: 'string',
+              enum: ['federal', 'state', 'county', 'municipal'],
+            },
+            url: {
+              type: 'string',
+              description:
+                'Application or information URL if given in the sources',
+            },
+            citation: {
+              type: 'string',
+              description: 'Regulatory citation that requires the permit',
+            },
+          },
+          required: ['name', 'issuingAgency', 'jurisdiction', 'citation'],
+        },
+      },
+      preemptedProvisions: {
+        type: 'array',
+        description:
+          'County or municipal sources that state law preempts (not binding); leave them out of the section requirements',
+        items: {
+          type: 'object',
+          properties: {
+            citation: {
+              type: 'integer',
+              description: 'Source number [N] of the preempted local provision',
+            },
+            preemptedBy: {
+              type: 'string',
+              description:
+                'Preempting state law, e.g. "Tex. Alco. Bev. Code § 109.57"',
+            },
+            reason: {
+              type: 'string',
+              description: 'Why the provision is preempted',
+            },
+          },
+          required: ['citation', 'preemptedBy', 'reason'],
+        },
+      },
+    },
+    required: ['summary', 'sections', 'permits'],
+  },
+};
+
+/**
+ * Tool Claude is required to call for multi-location comparisons.
+ * Input schema mirrors ComparisonAnswer (lib/compare.ts).
+ */
+export const COMPARISON_TOOL: Anthropic.Tool = {
+  name: 'submit_comparison',
+  description:
+    "Submit the comparison: requirements common to every location, then each location's differences, with [N] citations.",
+  input_schema: {
+    type: 'object',
+    properties: {
+      summary: {
+        type: 'string',
+        description:
+          'Direct 1-3 sentence answer to how the locations differ, with [N] citations',
+      },
+      common: {
+        type: 'string',
+        description:
+          'Markdown requirements that apply the same way at every location, with [N] citations',
+      },
+      locations: {
+        type: 'array',
+        description: 'One entry per location, in the order listed',
+        items: {
+          type: 'object',
+          properties: {
+            location: {
+              type: 'integer',
+              description: 'Location number from the prompt',
+            },
+            differences: {
+              type: 'string',
+              description:
+                'Markdown requirements that differ or are additional at this location, with [N] citations',
+            },
+          },
+          required: ['location', 'differences'],
+        },
+      },
+    },
+    required: ['summary', 'common', 'locations'],
+  },
+};
 
 /**
  * Error class for answer generation failures.
  */
 export class GenerationError extends Error {
-  public readonly code: 'API_ERROR' | 'CONTENT_FILTER' | 'RATE_LIMIT' | 'TIMEOUT';
+  public readonly code:
+    | 'API_ERROR'
+    | 'CONTENT_FILTER'
+    | 'RATE_LIMIT'
+    | 'TIMEOUT';
   public override readonly cause?: unknown;
 
   constructor(
@@ -66,21 +238,348 @@ export async function generateAnswer(
 
     return textBlock.text;
   } catch (error) {
-    // Re-throw if already a GenerationError
-    if (error instanceof GenerationError) throw error;
+    throw toGenerationError(error);
+  }
+}
+
+/**
+ * Generate a structured compliance answer using Claude API (tool use).
+ *
+ * Non-streaming counterpart of streamStructuredAnswer.
+ *
+ * @param systemPrompt - System instructions (buildSystemPrompt({ structured: true }))
+ * @param userPrompt - User question with retrieved context
+ * @param apiKey - Anthropic API key
+ * @returns Raw submit_answer tool input (validate with parseStructuredAnswer)
+ * @throws {GenerationError} If generation fails or no tool call is returned
+ */
+export async function generateStructuredAnswer(
+  systemPrompt: string,
+  userPrompt: string,
+  apiKey: string
+): Promise<unknown> {
+  const client = new Anthropic({ apiKey });
+
+  try {
+    const response = await client.messages.create({
+      model: MODEL,
+      max_tokens: MAX_TOKENS,
+      temperature: TEMPERATURE,
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+      tools: [ANSWER_TOOL],
+      tool_choice: { type: 'tool', name: ANSWER_TOOL.name },
+    });
+
+    return findAnswerToolInput(response);
+  } catch (error) {
+    throw toGenerationError(error);
+  }
+}
+
+/**
+ * Generate a multi-location comparison using Claude API (tool use).
+ *
+ * @param systemPrompt - System instructions (COMPARISON_SYSTEM_PROMPT)
+ * @param userPrompt - Locations and merged sources (buildComparisonPrompt)
+ * @param apiKey - Anthropic API key
+ * @returns Raw submit_comparison tool input (validate with parseComparisonAnswer)
+ * @throws {GenerationError} If generation fails or no tool call is returned
+ */
+export async function generateComparison(
+  systemPrompt: string,
+  userPrompt: string,
+  apiKey: string
+): Promise<unknown> {
+  const client = new Anthropic({ apiKey });
+
+  try {
+    const response = await client.messages.create({
+      model: MODEL,
+      max_tokens: MAX_TOKENS,
+      temperature: TEMPERATURE,
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+      tools: [COMPARISON_TOOL],
+      tool_choice: { type: 'tool', name: COMPARISON_TOOL.name },
+    });
+
+    return findAnswerToolInput(response, COMPARISON_TOOL);
+  } catch (error) {
+    throw toGenerationError(error);
+  }
+}
 
-    // Handle Anthropic API errors
-    const err = error as any;
+/**
+ * Options for streaming answer generation.
+ */
+export interface StreamAnswerOptions {
+  /**
+   * Called with the full accumulated answer text as tokens arrive.
+   * Calls are throttled and awaited sequentially, so slow callbacks
+   * (e.g. Convex mutations) never overlap.
+   */
+  onProgress?: (text: string) => Promise<void>;
 
-    if (err?.status === 429) {
-      throw new GenerationError('Rate limit exceeded', 'RATE_LIMIT', error);
+  /** Minimum milliseconds between onProgress calls (default: 250) */
+  flushIntervalMs?: number;
+}
+
+/**
+ * Stream a cited compliance answer from Claude API.
+ *
+ * Produces the same text as generateAnswer, but reports partial output
+ * through onProgress so callers can persist it incrementally.
+ *
+ * @param systemPrompt - System instructions for Claude
+ * @param userPrompt - User question with retrieved context
+ * @param apiKey - Anthropic API key
+ * @param options - Progress callback and throttle interval
+ * @returns Complete generated answer text
+ * @throws {GenerationError} If generation fails or the stream is interrupted
+ *   (errors thrown by onProgress propagate unchanged)
+ *
+ * @example
+ * ```ts
+ * const answer = await streamAnswer(systemPrompt, userPrompt, apiKey, {
+ *   onProgress: (text) => ctx.runMutation(internal.mutations.saveQuery.updateMessageContent, {
+ *     messageId,
+ *     content: text,
+ *   }),
+ * });
+ * ```
+ */
+export async function streamAnswer(
+  systemPrompt: string,
+  userPrompt: string,
+  apiKey: string,
+  options?: StreamAnswerOptions
+): Promise<string> {
+  const client = new Anthropic({ apiKey });
+  const flushIntervalMs = options?.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+
+  let text = '';
+  let lastFlush = 0;
+  let flushedLength = 0;
+
+  try {
+    const stream = client.messages.stream({
+      model: MODEL,
+      max_tokens: MAX_TOKENS,
+      temperature: TEMPERATURE,
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+    });
+
+    for await (const event of stream) {
+      if (
+        event.type !== 'content_block_delta' ||
+        event.delta.type !== 'text_delta'
+      ) {
+        continue;
+      }
+
+      text += event.delta.text;
+
+      const now = Date.now();
+      if (options?.onProgress && now - lastFlush >= flushIntervalMs) {
+        lastFlush = now;
+        flushedLength = text.length;
+        await reportProgress(options.onProgress, text);
+      }
+    }
+
+    // Surfaces stream-level errors (e.g. overloaded mid-response)
+    await stream.finalMessage();
+
+    if (!text) {
+      throw new GenerationError('No text in response', 'API_ERROR');
     }
 
-    if (err?.status === 400 && err?.error?.type === 'invalid_request_error') {
-      throw new GenerationError('Content filter triggered', 'CONTENT_FILTER', error);
+    // Final flush so listeners see the complete text
+    if (options?.onProgress && flushedLength !== text.length) {
+      await reportProgress(options.onProgress, text);
     }
 
-    // Generic API error
-    throw new GenerationError('Failed to generate answer', 'API_ERROR', error);
+    return text;
+  } catch (error) {
+    if (error instanceof ProgressCallbackError) throw error.original;
+    throw toGenerationError(error);
   }
 }
+
+/**
+ * Options for streaming structured answer generation.
+ */
+export interface StreamStructuredAnswerOptions {
+  /**
+   * Called with the partially parsed tool input as it arrives.
+   * Throttled and awaited sequentially, like StreamAnswerOptions.onProgress.
+   */
+  onProgress?: (partial: PartialStructuredAnswer) => Promise<void>;
+
+  /** Minimum milliseconds between onProgress calls (default: 250) */
+  flushIntervalMs?: number;
+}
+
+/**
+ * Stream a structured compliance answer from Claude API (tool use).
+ *
+ * Forces a submit_answer tool call and returns its input unvalidated;
+ * use parseStructuredAnswer to validate it and fall back to markdown
+ * generation if it doesn't match the schema.
+ *
+ * @param systemPrompt - System instructions (buildSystemPrompt({ structured: true }))
+ * @param userPrompt - User question with retrieved context
+ * @param apiKey - Anthropic API key
+ * @param options - Progress callback and throttle interval
+ * @returns Raw submit_answer tool input
+ * @throws {GenerationError} If generation fails or no tool call is returned
+ *   (errors thrown by onProgress propagate unchanged)
+ *
+ * @example
+ * ```ts
+ * const input = await streamStructuredAnswer(systemPrompt, userPrompt, apiKey, {
+ *   onProgress: (partial) => saveDraft(renderAnswerMarkdown(partial)),
+ * });
+ * const parsed = parseStructuredAnswer(input, chunks);
+ * ```
+ */
+export async function streamStructuredAnswer(
+  systemPrompt: string,
+  userPrompt: string,
+  apiKey: string,
+  options?: StreamStructuredAnswerOptions
+): Promise<unknown> {
+  const client = new Anthropic({ apiKey });
+  const flushIntervalMs = options?.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+
+  let lastFlush = 0;
+  let flushed = true;
+
+  try {
+    const stream = client.messages.stream({
+      model: MODEL,
+      max_tokens: MAX_TOKENS,
+      temperature: TEMPERATURE,
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+      tools: [ANSWER_TOOL],
+      tool_choice: { type: 'tool', name: ANSWER_TOOL.name },
+    });
+
+    for await (const event of stream) {
+      if (
+        event.type !== 'content_block_delta' ||
+        event.delta.type !== 'input_json_delta'
+      ) {
+        continue;
+      }
+
+      flushed = false;
+      const now = Date.now();
+      if (options?.onProgress && now - lastFlush >= flushIntervalMs) {
+        lastFlush = now;
+        flushed = true;
+        await reportProgress(
+          options.onProgress,
+          currentToolInput(stream.currentMessage)
+        );
+      }
+    }
+
+    // Surfaces stream-level errors (e.g. overloaded mid-response)
+    const input = findAnswerToolInput(await stream.finalMessage());
+
+    // Final flush so listeners see the complete answer (invalid input is
+    // left to the caller's markdown fallback)
+    if (options?.onProgress && !flushed && isStructuredAnswer(input)) {
+      await reportProgress(options.onProgress, input);
+    }
+
+    return input;
+  } catch (error) {
+    if (error instanceof ProgressCallbackError) throw error.original;
+    throw toGenerationError(error);
+  }
+}
+
+/**
+ * Failure of a caller's onProgress callback (e.g. a Convex mutation).
+ * The streaming functions rethrow the original error so a persistence
+ * failure is not reported as a model failure.
+ */
+class ProgressCallbackError extends Error {
+  constructor(public readonly original: unknown) {
+    super('onProgress callback failed');
+    this.name = 'ProgressCallbackError';
+  }
+}
+
+/**
+ * Await an onProgress callback, tagging its errors as ProgressCallbackError.
+ */
+async function reportProgress<T>(
+  onProgress: (value: T) => Promise<void>,
+  value: T
+): Promise<void> {
+  try {
+    await onProgress(value);
+  } catch (error) {
+    throw new ProgressCallbackError(error);
+  }
+}
+
+/**
+ * submit_answer input from a complete message.
+ */
+function findAnswerToolInput(
+  message: Anthropic.Message,
+  tool: Anthropic.Tool = ANSWER_TOOL
+): unknown {
+  const toolUse = message.content.find(
+    (block) => block.type === 'tool_use' && block.name === tool.name
+  );
+  if (!toolUse || toolUse.type !== 'tool_use') {
+    throw new GenerationError('No answer tool call in response', 'API_ERROR');
+  }
+  return toolUse.input;
+}
+
+/**
+ * Partially parsed submit_answer input from a streaming message snapshot.
+ */
+function currentToolInput(
+  message: Anthropic.Message | undefined
+): PartialStructuredAnswer {
+  const block = message?.content.find((b) => b.type === 'tool_use');
+  return block && block.type === 'tool_use'
+    ? ((block.input ?? {}) as PartialStructuredAnswer)
+    : {};
+}
+
+/**
+ * Map an Anthropic SDK error to a GenerationError.
+ */
+function toGenerationError(error: unknown): GenerationError {
+  // Pass through if already a GenerationError
+  if (error instanceof GenerationError) return error;
+
+  // Handle Anthropic API errors
+  const err = error as any;
+
+  if (err?.status === 429) {
+    return new GenerationError('Rate limit exceeded', 'RATE_LIMIT', error);
+  }
+
+  if (err?.status === 400 && err?.error?.type === 'invalid_request_error') {
+    return new GenerationError(
+      'Content filter triggered',
+      'CONTENT_FILTER',
+      error
+    );
+  }
+
+  // Generic API error
+  return new GenerationError('Failed to generate answer', 'API_ERROR', error);
+}
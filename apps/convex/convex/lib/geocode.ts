@@ -1,15 +1,41 @@
+import {
+  FEDERAL_JURISDICTION_ID,
+  cityJurisdictionId,
+  countyJurisdictionId,
+  normalizeCityId,
+  stateJurisdictionId,
+} from '@compliance-iq/shared-types';
 import { JurisdictionResult } from '../query/types';
+import {
+  applyBoundaryClassification,
+  type BoundaryClassification,
+} from './boundaries';
+import { resolveFromGazetteer } from './gazetteer';
 
 /**
  * Geocoding Service
  *
  * Converts user addresses into jurisdiction arrays for Pinecone filtering.
  * Uses Geocodio API to resolve addresses to federal, state, county, and municipal jurisdictions.
+ * When Geocodio is unconfigured or fails, Texas addresses are resolved from
+ * the offline gazetteer (gazetteer.ts) before falling back to federal-only.
+ * Geocoded points are checked against the loaded city limits and ETJ
+ * boundaries (boundaries.ts) when the caller supplies a classifier.
  */
 
 const GEOCODIO_BASE_URL = 'https://api.geocod.io/v1.9/geocode';
 const GEOCODIO_FIELDS = 'cd119,stateleg,census';
 
+/**
+ * Classifies geocoded coordinates against the loaded boundaries (actions
+ * pass a runQuery of internal.boundaries.classify)
+ */
+export type BoundaryClassifier = (args: {
+  lat: number;
+  lng: number;
+  postalCityId?: string;
+}) => Promise<BoundaryClassification>;
+
 /**
  * Geocode an address to extract jurisdiction identifiers.
  *
@@ -17,18 +43,31 @@ const GEOCODIO_FIELDS = 'cd119,stateleg,census';
  * - Always includes "US" (federal)
  * - Adds state code if resolved (e.g., "TX")
  * - Adds county as "TX-{fips}" from census data (e.g., "TX-48201")
- * - Adds city as "TX-{city-normalized}" where city is lowercase with hyphens (e.g., "TX-houston")
+ * - Adds city as "TX-{cityId}" with the canonical cityId from shared-types (e.g., "TX-san_antonio")
+ *
+ * Gracefully handles errors: without an API key, or when Geocodio fails or
+ * finds nothing, the address is resolved offline from the Texas gazetteer,
+ * and only then falls back to federal-only. `resolver` on the result says
+ * which one answered.
  *
- * Gracefully handles errors by returning federal-only fallback.
+ * With a boundary classifier, Geocodio results are marked incorporated or
+ * unincorporated: unincorporated addresses lose the city jurisdiction and
+ * record the city whose ETJ covers them (see boundaries.ts).
  *
  * @param address - Street address to geocode
- * @param apiKey - Geocodio API key
+ * @param apiKey - Geocodio API key (undefined: resolve offline)
+ * @param options.classify - Boundary classifier for geocoded coordinates
  * @returns JurisdictionResult with jurisdiction array and details
  */
 export async function geocodeAddress(
   address: string,
-  apiKey: string
+  apiKey: string | undefined,
+  options: { classify?: BoundaryClassifier } = {}
 ): Promise<JurisdictionResult> {
+  if (!apiKey) {
+    return resolveOffline(address);
+  }
+
   try {
     const url = `${GEOCODIO_BASE_URL}?q=${encodeURIComponent(address)}&fields=${GEOCODIO_FIELDS}&api_key=${apiKey}`;
     const response = await fetch(url);
@@ -37,7 +76,7 @@ export async function geocodeAddress(
       console.error(
         `Geocodio API error: ${response.status} ${response.statusText}`
       );
-      return getFallbackJurisdictions();
+      return resolveOffline(address);
     }
 
     const data = await response.json();
@@ -45,24 +84,24 @@ export async function geocodeAddress(
     // No results found
     if (!data.results || data.results.length === 0) {
       console.warn('Geocodio returned no results for address:', address);
-      return getFallbackJurisdictions();
+      return resolveOffline(address);
     }
 
     // Extract best match
     const result = data.results[0];
-    const jurisdictions: string[] = ['US']; // Always include federal
+    const jurisdictions: string[] = [FEDERAL_JURISDICTION_ID]; // Always include federal
 
     // State
     const state = result.address_components?.state;
     if (state) {
-      jurisdictions.push(state);
+      jurisdictions.push(stateJurisdictionId(state));
     }
 
     // County (from census FIPS code)
     const countyFips = result.fields?.census?.county_fips;
     let county: { name: string; fips: string } | undefined;
     if (state && countyFips) {
-      jurisdictions.push(`${state}-${countyFips}`);
+      jurisdictions.push(countyJurisdictionId(state, countyFips));
       county = {
         name: result.fields?.census?.county_name || 'Unknown County',
         fips: countyFips,
@@ -71,38 +110,79 @@ export async function geocodeAddress(
 
     // City (normalized)
     const cityName = result.address_components?.city;
+    let cityId: string | undefined;
     if (state && cityName) {
-      const cityId = normalizeCity(cityName);
-      jurisdictions.push(`${state}-${cityId}`);
+      cityId = normalizeCityId(cityName);
+      jurisdictions.push(cityJurisdictionId(state, cityName));
     }
 
-    return {
+    const coordinates =
+      typeof result.location?.lat === 'number' &&
+      typeof result.location?.lng === 'number'
+        ? { lat: result.location.lat, lng: result.location.lng }
+        : undefined;
+
+    const geocoded: JurisdictionResult = {
       jurisdictions,
       state,
       county,
       city: cityName,
+      cityId,
+      coordinates,
+      resolver: 'geocodio',
       raw: data,
     };
+    return await classifyLocality(geocoded, options.classify);
   } catch (error) {
     console.error('Geocoding error:', error);
-    return getFallbackJurisdictions();
+    return resolveOffline(address);
   }
 }
 
 /**
- * Normalize city name for jurisdiction identifier.
+ * Apply the boundary classification for a geocoded point
  *
- * Converts city name to lowercase, replaces spaces with hyphens,
- * and removes special characters.
+ * Boundary lookup failures keep the Geocodio result as is.
+ */
+async function classifyLocality(
+  result: JurisdictionResult,
+  classify: BoundaryClassifier | undefined
+): Promise<JurisdictionResult> {
+  if (!classify || !result.coordinates) {
+    return result;
+  }
+
+  try {
+    const classification = await classify({
+      ...result.coordinates,
+      postalCityId:
+        result.state && result.cityId
+          ? cityJurisdictionId(result.state, result.cityId)
+          : undefined,
+    });
+    return applyBoundaryClassification(result, classification);
+  } catch (error) {
+    console.warn('Boundary classification failed, keeping postal city:', error);
+    return result;
+  }
+}
+
+/**
+ * Resolve an address without Geocodio: offline gazetteer, else federal-only.
  *
- * @param city - City name (e.g., "Houston", "Fort Worth")
- * @returns Normalized city identifier (e.g., "houston", "fort-worth")
+ * @param address - Street address to resolve
+ * @returns JurisdictionResult from the gazetteer or the fallback
  */
-function normalizeCity(city: string): string {
-  return city
-    .toLowerCase()
-    .replace(/\s+/g, '-') // Replace spaces with hyphens
-    .replace(/[^a-z0-9-]/g, ''); // Remove special characters
+export function resolveOffline(address: string): JurisdictionResult {
+  const result = resolveFromGazetteer(address);
+  if (!result) {
+    console.warn(
+      'Address not resolvable offline, using federal-only fallback:',
+      address
+    );
+    return getFallbackJurisdictions();
+  }
+  return result;
 }
 
 /**
@@ -114,10 +194,49 @@ function normalizeCity(city: string): string {
  */
 export function getFallbackJurisdictions(): JurisdictionResult {
   return {
-    jurisdictions: ['US'],
+    jurisdictions: [FEDERAL_JURISDICTION_ID],
     state: undefined,
     county: undefined,
     city: undefined,
+    resolver: 'fallback',
     raw: {},
   };
 }
+
+/**
+ * Location fields to store from a geocoding result.
+ *
+ * Returns undefined unless Geocodio resolved the address to a state, so a
+ * failed lookup is never stored as the location's jurisdictions and
+ * offline (gazetteer) results are re-resolved once Geocodio is available.
+ *
+ * @param result - Result of geocodeAddress
+ * @returns Fields for the locations table, or undefined if unresolved
+ */
+export function toLocationGeocode(result: JurisdictionResult):
+  | {
+      jurisdictions: string[];
+      state: string;
+      countyFips?: string;
+      cityId?: string;
+      lat?: number;
+      lng?: number;
+      incorporation?: 'incorporated' | 'unincorporated';
+      etj?: { jurisdictionId: string; name: string };
+    }
+  | undefined {
+  if (result.resolver !== 'geocodio' || !result.state) {
+    return undefined;
+  }
+
+  return {
+    jurisdictions: result.jurisdictions,
+    state: result.state,
+    countyFips: result.county?.fips,
+    cityId: result.cityId,
+    lat: result.coordinates?.lat,
+    lng: result.coordinates?.lng,
+    incorporation: result.incorporation,
+    etj: result.etj,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Hybrid Retrieval Module
+ *
+ * Lexical (keyword) scoring and reciprocal rank fusion (RRF) used to
+ * combine keyword matches with Pinecone vector similarity.
+ *
+ * The Pinecone index is dense-only, so the lexical signal is computed
+ * in-process with BM25 over the candidate pool's chunk text and citation
+ * metadata. This lets exact terms like "117.5" or "Alco. Bev." outrank
+ * chunks that are only semantically close.
+ */
+
+/**
+ * Constants
+ */
+/** Standard RRF damping constant (Cormack et al., 2009) */
+export const DEFAULT_RRF_K = 60;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** Citation metadata is repeated so matches there outweigh body text */
+const CITATION_FIELD_WEIGHT = 3;
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be by can do does for from how i in is it my of ' +
+    'on or say says should that the this to we what when where which who with our'
+  ).split(' ')
+);
+
+/**
+ * Document fields used for lexical scoring
+ */
+export interface LexicalDocument {
+  /** Document identifier */
+  id: string;
+  /** Chunk body text */
+  text: string;
+  /** Bluebook citation (weighted higher than text) */
+  citation?: string;
+  /** Section/heading title */
+  title?: string;
+}
+
+/**
+ * Tokenize text for lexical matching
+ *
+ * Lowercases, keeps dotted section numbers intact ("117.5", "481.002"),
+ * strips punctuation and drops stop words.
+ *
+ * @param text Input text
+ * @returns Array of tokens
+ *
+ * @example
+ * ```ts
+ * tokenize('What does 21 C.F.R. § 117.5 say?')
+ * // => ["21", "cfr", "117.5"]
+ * ```
+ */
+export function tokenize(text: string): string[] {
+  return (
+    text
+      .toLowerCase()
+      // Join abbreviation letters: "c.f.r." -> "cfr"
+      .replace(/\b([a-z])\.(?=[a-z]\.)/g, '$1')
+      .replace(/\b([a-z])\.(?![0-9])/g, '$1')
+      .split(/[^a-z0-9.]+/)
+      .map((token) => token.replace(/^\.+|\.+$/g, ''))
+      .filter((token) => token.length > 0 && !STOP_WORDS.has(token))
+  );
+}
+
+/**
+ * Score documents against a query with BM25
+ *
+ * Document statistics (IDF, average length) are computed over the given
+ * documents only, i.e. the retrieval candidate pool.
+ *
+ * @param query Query text
+ * @param documents Candidate documents
+ * @returns Map of document ID to BM25 score (only documents scoring > 0)
+ */
+export function scoreLexical(
+  query: string,
+  documents: LexicalDocument[]
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || documents.length === 0) {
+    return scores;
+  }
+
+  // Term frequencies per document
+  const docTerms = documents.map((doc) => {
+    const tokens = [
+      ...tokenize(doc.text),
+      ...tokenize(doc.title ?? ''),
+      ...Array(CITATION_FIELD_WEIGHT)
+        .fill(tokenize(doc.citation ?? ''))
+        .flat(),
+    ];
+    const tf = new Map<string, number>();
+    for (const token of tokens) {
+      tf.set(token, (tf.get(token) ?? 0) + 1);
+    }
+    return { id: doc.id, tf, length: tokens.length };
+  });
+
+  const avgLength =
+    docTerms.reduce((sum, d) => sum + d.length, 0) / docTerms.length || 1;
+
+  // Document frequency per query term
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const df = docTerms.filter((d) => d.tf.has(term)).length;
+    idf.set(term, Math.log(1 + (docTerms.length - df + 0.5) / (df + 0.5)));
+  }
+
+  for (const doc of docTerms) {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = doc.tf.get(term) ?? 0;
+      if (tf === 0) continue;
+      const norm = BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / avgLength));
+      score += (idf.get(term) ?? 0) * ((tf * (BM25_K1 + 1)) / (tf + norm));
+    }
+    if (score > 0) {
+      scores.set(doc.id, score);
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Fuse multiple rankings with reciprocal rank fusion
+ *
+ * Each ranking contributes 1 / (k + rank) for every ID it contains
+ * (rank is 1-based). IDs absent from a ranking get no contribution from it.
+ *
+ * @param rankings Arrays of IDs, each ordered best-first
+ * @param k Damping constant (default: 60)
+ * @returns Map of ID to fused score
+ *
+ * @example
+ * ```ts
+ * reciprocalRankFusion([['a', 'b'], ['b', 'c']])
+ * // => Map { 'a' => 1/61, 'b' => 1/62 + 1/61, 'c' => 1/62 }
+ * ```
+ */
+export function reciprocalRankFusion(
+  rankings: string[][],
+  k: number = DEFAULT_RRF_K
+): Map<string, number> {
+  const fused = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      fused.set(id, (fused.get(id) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+  return fused;
+}
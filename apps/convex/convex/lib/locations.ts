@@ -0,0 +1,185 @@
+/**
+ * Store List Import
+ *
+ * Parses our store list export (CSV) into location rows for the bulk import
+ * mutation (../locations.ts importCsv). The address is either a single
+ * `address` column or `street`/`city`/`state`/`zip` columns, which are
+ * joined into one geocodable address.
+ */
+
+export type LocationStatus = 'planned' | 'open' | 'closed';
+
+/**
+ * A store parsed from the CSV
+ */
+export interface LocationRow {
+  name: string;
+  storeNumber?: string;
+  address: string;
+  status?: LocationStatus;
+}
+
+/**
+ * Result of parsing a store list
+ */
+export interface ParsedLocations {
+  rows: LocationRow[];
+  /** Rows that were skipped, with their 1-based line number */
+  errors: { line: number; message: string }[];
+}
+
+const STATUSES: LocationStatus[] = ['planned', 'open', 'closed'];
+
+/** Accepted header names (normalized) for each field */
+const HEADER_ALIASES: Record<string, string[]> = {
+  name: ['name', 'store_name', 'location_name'],
+  storeNumber: ['store_number', 'store', 'store_no', 'warehouse_number'],
+  address: ['address', 'full_address'],
+  street: ['street', 'street_address', 'address_1'],
+  city: ['city'],
+  state: ['state'],
+  zip: ['zip', 'zip_code', 'postal_code'],
+  status: ['status'],
+};
+
+/**
+ * Split CSV text into records
+ *
+ * Handles quoted fields (with embedded commas, newlines and doubled quotes)
+ * and CRLF line endings. Blank lines are dropped.
+ *
+ * @param csv - CSV text
+ * @returns Records with their 1-based starting line number
+ */
+export function parseCsv(csv: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some((value) => value.trim() !== '')) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+    recordLine = line;
+  };
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i]!;
+
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n') {
+      line++;
+      endRecord();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+  endRecord();
+
+  return records;
+}
+
+/**
+ * Parse a store list CSV into location rows
+ *
+ * The first record is the header. Rows without a name or address are
+ * reported in `errors` rather than failing the whole import.
+ *
+ * @param csv - CSV text with a header row
+ * @returns Parsed rows and per-line errors
+ * @throws Error if the header has no name column or no address columns
+ */
+export function parseLocationsCsv(csv: string): ParsedLocations {
+  const [header, ...records] = parseCsv(csv);
+  if (!header) {
+    return { rows: [], errors: [] };
+  }
+
+  const columns = resolveColumns(header.fields);
+  if (columns['name'] === undefined) {
+    throw new Error('CSV header must include a name column');
+  }
+  if (columns['address'] === undefined && columns['street'] === undefined) {
+    throw new Error('CSV header must include an address or street column');
+  }
+
+  const rows: LocationRow[] = [];
+  const errors: ParsedLocations['errors'] = [];
+
+  for (const { line, fields } of records) {
+    const get = (key: string) => {
+      const index = columns[key];
+      return index === undefined ? '' : (fields[index] ?? '').trim();
+    };
+
+    const name = get('name');
+    const address =
+      get('address') ||
+      [get('street'), get('city'), [get('state'), get('zip')].join(' ').trim()]
+        .filter(Boolean)
+        .join(', ');
+
+    if (!name || !address) {
+      errors.push({ line, message: 'Missing name or address' });
+      continue;
+    }
+
+    const status = get('status').toLowerCase();
+    if (status && !(STATUSES as string[]).includes(status)) {
+      errors.push({ line, message: `Unknown status "${status}"` });
+      continue;
+    }
+
+    rows.push({
+      name,
+      storeNumber: get('storeNumber') || undefined,
+      address,
+      status: (status || undefined) as LocationStatus | undefined,
+    });
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Map header cells to field column indexes
+ */
+function resolveColumns(header: string[]): Record<string, number | undefined> {
+  const normalized = header.map((cell) =>
+    cell
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_|_$/g, '')
+  );
+
+  const columns: Record<string, number | undefined> = {};
+  for (const [key, aliases] of Object.entries(HEADER_ALIASES)) {
+    const index = normalized.findIndex((cell) => aliases.includes(cell));
+    columns[key] = index === -1 ? undefined : index;
+  }
+  return columns;
+}
@@ -1,4 +1,16 @@
-import type { RetrievedChunk, Citation, Permit, JurisdictionSection } from '../query/types';
+import type {
+  RetrievedChunk,
+  Citation,
+  Permit,
+  JurisdictionSection,
+  JurisdictionVerdict,
+  PreemptedProvision,
+  StructuredAnswer,
+  Verdict,
+  VerdictStatus,
+} from '../query/types';
+import { isStructuredAnswer } from './structured';
+import { parseVerdictLabel, rollUpVerdict } from './verdict';
 
 /**
  * Response Parsing Module
@@ -7,6 +19,12 @@ import type { RetrievedChunk, Citation, Permit, JurisdictionSection } from '../q
  * - Citations extracted and validated
  * - Permits extracted into dedicated array
  * - Jurisdiction sections separated by level
+ * - Per-level verdicts rolled up into an overall verdict
+ * - Local provisions the answer found preempted by state law, flagged on
+ *   their citations and left out of the verdicts
+ *
+ * parseStructuredAnswer handles structured-output (tool use) answers;
+ * parseAnswer is the regex-based fallback for markdown answers.
  */
 
 /**
@@ -19,7 +37,10 @@ import type { RetrievedChunk, Citation, Permit, JurisdictionSection } from '../q
  * @param chunks - Retrieved chunks from Pinecone (indexed from 0)
  * @returns Array of unique citations
  */
-export function extractCitations(text: string, chunks: RetrievedChunk[]): Citation[] {
+export function extractCitations(
+  text: string,
+  chunks: RetrievedChunk[]
+): Citation[] {
   const citationRegex = /\[(\d+)\]/g;
   const citationIds = new Set<number>();
   const citations: Citation[] = [];
@@ -42,10 +63,14 @@ export function extractCitations(text: string, chunks: RetrievedChunk[]): Citati
         citations.push({
           id,
           citation: chunk.citation,
-          text: chunk.text.substring(0, 200) + (chunk.text.length > 200 ? '...' : ''),
+          text:
+            chunk.text.substring(0, 200) +
+            (chunk.text.length > 200 ? '...' : ''),
           url: chunk.url,
           jurisdiction: chunk.jurisdiction,
           sourceType: chunk.sourceType,
+          chunkId: chunk.id,
+          sourceKey: chunk.sourceKey,
         });
       }
     }
@@ -117,7 +142,8 @@ export function extractPermits(text: string): Permit[] {
   // **Link**: https://...
   // **Regulatory Reference**: 25 TAC § 228.4
 
-  const permitEntryRegex = /\*\*Permit Name\*\*:\s*(.+?)(?=\n|$)[\s\S]*?\*\*Issuing Agency\*\*:\s*(.+?)(?=\n|$)[\s\S]*?\*\*Jurisdiction\*\*:\s*(.+?)(?=\n|$)(?:[\s\S]*?\*\*Link\*\*:\s*(.+?)(?=\n|$))?[\s\S]*?\*\*Regulatory Reference\*\*:\s*(.+?)(?=\n|$)/gi;
+  const permitEntryRegex =
+    /\*\*Permit Name\*\*:\s*(.+?)(?=\n|$)[\s\S]*?\*\*Issuing Agency\*\*:\s*(.+?)(?=\n|$)[\s\S]*?\*\*Jurisdiction\*\*:\s*(.+?)(?=\n|$)(?:[\s\S]*?\*\*Link\*\*:\s*(.+?)(?=\n|$))?[\s\S]*?\*\*Regulatory Reference\*\*:\s*(.+?)(?=\n|$)/gi;
 
   let match;
   while ((match = permitEntryRegex.exec(permitSection)) !== null) {
@@ -135,6 +161,106 @@ export function extractPermits(text: string): Permit[] {
   return permits;
 }
 
+/**
+ * Extract preempted local provisions from the answer text.
+ *
+ * Looks for the "Preempted Local Provisions" section; each entry is a line
+ * "- [N] Preempted by <state law>: <reason>".
+ *
+ * @param text - Generated answer text
+ * @returns Entries in submit_answer tool input form
+ */
+export function extractPreemptedProvisions(
+  text: string
+): NonNullable<StructuredAnswer['preemptedProvisions']> {
+  const section = text.match(
+    /###?\s*Preempted Local Provisions.*?(?=###|$)/is
+  )?.[0];
+  if (!section) {
+    return [];
+  }
+
+  const entryRegex =
+    /^\s*[-*]\s*\[(\d+)\]\s*Preempted by\s+(.+?)(?::\s+(.+))?$/gim;
+  const entries: NonNullable<StructuredAnswer['preemptedProvisions']> = [];
+  let match;
+  while ((match = entryRegex.exec(section)) !== null) {
+    if (match[1] && match[2]) {
+      entries.push({
+        citation: parseInt(match[1], 10),
+        preemptedBy: match[2].trim(),
+        reason: match[3]?.trim() ?? '',
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Resolve preempted provision entries against the retrieved chunks.
+ *
+ * Only county and municipal sources can be preempted; other entries (and
+ * references to non-existent chunks) are dropped with a warning.
+ *
+ * @param entries - Entries from the tool input or extractPreemptedProvisions
+ * @param chunks - Retrieved chunks used to generate the answer
+ * @returns Preempted provisions (one per source) and warnings
+ */
+export function resolvePreemptedProvisions(
+  entries: NonNullable<StructuredAnswer['preemptedProvisions']>,
+  chunks: RetrievedChunk[]
+): { provisions: PreemptedProvision[]; warnings: string[] } {
+  const provisions: PreemptedProvision[] = [];
+  const warnings: string[] = [];
+
+  for (const entry of entries) {
+    const chunk = chunks[entry.citation - 1];
+    if (!chunk) {
+      warnings.push(
+        `Preempted provision [${entry.citation}] references a non-existent chunk`
+      );
+      continue;
+    }
+    if (chunk.sourceType !== 'county' && chunk.sourceType !== 'municipal') {
+      warnings.push(
+        `Preempted provision [${entry.citation}] is a ${chunk.sourceType} source, not a local provision`
+      );
+      continue;
+    }
+    if (provisions.some((p) => p.citationId === entry.citation)) {
+      continue;
+    }
+    provisions.push({
+      citationId: entry.citation,
+      citation: chunk.citation,
+      jurisdiction: chunk.jurisdiction,
+      preemptedBy: entry.preemptedBy.trim(),
+      reason: entry.reason.trim(),
+    });
+  }
+
+  return { provisions, warnings };
+}
+
+/**
+ * Flag citations of preempted provisions with the preempting law.
+ *
+ * @param citations - Citations extracted from the answer
+ * @param provisions - Resolved preempted provisions
+ * @returns Citations with preemptedBy set where preempted
+ */
+function flagPreemptedCitations(
+  citations: Citation[],
+  provisions: PreemptedProvision[]
+): Citation[] {
+  return citations.map((citation) => {
+    const provision = provisions.find((p) => p.citationId === citation.id);
+    return provision
+      ? { ...citation, preemptedBy: provision.preemptedBy }
+      : citation;
+  });
+}
+
 /**
  * Parse answer text into jurisdiction sections.
  *
@@ -149,10 +275,22 @@ export function parseJurisdictionSections(text: string): JurisdictionSection[] {
 
   // Define jurisdiction levels with their regex patterns
   const jurisdictionPatterns = [
-    { level: 'federal' as const, pattern: /###\s*Federal.*?\n([\s\S]*?)(?=###|$)/i },
-    { level: 'state' as const, pattern: /###\s*State.*?\n([\s\S]*?)(?=###|$)/i },
-    { level: 'county' as const, pattern: /###\s*County.*?\n([\s\S]*?)(?=###|$)/i },
-    { level: 'municipal' as const, pattern: /###\s*Municipal.*?\n([\s\S]*?)(?=###|$)/i },
+    {
+      level: 'federal' as const,
+      pattern: /###\s*Federal.*?\n([\s\S]*?)(?=###|$)/i,
+    },
+    {
+      level: 'state' as const,
+      pattern: /###\s*State.*?\n([\s\S]*?)(?=###|$)/i,
+    },
+    {
+      level: 'county' as const,
+      pattern: /###\s*County.*?\n([\s\S]*?)(?=###|$)/i,
+    },
+    {
+      level: 'municipal' as const,
+      pattern: /###\s*Municipal.*?\n([\s\S]*?)(?=###|$)/i,
+    },
   ];
 
   for (const { level, pattern } of jurisdictionPatterns) {
@@ -189,6 +327,7 @@ function extractJurisdictionName(header: string, level: string): string {
     .replace(/###/g, '')
     .replace(new RegExp(level, 'i'), '')
     .replace(/requirements?/i, '')
+    .replace(/^[\s:\-–—]+/, '')
     .trim();
 
   // If we have a specific name (e.g., "Texas"), use it
@@ -200,6 +339,39 @@ function extractJurisdictionName(header: string, level: string): string {
   return level.charAt(0).toUpperCase() + level.slice(1);
 }
 
+/**
+ * Split the verdict line ("**Verdict**: Prohibited [2]") off section content.
+ *
+ * @param content - Section markdown content
+ * @returns Content without the verdict line, plus the verdict status and
+ *   cited blocking provisions if a verdict line was found
+ */
+export function extractSectionVerdict(content: string): {
+  content: string;
+  status?: VerdictStatus;
+  blockingCitations: number[];
+} {
+  const verdictLineRegex =
+    /^[ \t]*(?:[-*][ \t]*)?\*\*Verdict:?\*\*:?[ \t]*(.*)(?:\r?\n|$)/im;
+  const match = content.match(verdictLineRegex);
+  if (!match) {
+    return { content, blockingCitations: [] };
+  }
+
+  const label = match[1] ?? '';
+  const blockingCitations = [
+    ...new Set(
+      [...label.matchAll(/\[(\d+)\]/g)].map((m) => parseInt(m[1]!, 10))
+    ),
+  ];
+
+  return {
+    content: content.replace(verdictLineRegex, '').trim(),
+    status: parseVerdictLabel(label),
+    blockingCitations,
+  };
+}
+
 /**
  * Parse Claude's generated answer into structured format.
  *
@@ -207,11 +379,13 @@ function extractJurisdictionName(header: string, level: string): string {
  * 1. Validates citations
  * 2. Extracts citations and maps to chunks
  * 3. Extracts permits
- * 4. Parses jurisdiction sections
+ * 4. Parses jurisdiction sections and their verdict lines
+ * 5. Extracts preempted local provisions and flags their citations
  *
  * @param rawAnswer - Raw text response from Claude
  * @param chunks - Retrieved chunks used to generate the answer
- * @returns Parsed answer with sections, citations, permits, and warnings
+ * @returns Parsed answer with sections, citations, permits, verdict (if the
+ *   answer has verdict lines), preempted provisions, and warnings
  */
 export function parseAnswer(
   rawAnswer: string,
@@ -220,6 +394,8 @@ export function parseAnswer(
   sections: JurisdictionSection[];
   citations: Citation[];
   permits: Permit[];
+  verdict?: Verdict;
+  preemptedProvisions: PreemptedProvision[];
   warnings: string[];
 } {
   const warnings: string[] = [];
@@ -232,14 +408,41 @@ export function parseAnswer(
     );
   }
 
+  // Extract preempted local provisions
+  const preempted = resolvePreemptedProvisions(
+    extractPreemptedProvisions(rawAnswer),
+    chunks
+  );
+  warnings.push(...preempted.warnings);
+  const preemptedIds = new Set(preempted.provisions.map((p) => p.citationId));
+
   // Extract citations
-  const citations = extractCitations(rawAnswer, chunks);
+  const citations = flagPreemptedCitations(
+    extractCitations(rawAnswer, chunks),
+    preempted.provisions
+  );
 
   // Extract permits
   const permits = extractPermits(rawAnswer);
 
-  // Parse jurisdiction sections
-  const sections = parseJurisdictionSections(rawAnswer);
+  // Parse jurisdiction sections, splitting off verdict lines
+  const levels: JurisdictionVerdict[] = [];
+  const sections = parseJurisdictionSections(rawAnswer).map((section) => {
+    const { content, status, blockingCitations } = extractSectionVerdict(
+      section.content
+    );
+    if (status) {
+      levels.push({
+        level: section.level,
+        jurisdictionName: section.jurisdictionName,
+        status,
+        blockingCitations: blockingCitations.filter(
+          (id) => id >= 1 && id <= chunks.length && !preemptedIds.has(id)
+        ),
+      });
+    }
+    return { ...section, content };
+  });
 
   // Note: We don't populate citations/permits arrays within each section here.
   // That can be done by the caller if needed, by analyzing which citations
@@ -249,6 +452,113 @@ export function parseAnswer(
     sections,
     citations,
     permits,
+    verdict: levels.length > 0 ? rollUpVerdict(levels) : undefined,
+    preemptedProvisions: preempted.provisions,
+    warnings,
+  };
+}
+
+/**
+ * Parse a structured-output answer (submit_answer tool input).
+ *
+ * Sections and permits come directly from the tool input; citations are
+ * resolved from [N] references in the summary and section content, and each
+ * section gets its own citations and the permits for its level. Section
+ * verdicts are rolled up into the overall verdict. Preempted local
+ * provisions are flagged on their citations and don't block verdicts.
+ *
+ * @param input - Raw tool_use input from Claude
+ * @param chunks - Retrieved chunks used to generate the answer
+ * @returns Parsed answer, or null if the input is not a valid StructuredAnswer
+ *   (callers fall back to markdown generation + parseAnswer)
+ */
+export function parseStructuredAnswer(
+  input: unknown,
+  chunks: RetrievedChunk[]
+): {
+  summary: string;
+  sections: JurisdictionSection[];
+  citations: Citation[];
+  permits: Permit[];
+  verdict?: Verdict;
+  preemptedProvisions: PreemptedProvision[];
+  warnings: string[];
+} | null {
+  if (!isStructuredAnswer(input)) {
+    return null;
+  }
+
+  const answer: StructuredAnswer = input;
+  const warnings: string[] = [];
+
+  const allText = [
+    answer.summary,
+    ...answer.sections.map((section) => section.content),
+    ...(answer.preemptedProvisions ?? []).map(
+      (provision) => `[${provision.citation}] ${provision.reason}`
+    ),
+  ].join('\n\n');
+
+  const validation = validateCitations(allText, chunks);
+  if (!validation.valid) {
+    warnings.push(
+      `Invalid citation references found: [${validation.invalidRefs.join(', ')}] (references to non-existent chunks)`
+    );
+  }
+
+  const preempted = resolvePreemptedProvisions(
+    answer.preemptedProvisions ?? [],
+    chunks
+  );
+  warnings.push(...preempted.warnings);
+  const preemptedIds = new Set(preempted.provisions.map((p) => p.citationId));
+
+  const permits = answer.permits.map((permit) => ({
+    ...permit,
+    name: permit.name.trim(),
+    url: permit.url?.trim() || undefined,
+  }));
+
+  const sections: JurisdictionSection[] = answer.sections.map((section) => ({
+    level: section.level,
+    jurisdictionName: section.jurisdictionName.trim(),
+    content: section.content.trim(),
+    citations: flagPreemptedCitations(
+      extractCitations(section.content, chunks),
+      preempted.provisions
+    ),
+    permits: permits.filter(
+      (permit) => permit.jurisdiction.toLowerCase() === section.level
+    ),
+  }));
+
+  const levels: JurisdictionVerdict[] = answer.sections.flatMap((section) =>
+    section.verdict
+      ? [
+          {
+            level: section.level,
+            jurisdictionName: section.jurisdictionName.trim(),
+            status: section.verdict,
+            blockingCitations: [
+              ...new Set(section.blockingCitations ?? []),
+            ].filter(
+              (id) => id >= 1 && id <= chunks.length && !preemptedIds.has(id)
+            ),
+          },
+        ]
+      : []
+  );
+
+  return {
+    summary: answer.summary.trim(),
+    sections,
+    citations: flagPreemptedCitations(
+      extractCitations(allText, chunks),
+      preempted.provisions
+    ),
+    permits,
+    verdict: levels.length > 0 ? rollUpVerdict(levels) : undefined,
+    preemptedProvisions: preempted.provisions,
     warnings,
   };
 }
@@ -0,0 +1,81 @@
+/**
+ * Permit Keys and Renewal Dates
+ *
+ * Helpers shared by the permit registry (../permits.ts) and the new-store
+ * checklist (./checklist.ts): a stable permit type key so the same permit
+ * named slightly differently by two answers is recorded once per location,
+ * the jurisdiction level a permit is issued at, and expiry dates from a
+ * renewal cadence.
+ */
+
+type PermitLevel = 'federal' | 'state' | 'county' | 'municipal';
+
+const LEVELS: PermitLevel[] = ['federal', 'state', 'county', 'municipal'];
+
+/**
+ * Normalize a permit name into a permit type key
+ *
+ * @param name - Permit or license name
+ * @returns Lowercase hyphenated key
+ *
+ * @example
+ * ```ts
+ * permitTypeKey("Medical Food Dealer's Permit") // => "medical-food-dealer-permit"
+ * ```
+ */
+export function permitTypeKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Map a permit's jurisdiction (level name or jurisdiction ID) to a level
+ *
+ * Answers give either a level ("state") or a jurisdiction identifier
+ * ("TX", "TX-48201", "TX-houston"); unrecognized values are treated as state.
+ *
+ * @param jurisdiction - Permit jurisdiction as written in the answer
+ * @returns Jurisdiction level
+ */
+export function permitLevel(jurisdiction: string): PermitLevel {
+  const value = jurisdiction.trim();
+  const lower = value.toLowerCase();
+
+  if ((LEVELS as string[]).includes(lower)) {
+    return lower as PermitLevel;
+  }
+  if (value === 'US' || /federal|united states/.test(lower)) {
+    return 'federal';
+  }
+  if (/^[A-Z]{2}-\d{5}$/.test(value) || lower.includes('county')) {
+    return 'county';
+  }
+  if (/^[A-Z]{2}-/.test(value) || /city|municipal/.test(lower)) {
+    return 'municipal';
+  }
+  return 'state';
+}
+
+/**
+ * Expiry date from an issue (or renewal) date and a renewal cadence
+ *
+ * @param issuedAt - Issue or last renewal timestamp (ms)
+ * @param renewalIntervalMonths - Months between renewals
+ * @returns Expiry timestamp (ms)
+ *
+ * @example
+ * ```ts
+ * computeExpiry(Date.UTC(2025, 0, 15), 12) // => Date.UTC(2026, 0, 15)
+ * ```
+ */
+export function computeExpiry(
+  issuedAt: number,
+  renewalIntervalMonths: number
+): number {
+  const date = new Date(issuedAt);
+  date.setUTCMonth(date.getUTCMonth() + renewalIntervalMonths);
+  return date.getTime();
+}
@@ -0,0 +1,176 @@
+import {
+  getJurisdiction,
+  jurisdictionLevel,
+  type JurisdictionLevel,
+} from '@compliance-iq/shared-types';
+
+/**
+ * State Preemption of Local Law
+ *
+ * Federal law sits above state law, state law above county and municipal
+ * law, but precedence between levels is not just "most specific wins":
+ * states occupy whole fields of regulation, and county or city ordinances
+ * in those fields are unenforceable even when they are on the books (and
+ * in the index). The preemption map lists the fields Texas occupies, keyed
+ * by chunk category (see lib/activities.ts) and the local levels it
+ * preempts. Rules matching a question's categories are given to Claude
+ * (see prompt.ts buildUserPrompt), which lists preempted local provisions
+ * separately instead of presenting them as binding.
+ *
+ * Entries summarize the preemption statutes for retrieval context; they
+ * are curated, not exhaustive, and not a substitute for the sources.
+ */
+
+/**
+ * A field of regulation a state occupies
+ */
+export interface PreemptionRule {
+  /** Rule identifier (e.g., "tx-alcohol") */
+  id: string;
+  /** Chunk category the rule covers (e.g., "alcohol") */
+  category: string;
+  /** State whose law preempts (jurisdiction ID, e.g., "TX") */
+  state: string;
+  /** Local levels whose provisions are preempted */
+  levels: Array<Extract<JurisdictionLevel, 'county' | 'municipal'>>;
+  /** Preempting law (e.g., "Tex. Alco. Bev. Code § 109.57") */
+  preemptedBy: string;
+  /** What local governments may not regulate */
+  scope: string;
+  /** Local powers the preemption leaves in place */
+  exceptions?: string;
+}
+
+/**
+ * Curated preemption map
+ */
+export const PREEMPTION_MAP: PreemptionRule[] = [
+  {
+    id: 'tx-alcohol',
+    category: 'alcohol',
+    state: 'TX',
+    levels: ['county', 'municipal'],
+    preemptedBy: 'Tex. Alco. Bev. Code §§ 1.06, 109.57',
+    scope:
+      'The Alcoholic Beverage Code exclusively governs the manufacture, sale, distribution, transportation, and possession of alcoholic beverages; counties and cities may not impose stricter standards on licensed or permitted premises or businesses.',
+    exceptions:
+      'Local option (wet/dry) elections, distance rules near churches, schools, and hospitals (§ 109.33), and other local powers the code expressly grants.',
+  },
+  {
+    id: 'tx-firearms-municipal',
+    category: 'firearms',
+    state: 'TX',
+    levels: ['municipal'],
+    preemptedBy: "Tex. Loc. Gov't Code § 229.001",
+    scope:
+      'Cities may not regulate the transfer, possession, wearing, carrying, ownership, storage, transportation, licensing, or registration of firearms, air guns, knives, ammunition, or firearm supplies.',
+    exceptions:
+      'Discharge of firearms within city limits, and some zoning of firearm businesses and shooting ranges.',
+  },
+  {
+    id: 'tx-firearms-county',
+    category: 'firearms',
+    state: 'TX',
+    levels: ['county'],
+    preemptedBy: "Tex. Loc. Gov't Code § 236.002",
+    scope:
+      'Counties may not regulate the transfer, possession, wearing, carrying, ownership, storage, transportation, licensing, or registration of firearms, air guns, knives, ammunition, or firearm supplies.',
+    exceptions:
+      "Discharge of firearms on small lots in subdivisions (Tex. Loc. Gov't Code § 235.022).",
+  },
+  {
+    id: 'tx-employment',
+    category: 'employment',
+    state: 'TX',
+    levels: ['county', 'municipal'],
+    preemptedBy: 'Tex. Lab. Code §§ 1.004, 62.0515',
+    scope:
+      'Counties and cities may not adopt or enforce ordinances regulating conduct in the field the Labor Code occupies (e.g., paid leave, scheduling, breaks, and other private employment terms), or set minimum wages for private employers.',
+    exceptions:
+      "Terms for the local government's own employees, and wage requirements in its own contracts.",
+  },
+  {
+    id: 'tx-occupations',
+    category: 'professional-regulation',
+    state: 'TX',
+    levels: ['county', 'municipal'],
+    preemptedBy: 'Tex. Occ. Code § 1.004',
+    scope:
+      'Counties and cities may not adopt or enforce ordinances regulating conduct in the field the Occupations Code occupies, including licensing of occupations it regulates (e.g., opticians, hearing instrument fitters, pharmacists).',
+    exceptions:
+      'Powers the Occupations Code expressly grants local governments.',
+  },
+  {
+    id: 'tx-containers',
+    category: 'environmental',
+    state: 'TX',
+    levels: ['county', 'municipal'],
+    preemptedBy: 'Tex. Health & Safety Code § 361.0961',
+    scope:
+      'Local governments may not prohibit or restrict, for solid waste management purposes, the sale or use of a container or package (including checkout bag bans and fees) in a manner not authorized by state law.',
+    exceptions:
+      'Other solid waste rules, such as collection, recycling, and landfill requirements.',
+  },
+];
+
+/**
+ * Preemption rules that apply to a question's jurisdictions and categories
+ *
+ * A rule applies when its state is among the jurisdictions, its category is
+ * one of the question's (or its retrieved chunks') categories, and a
+ * jurisdiction at one of its preempted levels is in scope.
+ *
+ * @param jurisdictions - Resolved jurisdictions (e.g., ["US", "TX", "TX-48201", "TX-houston"])
+ * @param categories - Activity and chunk categories (e.g., ["alcohol", "licensing"])
+ * @returns Applicable rules, in map order
+ *
+ * @example
+ * ```ts
+ * findPreemptionRules(['US', 'TX', 'TX-48201', 'TX-houston'], ['alcohol']);
+ * // => [{ id: 'tx-alcohol', preemptedBy: 'Tex. Alco. Bev. Code §§ 1.06, 109.57', ... }]
+ * ```
+ */
+export function findPreemptionRules(
+  jurisdictions: string[],
+  categories: Iterable<string>
+): PreemptionRule[] {
+  const categorySet = new Set(categories);
+  const levels = new Set(jurisdictions.map(jurisdictionLevel));
+
+  return PREEMPTION_MAP.filter(
+    (rule) =>
+      jurisdictions.includes(rule.state) &&
+      categorySet.has(rule.category) &&
+      rule.levels.some((level) => levels.has(level))
+  );
+}
+
+/**
+ * Order of precedence between jurisdiction levels (outermost first)
+ */
+const LEVEL_ORDER: JurisdictionLevel[] = [
+  'federal',
+  'state',
+  'county',
+  'municipal',
+];
+
+/**
+ * Describe the jurisdiction hierarchy, outermost first
+ *
+ * @param jurisdictions - Resolved jurisdictions
+ * @returns e.g. "United States (US) > Texas (TX) > Harris County (TX-48201) > Houston (TX-houston)"
+ */
+export function describeJurisdictionHierarchy(jurisdictions: string[]): string {
+  return [...jurisdictions]
+    .sort(
+      (a, b) =>
+        LEVEL_ORDER.indexOf(jurisdictionLevel(a)) -
+        LEVEL_ORDER.indexOf(jurisdictionLevel(b))
+    )
+    .map((id) => {
+      const name = getJurisdiction(id)?.name;
+      return name ? `${name} (${id})` : id;
+    })
+    .join(' > ');
+}
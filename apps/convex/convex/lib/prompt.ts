@@ -1,4 +1,16 @@
-import type { RetrievedChunk } from '../query/types';
+import { jurisdictionLevel } from '@compliance-iq/shared-types';
+import type {
+  RetrievedChunk,
+  ConversationTurn,
+  ClaimCheck,
+  ComparisonTarget,
+  JurisdictionResult,
+  PendingRule,
+} from '../query/types';
+import {
+  describeJurisdictionHierarchy,
+  type PreemptionRule,
+} from './preemption';
 
 /**
  * Claude Prompt Templates for RAG Answer Generation
@@ -7,9 +19,15 @@ import type { RetrievedChunk } from '../query/types';
  * - Generate jurisdiction-layered responses (Federal, State, County, Municipal)
  * - Use inline citations in [N] format for all factual claims
  * - List required permits in a dedicated section
+ * - State a permitted/prohibited verdict per jurisdiction level
  * - Organize answers by regulatory hierarchy
  */
 
+// Conversation history bounds (keeps follow-up prompts from growing unbounded)
+export const MAX_HISTORY_TURNS = 6;
+const MAX_TURN_CHARS = 1500;
+const MAX_HISTORY_CHARS = 6000;
+
 /**
  * System prompt for Claude RAG answer generation.
  * Sets role, citation rules, response structure, and important guidelines.
@@ -23,9 +41,11 @@ export const SYSTEM_PROMPT = `You are a legal compliance research assistant for
 - If information is not in the provided sources, state "Not found in available sources"
 
 ## Response Structure
-Organize your response into sections by jurisdiction level:
+Organize your response into sections by jurisdiction level. Start each section with a verdict line for the activity asked about:
+**Verdict**: [Permitted / Permitted with permits / Restricted / Prohibited / Unclear] followed by the [N] citations of any provisions that prohibit or restrict it
 
 ### Federal
+**Verdict**: [verdict] [N]
 [Federal regulations that apply]
 
 ### State
@@ -45,19 +65,82 @@ For each permit/license identified:
 - **Link**: [URL if available]
 - **Regulatory Reference**: [citation]
 
+### Preempted Local Provisions (if applicable)
+For each county or municipal source that state law preempts:
+- [N] Preempted by [state law]: [reason]
+
 ## Important
 - Be precise with citations - use exact section numbers from the metadata
-- If regulations conflict or overlap, explain which takes precedence
+- If regulations conflict or overlap, explain which takes precedence, following the jurisdiction hierarchy and preemption notes in the prompt
 - If coverage for a jurisdiction is incomplete, note: "Additional [jurisdiction] requirements may apply"
+- Keep answers focused on the specific question asked
+- If a conversation history is provided, use it only to understand what the question refers to; cite only the numbered sources in the current prompt
+- If pending Federal Register changes are listed, mention those that would change the answer, with their status (proposed, or final and effective on a date); they are not yet law, so never cite them as [N] sources`;
+
+/**
+ * System prompt for structured-output mode (submit_answer tool).
+ * Same citation rules as SYSTEM_PROMPT; structure comes from the tool schema.
+ */
+export const STRUCTURED_SYSTEM_PROMPT = `You are a legal compliance research assistant for ComplianceIQ. Your role is to answer regulatory compliance questions for lawyers using ONLY the provided regulatory text.
+
+Submit your answer by calling the submit_answer tool.
+
+## Citation Rules
+- Cite ALL factual claims using [N] format where N is the source number, in the summary and in every section
+- Example: "Food facilities must register with FDA [1] and maintain written food safety plans [2]."
+- NEVER make claims without citations
+- If information is not in the provided sources, state "Not found in available sources"
+
+## Answer Structure
+- summary: a direct 1-3 sentence answer to the question
+- sections: one entry per jurisdiction level that has applicable requirements (federal, state, county, municipal), in that order, with markdown content
+- each section's verdict: whether the activity asked about is permitted, permitted_with_permits, restricted, prohibited, or unclear at that level, with blockingCitations listing the [N] numbers of provisions that prohibit or restrict it
+- permits: every permit or license the sources require, with the citation that requires it; jurisdiction is one of federal, state, county, municipal
+- preemptedProvisions: county or municipal sources that state law preempts, with the preempting law and why; do not present them as requirements in the sections
+
+## Important
+- Be precise with citations - use exact section numbers from the metadata
+- If regulations conflict or overlap, explain which takes precedence, following the jurisdiction hierarchy and preemption notes in the prompt
+- If coverage for a jurisdiction is incomplete, note: "Additional [jurisdiction] requirements may apply"
+- Keep answers focused on the specific question asked
+- If a conversation history is provided, use it only to understand what the question refers to; cite only the numbered sources in the current prompt
+- If pending Federal Register changes are listed, mention those that would change the answer, with their status (proposed, or final and effective on a date); they are not yet law, so never cite them as [N] sources`;
+
+/**
+ * System prompt for multi-location comparisons (submit_comparison tool).
+ * Same citation rules as SYSTEM_PROMPT; answers are split into what is
+ * common to every location and what differs per location.
+ */
+export const COMPARISON_SYSTEM_PROMPT = `You are a legal compliance research assistant for ComplianceIQ. Your role is to compare how regulations apply at several store locations, for lawyers, using ONLY the provided regulatory text.
+
+Submit your answer by calling the submit_comparison tool.
+
+## Citation Rules
+- Cite ALL factual claims using [N] format where N is the source number
+- Example: "Houston requires a separate mobile vending permit [7]."
+- NEVER make claims without citations
+- If information is not in the provided sources, state "Not found in available sources"
+
+## Answer Structure
+- summary: a direct 1-3 sentence answer to how the requirements differ between the locations
+- common: markdown requirements that apply the same way at every location (typically federal and shared state law), organized by jurisdiction level
+- locations: one entry per location (by its number) with markdown describing only what is different or additional there; do not repeat the common requirements
+- a location's differences may only cite sources from that location's jurisdictions
+
+## Important
+- Be precise with citations - use exact section numbers from the metadata
+- If a location has no additional requirements in the sources, say so
+- If coverage for a location's jurisdictions is incomplete, note: "Additional [jurisdiction] requirements may apply"
 - Keep answers focused on the specific question asked`;
 
 /**
  * Build system prompt for Claude.
- * Currently returns static SYSTEM_PROMPT.
- * Future: May add customization based on query context.
+ *
+ * @param options - structured: prompt for structured-output (tool use) mode
+ * @returns System prompt
  */
-export function buildSystemPrompt(): string {
-  return SYSTEM_PROMPT;
+export function buildSystemPrompt(options?: { structured?: boolean }): string {
+  return options?.structured ? STRUCTURED_SYSTEM_PROMPT : SYSTEM_PROMPT;
 }
 
 /**
@@ -66,41 +149,161 @@ export function buildSystemPrompt(): string {
  * Chunks are numbered [1], [2], [3] for citation tracking.
  * Each chunk includes citation, jurisdiction, sourceType, optional title, and text content.
  *
+ * When conversation history is supplied, a bounded "Conversation History"
+ * section is placed before the sources so follow-up questions can be resolved.
+ *
+ * Addresses known to be outside city limits get a note so the answer
+ * applies county rules for unincorporated areas, and mentions the city's
+ * extraterritorial jurisdiction (ETJ) when one covers the address.
+ *
+ * Queries with county or municipal jurisdictions get a "Jurisdiction
+ * Hierarchy and Preemption" section: the order of precedence, plus the
+ * fields state law occupies (lib/preemption.ts) so preempted local sources
+ * are listed as such rather than presented as binding.
+ *
+ * Point-in-time questions (options.asOfDate) get an "As of" note, and each
+ * dated source shows the period its version was in force.
+ *
+ * Pending Federal Register rules (retrievePendingRules) are listed after the
+ * sources, unnumbered, so the answer can mention upcoming changes without
+ * citing them as law in force.
+ *
  * @param question - Natural language compliance question
  * @param chunks - Retrieved chunks from Pinecone
  * @param jurisdictions - Target jurisdictions for query (e.g., ["US", "TX", "TX-houston"])
+ * @param history - Optional prior turns in the conversation (oldest first)
+ * @param options.locality - Incorporation and ETJ of the address, if known
+ * @param options.preemptionRules - Applicable rules (findPreemptionRules)
+ * @param options.asOfDate - Date the answer applies to (YYYY-MM-DD)
+ * @param options.pendingRules - Rules not yet in force amending cited CFR parts
  * @returns Formatted user prompt with numbered regulatory sources
  */
 export function buildUserPrompt(
   question: string,
   chunks: RetrievedChunk[],
-  jurisdictions: string[]
+  jurisdictions: string[],
+  history: ConversationTurn[] = [],
+  options: {
+    locality?: Pick<JurisdictionResult, 'incorporation' | 'etj'>;
+    preemptionRules?: PreemptionRule[];
+    asOfDate?: string;
+    pendingRules?: PendingRule[];
+  } = {}
 ): string {
   // Number chunks for citation tracking
-  const numberedChunks = chunks
-    .map((chunk, i) => {
-      const header = `[${i + 1}] ${chunk.citation} (${chunk.jurisdiction}, ${chunk.sourceType})`;
-      const title = chunk.title ? `\nTitle: ${chunk.title}` : '';
-      return `${header}${title}\n\n${chunk.text}`;
-    })
-    .join('\n\n---\n\n');
+  const numberedChunks = formatNumberedChunks(
+    chunks,
+    options.asOfDate !== undefined
+  );
 
   // Build jurisdictions context
   const jurisdictionContext =
     jurisdictions.length > 0
       ? `\nRelevant jurisdictions: ${jurisdictions.join(', ')}`
       : '';
+  const localityNote = formatLocalityNote(options.locality ?? {});
+  const localityContext = localityNote ? `\nLocation: ${localityNote}` : '';
+  const asOfContext = options.asOfDate
+    ? `\nAs of: ${options.asOfDate} (answer under the law in force on this date; federal sources are the versions in force then, state and local sources reflect current text)`
+    : '';
+
+  const historySection = buildConversationHistory(history);
+  const historyContext = historySection
+    ? `\n\n## Conversation History (for context only, do not cite)\n\n${historySection}`
+    : '';
+
+  const hierarchySection = buildHierarchySection(
+    jurisdictions,
+    options.preemptionRules ?? []
+  );
+  const hierarchyContext = hierarchySection
+    ? `\n\n## Jurisdiction Hierarchy and Preemption\n\n${hierarchySection}`
+    : '';
+
+  const pendingRules = options.pendingRules ?? [];
+  const pendingContext =
+    pendingRules.length > 0
+      ? `\n\n## Pending Federal Register Changes (not yet in force; do not cite as [N])\n\n${formatPendingRules(pendingRules)}`
+      : '';
 
-  return `Question: ${question}${jurisdictionContext}
+  return `Question: ${question}${jurisdictionContext}${localityContext}${asOfContext}${hierarchyContext}${historyContext}
 
 ## Regulatory Sources (cite using [N] format)
 
-${numberedChunks}
+${numberedChunks}${pendingContext}
 
 ## Instructions
 Answer the question using ONLY the sources above. Organize by jurisdiction level (Federal, State, County, Municipal). List all required permits and licenses in a dedicated section at the end.`;
 }
 
+/**
+ * Build the user prompt for a multi-location comparison.
+ *
+ * Lists the locations (numbered, with their jurisdictions) so Claude can
+ * tell which sources apply where, followed by the shared numbered sources.
+ *
+ * @param question - Compliance question asked for every location
+ * @param targets - Compared locations, in order
+ * @param chunks - Merged sources (lib/compare.ts mergeComparisonChunks)
+ * @returns Formatted user prompt
+ */
+export function buildComparisonPrompt(
+  question: string,
+  targets: ComparisonTarget[],
+  chunks: RetrievedChunk[]
+): string {
+  const locations = targets
+    .map((target, i) => {
+      const note = formatLocalityNote(target);
+      return `${i + 1}. ${target.label} (${target.address}) - jurisdictions: ${target.jurisdictions.join(', ')}${note ? ` (${note})` : ''}`;
+    })
+    .join('\n');
+
+  return `Question: ${question}
+
+## Locations
+
+${locations}
+
+## Regulatory Sources (cite using [N] format)
+
+${formatNumberedChunks(chunks)}
+
+## Instructions
+Compare how the question is answered at each location using ONLY the sources above. Put requirements shared by all locations in common, and each location's differences in its own entry.`;
+}
+
+/**
+ * Format prior conversation turns for inclusion in the user prompt.
+ *
+ * Keeps the most recent MAX_HISTORY_TURNS turns, truncates each turn to
+ * MAX_TURN_CHARS, and drops the oldest turns until the section fits within
+ * MAX_HISTORY_CHARS.
+ *
+ * @param history - Prior turns in the conversation (oldest first)
+ * @returns Formatted history section, or empty string if there is no history
+ */
+export function buildConversationHistory(history: ConversationTurn[]): string {
+  const formatted = history.slice(-MAX_HISTORY_TURNS).map((turn) => {
+    const speaker = turn.role === 'user' ? 'User' : 'Assistant';
+    const content =
+      turn.content.length > MAX_TURN_CHARS
+        ? turn.content.substring(0, MAX_TURN_CHARS) + '...'
+        : turn.content;
+    return `**${speaker}:** ${content}`;
+  });
+
+  // Drop oldest turns until within the total budget
+  while (
+    formatted.length > 0 &&
+    formatted.join('\n\n').length > MAX_HISTORY_CHARS
+  ) {
+    formatted.shift();
+  }
+
+  return formatted.join('\n\n');
+}
+
 /**
  * Build formatted citation list for UI/CLI display.
  *
@@ -119,3 +322,133 @@ export function buildCitationList(chunks: RetrievedChunk[]): string {
     })
     .join('\n');
 }
+
+/**
+ * Build the user prompt for a regeneration after failed claim verification.
+ *
+ * Appends the flagged claims to the original prompt so Claude can correct
+ * citations or drop statements the sources don't support.
+ *
+ * @param userPrompt - Original user prompt (question + numbered sources)
+ * @param flagged - Claims flagged by verifyGroundedness
+ * @returns User prompt for the second generation attempt
+ */
+export function buildRegenerationPrompt(
+  userPrompt: string,
+  flagged: ClaimCheck[]
+): string {
+  const issues = flagged
+    .map((check) => {
+      const cited = check.citationIds.map((id) => `[${id}]`).join('');
+      if (check.status === 'miscited' && check.suggestedCitationId) {
+        return `- "${check.claim}" cites ${cited}, but is supported by [${check.suggestedCitationId}]`;
+      }
+      if (check.status === 'miscited') {
+        return `- "${check.claim}" cites ${cited}, which is not one of the numbered sources`;
+      }
+      return `- "${check.claim}" is not supported by ${cited}`;
+    })
+    .join('\n');
+
+  return `${userPrompt}
+
+## Citation Review
+
+A previous answer to this question contained statements that were not supported by the sources they cited:
+
+${issues}
+
+Answer again. Cite the source that actually supports each statement, and remove any statement no numbered source supports.`;
+}
+
+/**
+ * Number chunks as [N] sources for a prompt.
+ */
+function formatNumberedChunks(
+  chunks: RetrievedChunk[],
+  showEffectiveDates = false
+): string {
+  return chunks
+    .map((chunk, i) => {
+      const header = `[${i + 1}] ${chunk.citation} (${chunk.jurisdiction}, ${chunk.sourceType})`;
+      const title = chunk.title ? `\nTitle: ${chunk.title}` : '';
+      const inForce =
+        showEffectiveDates && chunk.effectiveFrom
+          ? `\nIn force: ${chunk.effectiveFrom} to ${chunk.effectiveTo ?? 'present'}`
+          : '';
+      return `${header}${title}${inForce}\n\n${chunk.text}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+/**
+ * List pending rules for a prompt, with their status and key dates.
+ */
+function formatPendingRules(rules: PendingRule[]): string {
+  return rules
+    .map((rule) => {
+      const status =
+        rule.documentType === 'proposed_rule'
+          ? `Proposed rule${rule.commentsCloseOn ? `, comments due ${rule.commentsCloseOn}` : ''}`
+          : `Final rule, effective ${rule.effectiveOn ?? 'date not set'}`;
+      return `- ${rule.citation} (${status})\n${rule.summary}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Describe an address's incorporation and ETJ for the prompt
+ *
+ * @returns Note, or empty string if incorporation is unknown or incorporated
+ */
+function formatLocalityNote(
+  locality: Pick<JurisdictionResult, 'incorporation' | 'etj'>
+): string {
+  if (locality.incorporation !== 'unincorporated') {
+    return '';
+  }
+  const note =
+    'unincorporated (outside city limits; no city ordinances apply, county rules for unincorporated areas do)';
+  return locality.etj
+    ? `${note}; within the extraterritorial jurisdiction (ETJ) of ${locality.etj.name}, whose subdivision, platting, and certain development rules may still apply`
+    : note;
+}
+
+/**
+ * Describe precedence between the query's jurisdictions and the fields
+ * state law occupies
+ *
+ * @returns Section body, or empty string without county/municipal jurisdictions
+ */
+function buildHierarchySection(
+  jurisdictions: string[],
+  rules: PreemptionRule[]
+): string {
+  const hasLocal = jurisdictions.some((id) => {
+    const level = jurisdictionLevel(id);
+    return level === 'county' || level === 'municipal';
+  });
+  if (!hasLocal) {
+    return '';
+  }
+
+  const lines = [
+    `Order of precedence (highest first): ${describeJurisdictionHierarchy(jurisdictions)}`,
+    'Federal law preempts conflicting state and local law; state law preempts conflicting county and municipal law.',
+  ];
+  if (rules.length > 0) {
+    lines.push(
+      '',
+      'State law occupies these fields; county and municipal provisions within them are preempted and not binding:',
+      ...rules.map(
+        (rule) =>
+          `- ${rule.category} (${rule.levels.join(', ')}): ${rule.scope} Preempted by ${rule.preemptedBy}.${
+            rule.exceptions ? ` Not preempted: ${rule.exceptions}` : ''
+          }`
+      ),
+      '',
+      'List each cited or retrieved local source that falls within a preempted field as a preempted provision (with the preempting law), and do not present it as a binding requirement or count it toward the verdict.'
+    );
+  }
+  return lines.join('\n');
+}
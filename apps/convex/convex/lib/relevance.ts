@@ -0,0 +1,76 @@
+'use node';
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { RelevanceScorer } from './retrieve';
+
+/**
+ * LLM Relevance Scoring
+ *
+ * Scores (question, passage) pairs with Claude for the model-based
+ * reranker in ./retrieve. All passages are scored in a single request.
+ */
+
+// Scoring constants
+const MODEL = 'claude-haiku-4-5-20251001';
+const MAX_TOKENS = 1024;
+const TEMPERATURE = 0;
+const MAX_PASSAGE_CHARS = 1200;
+const MAX_SCORE = 10;
+
+const RELEVANCE_SYSTEM_PROMPT = `You judge how relevant regulatory text passages are to a compliance question.
+
+Score each passage from 0 to ${MAX_SCORE}:
+- ${MAX_SCORE}: directly answers the question (the governing requirement, permit, or prohibition)
+- 5: related rule or definition needed to understand the answer
+- 0: unrelated
+
+Judge relevance only, not how recent the text is.
+Output ONLY a JSON array of numbers, one per passage, in passage order.`;
+
+/**
+ * Create a relevance scorer backed by Claude
+ *
+ * @param apiKey - Anthropic API key
+ * @returns RelevanceScorer returning scores in [0, 1]
+ * @throws Error if the response is not a JSON array of numbers
+ */
+export function createClaudeRelevanceScorer(apiKey: string): RelevanceScorer {
+  const client = new Anthropic({ apiKey });
+
+  return async (query, passages) => {
+    if (passages.length === 0) {
+      return [];
+    }
+
+    const numbered = passages
+      .map((passage, i) => `[${i + 1}]\n${passage.slice(0, MAX_PASSAGE_CHARS)}`)
+      .join('\n\n');
+
+    const response = await client.messages.create({
+      model: MODEL,
+      max_tokens: MAX_TOKENS,
+      temperature: TEMPERATURE,
+      system: RELEVANCE_SYSTEM_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: `## Question\n\n${query}\n\n## Passages\n\n${numbered}`,
+        },
+      ],
+    });
+
+    const textBlock = response.content.find((block) => block.type === 'text');
+    const text = textBlock && textBlock.type === 'text' ? textBlock.text : '';
+    const json = text.match(/\[[\s\S]*\]/)?.[0];
+    const scores: unknown = json ? JSON.parse(json) : null;
+
+    if (
+      !Array.isArray(scores) ||
+      !scores.every((score) => typeof score === 'number')
+    ) {
+      throw new Error('Relevance scorer returned an invalid score list');
+    }
+
+    return scores.map((score: number) => score / MAX_SCORE);
+  };
+}
@@ -1,14 +1,47 @@
-"use node";
+'use node';
 
 /**
  * Pinecone Retrieval Module
  *
  * Vector search with jurisdiction filtering and reranking.
  * Converts query embeddings into relevant regulatory chunks.
+ *
+ * When the query text is supplied, retrieval is hybrid: vector similarity is
+ * fused with a lexical (BM25) ranking by reciprocal rank fusion, and any
+ * citations named in the query (e.g. "21 CFR 117.5") are fetched directly by
+ * their deterministic chunk IDs and placed first.
+ *
+ * With a jurisdiction quota, each jurisdiction is queried separately and
+ * guaranteed a minimum number of final chunks, so high-volume federal text
+ * cannot crowd out county or city ordinances.
+ *
+ * With categories (from the activity taxonomy, see ./activities), chunks
+ * tagged with one of them are boosted before reranking, or in filter mode
+ * only such chunks are retrieved.
+ *
+ * With an as-of date, federal chunks are limited to the versions in force on
+ * that date (effectiveFrom <= date < effectiveTo, see
+ * @compliance-iq/shared-types effective-dates). Unversioned federal text
+ * (U.S. Code) has no effectiveFrom and an open effectiveTo, so it passes for
+ * any date. State and local text is not versioned and is retrieved as current.
+ *
+ * Federal Register rule summaries (sourceType 'federal_register') are never
+ * retrieved as sources; retrievePendingRules looks them up separately by the
+ * CFR parts of the retrieved federal chunks.
  */
 
-import { Pinecone } from '@pinecone-database/pinecone';
-import type { RetrievedChunk } from '../query/types';
+import { Pinecone, type RecordMetadata } from '@pinecone-database/pinecone';
+import {
+  fromEffectiveDateNumber,
+  toEffectiveDateNumber,
+} from '@compliance-iq/shared-types';
+import type {
+  RetrievedChunk,
+  JurisdictionRetrievalCount,
+  PendingRule,
+} from '../query/types';
+import { detectCitations, citationChunkIds } from './citations';
+import { scoreLexical, reciprocalRankFusion } from './hybrid';
 
 /**
  * Constants
@@ -19,6 +52,10 @@ const DEFAULT_MIN_SCORE = 0.5;
 const DEFAULT_FINAL_TOP_K = 10;
 const RECENCY_WEIGHT = 0.2;
 const SIMILARITY_WEIGHT = 0.8;
+const DEFAULT_MODEL_WEIGHT = 0.7;
+const DEFAULT_MAX_RERANK_CANDIDATES = 30;
+const CATEGORY_BOOST = 0.2; // Share of the gap to 1 added to a matching chunk's relevance
+const DEFAULT_PENDING_RULES_TOP_K = 5;
 
 /**
  * Retrieval options for Pinecone query
@@ -30,11 +67,64 @@ export interface RetrievalOptions {
   /** Minimum similarity threshold for filtering results (default: 0.5) */
   minScore?: number;
 
-  /** Whether to rerank results by score + recency (default: true) */
+  /** Whether to rerank results (default: true) */
   rerank?: boolean;
 
+  /** Reranking stage to apply when rerank is enabled (default: heuristicReranker) */
+  reranker?: Reranker;
+
   /** Final count after reranking (default: 10) */
   finalTopK?: number;
+
+  /**
+   * Query text for hybrid retrieval and citation lookup.
+   * Without it, retrieval is vector-only.
+   */
+  queryText?: string;
+
+  /** Fuse vector and lexical rankings with RRF when queryText is set (default: true) */
+  hybrid?: boolean;
+
+  /** Fetch chunks for citations named in queryText by ID (default: true) */
+  citationLookup?: boolean;
+
+  /**
+   * Minimum final chunks per jurisdiction. When set, each jurisdiction is
+   * queried separately (topK each) instead of one $or query, and the
+   * best-ranked chunks of each jurisdiction are kept before filling the
+   * remaining slots by rank. (default: undefined, single global query)
+   */
+  jurisdictionQuota?: number;
+
+  /**
+   * Regulatory categories of the activities in the question
+   * (e.g., ["alcohol", "licensing"]). Chunks whose category matches are
+   * boosted or, in filter mode, are the only chunks retrieved.
+   */
+  categories?: string[];
+
+  /**
+   * How categories are applied (default: 'boost'). 'filter' also drops
+   * chunks without a category tag; cited sections are never filtered.
+   */
+  categoryMode?: 'boost' | 'filter';
+
+  /**
+   * Point-in-time date (YYYY-MM-DD). Federal chunks, including cited
+   * sections, are limited to the versions in force on that date.
+   */
+  asOfDate?: string;
+}
+
+/**
+ * Retrieved chunks with per-jurisdiction counts
+ */
+export interface RetrievalResult {
+  /** Final ranked chunks */
+  chunks: RetrievedChunk[];
+
+  /** Candidate and selected chunk counts per requested jurisdiction */
+  jurisdictionCounts: JurisdictionRetrievalCount[];
 }
 
 /**
@@ -43,6 +133,12 @@ export interface RetrievalOptions {
  * Queries Pinecone index with jurisdiction filtering and optional reranking.
  * Uses $or filter to match any of the provided jurisdictions.
  *
+ * With `queryText`, the vector candidates (topK) are also ranked lexically
+ * over chunk text and citation metadata, and the two rankings are fused by
+ * reciprocal rank fusion. Lexical matches below minScore can be rescued.
+ * Sections cited in the query are fetched by chunk ID regardless of
+ * similarity and returned ahead of the ranked results.
+ *
  * @param queryEmbedding 3072-dimension query vector from embedQuery
  * @param jurisdictions Array of jurisdiction identifiers (e.g., ['US', 'TX', 'Harris County'])
  * @param apiKey Pinecone API key
@@ -57,6 +153,11 @@ export interface RetrievalOptions {
  *   process.env.PINECONE_API_KEY,
  *   { topK: 50, rerank: true, finalTopK: 10 }
  * );
+ *
+ * // Hybrid retrieval with citation lookup
+ * const chunks = await retrieveChunks(queryEmbedding, ['US'], apiKey, {
+ *   queryText: 'What does 21 CFR 117.5 say?',
+ * });
  * ```
  */
 export async function retrieveChunks(
@@ -65,125 +166,739 @@ export async function retrieveChunks(
   apiKey: string,
   options?: RetrievalOptions
 ): Promise<RetrievedChunk[]> {
+  const { chunks } = await retrieveChunksWithCounts(
+    queryEmbedding,
+    jurisdictions,
+    apiKey,
+    options
+  );
+  return chunks;
+}
+
+/**
+ * Retrieve relevant regulatory chunks with per-jurisdiction counts
+ *
+ * Same pipeline as retrieveChunks, additionally reporting for each requested
+ * jurisdiction how many candidates passed retrieval (`available`) and how
+ * many made the final set (`selected`). With `jurisdictionQuota` set,
+ * `available: 0` means the index has no relevant text for that jurisdiction,
+ * while `available > 0, selected: 0` means it was outranked.
+ *
+ * @param queryEmbedding 3072-dimension query vector from embedQuery
+ * @param jurisdictions Array of jurisdiction identifiers
+ * @param apiKey Pinecone API key
+ * @param options Optional retrieval configuration
+ * @returns Final chunks and per-jurisdiction counts
+ *
+ * @example
+ * ```ts
+ * const { chunks, jurisdictionCounts } = await retrieveChunksWithCounts(
+ *   queryEmbedding,
+ *   ['US', 'TX', 'TX-48201', 'TX-houston'],
+ *   process.env.PINECONE_API_KEY,
+ *   { queryText: question, jurisdictionQuota: 2, finalTopK: 15 }
+ * );
+ * const confidence = calculateConfidence(chunks, jurisdictions, jurisdictionCounts);
+ * ```
+ */
+export async function retrieveChunksWithCounts(
+  queryEmbedding: number[],
+  jurisdictions: string[],
+  apiKey: string,
+  options?: RetrievalOptions
+): Promise<RetrievalResult> {
   const topK = options?.topK ?? DEFAULT_TOP_K;
   const minScore = options?.minScore ?? DEFAULT_MIN_SCORE;
   const rerank = options?.rerank ?? true;
+  const reranker = options?.reranker ?? heuristicReranker;
   const finalTopK = options?.finalTopK ?? DEFAULT_FINAL_TOP_K;
+  const queryText = options?.queryText;
+  const hybrid = queryText !== undefined && (options?.hybrid ?? true);
+  const citationLookup =
+    queryText !== undefined && (options?.citationLookup ?? true);
+  const quota = options?.jurisdictionQuota;
+  const categories =
+    options?.categories && options.categories.length > 0
+      ? new Set(options.categories)
+      : undefined;
+  const categoryMode = options?.categoryMode ?? 'boost';
+  const asOf =
+    options?.asOfDate !== undefined
+      ? toEffectiveDateNumber(options.asOfDate)
+      : undefined;
 
   // Initialize Pinecone client
   const pc = new Pinecone({ apiKey });
   const index = pc.index(INDEX_NAME);
 
-  // Build jurisdiction filter using $or
-  const filter = {
-    $or: jurisdictions.map((j) => ({ jurisdiction: j })),
-  };
+  // One $or query across all jurisdictions, or one query per jurisdiction
+  const jurisdictionFilters: object[] =
+    quota !== undefined
+      ? jurisdictions.map((j) => ({ jurisdiction: j }))
+      : [{ $or: jurisdictions.map((j) => ({ jurisdiction: j })) }];
+  const restrictions: object[] = [
+    // Pending rule summaries are not law in force (see retrievePendingRules)
+    { sourceType: { $ne: 'federal_register' } },
+    ...(categories && categoryMode === 'filter'
+      ? [{ category: { $in: [...categories] } }]
+      : []),
+    ...(asOf !== undefined ? [inForceFilter(asOf)] : []),
+  ];
+  const filters = jurisdictionFilters.map((filter) => ({
+    $and: [filter, ...restrictions],
+  }));
 
-  // Query Pinecone
-  const results = await index.query({
-    vector: queryEmbedding,
-    topK,
-    filter,
-    includeMetadata: true,
-  });
+  // Query Pinecone (and fetch cited sections in parallel)
+  const [resultSets, citedChunks] = await Promise.all([
+    Promise.all(
+      filters.map((filter) =>
+        index.query({
+          vector: queryEmbedding,
+          topK,
+          filter,
+          includeMetadata: true,
+        })
+      )
+    ),
+    citationLookup
+      ? fetchCitedChunks(index, queryText!, queryEmbedding, asOf)
+      : Promise.resolve([]),
+  ]);
 
   // Map to RetrievedChunk format (flatten Pinecone metadata)
-  // Store lastUpdated temporarily for reranking, then strip it
-  const chunksWithMetadata: Array<RetrievedChunk & { lastUpdated?: string }> =
-    results.matches
-      .filter((match) => (match.score ?? 0) >= minScore)
-      .map((match) => {
-        const metadata = match.metadata as any;
-        return {
-          id: match.id,
-          score: match.score ?? 0,
-          text: metadata?.text ?? '',
-          citation: metadata?.citation ?? '',
-          jurisdiction: metadata?.jurisdiction ?? '',
-          sourceType: metadata?.sourceType ?? 'federal',
-          title: metadata?.title,
-          category: metadata?.category,
-          url: undefined, // URL not stored in Pinecone metadata yet
-          lastUpdated: metadata?.lastUpdated, // Temporary for reranking
-        };
-      });
+  // Scores are cosine similarities, so per-jurisdiction results merge by score
+  const candidates = resultSets
+    .flatMap((results) => results.matches)
+    .map((match) =>
+      toRerankCandidate(match.id, match.score ?? 0, match.metadata)
+    )
+    .sort((a, b) => b.score - a.score);
+  const aboveThreshold = candidates.filter((chunk) => chunk.score >= minScore);
+
+  // Rank candidates: vector-only, or fused with lexical ranking
+  let ranked: RerankCandidate[] = aboveThreshold;
+  let relevance = (chunk: RerankCandidate) => chunk.score;
+
+  if (hybrid) {
+    const lexicalScores = scoreLexical(queryText!, candidates);
+    const lexicalRanking = [...lexicalScores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => id);
+    const fused = reciprocalRankFusion([
+      aboveThreshold.map((chunk) => chunk.id),
+      lexicalRanking,
+    ]);
+    const maxFused = Math.max(...fused.values(), 0) || 1;
+
+    ranked = candidates
+      .filter((chunk) => fused.has(chunk.id))
+      .sort((a, b) => fused.get(b.id)! - fused.get(a.id)!);
+    // Normalize fused score to [0, 1] so it can stand in for similarity
+    relevance = (chunk) => fused.get(chunk.id)! / maxFused;
+  }
+
+  // Boost chunks in the question's activity categories
+  if (categories && categoryMode === 'boost') {
+    const baseRelevance = relevance;
+    relevance = (chunk) => {
+      const base = baseRelevance(chunk);
+      return chunk.category && categories.has(chunk.category)
+        ? base + CATEGORY_BOOST * (1 - base)
+        : base;
+    };
+    ranked = [...ranked].sort((a, b) => relevance(b) - relevance(a));
+  }
 
   // Apply reranking if enabled
   if (rerank) {
-    const reranked = rerankChunksInternal(chunksWithMetadata, finalTopK);
-    // Strip lastUpdated before returning
-    return reranked.map(({ lastUpdated, ...chunk }) => chunk);
+    ranked = await reranker.rerank(ranked, { query: queryText, relevance });
   }
 
+  // Cited sections first, then ranked results
+  const citedIds = new Set(citedChunks.map((chunk) => chunk.id));
+  const ordered = [
+    ...citedChunks,
+    ...ranked.filter((chunk) => !citedIds.has(chunk.id)),
+  ];
+  const final =
+    quota !== undefined
+      ? selectWithQuota(ordered, jurisdictions, quota, finalTopK)
+      : ordered.slice(0, finalTopK);
+
+  const jurisdictionCounts = jurisdictions.map((jurisdiction) => ({
+    jurisdiction,
+    available: ordered.filter((chunk) => chunk.jurisdiction === jurisdiction)
+      .length,
+    selected: final.filter((chunk) => chunk.jurisdiction === jurisdiction)
+      .length,
+  }));
+
   // Strip lastUpdated before returning
-  return chunksWithMetadata.slice(0, finalTopK).map(({ lastUpdated, ...chunk }) => chunk);
+  return {
+    chunks: final.map(({ lastUpdated, ...chunk }) => chunk),
+    jurisdictionCounts,
+  };
 }
 
 /**
- * Internal reranking function that works with chunks including lastUpdated
+ * Select the final chunks guaranteeing a minimum per jurisdiction
+ *
+ * Reserves the best-ranked `quota` chunks of each jurisdiction, fills the
+ * remaining slots with the best-ranked others, and keeps rank order.
+ * If the reservations alone exceed finalTopK, the best-ranked reserved
+ * chunks win.
+ *
+ * @param ranked Chunks ordered best-first
+ * @param jurisdictions Jurisdictions to guarantee
+ * @param quota Minimum chunks per jurisdiction
+ * @param finalTopK Final chunk count
+ * @returns Selected chunks in rank order
  */
-function rerankChunksInternal<T extends RetrievedChunk & { lastUpdated?: string }>(
-  chunks: T[],
+export function selectWithQuota<T extends RetrievedChunk>(
+  ranked: T[],
+  jurisdictions: string[],
+  quota: number,
   finalTopK: number
 ): T[] {
-  const now = Date.now();
-  const oneYearMs = 365 * 24 * 60 * 60 * 1000;
-
-  // Calculate weighted scores
-  const scored = chunks.map((chunk) => {
-    // Semantic similarity component (80%)
-    const similarityScore = chunk.score * SIMILARITY_WEIGHT;
-
-    // Recency bonus component (20%)
-    let recencyBonus = 0;
-    if (chunk.lastUpdated) {
-      const lastUpdatedTime = new Date(chunk.lastUpdated).getTime();
-      const age = now - lastUpdatedTime;
-
-      // If updated within last year, apply recency bonus
-      if (age < oneYearMs) {
-        recencyBonus = RECENCY_WEIGHT;
-      }
+  const reserved = new Set<T>();
+  for (const jurisdiction of jurisdictions) {
+    ranked
+      .filter((chunk) => chunk.jurisdiction === jurisdiction)
+      .slice(0, quota)
+      .forEach((chunk) => reserved.add(chunk));
+  }
+
+  const reservedInOrder = ranked.filter((chunk) => reserved.has(chunk));
+  const selected = new Set(reservedInOrder.slice(0, finalTopK));
+
+  for (const chunk of ranked) {
+    if (selected.size >= finalTopK) break;
+    selected.add(chunk);
+  }
+
+  return ranked.filter((chunk) => selected.has(chunk));
+}
+
+/**
+ * Pinecone filter for chunks in force on a date (YYYYMMDD number)
+ *
+ * Only federal chunks are versioned; other source types always pass.
+ * A federal chunk without effectiveFrom (U.S. Code) has no known start and
+ * passes as long as its effectiveTo is later.
+ */
+function inForceFilter(asOf: number): object {
+  return {
+    $or: [
+      { sourceType: { $ne: 'federal' } },
+      {
+        $and: [
+          {
+            $or: [
+              { effectiveFrom: { $lte: asOf } },
+              { effectiveFrom: { $exists: false } },
+            ],
+          },
+          { effectiveTo: { $gt: asOf } },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Whether a chunk was in force on a date (YYYYMMDD number)
+ *
+ * Mirrors inForceFilter for chunks fetched by ID, so it reads the same
+ * Pinecone metadata: RetrievedChunk drops the open effectiveTo that tells
+ * unversioned statutes from undated regulations.
+ */
+export function isInForce(
+  metadata: RecordMetadata | undefined,
+  asOf: number
+): boolean {
+  if ((metadata?.['sourceType'] ?? 'federal') !== 'federal') {
+    return true;
+  }
+  const effectiveFrom = metadata?.['effectiveFrom'];
+  const effectiveTo = metadata?.['effectiveTo'];
+  return (
+    typeof effectiveTo === 'number' &&
+    effectiveTo > asOf &&
+    (effectiveFrom === undefined ||
+      (typeof effectiveFrom === 'number' && effectiveFrom <= asOf))
+  );
+}
+
+/**
+ * Fetch chunks for sections cited in the query text by deterministic ID
+ *
+ * Similarity is computed from the fetched vectors so cited chunks carry
+ * a comparable score for confidence calculation. With an as-of date, the
+ * current version of a cited section is dropped unless it was in force
+ * then (superseded versions have versioned IDs and come from the search).
+ */
+async function fetchCitedChunks(
+  index: ReturnType<Pinecone['index']>,
+  queryText: string,
+  queryEmbedding: number[],
+  asOf?: number
+): Promise<RerankCandidate[]> {
+  const ids = detectCitations(queryText).flatMap((ref) =>
+    citationChunkIds(ref)
+  );
+  if (ids.length === 0) {
+    return [];
+  }
+
+  try {
+    const response = await index.fetch(ids);
+    // Preserve citation/chunk order from the query
+    return ids
+      .filter((id) => response.records[id])
+      .filter(
+        (id) =>
+          asOf === undefined || isInForce(response.records[id]!.metadata, asOf)
+      )
+      .map((id) => {
+        const record = response.records[id]!;
+        return toRerankCandidate(
+          id,
+          cosineSimilarity(queryEmbedding, record.values ?? []),
+          record.metadata
+        );
+      });
+  } catch (error) {
+    console.warn('Citation lookup failed, continuing with search only:', error);
+    return [];
+  }
+}
+
+/**
+ * Map a Pinecone record to a candidate chunk (flatten metadata)
+ * lastUpdated is kept temporarily for reranking
+ */
+function toRerankCandidate(
+  id: string,
+  score: number,
+  rawMetadata: unknown
+): RerankCandidate {
+  const metadata = rawMetadata as any;
+  return {
+    id,
+    score,
+    text: metadata?.text ?? '',
+    citation: metadata?.citation ?? '',
+    jurisdiction: metadata?.jurisdiction ?? '',
+    sourceType: metadata?.sourceType ?? 'federal',
+    title: metadata?.title,
+    category: metadata?.category,
+    url: undefined, // URL not stored in Pinecone metadata yet
+    sourceKey: metadata?.sourceId,
+    effectiveFrom:
+      typeof metadata?.effectiveFrom === 'number'
+        ? fromEffectiveDateNumber(metadata.effectiveFrom)
+        : undefined,
+    effectiveTo:
+      typeof metadata?.effectiveTo === 'number'
+        ? fromEffectiveDateNumber(metadata.effectiveTo)
+        : undefined,
+    lastUpdated: metadata?.lastUpdated, // Temporary for reranking
+  };
+}
+
+/**
+ * Cosine similarity between two vectors (0 if either is empty)
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// =============================================================================
+// Pending Rules
+// =============================================================================
+
+/**
+ * Options for retrievePendingRules
+ */
+export interface PendingRuleOptions {
+  /** Maximum rules returned (default: 5) */
+  topK?: number;
+
+  /** Date rules are pending relative to (YYYY-MM-DD, default: today) */
+  today?: string;
+}
+
+/**
+ * CFR parts of the retrieved federal chunks
+ *
+ * @param chunks Retrieved chunks
+ * @returns Distinct parts as "{title}-{part}", in chunk order
+ *
+ * @example
+ * ```ts
+ * cfrPartsOfChunks([{ id: 'cfr-21-117-117.5-0', ... }]) // => ["21-117"]
+ * ```
+ */
+export function cfrPartsOfChunks(chunks: RetrievedChunk[]): string[] {
+  const parts = new Set<string>();
+  for (const chunk of chunks) {
+    const match = chunk.id.match(/^cfr-(\d+)-([^-@]+)-/);
+    if (match) {
+      parts.add(`${match[1]}-${match[2]}`);
     }
+  }
+  return [...parts];
+}
 
-    const weightedScore = similarityScore + recencyBonus;
+/**
+ * Whether a rule is not yet in force on a date
+ *
+ * Proposed rules are always pending; final rules until their effective date.
+ *
+ * @param rule Rule type and effective date
+ * @param today Date to compare against (YYYY-MM-DD)
+ */
+export function isPendingRule(
+  rule: Pick<PendingRule, 'documentType' | 'effectiveOn'>,
+  today: string
+): boolean {
+  if (rule.documentType === 'proposed_rule') {
+    return true;
+  }
+  return rule.effectiveOn !== undefined && rule.effectiveOn > today;
+}
 
-    return {
-      chunk,
-      weightedScore,
-    };
-  });
+/**
+ * Retrieve pending Federal Register rules for the cited CFR parts
+ *
+ * Looks up rule summaries (indexed by the federal-register worker pipeline)
+ * that amend a CFR part of the retrieved federal chunks and are not yet in
+ * force, ranked by similarity to the query. Best-effort: returns an empty
+ * list if the lookup fails.
+ *
+ * @param queryEmbedding 3072-dimension query vector from embedQuery
+ * @param chunks Retrieved chunks the answer is based on
+ * @param apiKey Pinecone API key
+ * @param options Optional result count and reference date
+ * @returns Pending rules, most relevant first
+ *
+ * @example
+ * ```ts
+ * const pendingRules = await retrievePendingRules(queryEmbedding, chunks, apiKey);
+ * // => [{ documentType: 'proposed_rule', cfrParts: ['21-117'], ... }]
+ * ```
+ */
+export async function retrievePendingRules(
+  queryEmbedding: number[],
+  chunks: RetrievedChunk[],
+  apiKey: string,
+  options?: PendingRuleOptions
+): Promise<PendingRule[]> {
+  const parts = cfrPartsOfChunks(chunks);
+  if (parts.length === 0) {
+    return [];
+  }
+  const today = options?.today ?? new Date().toISOString().split('T')[0]!;
+
+  try {
+    const pc = new Pinecone({ apiKey });
+    const results = await pc.index(INDEX_NAME).query({
+      vector: queryEmbedding,
+      topK: options?.topK ?? DEFAULT_PENDING_RULES_TOP_K,
+      filter: {
+        $and: [
+          { sourceType: 'federal_register' },
+          { cfrParts: { $in: parts } },
+          {
+            $or: [
+              { documentType: 'proposed_rule' },
+              { effectiveOn: { $gt: toEffectiveDateNumber(today) } },
+            ],
+          },
+        ],
+      },
+      includeMetadata: true,
+    });
+
+    return results.matches
+      .map((match) => toPendingRule(match.id, match.metadata))
+      .filter((rule) => isPendingRule(rule, today));
+  } catch (error) {
+    console.warn('Pending rule lookup failed, continuing without:', error);
+    return [];
+  }
+}
+
+/**
+ * Map a Federal Register record to a pending rule (flatten metadata)
+ */
+function toPendingRule(
+  id: string,
+  metadata: RecordMetadata | undefined
+): PendingRule {
+  const text = (key: string): string | undefined => {
+    const value = metadata?.[key];
+    return typeof value === 'string' ? value : undefined;
+  };
+  const date = (key: string): string | undefined => {
+    const value = metadata?.[key];
+    return typeof value === 'number'
+      ? fromEffectiveDateNumber(value)
+      : undefined;
+  };
+  const cfrParts = metadata?.['cfrParts'];
+
+  return {
+    // Chunk ID is fr-{documentNumber}-{chunkIndex}
+    documentNumber: id.replace(/^fr-/, '').replace(/-\d+$/, ''),
+    documentType:
+      text('documentType') === 'proposed_rule' ? 'proposed_rule' : 'final_rule',
+    title: text('title') ?? '',
+    citation: text('citation') ?? '',
+    summary: text('text') ?? '',
+    cfrParts: Array.isArray(cfrParts) ? cfrParts : [],
+    url: text('url'),
+    effectiveOn: date('effectiveOn'),
+    commentsCloseOn: date('commentsCloseOn'),
+  };
+}
+
+// =============================================================================
+// Reranking
+// =============================================================================
+
+/**
+ * Scores (query, passage) pairs for relevance
+ *
+ * Implementations return one score in [0, 1] per passage, in input order.
+ * See createClaudeRelevanceScorer in ./relevance for the production scorer.
+ */
+export type RelevanceScorer = (
+  query: string,
+  passages: string[]
+) => Promise<number[]>;
+
+/**
+ * Context passed to a reranker
+ */
+export interface RerankContext {
+  /** Query text (required by model-based rerankers) */
+  query?: string;
+
+  /** Retrieval relevance of a chunk in [0, 1] (similarity or fused hybrid score) */
+  relevance: (chunk: RerankCandidate) => number;
+}
+
+/**
+ * Chunk as seen by a reranker
+ * Includes lastUpdated from Pinecone metadata, stripped before returning
+ */
+export type RerankCandidate = RetrievedChunk & { lastUpdated?: string };
+
+/**
+ * Pluggable reranking stage
+ *
+ * Receives the ranked candidate pool and returns it reordered (best first).
+ * Rerankers must not drop or add chunks; truncation happens afterwards.
+ */
+export interface Reranker {
+  /** Reranker name for logging */
+  name: string;
+
+  rerank<T extends RerankCandidate>(
+    chunks: T[],
+    context: RerankContext
+  ): Promise<T[]>;
+}
 
-  // Sort by weighted score (descending) and return top-k
-  return scored
-    .sort((a, b) => b.weightedScore - a.weightedScore)
-    .slice(0, finalTopK)
-    .map((item) => item.chunk);
+/**
+ * Options for the model-based reranker
+ */
+export interface ModelRerankerOptions {
+  /** Weight of the model score vs. retrieval relevance (default: 0.7) */
+  modelWeight?: number;
+
+  /** Number of top candidates sent to the scorer; the rest keep their order (default: 30) */
+  maxCandidates?: number;
 }
 
 /**
- * Rerank chunks by weighted score (similarity + recency)
+ * Heuristic reranker: weighted similarity + recency
  *
  * Applies a weighted scoring algorithm:
- * - 80% semantic similarity (chunk.score)
+ * - 80% retrieval relevance
  * - 20% recency bonus (if lastUpdated within 1 year, add 0.2)
+ */
+export const heuristicReranker: Reranker = {
+  name: 'heuristic',
+
+  async rerank(chunks, context) {
+    const now = Date.now();
+    const oneYearMs = 365 * 24 * 60 * 60 * 1000;
+
+    // Calculate weighted scores
+    const scored = chunks.map((chunk) => {
+      // Semantic similarity component (80%)
+      const similarityScore = context.relevance(chunk) * SIMILARITY_WEIGHT;
+
+      // Recency bonus component (20%)
+      let recencyBonus = 0;
+      if (chunk.lastUpdated) {
+        const lastUpdatedTime = new Date(chunk.lastUpdated).getTime();
+        const age = now - lastUpdatedTime;
+
+        // If updated within last year, apply recency bonus
+        if (age < oneYearMs) {
+          recencyBonus = RECENCY_WEIGHT;
+        }
+      }
+
+      return {
+        chunk,
+        weightedScore: similarityScore + recencyBonus,
+      };
+    });
+
+    // Sort by weighted score (descending)
+    return scored
+      .sort((a, b) => b.weightedScore - a.weightedScore)
+      .map((item) => item.chunk);
+  },
+};
+
+/**
+ * Create a model-based relevance reranker
+ *
+ * Scores (query, chunk) pairs with the given scorer (an LLM or
+ * cross-encoder) and orders chunks by a blend of model score and retrieval
+ * relevance. Recency is not considered.
+ *
+ * Falls back to retrieval relevance order when there is no query text or
+ * the scorer fails, so reranking never blocks retrieval.
+ *
+ * @param scorer Relevance scorer for (query, passage) pairs
+ * @param options Blend weight and candidate limit
+ * @returns Reranker
+ *
+ * @example
+ * ```ts
+ * const reranker = createModelReranker(createClaudeRelevanceScorer(apiKey));
+ * const chunks = await retrieveChunks(embedding, jurisdictions, pineconeKey, {
+ *   queryText: question,
+ *   reranker,
+ * });
+ * ```
+ */
+export function createModelReranker(
+  scorer: RelevanceScorer,
+  options?: ModelRerankerOptions
+): Reranker {
+  const modelWeight = options?.modelWeight ?? DEFAULT_MODEL_WEIGHT;
+  const maxCandidates = options?.maxCandidates ?? DEFAULT_MAX_RERANK_CANDIDATES;
+
+  return {
+    name: 'model',
+
+    async rerank(chunks, context) {
+      const byRelevance = [...chunks].sort(
+        (a, b) => context.relevance(b) - context.relevance(a)
+      );
+      if (!context.query || byRelevance.length === 0) {
+        return byRelevance;
+      }
+
+      const head = byRelevance.slice(0, maxCandidates);
+      const tail = byRelevance.slice(maxCandidates);
+
+      let modelScores: number[];
+      try {
+        modelScores = await scorer(
+          context.query,
+          head.map((chunk) => formatPassage(chunk))
+        );
+      } catch (error) {
+        console.warn('Model reranking failed, using retrieval order:', error);
+        return byRelevance;
+      }
+
+      if (modelScores.length !== head.length) {
+        console.warn(
+          `Model reranking returned ${modelScores.length} scores for ${head.length} chunks, using retrieval order`
+        );
+        return byRelevance;
+      }
+
+      const reranked = head
+        .map((chunk, i) => ({
+          chunk,
+          score:
+            modelWeight * clamp01(modelScores[i]!) +
+            (1 - modelWeight) * context.relevance(chunk),
+        }))
+        .sort((a, b) => b.score - a.score)
+        .map((item) => item.chunk);
+
+      return [...reranked, ...tail];
+    },
+  };
+}
+
+/**
+ * Passage text sent to a relevance scorer (citation + title + body)
+ */
+function formatPassage(chunk: RetrievedChunk): string {
+  const heading = [chunk.citation, chunk.title].filter(Boolean).join(' - ');
+  return heading ? `${heading}\n${chunk.text}` : chunk.text;
+}
+
+function clamp01(value: number): number {
+  return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+}
+
+/**
+ * Rerank chunks with a reranker
+ *
+ * Uses chunk.score as retrieval relevance. Defaults to the heuristic
+ * reranker (similarity + recency, where chunks carry lastUpdated).
  *
  * @param chunks Array of retrieved chunks to rerank
  * @param finalTopK Number of top chunks to return (default: 10)
- * @returns Reranked chunks, sorted by weighted score
+ * @param reranker Reranker to apply (default: heuristicReranker)
+ * @param query Query text (required by model-based rerankers)
+ * @returns Reranked chunks, best first
  *
  * @example
  * ```ts
- * const reranked = rerankChunks(retrievedChunks, 10);
- * // Returns top 10 chunks sorted by combined similarity + recency score
+ * const reranked = await rerankChunks(retrievedChunks, 10);
+ *
+ * const modelReranked = await rerankChunks(
+ *   retrievedChunks,
+ *   10,
+ *   createModelReranker(scorer),
+ *   'Do I need a permit to sell beer?'
+ * );
  * ```
  */
-export function rerankChunks(
+export async function rerankChunks(
   chunks: RetrievedChunk[],
-  finalTopK: number = DEFAULT_FINAL_TOP_K
-): RetrievedChunk[] {
-  // For public API, we can't access lastUpdated, so just sort by score
-  return chunks
-    .sort((a, b) => b.score - a.score)
-    .slice(0, finalTopK);
+  finalTopK: number = DEFAULT_FINAL_TOP_K,
+  reranker: Reranker = heuristicReranker,
+  query?: string
+): Promise<RetrievedChunk[]> {
+  const reranked = await reranker.rerank(chunks, {
+    query,
+    relevance: (chunk) => chunk.score,
+  });
+  return reranked.slice(0, finalTopK);
 }
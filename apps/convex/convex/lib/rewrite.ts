@@ -0,0 +1,74 @@
+'use node';
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { ConversationTurn } from '../query/types';
+import { buildConversationHistory } from './prompt';
+
+/**
+ * Follow-up Query Rewriting
+ *
+ * Rewrites a follow-up question ("what about for the Austin store?") into a
+ * standalone retrieval query using the conversation history, so the query
+ * embedding carries the topic of the earlier turns.
+ */
+
+// Rewrite constants
+const MODEL = 'claude-haiku-4-5-20251001';
+const MAX_TOKENS = 256;
+const TEMPERATURE = 0;
+
+const REWRITE_SYSTEM_PROMPT = `You rewrite follow-up questions from a regulatory compliance conversation into standalone search queries.
+
+Rules:
+- Resolve pronouns and references ("that", "there", "the same permit") using the conversation
+- Keep every regulatory topic, activity, and location from the follow-up
+- Carry over the topic and location from earlier turns when the follow-up omits them
+- Do not answer the question
+- Output ONLY the rewritten query on a single line`;
+
+/**
+ * Rewrite a follow-up question into a standalone retrieval query.
+ *
+ * Returns the original question unchanged when there is no history or the
+ * rewrite fails, so retrieval never blocks on this step.
+ *
+ * @param question - Latest user question
+ * @param history - Prior turns in the conversation (oldest first)
+ * @param apiKey - Anthropic API key
+ * @returns Standalone query suitable for embedding
+ */
+export async function rewriteFollowUpQuery(
+  question: string,
+  history: ConversationTurn[],
+  apiKey: string
+): Promise<string> {
+  if (history.length === 0) {
+    return question;
+  }
+
+  const client = new Anthropic({ apiKey });
+
+  try {
+    const response = await client.messages.create({
+      model: MODEL,
+      max_tokens: MAX_TOKENS,
+      temperature: TEMPERATURE,
+      system: REWRITE_SYSTEM_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: `## Conversation\n\n${buildConversationHistory(history)}\n\n## Follow-up question\n\n${question}`,
+        },
+      ],
+    });
+
+    const textBlock = response.content.find((block) => block.type === 'text');
+    const rewritten =
+      textBlock && textBlock.type === 'text' ? textBlock.text.trim() : '';
+
+    return rewritten || question;
+  } catch (error) {
+    console.warn('Query rewrite failed, using original question:', error);
+    return question;
+  }
+}
@@ -0,0 +1,187 @@
+import type { StructuredAnswer, Permit } from '../query/types';
+import { VERDICT_LABELS, formatVerdictLine } from './verdict';
+
+/**
+ * Structured Answer Rendering
+ *
+ * Validates the structured answer Claude returns through the submit_answer
+ * tool (see generate.ts streamStructuredAnswer) and renders it to the
+ * markdown layout the markdown-mode prompt asks for, so stored messages and
+ * the regex parser see the same format in both modes.
+ */
+
+/**
+ * Structured answer as it arrives while streaming (any field may be missing)
+ */
+export interface PartialStructuredAnswer {
+  summary?: string;
+  sections?: Array<Partial<StructuredAnswer['sections'][number]>>;
+  permits?: Array<Partial<Permit>>;
+  preemptedProvisions?: Array<
+    Partial<NonNullable<StructuredAnswer['preemptedProvisions']>[number]>
+  >;
+}
+
+const LEVEL_TITLES: Record<
+  StructuredAnswer['sections'][number]['level'],
+  string
+> = {
+  federal: 'Federal',
+  state: 'State',
+  county: 'County',
+  municipal: 'Municipal',
+};
+
+/**
+ * Check that tool input has the StructuredAnswer shape
+ *
+ * @param input - Raw tool_use input from Claude
+ * @returns Whether the input is a complete StructuredAnswer
+ */
+export function isStructuredAnswer(input: unknown): input is StructuredAnswer {
+  if (!input || typeof input !== 'object') return false;
+  const answer = input as { [K in keyof StructuredAnswer]?: unknown };
+
+  const isString = (value: unknown) => typeof value === 'string';
+
+  return (
+    isString(answer.summary) &&
+    Array.isArray(answer.sections) &&
+    answer.sections.every(
+      (section) =>
+        section &&
+        typeof section === 'object' &&
+        section.level in LEVEL_TITLES &&
+        isString(section.jurisdictionName) &&
+        isString(section.content) &&
+        (section.verdict === undefined || section.verdict in VERDICT_LABELS) &&
+        (section.blockingCitations === undefined ||
+          (Array.isArray(section.blockingCitations) &&
+            section.blockingCitations.every(Number.isInteger)))
+    ) &&
+    Array.isArray(answer.permits) &&
+    answer.permits.every(
+      (permit) =>
+        permit &&
+        typeof permit === 'object' &&
+        isString(permit.name) &&
+        isString(permit.issuingAgency) &&
+        isString(permit.jurisdiction) &&
+        isString(permit.citation) &&
+        (permit.url === undefined || isString(permit.url))
+    ) &&
+    (answer.preemptedProvisions === undefined ||
+      (Array.isArray(answer.preemptedProvisions) &&
+        answer.preemptedProvisions.every(
+          (provision) =>
+            provision &&
+            typeof provision === 'object' &&
+            Number.isInteger(provision.citation) &&
+            isString(provision.preemptedBy) &&
+            isString(provision.reason)
+        )))
+  );
+}
+
+/**
+ * Render a (possibly partial) structured answer as markdown
+ *
+ * Layout matches SYSTEM_PROMPT's response structure: summary paragraph,
+ * "### <Level>: <Jurisdiction>" sections (each starting with its verdict
+ * line, if any), then the permits block and the preempted local
+ * provisions.
+ *
+ * @param answer - Structured answer or streaming snapshot
+ * @returns Markdown answer text
+ *
+ * @example
+ * ```ts
+ * renderAnswerMarkdown({
+ *   summary: 'Yes, a permit is required [1].',
+ *   sections: [{ level: 'state', jurisdictionName: 'Texas', content: 'TABC issues... [1]' }],
+ *   permits: [],
+ * });
+ * // => "Yes, a permit is required [1].\n\n### State: Texas\nTABC issues... [1]"
+ * ```
+ */
+export function renderAnswerMarkdown(answer: PartialStructuredAnswer): string {
+  const blocks: string[] = [];
+
+  const summary = textOf(answer.summary);
+  if (summary) {
+    blocks.push(summary);
+  }
+
+  for (const section of objectsOf(answer.sections)) {
+    const level = section.level;
+    if (typeof level !== 'string' || !(level in LEVEL_TITLES)) continue;
+
+    const title = LEVEL_TITLES[level];
+    const name = textOf(section.jurisdictionName);
+    const header =
+      name && name.toLowerCase() !== title.toLowerCase()
+        ? `### ${title}: ${name}`
+        : `### ${title}`;
+    const verdict =
+      typeof section.verdict === 'string' && section.verdict in VERDICT_LABELS
+        ? `${formatVerdictLine(
+            section.verdict,
+            Array.isArray(section.blockingCitations)
+              ? section.blockingCitations.filter(Number.isInteger)
+              : undefined
+          )}\n`
+        : '';
+    blocks.push(`${header}\n${verdict}${textOf(section.content)}`.trim());
+  }
+
+  const permits = objectsOf(answer.permits).filter((permit) =>
+    textOf(permit.name)
+  );
+  if (permits.length > 0) {
+    const entries = permits.map((permit) =>
+      [
+        `- **Permit Name**: ${textOf(permit.name)}`,
+        `- **Issuing Agency**: ${textOf(permit.issuingAgency)}`,
+        `- **Jurisdiction**: ${textOf(permit.jurisdiction)}`,
+        ...(textOf(permit.url) ? [`- **Link**: ${textOf(permit.url)}`] : []),
+        `- **Regulatory Reference**: ${textOf(permit.citation)}`,
+      ].join('\n')
+    );
+    blocks.push(`### Required Permits and Licenses\n${entries.join('\n\n')}`);
+  }
+
+  const preempted = objectsOf(answer.preemptedProvisions).filter(
+    (provision) =>
+      Number.isInteger(provision.citation) && textOf(provision.preemptedBy)
+  );
+  if (preempted.length > 0) {
+    const entries = preempted.map((provision) => {
+      const reason = textOf(provision.reason);
+      return `- [${provision.citation}] Preempted by ${textOf(provision.preemptedBy)}${reason ? `: ${reason}` : ''}`;
+    });
+    blocks.push(`### Preempted Local Provisions\n${entries.join('\n')}`);
+  }
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Trimmed string field, or '' if missing or not a string
+ *
+ * Streaming snapshots and unvalidated tool input can hold any JSON value,
+ * so fields are type-checked rather than trusted.
+ */
+function textOf(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Object entries of an array field, or [] if it is not an array
+ */
+function objectsOf<T extends object>(value: T[] | undefined): Partial<T>[] {
+  return Array.isArray(value)
+    ? value.filter(
+        (item): item is T => item !== null && typeof item === 'object'
+      )
+    : [];
+}
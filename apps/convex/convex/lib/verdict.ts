@@ -0,0 +1,131 @@
+import type {
+  Verdict,
+  VerdictStatus,
+  JurisdictionVerdict,
+} from '../query/types';
+
+/**
+ * Activity Verdicts
+ *
+ * Each jurisdiction section of an answer carries a verdict line, e.g.
+ * "**Verdict**: Prohibited [2][3]", whose citations are the provisions that
+ * block the activity. Level verdicts are rolled up into one overall verdict:
+ * the most restrictive level wins, and ties go to the higher level, so a
+ * federal or state prohibition always overrides local permissiveness
+ * (e.g. recreational cannabis in a city that decriminalized possession).
+ */
+
+/** Display labels, as written in the "**Verdict**:" line */
+export const VERDICT_LABELS: Record<VerdictStatus, string> = {
+  permitted: 'Permitted',
+  permitted_with_permits: 'Permitted with permits',
+  restricted: 'Restricted',
+  prohibited: 'Prohibited',
+  unclear: 'Unclear',
+};
+
+// Restrictiveness order for rollup (unclear levels never decide)
+const RESTRICTIVENESS: Record<VerdictStatus, number> = {
+  unclear: 0,
+  permitted: 1,
+  permitted_with_permits: 2,
+  restricted: 3,
+  prohibited: 4,
+};
+
+const LEVEL_ORDER: JurisdictionVerdict['level'][] = [
+  'federal',
+  'state',
+  'county',
+  'municipal',
+];
+
+/**
+ * Map a verdict label written by the model to a VerdictStatus
+ *
+ * Tolerates common variants ("Not permitted", "Allowed with a permit",
+ * "Permit required"); anything unrecognized is unclear.
+ *
+ * @param label - Label text (citation markers may be included)
+ * @returns Verdict status
+ *
+ * @example
+ * ```ts
+ * parseVerdictLabel('❌ NOT PERMITTED [2]') // => 'prohibited'
+ * parseVerdictLabel('Permitted with permits') // => 'permitted_with_permits'
+ * ```
+ */
+export function parseVerdictLabel(label: string): VerdictStatus {
+  const text = label
+    .toLowerCase()
+    .replace(/\[\d+\]/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (/\b(prohibited|not (permitted|allowed)|illegal|banned)\b/.test(text)) {
+    return 'prohibited';
+  }
+  if (/\b(restricted|conditional|limited)\b/.test(text)) {
+    return 'restricted';
+  }
+  if (/\b(permits?|licen[cs]es?|registration)\b/.test(text)) {
+    return 'permitted_with_permits';
+  }
+  if (/\b(permitted|allowed|legal)\b/.test(text)) {
+    return 'permitted';
+  }
+  return 'unclear';
+}
+
+/**
+ * Roll level verdicts up into the overall verdict
+ *
+ * @param levels - Verdict per jurisdiction level
+ * @returns Overall verdict with levels sorted in hierarchy order
+ *
+ * @example
+ * ```ts
+ * rollUpVerdict([
+ *   { level: 'municipal', jurisdictionName: 'Austin', status: 'permitted', blockingCitations: [] },
+ *   { level: 'state', jurisdictionName: 'Texas', status: 'prohibited', blockingCitations: [2] },
+ * ]);
+ * // => { status: 'prohibited', decidingLevel: 'state', levels: [state, municipal] }
+ * ```
+ */
+export function rollUpVerdict(levels: JurisdictionVerdict[]): Verdict {
+  const sorted = [...levels].sort(
+    (a, b) => LEVEL_ORDER.indexOf(a.level) - LEVEL_ORDER.indexOf(b.level)
+  );
+
+  let deciding: JurisdictionVerdict | undefined;
+  for (const level of sorted) {
+    if (
+      RESTRICTIVENESS[level.status] >
+      RESTRICTIVENESS[deciding?.status ?? 'unclear']
+    ) {
+      deciding = level;
+    }
+  }
+
+  return {
+    status: deciding?.status ?? 'unclear',
+    decidingLevel: deciding?.level,
+    levels: sorted,
+  };
+}
+
+/**
+ * Format a level verdict as the markdown verdict line
+ *
+ * @param status - Verdict status
+ * @param blockingCitations - Citation numbers of blocking provisions
+ * @returns Verdict line (e.g., "**Verdict**: Prohibited [2][3]")
+ */
+export function formatVerdictLine(
+  status: VerdictStatus,
+  blockingCitations: number[] = []
+): string {
+  const citations = blockingCitations.map((id) => `[${id}]`).join('');
+  return `**Verdict**: ${VERDICT_LABELS[status]}${citations ? ` ${citations}` : ''}`;
+}
@@ -0,0 +1,365 @@
+'use node';
+
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  RetrievedChunk,
+  ClaimCheck,
+  GroundednessReport,
+} from '../query/types';
+import { scoreLexical, tokenize } from './hybrid';
+
+/**
+ * Answer Groundedness Verification
+ *
+ * Post-generation check that every cited claim is actually supported by the
+ * chunk it cites. parse.ts validateCitations only checks that [N] is in
+ * range; this module checks the content:
+ * 1. Split the answer into claims (sentences carrying [N] references)
+ * 2. Check each claim against the text of its cited chunk(s)
+ * 3. For unsupported claims, check the best-matching other chunk to tell
+ *    mis-cited claims (supported by a different source) from unsupported ones
+ *
+ * The share of supported claims is the groundedness metric fed into
+ * ConfidenceScore; answers below REGENERATION_THRESHOLD are regenerated once.
+ */
+
+// Verification constants
+const MODEL = 'claude-haiku-4-5-20251001';
+const MAX_TOKENS = 2048;
+const TEMPERATURE = 0;
+const MAX_CLAIMS = 40; // Bounds verifier cost for very long answers
+const MAX_EVIDENCE_CHARS = 2000;
+const LEXICAL_SUPPORT_THRESHOLD = 0.6; // Share of claim terms found in evidence
+
+/** Answers with a lower share of supported claims are regenerated once */
+export const REGENERATION_THRESHOLD = 0.7;
+
+/** Candidate sentence breaks: terminal punctuation (and markers) before a capital */
+const SENTENCE_BREAK = /(?<=[.!?](?:\s*\[\d+\])*)\s+(?=[A-Z(])/;
+
+/**
+ * Bluebook and common abbreviations whose period does not end a sentence
+ * (e.g. "Tex. Alco. Bev. Code", "Tex. Admin. Code", "Houston, Tex., Code of Ord.")
+ */
+const ABBREVIATIONS = new Set(
+  (
+    'tex admin ann stat reg fed agric alco bev bus com orgs civ prac ' +
+    'rem crim proc educ elec fam fin hum res ins lab loc nat occ ' +
+    'wild prop spec dist transp util ord sec ch pt no co inc dept ' +
+    'st mr ms dr vs etc'
+  ).split(' ')
+);
+
+const VERIFY_SYSTEM_PROMPT = `You verify whether statements in a legal compliance answer are supported by the regulatory text they cite.
+
+For each numbered statement you are given the cited source text. A statement is supported only if the source text states or directly implies it. Paraphrase is fine; added requirements, numbers, deadlines, or agencies not in the source are not.
+
+Output ONLY a JSON array of booleans (true = supported), one per statement, in order.`;
+
+/**
+ * A (claim, evidence) pair to verify
+ */
+export interface ClaimEvidence {
+  /** Claim sentence with citation markers removed */
+  claim: string;
+  /** Text of the source(s) the claim is checked against */
+  evidence: string;
+}
+
+/**
+ * Decides for each (claim, evidence) pair whether the evidence supports the claim
+ */
+export type ClaimVerifier = (pairs: ClaimEvidence[]) => Promise<boolean[]>;
+
+/**
+ * A cited claim extracted from an answer
+ */
+export interface ExtractedClaim {
+  /** Claim sentence with citation markers removed */
+  text: string;
+  /** Citation numbers referenced by the sentence */
+  citationIds: number[];
+}
+
+/**
+ * Split an answer into cited claims
+ *
+ * A claim is a sentence (or list item) containing at least one [N]
+ * reference. Markdown markers are stripped; the permits and preempted
+ * provisions blocks and section verdict lines are skipped since they are
+ * references, not claims.
+ *
+ * @param answer - Generated answer markdown
+ * @returns Claims in answer order
+ *
+ * @example
+ * ```ts
+ * extractClaims('Food facilities must register with FDA [1]. Plans are required [2][3].')
+ * // => [
+ * //   { text: 'Food facilities must register with FDA.', citationIds: [1] },
+ * //   { text: 'Plans are required.', citationIds: [2, 3] },
+ * // ]
+ * ```
+ */
+export function extractClaims(answer: string): ExtractedClaim[] {
+  const body = answer.replace(
+    /###?\s*(?:Required Permits|Preempted Local Provisions)[\s\S]*?(?=\n###?\s|$)/gi,
+    ''
+  );
+  const claims: ExtractedClaim[] = [];
+
+  for (const line of body.split('\n')) {
+    const content = line
+      .replace(/^\s*(?:#+|[-*]\s|\d+\.)\s*/, '')
+      .replace(/\*\*/g, '')
+      .trim();
+    if (!content || /^verdict:/i.test(content)) continue;
+
+    for (const sentence of splitSentences(content)) {
+      const citationIds = [
+        ...new Set(
+          [...sentence.matchAll(/\[(\d+)\]/g)].map((m) => parseInt(m[1]!, 10))
+        ),
+      ];
+      if (citationIds.length === 0) continue;
+
+      const text = sentence
+        .replace(/\s*\[\d+\]/g, '')
+        .replace(/\s+([.,;:])/g, '$1')
+        .trim();
+      if (text) {
+        claims.push({ text, citationIds });
+      }
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Split a line into sentences
+ *
+ * A break after a citation marker always ends a sentence; a bare period only
+ * does when it doesn't close an abbreviation ("Tex.", "U.S.", "C.F.R.").
+ */
+function splitSentences(line: string): string[] {
+  const sentences: string[] = [];
+  for (const piece of line.split(SENTENCE_BREAK)) {
+    const previous = sentences[sentences.length - 1];
+    if (previous !== undefined && endsWithAbbreviation(previous)) {
+      sentences[sentences.length - 1] = `${previous} ${piece}`;
+    } else {
+      sentences.push(piece);
+    }
+  }
+  return sentences;
+}
+
+/**
+ * Whether text ends in an abbreviation rather than a sentence-ending period
+ */
+function endsWithAbbreviation(text: string): boolean {
+  const word = text.match(/(\S+)\.$/)?.[1];
+  if (!word) return false;
+  return (
+    // Initialisms: "U.S", "C.F.R", single letters
+    /^(?:[A-Za-z]\.)*[A-Za-z]$/.test(word) ||
+    ABBREVIATIONS.has(word.replace(/^\(/, '').toLowerCase())
+  );
+}
+
+/**
+ * Verify each cited claim in an answer against its cited chunks
+ *
+ * Falls back to the lexical verifier if the given verifier fails, so
+ * verification never blocks an answer.
+ *
+ * @param answer - Generated answer markdown
+ * @param chunks - Chunks the answer was generated from ([N] = chunks[N-1])
+ * @param verifier - Claim verifier (e.g. createClaudeClaimVerifier)
+ * @returns Groundedness report with flagged claims
+ */
+export async function verifyGroundedness(
+  answer: string,
+  chunks: RetrievedChunk[],
+  verifier: ClaimVerifier
+): Promise<GroundednessReport> {
+  const claims = extractClaims(answer).slice(0, MAX_CLAIMS);
+  if (claims.length === 0) {
+    return { groundedness: 1, totalClaims: 0, supportedClaims: 0, flagged: [] };
+  }
+
+  const chunkText = (id: number) =>
+    chunks[id - 1]?.text.slice(0, MAX_EVIDENCE_CHARS);
+
+  // Claims citing only out-of-range sources are mis-cited outright
+  const checkable = claims.filter((claim) =>
+    claim.citationIds.some((id) => chunkText(id) !== undefined)
+  );
+
+  const supported = await verifyWithFallback(
+    verifier,
+    checkable.map((claim) => ({
+      claim: claim.text,
+      evidence: claim.citationIds
+        .map((id) => chunkText(id))
+        .filter(Boolean)
+        .join('\n\n'),
+    }))
+  );
+
+  const unsupported = checkable.filter((_, i) => !supported[i]);
+  const unchecked = claims.filter((claim) => !checkable.includes(claim));
+
+  // Look for a different chunk that supports each unsupported claim
+  const candidates = [...unsupported, ...unchecked].map((claim) => ({
+    claim,
+    alternativeId: bestAlternativeSource(claim, chunks),
+  }));
+  const withAlternative = candidates.filter(
+    (c) => c.alternativeId !== undefined
+  );
+  const alternativeSupported = await verifyWithFallback(
+    verifier,
+    withAlternative.map((c) => ({
+      claim: c.claim.text,
+      evidence: chunkText(c.alternativeId!)!,
+    }))
+  );
+
+  const flagged: ClaimCheck[] = candidates.map(({ claim, alternativeId }) => {
+    const index = withAlternative.findIndex((c) => c.claim === claim);
+    const supportedElsewhere = index >= 0 && alternativeSupported[index];
+    const outOfRange = unchecked.includes(claim);
+
+    return {
+      claim: claim.text,
+      citationIds: claim.citationIds,
+      status: supportedElsewhere || outOfRange ? 'miscited' : 'unsupported',
+      suggestedCitationId: supportedElsewhere ? alternativeId : undefined,
+    };
+  });
+
+  const supportedClaims = claims.length - flagged.length;
+
+  return {
+    groundedness: supportedClaims / claims.length,
+    totalClaims: claims.length,
+    supportedClaims,
+    flagged,
+  };
+}
+
+/**
+ * Run a verifier, falling back to lexical verification on failure
+ */
+async function verifyWithFallback(
+  verifier: ClaimVerifier,
+  pairs: ClaimEvidence[]
+): Promise<boolean[]> {
+  if (pairs.length === 0) {
+    return [];
+  }
+
+  try {
+    const results = await verifier(pairs);
+    if (results.length === pairs.length) {
+      return results;
+    }
+    console.warn(
+      `Claim verifier returned ${results.length} results for ${pairs.length} claims, using lexical verification`
+    );
+  } catch (error) {
+    console.warn(
+      'Claim verification failed, using lexical verification:',
+      error
+    );
+  }
+
+  return lexicalClaimVerifier(pairs);
+}
+
+/**
+ * Citation number of the best lexically matching uncited chunk
+ */
+function bestAlternativeSource(
+  claim: ExtractedClaim,
+  chunks: RetrievedChunk[]
+): number | undefined {
+  const scores = scoreLexical(
+    claim.text,
+    chunks
+      .map((chunk, i) => ({ id: String(i + 1), text: chunk.text }))
+      .filter((doc) => !claim.citationIds.includes(Number(doc.id)))
+  );
+
+  let best: number | undefined;
+  let bestScore = 0;
+  for (const [id, score] of scores) {
+    if (score > bestScore) {
+      best = Number(id);
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Deterministic verifier: a claim is supported when most of its terms
+ * appear in the evidence text
+ *
+ * Used as the fallback when model verification is unavailable.
+ */
+export const lexicalClaimVerifier: ClaimVerifier = async (pairs) =>
+  pairs.map(({ claim, evidence }) => {
+    const claimTerms = new Set(tokenize(claim));
+    if (claimTerms.size === 0) return true;
+
+    const evidenceTerms = new Set(tokenize(evidence));
+    const found = [...claimTerms].filter((term) => evidenceTerms.has(term));
+    return found.length / claimTerms.size >= LEXICAL_SUPPORT_THRESHOLD;
+  });
+
+/**
+ * Create a claim verifier backed by Claude
+ *
+ * All pairs are verified in a single request.
+ *
+ * @param apiKey - Anthropic API key
+ * @returns ClaimVerifier
+ * @throws Error if the response is not a JSON array of booleans
+ */
+export function createClaudeClaimVerifier(apiKey: string): ClaimVerifier {
+  const client = new Anthropic({ apiKey });
+
+  return async (pairs) => {
+    const numbered = pairs
+      .map(
+        (pair, i) =>
+          `[${i + 1}] Statement: ${pair.claim}\nSource text:\n${pair.evidence}`
+      )
+      .join('\n\n---\n\n');
+
+    const response = await client.messages.create({
+      model: MODEL,
+      max_tokens: MAX_TOKENS,
+      temperature: TEMPERATURE,
+      system: VERIFY_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: numbered }],
+    });
+
+    const textBlock = response.content.find((block) => block.type === 'text');
+    const text = textBlock && textBlock.type === 'text' ? textBlock.text : '';
+    const json = text.match(/\[[\s\S]*\]/)?.[0];
+    const results: unknown = json ? JSON.parse(json) : null;
+
+    if (
+      !Array.isArray(results) ||
+      !results.every((result) => typeof result === 'boolean')
+    ) {
+      throw new Error('Claim verifier returned an invalid result list');
+    }
+
+    return results as boolean[];
+  };
+}
@@ -0,0 +1,289 @@
+import { v } from 'convex/values';
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+  type MutationCtx,
+} from './_generated/server';
+import { internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
+import { parseLocationsCsv } from './lib/locations';
+
+/**
+ * Locations: CRUD operations for our stores
+ *
+ * Addresses are geocoded once, in the background (actions/locations.ts),
+ * and the resolved jurisdictions stored so queries for a store don't
+ * re-geocode. Changing a store's address clears and re-schedules it.
+ */
+
+/** Delay between scheduled geocodes in a bulk import (Geocodio rate limit) */
+const GEOCODE_STAGGER_MS = 100;
+
+/** Fields cleared when a location's address changes */
+const UNGEOCODED = {
+  jurisdictions: undefined,
+  lat: undefined,
+  lng: undefined,
+  state: undefined,
+  countyFips: undefined,
+  cityId: undefined,
+  incorporation: undefined,
+  etj: undefined,
+  geocodedAt: undefined,
+};
+
+const locationStatusValidator = v.union(
+  v.literal('planned'),
+  v.literal('open'),
+  v.literal('closed')
+);
+
+/**
+ * List all locations, optionally filtered by status
+ */
+export const list = query({
+  args: {
+    status: v.optional(locationStatusValidator),
+  },
+  handler: async (ctx, args) => {
+    if (args.status !== undefined) {
+      return await ctx.db
+        .query('locations')
+        .withIndex('by_status', (q) => q.eq('status', args.status!))
+        .collect();
+    }
+
+    return await ctx.db.query('locations').collect();
+  },
+});
+
+/**
+ * Get a single location by ID
+ */
+export const get = query({
+  args: { id: v.id('locations') },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id);
+  },
+});
+
+/**
+ * Get a location by store number
+ */
+export const getByStoreNumber = query({
+  args: { storeNumber: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('locations')
+      .withIndex('by_store_number', (q) =>
+        q.eq('storeNumber', args.storeNumber)
+      )
+      .first();
+  },
+});
+
+/**
+ * Add a new location
+ */
+export const create = mutation({
+  args: {
+    name: v.string(),
+    storeNumber: v.optional(v.string()),
+    address: v.string(),
+    jurisdictions: v.optional(v.array(v.string())),
+    status: v.optional(locationStatusValidator),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    const id = await ctx.db.insert('locations', {
+      name: args.name,
+      storeNumber: args.storeNumber,
+      address: args.address,
+      jurisdictions: args.jurisdictions,
+      status: args.status ?? 'open',
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    if (args.jurisdictions === undefined) {
+      await scheduleGeocode(ctx, id);
+    }
+    return id;
+  },
+});
+
+/**
+ * Update a location
+ */
+export const update = mutation({
+  args: {
+    id: v.id('locations'),
+    name: v.optional(v.string()),
+    storeNumber: v.optional(v.string()),
+    address: v.optional(v.string()),
+    jurisdictions: v.optional(v.array(v.string())),
+    status: v.optional(locationStatusValidator),
+  },
+  handler: async (ctx, args) => {
+    const { id, ...fields } = args;
+    const location = await ctx.db.get(id);
+    if (!location) {
+      throw new Error(`Location not found: ${id}`);
+    }
+
+    const moved =
+      fields.address !== undefined && fields.address !== location.address;
+
+    await ctx.db.patch(id, {
+      ...fields,
+      ...(moved && fields.jurisdictions === undefined ? UNGEOCODED : {}),
+      updatedAt: Date.now(),
+    });
+
+    if (moved && fields.jurisdictions === undefined) {
+      await scheduleGeocode(ctx, id);
+    }
+  },
+});
+
+/**
+ * Bulk import our store list from CSV
+ *
+ * Rows are matched to existing locations by store number (rows without one
+ * are always added). New and moved stores are geocoded in the background.
+ *
+ * @param csv - CSV text with a header row (see lib/locations.ts)
+ * @returns Counts of created/updated locations and skipped rows
+ */
+export const importCsv = mutation({
+  args: { csv: v.string() },
+  handler: async (ctx, args) => {
+    const { rows, errors } = parseLocationsCsv(args.csv);
+    const now = Date.now();
+    let created = 0;
+    let updated = 0;
+    let scheduled = 0;
+
+    for (const row of rows) {
+      const existing = row.storeNumber
+        ? await ctx.db
+            .query('locations')
+            .withIndex('by_store_number', (q) =>
+              q.eq('storeNumber', row.storeNumber)
+            )
+            .first()
+        : null;
+
+      if (existing) {
+        const moved = row.address !== existing.address;
+        await ctx.db.patch(existing._id, {
+          name: row.name,
+          address: row.address,
+          ...(row.status ? { status: row.status } : {}),
+          ...(moved ? UNGEOCODED : {}),
+          updatedAt: now,
+        });
+        updated++;
+        if (moved) {
+          await scheduleGeocode(ctx, existing._id, scheduled++);
+        }
+        continue;
+      }
+
+      const id = await ctx.db.insert('locations', {
+        name: row.name,
+        storeNumber: row.storeNumber,
+        address: row.address,
+        status: row.status ?? 'open',
+        createdAt: now,
+        updatedAt: now,
+      });
+      created++;
+      await scheduleGeocode(ctx, id, scheduled++);
+    }
+
+    return { created, updated, errors };
+  },
+});
+
+/**
+ * Delete a location and its permit records
+ */
+export const remove = mutation({
+  args: { id: v.id('locations') },
+  handler: async (ctx, args) => {
+    const permits = await ctx.db
+      .query('permits')
+      .withIndex('by_location', (q) => q.eq('locationId', args.id))
+      .collect();
+
+    for (const permit of permits) {
+      await ctx.db.delete(permit._id);
+    }
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Get a location (for actions)
+ */
+export const lookup = internalQuery({
+  args: { id: v.id('locations') },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id);
+  },
+});
+
+/**
+ * Store the geocoded jurisdictions for a location
+ *
+ * Skipped if the address changed while geocoding (the new address has its
+ * own geocode scheduled).
+ */
+export const saveGeocode = internalMutation({
+  args: {
+    id: v.id('locations'),
+    address: v.string(),
+    jurisdictions: v.array(v.string()),
+    state: v.string(),
+    countyFips: v.optional(v.string()),
+    cityId: v.optional(v.string()),
+    lat: v.optional(v.number()),
+    lng: v.optional(v.number()),
+    incorporation: v.optional(
+      v.union(v.literal('incorporated'), v.literal('unincorporated'))
+    ),
+    etj: v.optional(v.object({ jurisdictionId: v.string(), name: v.string() })),
+  },
+  handler: async (ctx, args) => {
+    const { id, address, ...fields } = args;
+    const location = await ctx.db.get(id);
+    if (!location || location.address !== address) {
+      return;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(id, { ...fields, geocodedAt: now, updatedAt: now });
+  },
+});
+
+/**
+ * Schedule background geocoding for a location
+ *
+ * @param index - Position in a batch, used to stagger requests
+ */
+async function scheduleGeocode(
+  ctx: MutationCtx,
+  id: Id<'locations'>,
+  index = 0
+): Promise<void> {
+  await ctx.scheduler.runAfter(
+    index * GEOCODE_STAGGER_MS,
+    internal.actions.locations.geocode,
+    { id }
+  );
+}
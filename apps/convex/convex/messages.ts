@@ -1,5 +1,6 @@
 import { v } from 'convex/values';
 import { query, mutation } from './_generated/server';
+import { citationValidator } from './query/validators';
 
 /**
  * Messages: CRUD operations for conversation messages
@@ -48,17 +49,7 @@ export const send = mutation({
     status: v.optional(
       v.union(v.literal('pending'), v.literal('complete'), v.literal('error'))
     ),
-    citations: v.optional(
-      v.array(
-        v.object({
-          sourceId: v.id('sources'),
-          sectionNumber: v.string(),
-          title: v.string(),
-          url: v.string(),
-          relevanceScore: v.optional(v.number()),
-        })
-      )
-    ),
+    citations: v.optional(v.array(citationValidator)),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
@@ -92,17 +83,7 @@ export const updateStatus = mutation({
       v.literal('error')
     ),
     content: v.optional(v.string()),
-    citations: v.optional(
-      v.array(
-        v.object({
-          sourceId: v.id('sources'),
-          sectionNumber: v.string(),
-          title: v.string(),
-          url: v.string(),
-          relevanceScore: v.optional(v.number()),
-        })
-      )
-    ),
+    citations: v.optional(v.array(citationValidator)),
   },
   handler: async (ctx, args) => {
     const update: any = {
@@ -1,47 +1,38 @@
 import { internalMutation } from '../_generated/server';
 import { v } from 'convex/values';
+import {
+  citationValidator,
+  permitValidator,
+  confidenceValidator,
+  groundednessValidator,
+  verdictValidator,
+  preemptedProvisionValidator,
+  pendingRuleValidator,
+} from '../query/validators';
+import { resolveSourceKeys } from '../sources';
 
 /**
- * Internal mutation for persisting query results to conversations and messages.
- * Called by the query action after generating an answer.
+ * Internal mutations for persisting query results to conversations and messages.
+ *
+ * The query action streams its answer, so persistence happens in stages:
+ * 1. startQuery: create conversation, user message and a pending assistant message
+ * 2. updateMessageContent: patch partial answer text as tokens arrive
+ * 3. saveQueryResult: write the final answer with its structured citations,
+ *    permits, confidence and retrieval context, and mark the message complete
+ *    (or failQuery: mark the message as errored)
+ *
+ * Clients subscribe to the assistant message (messages.get or
+ * messages.byConversation) to render the answer as it is generated.
  */
-export const saveQueryResult = internalMutation({
+
+/**
+ * Create the conversation (if needed), the user question message, and a
+ * pending assistant message that will receive the streamed answer.
+ */
+export const startQuery = internalMutation({
   args: {
     conversationId: v.optional(v.id('conversations')),
     question: v.string(),
-    address: v.optional(v.string()),
-    jurisdictions: v.array(v.string()),
-    answerContent: v.string(),
-    citations: v.array(
-      v.object({
-        id: v.number(),
-        citation: v.string(),
-        text: v.string(),
-        url: v.optional(v.string()),
-        jurisdiction: v.string(),
-        sourceType: v.union(
-          v.literal('federal'),
-          v.literal('state'),
-          v.literal('county'),
-          v.literal('municipal')
-        ),
-      })
-    ),
-    permits: v.array(
-      v.object({
-        name: v.string(),
-        issuingAgency: v.string(),
-        jurisdiction: v.string(),
-        url: v.optional(v.string()),
-        citation: v.string(),
-      })
-    ),
-    confidence: v.object({
-      level: v.union(v.literal('High'), v.literal('Medium'), v.literal('Low')),
-      score: v.number(),
-      reason: v.string(),
-    }),
-    processingTimeMs: v.number(),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
@@ -72,16 +63,12 @@ export const saveQueryResult = internalMutation({
       updatedAt: now,
     });
 
-    // Save assistant response as message
-    // Note: We skip citations for now since we don't have Convex source IDs mapped
-    // to Pinecone chunk IDs. The citations are stored in the raw answerContent.
-    // TODO: Add source ID mapping when we implement source tracking in Phase 8
+    // Placeholder assistant message, filled in while the answer streams
     const messageId = await ctx.db.insert('messages', {
       conversationId,
       role: 'assistant',
-      content: args.answerContent,
-      status: 'complete',
-      // citations: undefined - skipping until source ID mapping is implemented
+      content: '',
+      status: 'pending',
       createdAt: now,
       updatedAt: now,
     });
@@ -92,3 +79,118 @@ export const saveQueryResult = internalMutation({
     return { conversationId, messageId };
   },
 });
+
+/**
+ * Patch the partial answer text of a pending assistant message.
+ * Ignored once the message has left the pending state.
+ */
+export const updateMessageContent = internalMutation({
+  args: {
+    messageId: v.id('messages'),
+    content: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message || message.status !== 'pending') {
+      return;
+    }
+
+    await ctx.db.patch(args.messageId, {
+      content: args.content,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Write the final answer to the assistant message and mark it complete.
+ */
+export const saveQueryResult = internalMutation({
+  args: {
+    messageId: v.id('messages'),
+    address: v.optional(v.string()),
+    jurisdictions: v.array(v.string()),
+    answerContent: v.string(),
+    citations: v.array(citationValidator),
+    permits: v.array(permitValidator),
+    confidence: confidenceValidator,
+    groundedness: v.optional(groundednessValidator),
+    verdict: v.optional(verdictValidator),
+    preemptedProvisions: v.optional(v.array(preemptedProvisionValidator)),
+    pendingRules: v.optional(v.array(pendingRuleValidator)),
+    asOfDate: v.optional(v.string()),
+    retrievedChunkIds: v.array(v.string()),
+    processingTimeMs: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    // Link citations to Convex source records registered by the ingestion pipelines
+    const sourceIds = await resolveSourceKeys(
+      ctx,
+      args.citations.flatMap((c) => (c.sourceKey ? [c.sourceKey] : []))
+    );
+    const citations = args.citations.map((c) => {
+      const sourceId = c.sourceKey ? sourceIds.get(c.sourceKey) : undefined;
+      return sourceId ? { ...c, sourceId } : c;
+    });
+
+    await ctx.db.patch(args.messageId, {
+      content: args.answerContent,
+      status: 'complete',
+      citations,
+      permits: args.permits,
+      confidence: args.confidence,
+      groundedness: args.groundedness,
+      verdict: args.verdict,
+      preemptedProvisions: args.preemptedProvisions,
+      pendingRules: args.pendingRules,
+      jurisdictions: args.jurisdictions,
+      address: args.address,
+      asOfDate: args.asOfDate,
+      retrievedChunkIds: args.retrievedChunkIds,
+      processingTimeMs: args.processingTimeMs,
+      updatedAt: now,
+    });
+
+    // Carry resolved location forward for follow-up questions
+    const message = await ctx.db.get(args.messageId);
+    if (message) {
+      await ctx.db.patch(message.conversationId, {
+        address: args.address,
+        jurisdictions: args.jurisdictions,
+        updatedAt: now,
+      });
+    }
+
+    return { messageId: args.messageId };
+  },
+});
+
+/**
+ * Mark an assistant message as failed.
+ * Keeps whatever partial content was streamed and appends the error reason.
+ */
+export const failQuery = internalMutation({
+  args: {
+    messageId: v.id('messages'),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      return;
+    }
+
+    const partial = message.content.trim();
+    const content = partial
+      ? `${partial}\n\n---\n\n_Answer generation failed: ${args.error}_`
+      : `_Answer generation failed: ${args.error}_`;
+
+    await ctx.db.patch(args.messageId, {
+      content,
+      status: 'error',
+      updatedAt: Date.now(),
+    });
+  },
+});
@@ -0,0 +1,269 @@
+import { v } from 'convex/values';
+import { query, mutation, type MutationCtx } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import { computeExpiry, permitLevel, permitTypeKey } from './lib/permits';
+import type { Permit } from './query/types';
+
+/**
+ * Permits: permit registry and renewal tracking
+ *
+ * One record per location and permit type. Records are created manually or
+ * promoted from the permits extracted from an answer, then updated as
+ * permits are issued and renewed. When a renewal cadence is known, the
+ * expiry date is derived from the issue date.
+ */
+
+const permitStatusValidator = v.union(
+  v.literal('required'),
+  v.literal('applied'),
+  v.literal('active'),
+  v.literal('inactive')
+);
+
+/**
+ * List permits, optionally for one location
+ */
+export const list = query({
+  args: {
+    locationId: v.optional(v.id('locations')),
+  },
+  handler: async (ctx, args) => {
+    if (args.locationId !== undefined) {
+      return await ctx.db
+        .query('permits')
+        .withIndex('by_location', (q) => q.eq('locationId', args.locationId!))
+        .collect();
+    }
+
+    return await ctx.db.query('permits').collect();
+  },
+});
+
+/**
+ * Get a single permit by ID
+ */
+export const get = query({
+  args: { id: v.id('permits') },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id);
+  },
+});
+
+/**
+ * List active permits expiring within a window, soonest first
+ *
+ * For "what do we need to renew this quarter": pass the quarter's start and
+ * end. Permits already expired before `from` are excluded.
+ *
+ * @param from Window start timestamp (default: now)
+ * @param to Window end timestamp
+ * @param locationId Optional location to restrict to
+ */
+export const expiring = query({
+  args: {
+    from: v.optional(v.number()),
+    to: v.number(),
+    locationId: v.optional(v.id('locations')),
+  },
+  handler: async (ctx, args) => {
+    const from = args.from ?? Date.now();
+
+    const permits = await ctx.db
+      .query('permits')
+      .withIndex('by_expires', (q) =>
+        q.gte('expiresAt', from).lte('expiresAt', args.to)
+      )
+      .collect();
+
+    const matching = permits.filter(
+      (permit) =>
+        permit.status === 'active' &&
+        (args.locationId === undefined || permit.locationId === args.locationId)
+    );
+
+    // Include the location so the renewal list can be grouped by store
+    return await Promise.all(
+      matching.map(async (permit) => ({
+        ...permit,
+        location: await ctx.db.get(permit.locationId),
+      }))
+    );
+  },
+});
+
+/**
+ * Create or update a permit record for a location
+ *
+ * Records are matched by location and permit type (normalized name).
+ * If renewalIntervalMonths and issuedAt are set without expiresAt, the
+ * expiry is computed from them.
+ */
+export const upsert = mutation({
+  args: {
+    locationId: v.id('locations'),
+    name: v.string(),
+    issuingAgency: v.string(),
+    jurisdiction: v.string(),
+    citation: v.string(),
+    url: v.optional(v.string()),
+    status: v.optional(permitStatusValidator),
+    permitNumber: v.optional(v.string()),
+    issuedAt: v.optional(v.number()),
+    expiresAt: v.optional(v.number()),
+    renewalIntervalMonths: v.optional(v.number()),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { locationId, ...fields } = args;
+    const expiresAt =
+      fields.expiresAt ??
+      (fields.issuedAt !== undefined && fields.renewalIntervalMonths
+        ? computeExpiry(fields.issuedAt, fields.renewalIntervalMonths)
+        : undefined);
+
+    return await upsertPermit(ctx, locationId, {
+      ...fields,
+      expiresAt,
+    });
+  },
+});
+
+/**
+ * Promote the permits extracted from an answer into a location's registry
+ *
+ * Permits already on record for the location keep their status and dates;
+ * only their agency, citation and link are refreshed.
+ *
+ * @param messageId Assistant message whose permits to promote
+ * @param locationId Location to record them for
+ * @param permitNames Optional subset of permit names to promote (default: all)
+ * @returns IDs of the created or updated permit records
+ */
+export const promoteFromMessage = mutation({
+  args: {
+    messageId: v.id('messages'),
+    locationId: v.id('locations'),
+    permitNames: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      throw new Error(`Message not found: ${args.messageId}`);
+    }
+    if (!(await ctx.db.get(args.locationId))) {
+      throw new Error(`Location not found: ${args.locationId}`);
+    }
+
+    const wanted = args.permitNames?.map(permitTypeKey);
+    const permits = (message.permits ?? []).filter(
+      (permit) => !wanted || wanted.includes(permitTypeKey(permit.name))
+    );
+
+    const ids: Id<'permits'>[] = [];
+    for (const permit of permits) {
+      ids.push(
+        await upsertPermit(ctx, args.locationId, {
+          ...permit,
+          sourceMessageId: args.messageId,
+        })
+      );
+    }
+    return ids;
+  },
+});
+
+/**
+ * Record a renewal: new issue date, expiry from the cadence (or given)
+ */
+export const recordRenewal = mutation({
+  args: {
+    id: v.id('permits'),
+    renewedAt: v.number(),
+    expiresAt: v.optional(v.number()),
+    permitNumber: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const permit = await ctx.db.get(args.id);
+    if (!permit) {
+      throw new Error(`Permit not found: ${args.id}`);
+    }
+
+    const expiresAt =
+      args.expiresAt ??
+      (permit.renewalIntervalMonths
+        ? computeExpiry(args.renewedAt, permit.renewalIntervalMonths)
+        : undefined);
+    if (expiresAt === undefined) {
+      throw new Error(
+        'expiresAt is required for permits without a renewal cadence'
+      );
+    }
+
+    await ctx.db.patch(args.id, {
+      status: 'active',
+      issuedAt: args.renewedAt,
+      expiresAt,
+      permitNumber: args.permitNumber ?? permit.permitNumber,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Delete a permit record
+ */
+export const remove = mutation({
+  args: { id: v.id('permits') },
+  handler: async (ctx, args) => {
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Shared upsert by location + permit type
+ *
+ * New records default to status 'required'. Undefined fields never
+ * overwrite stored values.
+ */
+async function upsertPermit(
+  ctx: MutationCtx,
+  locationId: Id<'locations'>,
+  permit: Permit & {
+    status?: 'required' | 'applied' | 'active' | 'inactive';
+    permitNumber?: string;
+    issuedAt?: number;
+    expiresAt?: number;
+    renewalIntervalMonths?: number;
+    sourceMessageId?: Id<'messages'>;
+    notes?: string;
+  }
+): Promise<Id<'permits'>> {
+  const now = Date.now();
+  const permitType = permitTypeKey(permit.name);
+  const fields = { ...permit, level: permitLevel(permit.jurisdiction) };
+
+  const existing = await ctx.db
+    .query('permits')
+    .withIndex('by_location_type', (q) =>
+      q.eq('locationId', locationId).eq('permitType', permitType)
+    )
+    .first();
+
+  if (existing) {
+    // patch() clears fields set to undefined, so only pass the defined ones
+    const defined = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined)
+    ) as Partial<typeof fields>;
+    await ctx.db.patch(existing._id, { ...defined, updatedAt: now });
+    return existing._id;
+  }
+
+  return await ctx.db.insert('permits', {
+    ...fields,
+    locationId,
+    permitType,
+    status: fields.status ?? 'required',
+    createdAt: now,
+    updatedAt: now,
+  });
+}
@@ -1,12 +1,17 @@
-import { query } from '../_generated/server';
+import { query, internalQuery } from '../_generated/server';
 import { v } from 'convex/values';
+import type { Doc } from '../_generated/dataModel';
+import type { StoredAnswer } from '../query/types';
 
 /**
  * Get all messages for a conversation (query + answer pairs)
+ *
+ * `answers` holds the assistant messages with their structured citations,
+ * permits and confidence, in the same order as `messages`.
  */
 export const getQueryByConversation = query({
   args: {
-    conversationId: v.id('conversations')
+    conversationId: v.id('conversations'),
   },
   handler: async (ctx, args) => {
     const conversation = await ctx.db.get(args.conversationId);
@@ -16,15 +21,20 @@ export const getQueryByConversation = query({
 
     const messages = await ctx.db
       .query('messages')
-      .withIndex('by_conversation', q => q.eq('conversationId', args.conversationId))
+      .withIndex('by_conversation', (q) =>
+        q.eq('conversationId', args.conversationId)
+      )
       .order('asc')
       .collect();
 
     return {
       conversation,
-      messages
+      messages,
+      answers: messages
+        .filter((m) => m.role === 'assistant')
+        .map(toStoredAnswer),
     };
-  }
+  },
 });
 
 /**
@@ -50,13 +60,101 @@ export const getLatestQuery = query({
 
     const messages = await ctx.db
       .query('messages')
-      .withIndex('by_conversation', q => q.eq('conversationId', conversation._id))
+      .withIndex('by_conversation', (q) =>
+        q.eq('conversationId', conversation._id)
+      )
       .order('asc')
       .collect();
 
     return {
       conversation,
-      messages
+      messages,
+      answers: messages
+        .filter((m) => m.role === 'assistant')
+        .map(toStoredAnswer),
     };
-  }
+  },
 });
+
+/**
+ * Get a single assistant answer with its structured data
+ */
+export const getAnswer = query({
+  args: {
+    messageId: v.id('messages'),
+  },
+  handler: async (ctx, args): Promise<StoredAnswer | null> => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message || message.role !== 'assistant') {
+      return null;
+    }
+
+    return toStoredAnswer(message);
+  },
+});
+
+/**
+ * Load recent completed turns and carried-forward location context for a
+ * conversation. Used by the query action to answer follow-up questions.
+ */
+export const getConversationContext = internalQuery({
+  args: {
+    conversationId: v.id('conversations'),
+    maxTurns: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) {
+      return { turns: [] };
+    }
+
+    // Newest first, then reverse so turns read oldest -> newest
+    const recent = await ctx.db
+      .query('messages')
+      .withIndex('by_conversation', (q) =>
+        q.eq('conversationId', args.conversationId)
+      )
+      .order('desc')
+      .filter((q) => q.eq(q.field('status'), 'complete'))
+      .take(args.maxTurns);
+
+    const turns = recent
+      .reverse()
+      .filter((m) => m.role === 'user' || m.role === 'assistant')
+      .map((m) => ({
+        role: m.role as 'user' | 'assistant',
+        content: m.content,
+      }));
+
+    return {
+      turns,
+      address: conversation.address,
+      jurisdictions: conversation.jurisdictions,
+    };
+  },
+});
+
+/**
+ * Helper: Map an assistant message document to a StoredAnswer
+ */
+function toStoredAnswer(message: Doc<'messages'>): StoredAnswer {
+  return {
+    messageId: message._id,
+    conversationId: message.conversationId,
+    content: message.content,
+    status: message.status,
+    citations: message.citations ?? [],
+    permits: message.permits ?? [],
+    confidence: message.confidence,
+    groundedness: message.groundedness,
+    verdict: message.verdict,
+    preemptedProvisions: message.preemptedProvisions,
+    pendingRules: message.pendingRules,
+    jurisdictions: message.jurisdictions ?? [],
+    address: message.address,
+    asOfDate: message.asOfDate,
+    retrievedChunkIds: message.retrievedChunkIds ?? [],
+    processingTimeMs: message.processingTimeMs,
+    createdAt: message.createdAt,
+  };
+}
@@ -15,10 +15,34 @@ export interface QueryRequest {
   question: string;
   /** Optional address for jurisdiction resolution (e.g., "1234 Main St, Houston, TX 77002") */
   address?: string;
+  /** Optional store location; its stored jurisdictions are used instead of geocoding */
+  locationId?: Id<'locations'>;
   /** Optional conversation ID for context */
   conversationId?: Id<'conversations'>;
 }
 
+/**
+ * A prior message in the conversation, used for follow-up questions.
+ */
+export interface ConversationTurn {
+  /** Who sent the message */
+  role: 'user' | 'assistant';
+  /** Message text (assistant turns are the raw markdown answer) */
+  content: string;
+}
+
+/**
+ * Conversation state loaded before answering a follow-up question.
+ */
+export interface ConversationContext {
+  /** Most recent completed turns, oldest first */
+  turns: ConversationTurn[];
+  /** Address resolved for an earlier question in the conversation */
+  address?: string;
+  /** Jurisdictions resolved for an earlier question in the conversation */
+  jurisdictions?: string[];
+}
+
 /**
  * Result of geocoding an address to jurisdictions.
  * Used to filter Pinecone queries by applicable regulatory bodies.
@@ -35,10 +59,47 @@ export interface JurisdictionResult {
   };
   /** City name if resolved (e.g., "Houston") */
   city?: string;
+  /** Normalized city identifier if resolved (e.g., "houston") */
+  cityId?: string;
+  /** Geocoded coordinates if resolved */
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
+  /**
+   * Which resolver produced the result: Geocodio, the offline Texas
+   * gazetteer (Geocodio unavailable or unconfigured), or the federal-only
+   * fallback
+   */
+  resolver: 'geocodio' | 'gazetteer' | 'fallback';
+  /**
+   * Whether the address is inside city limits, from the loaded boundary
+   * data (see lib/boundaries.ts); unset when no boundary data covers it.
+   * Unincorporated results carry no municipal jurisdiction.
+   */
+  incorporation?: Incorporation;
+  /** City whose extraterritorial jurisdiction (ETJ) covers the address */
+  etj?: EtjCity;
   /** Raw Geocodio API response for debugging */
   raw: object;
 }
 
+/**
+ * Whether an address lies inside a city's limits
+ */
+export type Incorporation = 'incorporated' | 'unincorporated';
+
+/**
+ * A city exercising extraterritorial jurisdiction (ETJ) over an address
+ * outside its limits
+ */
+export interface EtjCity {
+  /** Canonical city jurisdiction ID (e.g., "TX-houston") */
+  jurisdictionId: string;
+  /** City name (e.g., "Houston") */
+  name: string;
+}
+
 /**
  * A chunk retrieved from Pinecone with metadata.
  * Represents a single regulatory text segment relevant to the query.
@@ -62,6 +123,12 @@ export interface RetrievedChunk {
   category?: string;
   /** Link to official source if available */
   url?: string;
+  /** Source document identifier from Pinecone metadata (e.g., "cfr-title-21") */
+  sourceKey?: string;
+  /** Date this version took effect (YYYY-MM-DD), for dated federal text */
+  effectiveFrom?: string;
+  /** Date this version was superseded (YYYY-MM-DD; unset while in force) */
+  effectiveTo?: string;
 }
 
 /**
@@ -81,6 +148,14 @@ export interface Citation {
   jurisdiction: string;
   /** Source type for regulatory hierarchy */
   sourceType: 'federal' | 'state' | 'county' | 'municipal';
+  /** Pinecone vector ID of the cited chunk */
+  chunkId?: string;
+  /** Pinecone source document identifier of the cited chunk (e.g., "cfr-title-21") */
+  sourceKey?: string;
+  /** Convex source record the chunk was ingested from, if registered */
+  sourceId?: Id<'sources'>;
+  /** State law preempting the cited local provision, if the answer found it preempted */
+  preemptedBy?: string;
 }
 
 /**
@@ -101,7 +176,7 @@ export interface Permit {
 
 /**
  * Confidence assessment for the generated answer.
- * Based on retrieval metrics, not LLM self-assessment.
+ * Based on retrieval metrics and claim verification, not LLM self-assessment.
  */
 export interface ConfidenceScore {
   /** Human-readable confidence level */
@@ -110,6 +185,13 @@ export interface ConfidenceScore {
   score: number;
   /** Explanation of the confidence level */
   reason: string;
+  /** Jurisdictions without chunks in the answer context, by cause */
+  jurisdictionGaps?: {
+    /** No relevant indexed text exists for the jurisdiction */
+    missing: string[];
+    /** Relevant text existed but was ranked out of the final set */
+    outranked: string[];
+  };
   /** Underlying metrics used to calculate confidence */
   metrics: {
     /** Average similarity score of retrieved chunks */
@@ -118,9 +200,85 @@ export interface ConfidenceScore {
     jurisdictionCoverage: number;
     /** Ratio of chunks with valid citations */
     citationCoverage: number;
+    /** Ratio of cited claims supported by their cited chunk (after verification) */
+    groundedness?: number;
   };
 }
 
+/**
+ * Verification result for a cited claim that failed the groundedness check.
+ */
+export interface ClaimCheck {
+  /** Claim sentence (citation markers removed) */
+  claim: string;
+  /** Citation numbers the claim referenced */
+  citationIds: number[];
+  /** unsupported: no source supports it; miscited: a different (or no valid) source */
+  status: 'unsupported' | 'miscited';
+  /** For mis-cited claims: citation number of a source that supports the claim */
+  suggestedCitationId?: number;
+}
+
+/**
+ * Groundedness verification of an answer's cited claims.
+ */
+export interface GroundednessReport {
+  /** Ratio of cited claims supported by their cited chunk (1 when no claims) */
+  groundedness: number;
+  /** Number of cited claims checked */
+  totalClaims: number;
+  /** Number of claims supported by their cited chunk */
+  supportedClaims: number;
+  /** Claims that were unsupported or mis-cited */
+  flagged: ClaimCheck[];
+  /** Whether the answer was regenerated after failing verification */
+  regenerated?: boolean;
+}
+
+/**
+ * Per-jurisdiction retrieval counts.
+ * Distinguishes jurisdictions with no relevant text from outranked ones.
+ */
+export interface JurisdictionRetrievalCount {
+  /** Jurisdiction identifier (e.g., "TX-48201") */
+  jurisdiction: string;
+  /** Candidate chunks that passed retrieval for this jurisdiction */
+  available: number;
+  /** Chunks from this jurisdiction in the final set */
+  selected: number;
+}
+
+/**
+ * Business activity group from the Costco activity taxonomy (lib/activities.ts).
+ */
+export type ActivityGroupId =
+  | 'food_retail'
+  | 'food_service'
+  | 'alcohol'
+  | 'pharmacy'
+  | 'optical'
+  | 'hearing'
+  | 'fuel'
+  | 'tire_service'
+  | 'photo'
+  | 'general_operations';
+
+/**
+ * Business activity a question was classified into.
+ */
+export interface DetectedActivity {
+  /** Activity group (e.g., "alcohol") */
+  group: ActivityGroupId;
+  /** Specific activity (e.g., "beer_sales"); absent when only the group matched */
+  activity?: string;
+  /** Display label (e.g., "Beer Sales") */
+  label: string;
+  /** Regulatory chunk categories for the activity (e.g., ["alcohol", "licensing"]) */
+  categories: string[];
+  /** Question terms that matched the taxonomy */
+  matchedTerms: string[];
+}
+
 /**
  * Answer section for a specific jurisdiction level.
  * Separates federal, state, county, and municipal requirements.
@@ -138,6 +296,125 @@ export interface JurisdictionSection {
   permits: Permit[];
 }
 
+/**
+ * Whether the activity asked about is allowed.
+ * - permitted: allowed without permits or conditions
+ * - permitted_with_permits: allowed once the listed permits are obtained
+ * - restricted: allowed only under conditions (zones, hours, caps, ...)
+ * - prohibited: not allowed
+ * - unclear: the sources don't settle it
+ */
+export type VerdictStatus =
+  | 'permitted'
+  | 'permitted_with_permits'
+  | 'restricted'
+  | 'prohibited'
+  | 'unclear';
+
+/**
+ * Verdict for a single jurisdiction level.
+ */
+export interface JurisdictionVerdict {
+  /** Jurisdiction level */
+  level: 'federal' | 'state' | 'county' | 'municipal';
+  /** Human-readable jurisdiction name (e.g., "Texas") */
+  jurisdictionName: string;
+  /** Verdict at this level */
+  status: VerdictStatus;
+  /** Citation numbers of the provisions that prohibit or restrict the activity */
+  blockingCitations: number[];
+}
+
+/**
+ * Overall verdict for an activity question, rolled up across levels.
+ * The most restrictive level wins, so a federal or state prohibition
+ * overrides local permissiveness.
+ */
+export interface Verdict {
+  /** Overall verdict */
+  status: VerdictStatus;
+  /** Level that determined the overall verdict (absent when unclear) */
+  decidingLevel?: 'federal' | 'state' | 'county' | 'municipal';
+  /** Verdict per jurisdiction level, in hierarchy order */
+  levels: JurisdictionVerdict[];
+}
+
+/**
+ * Answer returned by Claude in structured-output mode (submit_answer tool).
+ * Markdown is rendered from it; citations are resolved from [N] references.
+ */
+export interface StructuredAnswer {
+  /** Direct 1-3 sentence answer with [N] citations */
+  summary: string;
+  /** Requirements per jurisdiction level */
+  sections: Array<{
+    /** Jurisdiction level */
+    level: 'federal' | 'state' | 'county' | 'municipal';
+    /** Human-readable jurisdiction name (e.g., "Texas", "Harris County") */
+    jurisdictionName: string;
+    /** Markdown content with [N] citations */
+    content: string;
+    /** Verdict for the activity at this level */
+    verdict?: VerdictStatus;
+    /** Citation numbers of prohibiting or restricting provisions */
+    blockingCitations?: number[];
+  }>;
+  /** Required permits and licenses */
+  permits: Permit[];
+  /** Retrieved local provisions that state law preempts */
+  preemptedProvisions?: Array<{
+    /** Source number [N] of the local provision */
+    citation: number;
+    /** Preempting state law */
+    preemptedBy: string;
+    /** Why the provision is preempted */
+    reason: string;
+  }>;
+}
+
+/**
+ * A retrieved county or municipal provision that state law preempts, so it
+ * is not binding even though it is on the books.
+ */
+export interface PreemptedProvision {
+  /** Source number [N] of the local provision */
+  citationId: number;
+  /** Citation of the local provision (e.g., "Houston Code § 3-12") */
+  citation: string;
+  /** Local jurisdiction identifier (e.g., "TX-houston") */
+  jurisdiction: string;
+  /** Preempting state law (e.g., "Tex. Alco. Bev. Code § 109.57") */
+  preemptedBy: string;
+  /** Why the provision is preempted */
+  reason: string;
+}
+
+/**
+ * A Federal Register rule amending a CFR part the answer relies on that is
+ * not yet in force: a proposed rule, or a final rule with a future
+ * effective date.
+ */
+export interface PendingRule {
+  /** FR document number (e.g., "2026-18231") */
+  documentNumber: string;
+  /** Proposed or final rule */
+  documentType: 'proposed_rule' | 'final_rule';
+  /** Rule title */
+  title: string;
+  /** FR citation (e.g., "91 Fed. Reg. 61234 (Sept. 15, 2026)") */
+  citation: string;
+  /** Rule summary as indexed (type, agency, amended parts, dates, abstract) */
+  summary: string;
+  /** CFR parts the rule amends as "{title}-{part}" (e.g., ["21-117"]) */
+  cfrParts: string[];
+  /** federalregister.gov page */
+  url?: string;
+  /** Date a final rule takes effect (YYYY-MM-DD) */
+  effectiveOn?: string;
+  /** Comment deadline of a proposed rule (YYYY-MM-DD) */
+  commentsCloseOn?: string;
+}
+
 /**
  * Structured answer generated by Claude.
  * Organizes regulations by jurisdiction hierarchy.
@@ -153,6 +430,14 @@ export interface GeneratedAnswer {
   citations: Citation[];
   /** Confidence assessment */
   confidence: ConfidenceScore;
+  /** Claim-level groundedness verification */
+  groundedness?: GroundednessReport;
+  /** Permitted / prohibited verdict for the activity asked about */
+  verdict?: Verdict;
+  /** Local provisions flagged as preempted by state law */
+  preemptedProvisions?: PreemptedProvision[];
+  /** Pending federal rules affecting the cited CFR parts */
+  pendingRules?: PendingRule[];
 }
 
 /**
@@ -162,16 +447,223 @@ export interface GeneratedAnswer {
 export interface QueryResult {
   /** Convex message ID if saved to database */
   queryId?: Id<'messages'>;
+  /** Convex conversation ID the query was saved under */
+  conversationId?: Id<'conversations'>;
   /** Original user question */
   question: string;
-  /** User-provided address if any */
+  /** Standalone query used for retrieval when the question was a follow-up */
+  retrievalQuery?: string;
+  /** User-provided (or carried-forward) address if any */
   address?: string;
   /** Resolved jurisdictions for the query */
   jurisdictions: string[];
+  /** Business activities the question was classified into */
+  activities?: DetectedActivity[];
+  /** Retrieval counts per jurisdiction */
+  jurisdictionCounts?: JurisdictionRetrievalCount[];
   /** Generated answer with citations and permits */
   answer: GeneratedAnswer;
   /** Retrieved chunks used to generate the answer */
   retrievedChunks: RetrievedChunk[];
   /** Pipeline execution time in milliseconds */
   processingTimeMs: number;
+  /** Whether the answer was served from the answer cache */
+  cached?: boolean;
+  /** Point-in-time date the answer applies to (YYYY-MM-DD; unset for current law) */
+  asOfDate?: string;
+}
+
+/**
+ * Item on a new-store opening checklist: a permit or license, deduplicated
+ * across the per-activity answers that required it.
+ */
+export interface ChecklistItem {
+  /** Stable item key within the checklist (e.g., "state:food-establishment-permit") */
+  key: string;
+  /** Permit or license name */
+  name: string;
+  /** Jurisdiction level that issues the permit */
+  level: 'federal' | 'state' | 'county' | 'municipal';
+  /** Human-readable jurisdiction name (e.g., "Texas", "Houston") */
+  jurisdiction: string;
+  /** Government agency that issues the permit */
+  issuingAgency: string;
+  /** Regulatory citation(s) that require the permit */
+  citation: string;
+  /** Link to application or information page if available */
+  url?: string;
+  /** Activity labels that require this item (e.g., ["Beer Sales", "Wine Sales"]) */
+  activities: string[];
+  /** Keys of items that must be obtained first */
+  dependencies: string[];
+  /** Whether the item has been checked off */
+  completed: boolean;
+  /** When the item was checked off */
+  completedAt?: number;
+  /** Who checked the item off */
+  completedBy?: string;
+}
+
+/**
+ * Output of the new-store checklist generator.
+ */
+export interface ChecklistResult {
+  /** Convex checklist ID */
+  checklistId: Id<'checklists'>;
+  /** Store address */
+  address: string;
+  /** Resolved jurisdictions for the address */
+  jurisdictions: string[];
+  /** Business activities the checklist covers */
+  activities: DetectedActivity[];
+  /** Checklist items, federal first */
+  items: ChecklistItem[];
+  /** Pipeline execution time in milliseconds */
+  processingTimeMs: number;
+}
+
+/**
+ * Store or address compared by the multi-location comparison.
+ */
+export interface ComparisonTarget {
+  /** Display label (location name, or the address) */
+  label: string;
+  /** Store address */
+  address: string;
+  /** Store location, if the target is one of ours */
+  locationId?: Id<'locations'>;
+  /** Resolved jurisdictions for the address */
+  jurisdictions: string[];
+  /** Inside or outside city limits, if known */
+  incorporation?: Incorporation;
+  /** City whose ETJ covers the address */
+  etj?: EtjCity;
+}
+
+/**
+ * Part of a comparison answer: the requirements common to all targets, or
+ * one target's differences from them.
+ */
+export interface ComparisonSection {
+  /** Markdown content with [N] citations */
+  content: string;
+  /** Citations referenced in the content */
+  citations: Citation[];
+  /** Confidence from the chunks retrieved for this part */
+  confidence: ConfidenceScore;
+}
+
+/**
+ * One target's side of a comparison.
+ */
+export interface LocationComparison extends ComparisonSection {
+  /** The store or address */
+  target: ComparisonTarget;
+}
+
+/**
+ * Output of the multi-location comparison.
+ */
+export interface ComparisonResult {
+  /** Compliance question asked for every target */
+  question: string;
+  /** Direct 1-3 sentence answer to how the targets differ */
+  summary: string;
+  /** Requirements that apply the same way to every target */
+  common: ComparisonSection;
+  /** Per-target differences, in request order */
+  locations: LocationComparison[];
+  /** Every numbered source the answer could cite ([N] = index + 1) */
+  chunks: RetrievedChunk[];
+  /** Side-by-side markdown rendering of the answer */
+  markdown: string;
+  /** Pipeline execution time in milliseconds */
+  processingTimeMs: number;
+}
+
+/**
+ * Assistant answer as persisted on a Convex message.
+ * Returned by queries so clients don't need to re-parse the markdown.
+ */
+export interface StoredAnswer {
+  /** Convex message ID */
+  messageId: Id<'messages'>;
+  /** Conversation the answer belongs to */
+  conversationId: Id<'conversations'>;
+  /** Markdown answer text (partial while status is 'pending') */
+  content: string;
+  /** Generation status */
+  status: 'pending' | 'complete' | 'error';
+  /** Citations referenced in the answer */
+  citations: Citation[];
+  /** Permits identified in the answer */
+  permits: Permit[];
+  /** Confidence assessment (absent until complete) */
+  confidence?: ConfidenceScore;
+  /** Claim-level groundedness verification (absent until complete) */
+  groundedness?: GroundednessReport;
+  /** Permitted / prohibited verdict (absent until complete) */
+  verdict?: Verdict;
+  /** Local provisions flagged as preempted by state law */
+  preemptedProvisions?: PreemptedProvision[];
+  /** Pending federal rules affecting the cited CFR parts */
+  pendingRules?: PendingRule[];
+  /** Jurisdictions the answer was generated for */
+  jurisdictions: string[];
+  /** Address the question was asked about, if any */
+  address?: string;
+  /** Point-in-time date the answer applies to (YYYY-MM-DD; unset for current law) */
+  asOfDate?: string;
+  /** Pinecone vector IDs retrieved as context */
+  retrievedChunkIds: string[];
+  /** Pipeline execution time in milliseconds */
+  processingTimeMs?: number;
+  /** Creation timestamp */
+  createdAt: number;
+}
+
+/**
+ * Redline segment of a regulatory change (unchanged, inserted or deleted text)
+ */
+export interface DiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Answer that used a changed section as context
+ */
+export interface AffectedAnswer {
+  /** Convex message ID of the assistant answer */
+  messageId: Id<'messages'>;
+  /** Conversation the answer belongs to */
+  conversationId: Id<'conversations'>;
+  /** Creation timestamp */
+  createdAt: number;
+}
+
+/**
+ * Entry of a user's regulatory change feed
+ */
+export interface ChangeFeedItem {
+  /** Convex changeEvents ID */
+  eventId: Id<'changeEvents'>;
+  /** Citation of the changed section */
+  citation: string;
+  /** Section heading */
+  heading?: string;
+  /** Regulatory level */
+  sourceType: 'federal' | 'state' | 'county' | 'municipal';
+  /** Canonical jurisdiction ID (e.g., "US", "TX-houston") */
+  jurisdiction: string;
+  /** Kind of change */
+  changeType: 'added' | 'modified' | 'removed';
+  /** Redline from the previous to the current text */
+  diff: DiffSegment[];
+  /** Subscribed citations the change matched */
+  subscriptions: string[];
+  /** Answers generated from the previous text of the section */
+  affectedAnswers: AffectedAnswer[];
+  /** Ingestion run timestamp */
+  detectedAt: number;
 }
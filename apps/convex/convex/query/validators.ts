@@ -0,0 +1,217 @@
+import { v } from 'convex/values';
+
+/**
+ * Query Pipeline Validators
+ *
+ * Convex value validators mirroring the types in ./types.ts.
+ * Shared by the schema and the mutations that persist query results,
+ * so stored answers keep the same shape as the pipeline output.
+ */
+
+/**
+ * Jurisdiction level / source type for regulatory hierarchy.
+ */
+export const sourceTypeValidator = v.union(
+  v.literal('federal'),
+  v.literal('state'),
+  v.literal('county'),
+  v.literal('municipal')
+);
+
+/**
+ * Citation reference in a generated answer (see Citation).
+ */
+export const citationValidator = v.object({
+  id: v.number(),
+  citation: v.string(),
+  text: v.string(),
+  url: v.optional(v.string()),
+  jurisdiction: v.string(),
+  sourceType: sourceTypeValidator,
+  chunkId: v.optional(v.string()),
+  sourceKey: v.optional(v.string()),
+  sourceId: v.optional(v.id('sources')),
+  preemptedBy: v.optional(v.string()),
+});
+
+/**
+ * Required permit identified in a generated answer (see Permit).
+ */
+export const permitValidator = v.object({
+  name: v.string(),
+  issuingAgency: v.string(),
+  jurisdiction: v.string(),
+  url: v.optional(v.string()),
+  citation: v.string(),
+});
+
+/**
+ * Retrieval-based confidence assessment (see ConfidenceScore).
+ */
+export const confidenceValidator = v.object({
+  level: v.union(v.literal('High'), v.literal('Medium'), v.literal('Low')),
+  score: v.number(),
+  reason: v.string(),
+  jurisdictionGaps: v.optional(
+    v.object({
+      missing: v.array(v.string()),
+      outranked: v.array(v.string()),
+    })
+  ),
+  metrics: v.object({
+    avgSimilarity: v.number(),
+    jurisdictionCoverage: v.number(),
+    citationCoverage: v.number(),
+    groundedness: v.optional(v.number()),
+  }),
+});
+
+/**
+ * Groundedness verification of an answer (see GroundednessReport).
+ */
+export const groundednessValidator = v.object({
+  groundedness: v.number(),
+  totalClaims: v.number(),
+  supportedClaims: v.number(),
+  flagged: v.array(
+    v.object({
+      claim: v.string(),
+      citationIds: v.array(v.number()),
+      status: v.union(v.literal('unsupported'), v.literal('miscited')),
+      suggestedCitationId: v.optional(v.number()),
+    })
+  ),
+  regenerated: v.optional(v.boolean()),
+});
+
+/**
+ * Activity verdict status (see VerdictStatus).
+ */
+export const verdictStatusValidator = v.union(
+  v.literal('permitted'),
+  v.literal('permitted_with_permits'),
+  v.literal('restricted'),
+  v.literal('prohibited'),
+  v.literal('unclear')
+);
+
+/**
+ * Rolled-up activity verdict (see Verdict).
+ */
+export const verdictValidator = v.object({
+  status: verdictStatusValidator,
+  decidingLevel: v.optional(sourceTypeValidator),
+  levels: v.array(
+    v.object({
+      level: sourceTypeValidator,
+      jurisdictionName: v.string(),
+      status: verdictStatusValidator,
+      blockingCitations: v.array(v.number()),
+    })
+  ),
+});
+
+/**
+ * Local provision preempted by state law (see PreemptedProvision).
+ */
+export const preemptedProvisionValidator = v.object({
+  citationId: v.number(),
+  citation: v.string(),
+  jurisdiction: v.string(),
+  preemptedBy: v.string(),
+  reason: v.string(),
+});
+
+/**
+ * Pending Federal Register rule (see PendingRule).
+ */
+export const pendingRuleValidator = v.object({
+  documentNumber: v.string(),
+  documentType: v.union(v.literal('proposed_rule'), v.literal('final_rule')),
+  title: v.string(),
+  citation: v.string(),
+  summary: v.string(),
+  cfrParts: v.array(v.string()),
+  url: v.optional(v.string()),
+  effectiveOn: v.optional(v.string()),
+  commentsCloseOn: v.optional(v.string()),
+});
+
+/**
+ * New-store checklist item (see ChecklistItem).
+ */
+export const checklistItemValidator = v.object({
+  key: v.string(),
+  name: v.string(),
+  level: sourceTypeValidator,
+  jurisdiction: v.string(),
+  issuingAgency: v.string(),
+  citation: v.string(),
+  url: v.optional(v.string()),
+  activities: v.array(v.string()),
+  dependencies: v.array(v.string()),
+  completed: v.boolean(),
+  completedAt: v.optional(v.number()),
+  completedBy: v.optional(v.string()),
+});
+
+/**
+ * Retrieved regulatory chunk (see RetrievedChunk).
+ */
+export const retrievedChunkValidator = v.object({
+  id: v.string(),
+  score: v.number(),
+  text: v.string(),
+  citation: v.string(),
+  jurisdiction: v.string(),
+  sourceType: sourceTypeValidator,
+  title: v.optional(v.string()),
+  category: v.optional(v.string()),
+  url: v.optional(v.string()),
+  sourceKey: v.optional(v.string()),
+  effectiveFrom: v.optional(v.string()),
+  effectiveTo: v.optional(v.string()),
+});
+
+/**
+ * Redline segment of a regulatory change (see DiffSegment).
+ */
+export const diffSegmentValidator = v.object({
+  op: v.union(v.literal('equal'), v.literal('insert'), v.literal('delete')),
+  text: v.string(),
+});
+
+/**
+ * Per-jurisdiction retrieval counts (see JurisdictionRetrievalCount).
+ */
+export const jurisdictionCountValidator = v.object({
+  jurisdiction: v.string(),
+  available: v.number(),
+  selected: v.number(),
+});
+
+/**
+ * Answer section for a jurisdiction level (see JurisdictionSection).
+ */
+export const jurisdictionSectionValidator = v.object({
+  level: sourceTypeValidator,
+  jurisdictionName: v.string(),
+  content: v.string(),
+  citations: v.array(citationValidator),
+  permits: v.array(permitValidator),
+});
+
+/**
+ * Structured generated answer (see GeneratedAnswer).
+ */
+export const generatedAnswerValidator = v.object({
+  summary: v.string(),
+  sections: v.array(jurisdictionSectionValidator),
+  permits: v.array(permitValidator),
+  citations: v.array(citationValidator),
+  confidence: confidenceValidator,
+  groundedness: v.optional(groundednessValidator),
+  verdict: v.optional(verdictValidator),
+  preemptedProvisions: v.optional(v.array(preemptedProvisionValidator)),
+  pendingRules: v.optional(v.array(pendingRuleValidator)),
+});
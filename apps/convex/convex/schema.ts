@@ -1,5 +1,19 @@
 import { defineSchema, defineTable } from 'convex/server';
 import { v } from 'convex/values';
+import {
+  citationValidator,
+  permitValidator,
+  confidenceValidator,
+  groundednessValidator,
+  verdictValidator,
+  preemptedProvisionValidator,
+  pendingRuleValidator,
+  generatedAnswerValidator,
+  retrievedChunkValidator,
+  jurisdictionCountValidator,
+  checklistItemValidator,
+  diffSegmentValidator,
+} from './query/validators';
 
 /**
  * Convex Schema for ComplianceIQ
@@ -9,6 +23,12 @@ import { v } from 'convex/values';
  * - Sources: Regulatory data sources within jurisdictions
  * - Conversations: User chat sessions with AI
  * - Messages: Individual messages within conversations
+ * - Answer cache: Generated answers reused for repeated questions
+ * - Checklists: New-store opening checklists teams check items off
+ * - Locations: Our stores
+ * - Permits: Permit registry per location, with renewal tracking
+ * - Subscriptions / change events: Citation watch lists and the section
+ *   changes detected by ingestion runs
  */
 
 export default defineSchema({
@@ -48,6 +68,9 @@ export default defineSchema({
   // Sources table: Regulatory data sources within jurisdictions
   sources: defineTable({
     jurisdictionId: v.id('jurisdictions'),
+    // Pinecone chunk sourceId this record was registered for by the ingestion
+    // pipelines (e.g., "cfr-title-21", "tx-statute-AL", "county-harris")
+    sourceKey: v.optional(v.string()),
     name: v.string(), // e.g., "Code of Federal Regulations", "Texas Administrative Code"
     url: v.string(), // Base URL for the source
     sourceType: v.union(
@@ -63,10 +86,12 @@ export default defineSchema({
       v.literal('error') // Last scrape failed
     ),
     lastScrapedAt: v.optional(v.number()),
+    vectorCount: v.optional(v.number()), // Vectors upserted in the last ingestion run
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index('by_jurisdiction', ['jurisdictionId'])
+    .index('by_source_key', ['sourceKey'])
     .index('by_status', ['status'])
     .index('by_type', ['sourceType']),
 
@@ -74,6 +99,9 @@ export default defineSchema({
   conversations: defineTable({
     userId: v.string(), // User identifier (from auth)
     title: v.optional(v.string()), // Auto-generated from first message
+    // Location context carried forward to follow-up questions
+    address: v.optional(v.string()), // Last address a question was asked about
+    jurisdictions: v.optional(v.array(v.string())), // Jurisdictions resolved for that address
     createdAt: v.number(),
     updatedAt: v.number(),
   }).index('by_user', ['userId']),
@@ -92,22 +120,178 @@ export default defineSchema({
       v.literal('complete'), // Fully generated
       v.literal('error') // Generation failed
     ),
-    // Citations: Array of source references
-    citations: v.optional(
-      v.array(
-        v.object({
-          sourceId: v.id('sources'),
-          sectionNumber: v.string(), // e.g., "21 CFR 117.3"
-          title: v.string(), // Section title
-          url: v.string(), // Direct link to section
-          relevanceScore: v.optional(v.number()), // From vector search
-        })
-      )
-    ),
+    // Structured answer data (assistant messages from the query pipeline)
+    citations: v.optional(v.array(citationValidator)), // Numbered [N] references
+    permits: v.optional(v.array(permitValidator)), // Required permits/licenses
+    confidence: v.optional(confidenceValidator), // Retrieval-based confidence
+    groundedness: v.optional(groundednessValidator), // Claim verification result
+    verdict: v.optional(verdictValidator), // Permitted/prohibited verdict per level + rollup
+    preemptedProvisions: v.optional(v.array(preemptedProvisionValidator)), // Local provisions state law preempts
+    pendingRules: v.optional(v.array(pendingRuleValidator)), // Federal Register rules not yet in force
+    jurisdictions: v.optional(v.array(v.string())), // e.g., ["US", "TX", "TX-48201"]
+    address: v.optional(v.string()), // Address the question was asked about
+    asOfDate: v.optional(v.string()), // Point-in-time date of the answer (YYYY-MM-DD)
+    retrievedChunkIds: v.optional(v.array(v.string())), // Pinecone vector IDs used as context
+    processingTimeMs: v.optional(v.number()), // Pipeline execution time
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index('by_conversation', ['conversationId'])
     .index('by_status', ['status'])
     .index('by_created', ['createdAt']),
+
+  // Answer cache: generated answers keyed by question + jurisdictions + index version
+  answerCache: defineTable({
+    normalizedQuestion: v.string(), // Lowercased, whitespace/punctuation-normalized query
+    scopeKey: v.string(), // "{indexVersion}|{sorted jurisdictions}", e.g. "v1|TX|TX-48201|US"
+    indexVersion: v.string(), // Retrieval/index version the answer was generated with
+    jurisdictions: v.array(v.string()), // Jurisdictions the answer covers
+    embedding: v.array(v.float64()), // Query embedding for near-duplicate matching
+    answerContent: v.string(), // Raw markdown answer
+    answer: generatedAnswerValidator, // Parsed answer (sections, citations, permits, confidence)
+    retrievedChunks: v.array(retrievedChunkValidator), // Context the answer was generated from
+    jurisdictionCounts: v.optional(v.array(jurisdictionCountValidator)),
+    hitCount: v.number(), // Times served from cache
+    lastHitAt: v.optional(v.number()),
+    expiresAt: v.number(), // TTL expiry timestamp
+    createdAt: v.number(), // Compared with jurisdictions' lastScrapedAt for invalidation
+  })
+    .index('by_scope_question', ['scopeKey', 'normalizedQuestion'])
+    .index('by_expires', ['expiresAt'])
+    .vectorIndex('by_embedding', {
+      vectorField: 'embedding',
+      dimensions: 3072,
+      filterFields: ['scopeKey'],
+    }),
+
+  // Checklists: permits/licenses to open a store at an address, per activity
+  checklists: defineTable({
+    userId: v.optional(v.string()), // Requesting user (from auth)
+    address: v.string(), // Store address
+    jurisdictions: v.array(v.string()), // e.g., ["US", "TX", "TX-48201", "TX-houston"]
+    activities: v.array(
+      v.object({
+        group: v.string(), // Activity group (e.g., "alcohol")
+        activity: v.optional(v.string()), // Specific activity (e.g., "beer_sales")
+        label: v.string(),
+      })
+    ),
+    items: v.array(checklistItemValidator), // Deduplicated permits with check-off state
+    processingTimeMs: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index('by_user', ['userId'])
+    .index('by_address', ['address']),
+
+  // Locations table: Our stores (warehouses)
+  locations: defineTable({
+    name: v.string(), // e.g., "Houston Bunker Hill"
+    storeNumber: v.optional(v.string()), // Internal store/warehouse number
+    address: v.string(), // Street address used for jurisdiction resolution
+    jurisdictions: v.optional(v.array(v.string())), // e.g., ["US", "TX", "TX-48201", "TX-houston"]
+    lat: v.optional(v.number()), // Geocoded latitude
+    lng: v.optional(v.number()), // Geocoded longitude
+    state: v.optional(v.string()), // e.g., "TX"
+    countyFips: v.optional(v.string()), // e.g., "48201"
+    cityId: v.optional(v.string()), // Normalized city, e.g., "houston"
+    incorporation: v.optional(
+      v.union(v.literal('incorporated'), v.literal('unincorporated'))
+    ), // Unset when no boundary data covers the store
+    etj: v.optional(v.object({ jurisdictionId: v.string(), name: v.string() })), // City whose ETJ covers an unincorporated store
+    geocodedAt: v.optional(v.number()), // Unset until the address has been geocoded
+    status: v.union(
+      v.literal('planned'), // Not yet open
+      v.literal('open'), // Operating
+      v.literal('closed') // No longer operating
+    ),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index('by_store_number', ['storeNumber'])
+    .index('by_status', ['status']),
+
+  // Permits table: Permit registry, one record per location + permit type
+  permits: defineTable({
+    locationId: v.id('locations'),
+    permitType: v.string(), // Normalized name key (lib/permits.ts permitTypeKey)
+    name: v.string(), // e.g., "Food Establishment Permit"
+    issuingAgency: v.string(),
+    jurisdiction: v.string(), // As given by the answer (level or jurisdiction ID)
+    level: v.union(
+      v.literal('federal'),
+      v.literal('state'),
+      v.literal('county'),
+      v.literal('municipal')
+    ),
+    citation: v.string(), // Regulatory citation that requires the permit
+    url: v.optional(v.string()),
+    status: v.union(
+      v.literal('required'), // Identified as needed, not yet applied for
+      v.literal('applied'), // Application submitted
+      v.literal('active'), // Issued and current
+      v.literal('inactive') // Surrendered or no longer needed
+    ),
+    permitNumber: v.optional(v.string()), // Number on the issued permit
+    issuedAt: v.optional(v.number()), // Issue (or last renewal) date
+    expiresAt: v.optional(v.number()), // Expiry date
+    renewalIntervalMonths: v.optional(v.number()), // Renewal cadence, e.g. 12 for annual
+    sourceMessageId: v.optional(v.id('messages')), // Answer the permit was promoted from
+    notes: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index('by_location', ['locationId'])
+    .index('by_location_type', ['locationId', 'permitType'])
+    .index('by_expires', ['expiresAt']),
+
+  // Boundaries table: City limits and ETJ polygons (scripts/load-boundaries.ts)
+  boundaries: defineTable({
+    jurisdictionId: v.string(), // City, e.g., "TX-houston"
+    name: v.string(), // e.g., "Houston"
+    kind: v.union(
+      v.literal('city_limits'), // Incorporated area
+      v.literal('etj') // Extraterritorial jurisdiction
+    ),
+    polygons: v.array(v.array(v.array(v.array(v.number())))), // GeoJSON MultiPolygon coordinates ([lng, lat])
+    bbox: v.array(v.number()), // [minLng, minLat, maxLng, maxLat]
+    source: v.optional(v.string()), // File the boundary was loaded from
+    loadedAt: v.number(),
+  }).index('by_jurisdiction_kind', ['jurisdictionId', 'kind']),
+
+  // Subscriptions table: Citations a user watches for changes
+  subscriptions: defineTable({
+    userId: v.string(), // User identifier (from auth)
+    citation: v.string(), // As entered, e.g. "21 CFR 117.5", "Houston Code ch. 10"
+    targetKey: v.string(), // Section or chapter key (lib/changes.ts subscriptionTarget)
+    scope: v.union(v.literal('section'), v.literal('chapter')),
+    createdAt: v.number(),
+  })
+    .index('by_user', ['userId'])
+    .index('by_user_target', ['userId', 'targetKey']),
+
+  // Change events table: Section changes detected by ingestion runs
+  changeEvents: defineTable({
+    sourceKey: v.string(), // Pinecone sourceId, e.g. "cfr-title-21"
+    sourceType: v.union(
+      v.literal('federal'),
+      v.literal('state'),
+      v.literal('county'),
+      v.literal('municipal')
+    ),
+    jurisdiction: v.string(), // e.g., "US", "TX", "TX-houston"
+    sectionKey: v.string(), // Chunk ID without chunk index, e.g. "cfr-21-117-117.5"
+    chapterKey: v.string(), // sectionKey without the section, e.g. "cfr-21-117"
+    citation: v.string(),
+    heading: v.optional(v.string()),
+    changeType: v.union(
+      v.literal('added'),
+      v.literal('modified'),
+      v.literal('removed')
+    ),
+    diff: v.array(diffSegmentValidator), // Redline from previous to current text
+    detectedAt: v.number(), // Ingestion run timestamp
+  })
+    .index('by_section', ['sectionKey', 'detectedAt'])
+    .index('by_chapter', ['chapterKey', 'detectedAt']),
 });
@@ -1,5 +1,6 @@
 import { v } from 'convex/values';
-import { query, mutation } from './_generated/server';
+import { query, mutation, type QueryCtx } from './_generated/server';
+import type { Id } from './_generated/dataModel';
 
 /**
  * Sources: CRUD operations for regulatory data sources
@@ -175,3 +176,170 @@ export const updateFederalStatus = mutation({
     }
   },
 });
+
+// =============================================================================
+// Chunk-to-Source Mapping
+// =============================================================================
+
+/**
+ * Register (upsert) a source by its Pinecone sourceId
+ *
+ * Called by the Cloudflare Workers ingestion pipelines after indexing a source
+ * document (CFR title, Texas code/TAC title, county or city code). Finds or
+ * creates the owning jurisdiction, then creates or updates the source record
+ * keyed by `sourceKey` so retrieved chunks can be mapped back to it.
+ */
+export const upsertSource = mutation({
+  args: {
+    sourceKey: v.string(), // Pinecone chunk sourceId, e.g. "cfr-title-21"
+    name: v.string(),
+    url: v.string(),
+    sourceType: v.union(
+      v.literal('statutes'),
+      v.literal('regulations'),
+      v.literal('ordinances'),
+      v.literal('other')
+    ),
+    jurisdiction: v.object({
+      type: v.union(
+        v.literal('federal'),
+        v.literal('state'),
+        v.literal('county'),
+        v.literal('city')
+      ),
+      name: v.string(),
+      stateCode: v.optional(v.string()),
+      countyFips: v.optional(v.string()),
+      cityId: v.optional(v.string()),
+    }),
+    status: v.union(v.literal('complete'), v.literal('error')),
+    lastScrapedAt: v.number(),
+    vectorCount: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const { jurisdiction } = args;
+
+    // Find the owning jurisdiction by its most specific identifier
+    let existingJurisdiction;
+    if (jurisdiction.type === 'county' && jurisdiction.countyFips) {
+      existingJurisdiction = await ctx.db
+        .query('jurisdictions')
+        .withIndex('by_county_fips', (q) =>
+          q.eq('countyFips', jurisdiction.countyFips)
+        )
+        .filter((q) => q.eq(q.field('type'), 'county'))
+        .first();
+    } else if (jurisdiction.type === 'city' && jurisdiction.cityId) {
+      existingJurisdiction = await ctx.db
+        .query('jurisdictions')
+        .withIndex('by_city_id', (q) => q.eq('cityId', jurisdiction.cityId))
+        .filter((q) => q.eq(q.field('type'), 'city'))
+        .first();
+    } else {
+      existingJurisdiction = await ctx.db
+        .query('jurisdictions')
+        .withIndex('by_type', (q) => q.eq('type', jurisdiction.type))
+        .filter((q) => q.eq(q.field('name'), jurisdiction.name))
+        .first();
+    }
+
+    // Record the scrape on the jurisdiction (invalidates cached answers)
+    if (existingJurisdiction) {
+      await ctx.db.patch(existingJurisdiction._id, {
+        lastScrapedAt: args.lastScrapedAt,
+        updatedAt: now,
+      });
+    }
+
+    const jurisdictionId =
+      existingJurisdiction?._id ??
+      (await ctx.db.insert('jurisdictions', {
+        name: jurisdiction.name,
+        type: jurisdiction.type,
+        stateCode: jurisdiction.stateCode,
+        countyFips: jurisdiction.countyFips,
+        cityName: jurisdiction.type === 'city' ? jurisdiction.name : undefined,
+        cityId: jurisdiction.cityId,
+        isActive: true,
+        status: 'active',
+        lastScrapedAt: args.lastScrapedAt,
+        createdAt: now,
+        updatedAt: now,
+      }));
+
+    // Upsert the source by sourceKey
+    const existingSource = await ctx.db
+      .query('sources')
+      .withIndex('by_source_key', (q) => q.eq('sourceKey', args.sourceKey))
+      .first();
+
+    if (existingSource) {
+      await ctx.db.patch(existingSource._id, {
+        jurisdictionId,
+        name: args.name,
+        url: args.url,
+        sourceType: args.sourceType,
+        status: args.status,
+        lastScrapedAt: args.lastScrapedAt,
+        vectorCount: args.vectorCount ?? existingSource.vectorCount,
+        updatedAt: now,
+      });
+      return existingSource._id;
+    }
+
+    return await ctx.db.insert('sources', {
+      jurisdictionId,
+      sourceKey: args.sourceKey,
+      name: args.name,
+      url: args.url,
+      sourceType: args.sourceType,
+      status: args.status,
+      lastScrapedAt: args.lastScrapedAt,
+      vectorCount: args.vectorCount,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Look up a source by its Pinecone sourceId
+ *
+ * Returns the source record (including its Convex ID) or null if the
+ * sourceId has never been registered by an ingestion pipeline.
+ */
+export const getBySourceKey = query({
+  args: { sourceKey: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('sources')
+      .withIndex('by_source_key', (q) => q.eq('sourceKey', args.sourceKey))
+      .first();
+  },
+});
+
+/**
+ * Resolve Pinecone sourceIds to Convex source IDs
+ *
+ * Shared by mutations that need to link chunks to source records.
+ * Unregistered sourceIds are omitted from the returned map.
+ */
+export async function resolveSourceKeys(
+  ctx: QueryCtx,
+  sourceKeys: string[]
+): Promise<Map<string, Id<'sources'>>> {
+  const resolved = new Map<string, Id<'sources'>>();
+
+  for (const sourceKey of new Set(sourceKeys)) {
+    const source = await ctx.db
+      .query('sources')
+      .withIndex('by_source_key', (q) => q.eq('sourceKey', sourceKey))
+      .first();
+    if (source) {
+      resolved.set(sourceKey, source._id);
+    }
+  }
+
+  return resolved;
+}
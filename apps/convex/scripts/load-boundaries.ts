@@ -0,0 +1,83 @@
+/**
+ * Load City Limits and ETJ Boundaries
+ *
+ * Reads a GeoJSON FeatureCollection and stores one boundary per city and
+ * kind in the boundaries table, replacing what was loaded before. Geocoded
+ * addresses are then classified as incorporated or unincorporated (with
+ * their ETJ city) - see convex/lib/boundaries.ts.
+ *
+ * Each feature is a Polygon or MultiPolygon with properties:
+ *   kind            "city_limits" or "etj" (required)
+ *   jurisdictionId  City jurisdiction ID, e.g. "TX-houston" (or use city)
+ *   city            City name, e.g. "Houston"
+ *   name            Display name (defaults to the registry name)
+ *
+ * City GIS departments and TxDOT publish city limit and ETJ layers; export
+ * them as GeoJSON in WGS84 (lng/lat), simplified to a few thousand vertices
+ * per city (longer rings are thinned on load).
+ *
+ * Usage:
+ *   npx tsx scripts/load-boundaries.ts data/tx-boundaries.geojson
+ *   npx tsx scripts/load-boundaries.ts data/tx-boundaries.geojson --dry-run
+ */
+
+import 'dotenv/config';
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '../convex/_generated/api';
+import { parseBoundaryGeoJson } from '../convex/lib/boundaries';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args.find((arg) => !arg.startsWith('--'));
+  const dryRun = args.includes('--dry-run');
+
+  if (!file) {
+    console.log(
+      'Usage: npx tsx scripts/load-boundaries.ts <file.geojson> [--dry-run]'
+    );
+    process.exit(1);
+  }
+
+  const boundaries = parseBoundaryGeoJson(
+    JSON.parse(readFileSync(file, 'utf8'))
+  );
+  console.log(`Parsed ${boundaries.length} boundaries from ${file}`);
+  for (const boundary of boundaries) {
+    const positions = boundary.polygons.flat(2).length;
+    console.log(
+      `  ${boundary.jurisdictionId} ${boundary.kind}: ${boundary.polygons.length} polygons, ${positions} vertices`
+    );
+  }
+
+  if (dryRun) {
+    return;
+  }
+
+  const convexUrl = process.env.CONVEX_URL;
+  if (!convexUrl) {
+    console.error('ERROR: CONVEX_URL not set');
+    console.error(
+      '  Set in .env or export CONVEX_URL=https://your-deployment.convex.cloud'
+    );
+    process.exit(1);
+  }
+
+  const client = new ConvexHttpClient(convexUrl);
+  for (const boundary of boundaries) {
+    await client.mutation(api.boundaries.replace, {
+      ...boundary,
+      source: basename(file),
+    });
+  }
+  console.log(`Loaded ${boundaries.length} boundaries`);
+}
+
+main().catch((error) => {
+  console.error(
+    'Failed to load boundaries:',
+    error instanceof Error ? error.message : error
+  );
+  process.exit(1);
+});
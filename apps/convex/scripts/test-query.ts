@@ -92,6 +92,13 @@ async function main() {
     console.log(`Processing Time: ${result.processingTimeMs}ms`);
     console.log(`Confidence: ${result.answer.confidence.level} (${result.answer.confidence.score.toFixed(2)})`);
     console.log(`Confidence Reason: ${result.answer.confidence.reason}`);
+    const verdict = result.answer.verdict;
+    if (verdict) {
+      const decidedBy = verdict.decidingLevel
+        ? ` (${verdict.decidingLevel})`
+        : '';
+      console.log(`Verdict: ${verdict.status}${decidedBy}`);
+    }
     console.log('');
 
     console.log('=== Answer Summary ===');
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyActivities,
+  activityCategories,
+} from '../convex/lib/activities';
+
+describe('classifyActivities', () => {
+  it('detects specific activities with their group categories', () => {
+    const activities = classifyActivities(
+      'Can we hold wine tastings at the Austin warehouse?'
+    );
+
+    expect(activities.map((a) => a.activity)).toEqual([
+      'wine_sales',
+      'alcohol_tastings',
+    ]);
+    expect(activityCategories(activities)).toEqual(['alcohol', 'licensing']);
+  });
+
+  it('falls back to the group when no specific activity matches', () => {
+    const [activity] = classifyActivities('What pharmacy permits do we need?');
+
+    expect(activity).toMatchObject({ group: 'pharmacy', label: 'Pharmacy' });
+    expect(activity!.activity).toBeUndefined();
+  });
+
+  it('adds activity-specific categories', () => {
+    const activities = classifyActivities(
+      'Inspection rules for underground storage tanks at our gas station'
+    );
+
+    expect(activities.map((a) => a.activity)).toEqual([
+      'underground_storage_tanks',
+    ]);
+    expect(activities[0]!.categories).toContain('water');
+  });
+
+  it('matches whole words only', () => {
+    expect(classifyActivities('Who designed the building?')).toEqual([]);
+  });
+});
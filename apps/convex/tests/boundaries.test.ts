@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyBoundaryClassification,
+  classifyPoint,
+  parseBoundaryGeoJson,
+} from '../convex/lib/boundaries';
+import { resolveFromGazetteer } from '../convex/lib/gazetteer';
+import { buildUserPrompt } from '../convex/lib/prompt';
+import type { JurisdictionResult } from '../convex/query/types';
+
+const square = (
+  minLng: number,
+  minLat: number,
+  maxLng: number,
+  maxLat: number
+) => [
+  [minLng, minLat],
+  [maxLng, minLat],
+  [maxLng, maxLat],
+  [minLng, maxLat],
+  [minLng, minLat],
+];
+
+// City limits with a hole (an unincorporated enclave), inside a larger ETJ
+const boundaries = parseBoundaryGeoJson({
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { city: 'Houston', kind: 'city_limits' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          square(-95.6, 29.6, -95.2, 30.0),
+          square(-95.5, 29.9, -95.4, 29.95),
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { jurisdictionId: 'TX-houston', kind: 'etj' },
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [
+          [square(-96.0, 29.3, -95.0, 29.6)],
+          [square(-96.0, 30.0, -95.0, 30.3)],
+        ],
+      },
+    },
+  ],
+});
+
+const geocoded: JurisdictionResult = {
+  jurisdictions: ['US', 'TX', 'TX-48201', 'TX-houston'],
+  state: 'TX',
+  county: { name: 'Harris County', fips: '48201' },
+  city: 'Houston',
+  cityId: 'houston',
+  coordinates: { lat: 30.1, lng: -95.5 },
+  resolver: 'geocodio',
+  raw: {},
+};
+
+describe('parseBoundaryGeoJson', () => {
+  it('canonicalizes cities and takes registry names', () => {
+    expect(
+      boundaries.map(({ jurisdictionId, name, kind, bbox }) => ({
+        jurisdictionId,
+        name,
+        kind,
+        bbox,
+      }))
+    ).toEqual([
+      {
+        jurisdictionId: 'TX-houston',
+        name: 'Houston',
+        kind: 'city_limits',
+        bbox: [-95.6, 29.6, -95.2, 30.0],
+      },
+      {
+        jurisdictionId: 'TX-houston',
+        name: 'Houston',
+        kind: 'etj',
+        bbox: [-96.0, 29.3, -95.0, 30.3],
+      },
+    ]);
+  });
+
+  it('rejects features without a kind', () => {
+    expect(() =>
+      parseBoundaryGeoJson({
+        type: 'FeatureCollection',
+        features: [
+          { type: 'Feature', properties: { city: 'Houston' }, geometry: null },
+        ],
+      })
+    ).toThrow('Feature 0: properties.kind');
+  });
+});
+
+describe('classifyPoint', () => {
+  it('classifies points inside city limits as incorporated', () => {
+    expect(
+      classifyPoint({ lat: 29.76, lng: -95.37 }, boundaries, 'TX-houston')
+    ).toEqual({
+      incorporation: 'incorporated',
+      city: { jurisdictionId: 'TX-houston', name: 'Houston' },
+    });
+  });
+
+  it('classifies points in an ETJ as unincorporated with the ETJ city', () => {
+    expect(
+      classifyPoint({ lat: 30.1, lng: -95.5 }, boundaries, 'TX-houston')
+    ).toEqual({
+      incorporation: 'unincorporated',
+      etj: { jurisdictionId: 'TX-houston', name: 'Houston' },
+    });
+  });
+
+  it('treats holes in city limits as unincorporated', () => {
+    expect(
+      classifyPoint({ lat: 29.92, lng: -95.45 }, boundaries, 'TX-houston')
+        .incorporation
+    ).toBe('unincorporated');
+  });
+
+  it('leaves points outside the loaded data undetermined', () => {
+    expect(
+      classifyPoint({ lat: 32.78, lng: -96.8 }, boundaries, 'TX-dallas')
+    ).toEqual({});
+  });
+});
+
+describe('applyBoundaryClassification', () => {
+  it('drops the city layer for unincorporated addresses and records the ETJ', () => {
+    const result = applyBoundaryClassification(
+      geocoded,
+      classifyPoint(geocoded.coordinates!, boundaries, 'TX-houston')
+    );
+    expect(result).toMatchObject({
+      jurisdictions: ['US', 'TX', 'TX-48201'],
+      city: undefined,
+      cityId: undefined,
+      incorporation: 'unincorporated',
+      etj: { jurisdictionId: 'TX-houston', name: 'Houston' },
+    });
+  });
+
+  it('uses the containing city over the postal city', () => {
+    const result = applyBoundaryClassification(
+      {
+        ...geocoded,
+        jurisdictions: ['US', 'TX', 'TX-48201', 'TX-pasadena'],
+        cityId: 'pasadena',
+      },
+      {
+        incorporation: 'incorporated',
+        city: { jurisdictionId: 'TX-houston', name: 'Houston' },
+      }
+    );
+    expect(result.jurisdictions).toEqual([
+      'US',
+      'TX',
+      'TX-48201',
+      'TX-houston',
+    ]);
+    expect(result.cityId).toBe('houston');
+  });
+
+  it('keeps the postal city when boundary data does not cover the point', () => {
+    expect(applyBoundaryClassification(geocoded, {})).toBe(geocoded);
+  });
+});
+
+describe('unincorporated addresses', () => {
+  it('resolves "Unincorporated" gazetteer addresses without a city', () => {
+    expect(
+      resolveFromGazetteer(
+        '15000 Kuykendahl Rd, Unincorporated Harris County, Houston, TX 77090'
+      )
+    ).toMatchObject({
+      jurisdictions: ['US', 'TX', 'TX-48201'],
+      city: undefined,
+      incorporation: 'unincorporated',
+    });
+  });
+
+  it('notes unincorporated status and the ETJ in the prompt', () => {
+    const prompt = buildUserPrompt(
+      'Can I sell fireworks?',
+      [],
+      ['US', 'TX', 'TX-48201'],
+      [],
+      {
+        locality: {
+          incorporation: 'unincorporated',
+          etj: { jurisdictionId: 'TX-houston', name: 'Houston' },
+        },
+      }
+    );
+    expect(prompt).toContain('Location: unincorporated');
+    expect(prompt).toContain('extraterritorial jurisdiction (ETJ) of Houston');
+  });
+});
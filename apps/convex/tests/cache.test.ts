@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeQuestion,
+  buildCacheScopeKey,
+  ANSWER_CACHE_INDEX_VERSION,
+} from '../convex/lib/cache';
+
+describe('normalizeQuestion', () => {
+  it('ignores case, punctuation and spacing', () => {
+    expect(normalizeQuestion('  Do I need a permit to sell BEER? ')).toBe(
+      'do i need a permit to sell beer'
+    );
+    expect(normalizeQuestion("Food truck: what's required?!")).toBe(
+      normalizeQuestion('food truck what s required')
+    );
+  });
+
+  it('keeps dotted section numbers and section signs', () => {
+    expect(normalizeQuestion('Does § 117.5 apply to my farm.')).toBe(
+      'does § 117.5 apply to my farm'
+    );
+    expect(normalizeQuestion('Tex. Alco. Bev. Code § 22.01')).toBe(
+      'tex alco bev code § 22.01'
+    );
+    expect(normalizeQuestion('117.5')).not.toBe(normalizeQuestion('1175'));
+  });
+});
+
+describe('buildCacheScopeKey', () => {
+  it('prefixes the current index version', () => {
+    expect(buildCacheScopeKey(['US', 'TX', 'TX-48201'])).toBe(
+      `${ANSWER_CACHE_INDEX_VERSION}|TX|TX-48201|US`
+    );
+    expect(buildCacheScopeKey(['US'], 'compliance-embeddings/v2')).toBe(
+      'compliance-embeddings/v2|US'
+    );
+  });
+
+  it('yields the same key for the same jurisdiction set', () => {
+    expect(buildCacheScopeKey(['TX-48201', 'US', 'TX', 'US'])).toBe(
+      buildCacheScopeKey(['US', 'TX', 'TX-48201'])
+    );
+    expect(buildCacheScopeKey(['US', 'TX'])).not.toBe(
+      buildCacheScopeKey(['US', 'TX', 'TX-48201'])
+    );
+  });
+});
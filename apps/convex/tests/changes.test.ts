@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  subscriptionTarget,
+  chunkSectionKey,
+  isAffectedAnswer,
+} from '../convex/lib/changes';
+
+describe('subscriptionTarget', () => {
+  it('maps sections to section keys', () => {
+    expect(subscriptionTarget('21 CFR 117.5')).toEqual({
+      targetKey: 'cfr-21-117-117.5',
+      scope: 'section',
+    });
+    expect(subscriptionTarget('Tex. Alco. Bev. Code § 22.01')).toEqual({
+      targetKey: 'tx-statute-AL-22-22.01',
+      scope: 'section',
+    });
+    expect(
+      subscriptionTarget('Houston, Tex., Code of Ordinances sect. 10-2 (2026)')
+    ).toEqual({ targetKey: 'municipal-houston-10-10-2', scope: 'section' });
+    expect(subscriptionTarget('21 U.S.C. § 812')).toEqual({
+      targetKey: 'usc-21-812',
+      scope: 'section',
+    });
+    expect(subscriptionTarget('Fort Bend County Code § 2.03.040')).toEqual({
+      targetKey: 'county-fort-bend-2-2.03.040',
+      scope: 'section',
+    });
+  });
+
+  it('maps parts and chapters to chapter keys', () => {
+    expect(subscriptionTarget('21 CFR part 117')).toEqual({
+      targetKey: 'cfr-21-117',
+      scope: 'chapter',
+    });
+    expect(subscriptionTarget('16 TAC ch. 5')).toEqual({
+      targetKey: 'tx-tac-16-5',
+      scope: 'chapter',
+    });
+    expect(subscriptionTarget('Houston Code ch. 10')).toEqual({
+      targetKey: 'municipal-houston-10',
+      scope: 'chapter',
+    });
+    expect(subscriptionTarget('San Antonio City Code chapter 13')).toEqual({
+      targetKey: 'municipal-san_antonio-13',
+      scope: 'chapter',
+    });
+  });
+
+  it('returns null for unrecognized citations', () => {
+    expect(subscriptionTarget('food safety rules')).toBeNull();
+  });
+});
+
+describe('isAffectedAnswer', () => {
+  it('matches chunks of the changed section only', () => {
+    expect(chunkSectionKey('cfr-21-117-117.5-1@2021-03-01')).toBe(
+      'cfr-21-117-117.5'
+    );
+    expect(isAffectedAnswer(['cfr-21-117-117.50-0'], 'cfr-21-117-117.5')).toBe(
+      false
+    );
+    expect(
+      isAffectedAnswer(
+        ['municipal-houston-10-10-2-1-0', 'municipal-houston-10-10-2-3'],
+        'municipal-houston-10-10-2'
+      )
+    ).toBe(true);
+  });
+});
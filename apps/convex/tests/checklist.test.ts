@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildChecklistItems,
+  resolveChecklistDependencies,
+  type ActivityPermits,
+} from '../convex/lib/checklist';
+import { resolveActivities } from '../convex/lib/activities';
+
+const [deli, pizza] = resolveActivities([
+  'deli_prepared_foods',
+  'food_court_pizza',
+]);
+
+const foodPermit = {
+  name: 'Food Establishment Permit',
+  issuingAgency: 'Texas Department of State Health Services',
+  jurisdiction: 'state',
+  citation: '25 Tex. Admin. Code § 228.4',
+};
+
+const answers: ActivityPermits[] = [
+  {
+    activity: deli!,
+    permits: [
+      foodPermit,
+      {
+        name: "Medical Food Dealer's Permit",
+        issuingAgency: 'Houston Health Department',
+        jurisdiction: 'TX-houston',
+        citation: 'Houston, Tex., Code of Ordinances § 20-19',
+      },
+    ],
+    sections: [
+      {
+        level: 'municipal',
+        jurisdictionName: 'Houston',
+        content: '',
+        citations: [],
+        permits: [],
+      },
+    ],
+  },
+  {
+    activity: pizza!,
+    permits: [
+      {
+        ...foodPermit,
+        name: 'Food establishment permit',
+        citation: 'Tex. Health & Safety Code § 437.0055',
+      },
+    ],
+    sections: [],
+  },
+];
+
+describe('buildChecklistItems', () => {
+  it('dedupes permits across activities by level and name', () => {
+    const items = buildChecklistItems(answers);
+
+    expect(items.map((item) => item.key)).toEqual([
+      'state:food-establishment-permit',
+      'municipal:medical-food-dealer-permit',
+    ]);
+    expect(items[0]).toMatchObject({
+      activities: ['Deli & Prepared Foods', 'Food Court Pizza'],
+      citation:
+        '25 Tex. Admin. Code § 228.4; Tex. Health & Safety Code § 437.0055',
+      jurisdiction: 'State',
+      completed: false,
+    });
+    expect(items[1]).toMatchObject({
+      level: 'municipal',
+      jurisdiction: 'Houston',
+    });
+  });
+});
+
+describe('resolveChecklistDependencies', () => {
+  it('maps resolved indexes to item keys and drops cycles', async () => {
+    const items = buildChecklistItems(answers);
+    const resolved = await resolveChecklistDependencies(items, async () => [
+      [1],
+      [0, 1, 7],
+    ]);
+
+    expect(resolved[0]!.dependencies).toEqual([
+      'municipal:medical-food-dealer-permit',
+    ]);
+    expect(resolved[1]!.dependencies).toEqual([]);
+  });
+
+  it('returns items without dependencies if the resolver fails', async () => {
+    const items = buildChecklistItems(answers);
+    const resolved = await resolveChecklistDependencies(items, async () => {
+      throw new Error('overloaded');
+    });
+
+    expect(resolved).toEqual(items);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectCitations,
+  citationChunkIds,
+  formatCitationReference,
+  MAX_CHUNKS_PER_SECTION,
+} from '../convex/lib/citations';
+
+describe('detectCitations', () => {
+  it('detects CFR sections with or without a section sign', () => {
+    expect(detectCitations('What does 21 CFR 117.5 say?')).toEqual([
+      { kind: 'cfr', title: 21, section: '117.5' },
+    ]);
+    expect(
+      detectCitations('Is my farm exempt under 21 C.F.R. § 117.5?')
+    ).toEqual([{ kind: 'cfr', title: 21, section: '117.5' }]);
+    expect(detectCitations('see 21 CFR §117.5')).toEqual([
+      { kind: 'cfr', title: 21, section: '117.5' },
+    ]);
+  });
+
+  it('ignores a bare section sign with no source to resolve it', () => {
+    expect(detectCitations('What does § 117.5 require?')).toEqual([]);
+  });
+
+  it('detects U.S. Code, Texas statute and TAC citations in order', () => {
+    expect(
+      detectCitations(
+        '16 TAC 5.31 and Tex. Alcoholic Beverage Code § 22.01 implement 21 U.S.C. § 360bbb-3'
+      )
+    ).toEqual([
+      { kind: 'tac', title: 16, section: '5.31' },
+      { kind: 'tx-statute', code: 'AL', section: '22.01' },
+      { kind: 'usc', title: 21, section: '360bbb-3' },
+    ]);
+  });
+
+  it('removes duplicate references', () => {
+    expect(
+      detectCitations('21 CFR 117.5 vs. 21 C.F.R. § 117.5 vs. 21 CFR 117.3')
+    ).toEqual([
+      { kind: 'cfr', title: 21, section: '117.5' },
+      { kind: 'cfr', title: 21, section: '117.3' },
+    ]);
+  });
+});
+
+describe('citationChunkIds', () => {
+  it('maps sections to deterministic chunk IDs', () => {
+    const [cfr, statute, tac, usc] = detectCitations(
+      '21 CFR 117.5, Tex. Alco. Bev. Code § 22.01, 16 TAC 5.31, 21 U.S.C. § 812'
+    );
+
+    expect(citationChunkIds(cfr!, 2)).toEqual([
+      'cfr-21-117-117.5-0',
+      'cfr-21-117-117.5-1',
+    ]);
+    expect(citationChunkIds(statute!, 1)).toEqual(['tx-statute-AL-22-22.01-0']);
+    expect(citationChunkIds(tac!, 1)).toEqual(['tx-tac-16-5-5.31-0']);
+    expect(citationChunkIds(usc!, 1)).toEqual(['usc-21-812-0']);
+  });
+
+  it('covers the first MAX_CHUNKS_PER_SECTION chunks by default', () => {
+    const ids = citationChunkIds({ kind: 'cfr', title: 21, section: '117.5' });
+
+    expect(ids).toHaveLength(MAX_CHUNKS_PER_SECTION);
+    expect(ids.at(-1)).toBe(`cfr-21-117-117.5-${MAX_CHUNKS_PER_SECTION - 1}`);
+  });
+
+  it('returns no IDs for bare part references', () => {
+    const [part] = detectCitations('21 CFR part 117');
+
+    expect(part).toEqual({ kind: 'cfr', title: 21, section: '117' });
+    expect(citationChunkIds(part!)).toEqual([]);
+  });
+});
+
+describe('formatCitationReference', () => {
+  it('formats references like stored chunk citations', () => {
+    expect(
+      detectCitations(
+        '21 CFR 117.5 and Texas Alcoholic Beverage Code 22.01'
+      ).map(formatCitationReference)
+    ).toEqual(['21 C.F.R. § 117.5', 'Tex. Alco. Bev. Code Ann. § 22.01']);
+  });
+});
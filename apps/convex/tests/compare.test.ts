@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mergeComparisonChunks,
+  parseComparisonAnswer,
+  partitionJurisdictions,
+  renderComparisonMarkdown,
+} from '../convex/lib/compare';
+import type { ComparisonTarget, RetrievedChunk } from '../convex/query/types';
+
+const targets: ComparisonTarget[] = [
+  {
+    label: 'Houston',
+    address: '9401 Katy Fwy, Houston, TX 77024',
+    jurisdictions: ['US', 'TX', 'TX-48201', 'TX-houston'],
+  },
+  {
+    label: 'Austin',
+    address: '4301 W William Cannon Dr, Austin, TX 78749',
+    jurisdictions: ['US', 'TX', 'TX-48453', 'TX-austin'],
+  },
+];
+
+const chunk = (
+  id: string,
+  jurisdiction: string,
+  sourceType: RetrievedChunk['sourceType']
+): RetrievedChunk => ({
+  id,
+  score: 0.8,
+  text: `Text of ${id}`,
+  citation: id,
+  jurisdiction,
+  sourceType,
+});
+
+const fda = chunk('21 CFR 117.5', 'US', 'federal');
+const texas = chunk('25 TAC 228.4', 'TX', 'state');
+const houston = chunk('Houston Code 20-19', 'TX-houston', 'municipal');
+const austin = chunk('Austin Code 10-3', 'TX-austin', 'municipal');
+
+describe('partitionJurisdictions', () => {
+  it('shares federal and state jurisdictions across targets', () => {
+    expect(
+      partitionJurisdictions([
+        ...targets.map((target) => target.jurisdictions),
+        ['US', 'NM', 'NM-35013'],
+      ])
+    ).toEqual({
+      shared: ['US', 'TX', 'NM'],
+      local: [
+        ['TX-48201', 'TX-houston'],
+        ['TX-48453', 'TX-austin'],
+        ['NM-35013'],
+      ],
+    });
+  });
+});
+
+describe('mergeComparisonChunks', () => {
+  it('numbers each chunk once and splits common from per-target sources', () => {
+    const sources = mergeComparisonChunks(
+      [fda, texas],
+      [[houston, fda], [austin]],
+      targets.map((target) => target.jurisdictions)
+    );
+
+    expect(sources.chunks).toEqual([fda, texas, houston, austin]);
+    expect(sources.common).toEqual([fda, texas]);
+    expect(sources.byTarget).toEqual([
+      [fda, texas, houston],
+      [fda, texas, austin],
+    ]);
+  });
+});
+
+describe('parseComparisonAnswer', () => {
+  const sources = mergeComparisonChunks(
+    [fda, texas],
+    [[houston], [austin]],
+    targets.map((target) => target.jurisdictions)
+  );
+
+  it('resolves citations per section and flags cross-location citations', () => {
+    const parsed = parseComparisonAnswer(
+      {
+        summary: 'Only Houston requires a city permit [3].',
+        common: 'Register with FDA [1] and obtain a state permit [2].',
+        locations: [
+          { location: 1, differences: 'City health permit required [3].' },
+          { location: 2, differences: 'Same as Houston [3].' },
+        ],
+      },
+      sources,
+      targets
+    );
+
+    expect(parsed?.common.citations.map((citation) => citation.id)).toEqual([
+      1, 2,
+    ]);
+    expect(parsed?.locations[0]!.citations[0]!.citation).toBe(
+      'Houston Code 20-19'
+    );
+    expect(parsed?.warnings).toEqual([
+      'Austin cites sources from other jurisdictions: [3]',
+    ]);
+  });
+
+  it('fills in targets without differences and rejects invalid input', () => {
+    const parsed = parseComparisonAnswer(
+      { summary: 'No differences.', common: 'FDA [1].', locations: [] },
+      sources,
+      targets
+    );
+    expect(parsed?.locations[1]!.content).toBe(
+      'No differences found in available sources.'
+    );
+
+    expect(
+      parseComparisonAnswer(
+        {
+          summary: '',
+          common: '',
+          locations: [{ location: 3, differences: '' }],
+        },
+        sources,
+        targets
+      )
+    ).toBeNull();
+  });
+});
+
+describe('renderComparisonMarkdown', () => {
+  it('renders the common section before each location', () => {
+    expect(
+      renderComparisonMarkdown('Summary.', 'Common [1].', [
+        { label: 'Houston', content: 'Permit [3].' },
+      ])
+    ).toBe(
+      'Summary.\n\n## Common to All Locations\n\nCommon [1].\n\n## Houston\n\nPermit [3].'
+    );
+  });
+});
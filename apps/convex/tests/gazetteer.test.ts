@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { resolveFromGazetteer } from '../convex/lib/gazetteer';
+import { geocodeAddress, toLocationGeocode } from '../convex/lib/geocode';
+
+describe('resolveFromGazetteer', () => {
+  it('resolves a city named in the address to its county and cityId', () => {
+    expect(
+      resolveFromGazetteer('7800 Broadway St, San Antonio, TX 78209')
+    ).toMatchObject({
+      jurisdictions: ['US', 'TX', 'TX-48029', 'TX-san_antonio'],
+      county: { name: 'Bexar County', fips: '48029' },
+      city: 'San Antonio',
+      cityId: 'san_antonio',
+      resolver: 'gazetteer',
+    });
+  });
+
+  it('falls back to the ZIP code when no city is named', () => {
+    expect(
+      resolveFromGazetteer('3801 Red Bluff Rd, TX 77503')?.jurisdictions
+    ).toEqual(['US', 'TX', 'TX-48201', 'TX-pasadena']);
+  });
+
+  it('ignores city names in the street line', () => {
+    expect(
+      resolveFromGazetteer('5301 Dallas Pkwy, Spring Hill, TX')?.jurisdictions
+    ).toEqual(['US', 'TX']);
+  });
+
+  it('resolves "<name> County" addresses to county level', () => {
+    expect(
+      resolveFromGazetteer('12000 FM 1960, Unincorporated Harris County, TX')
+        ?.jurisdictions
+    ).toEqual(['US', 'TX', 'TX-48201']);
+  });
+
+  it('returns null outside Texas, even for Texas city names', () => {
+    expect(
+      resolveFromGazetteer('100 Colorado Blvd, Pasadena, CA 91105')
+    ).toBeNull();
+    expect(resolveFromGazetteer('1 Main St, Springfield, IL')).toBeNull();
+  });
+});
+
+describe('geocodeAddress without Geocodio', () => {
+  it('resolves offline and is never stored on a location', async () => {
+    const result = await geocodeAddress(
+      '1200 Main St, Houston, TX 77002',
+      undefined
+    );
+
+    expect(result.resolver).toBe('gazetteer');
+    expect(result.jurisdictions).toEqual([
+      'US',
+      'TX',
+      'TX-48201',
+      'TX-houston',
+    ]);
+    expect(toLocationGeocode(result)).toBeUndefined();
+  });
+
+  it('falls back to federal-only for unresolvable addresses', async () => {
+    const result = await geocodeAddress('somewhere', undefined);
+
+    expect(result).toMatchObject({
+      jurisdictions: ['US'],
+      resolver: 'fallback',
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tokenize,
+  scoreLexical,
+  reciprocalRankFusion,
+  DEFAULT_RRF_K,
+} from '../convex/lib/hybrid';
+
+describe('tokenize', () => {
+  it('keeps section numbers and joins abbreviations', () => {
+    expect(tokenize('What does 21 C.F.R. § 117.5 say?')).toEqual([
+      '21',
+      'cfr',
+      '117.5',
+    ]);
+    expect(tokenize('Tex. Alco. Bev. Code § 22.01.')).toEqual([
+      'tex',
+      'alco',
+      'bev',
+      'code',
+      '22.01',
+    ]);
+  });
+
+  it('drops stop words and punctuation', () => {
+    expect(tokenize('Do I need a permit, or is it exempt?')).toEqual([
+      'need',
+      'permit',
+      'exempt',
+    ]);
+    expect(tokenize('the of and')).toEqual([]);
+  });
+});
+
+describe('scoreLexical', () => {
+  const documents = [
+    {
+      id: 'exemptions',
+      text: 'A qualified facility is subject only to subpart A.',
+      citation: '21 C.F.R. § 117.5',
+    },
+    {
+      id: 'definitions',
+      text: 'Qualified facility means a very small business, see § 117.5.',
+      citation: '21 C.F.R. § 117.3',
+    },
+    {
+      id: 'permits',
+      text: 'A food establishment shall obtain a permit.',
+      citation: '25 Tex. Admin. Code § 228.4',
+    },
+  ];
+
+  it('ranks citation matches above body text matches', () => {
+    const scores = scoreLexical('21 CFR 117.5', documents);
+
+    expect(scores.get('exemptions')).toBeGreaterThan(
+      scores.get('definitions')!
+    );
+  });
+
+  it('only scores documents that share a query term', () => {
+    const scores = scoreLexical('food permit', documents);
+
+    expect([...scores.keys()]).toEqual(['permits']);
+  });
+
+  it('returns no scores for empty queries or candidate pools', () => {
+    expect(scoreLexical('what is the', documents).size).toBe(0);
+    expect(scoreLexical('food permit', []).size).toBe(0);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('sums 1 / (k + rank) across rankings', () => {
+    const fused = reciprocalRankFusion([
+      ['a', 'b'],
+      ['b', 'c'],
+    ]);
+
+    expect(fused.get('a')).toBeCloseTo(1 / (DEFAULT_RRF_K + 1));
+    expect(fused.get('b')).toBeCloseTo(
+      1 / (DEFAULT_RRF_K + 2) + 1 / (DEFAULT_RRF_K + 1)
+    );
+    expect(fused.get('c')).toBeCloseTo(1 / (DEFAULT_RRF_K + 2));
+  });
+
+  it('ranks IDs found by both rankings above single-ranking leaders', () => {
+    const fused = reciprocalRankFusion([
+      ['vector-only', 'both'],
+      ['keyword-only', 'both'],
+    ]);
+    const order = [...fused.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => id);
+
+    expect(order[0]).toBe('both');
+  });
+
+  it('ties IDs with mirrored ranks', () => {
+    const fused = reciprocalRankFusion([
+      ['a', 'b'],
+      ['b', 'a'],
+    ]);
+
+    expect(fused.get('a')).toBe(fused.get('b'));
+  });
+
+  it('uses the damping constant k', () => {
+    const fused = reciprocalRankFusion([['a', 'b']], 0);
+
+    expect(fused.get('a')).toBe(1);
+    expect(fused.get('b')).toBe(0.5);
+    expect(reciprocalRankFusion([]).size).toBe(0);
+  });
+});
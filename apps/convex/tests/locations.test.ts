@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, parseLocationsCsv } from '../convex/lib/locations';
+
+describe('parseCsv', () => {
+  it('handles quoted fields, doubled quotes and CRLF', () => {
+    const records = parseCsv(
+      'name,address\r\n"Houston ""Bunker Hill""","9401 Katy Fwy, Houston, TX"\r\n\r\n'
+    );
+
+    expect(records).toEqual([
+      { line: 1, fields: ['name', 'address'] },
+      {
+        line: 2,
+        fields: ['Houston "Bunker Hill"', '9401 Katy Fwy, Houston, TX'],
+      },
+    ]);
+  });
+});
+
+describe('parseLocationsCsv', () => {
+  it('joins street/city/state/zip columns into an address', () => {
+    const { rows, errors } = parseLocationsCsv(
+      [
+        'Store Number,Name,Street,City,State,ZIP,Status',
+        '1001,Bunker Hill,9401 Katy Fwy,Houston,TX,77024,open',
+        '1002,Austin North,,,,,planned',
+        '1003,Cedar Park,5000 183A Toll Rd,Cedar Park,TX,78613,remodel',
+        '1004,Round Rock,1000 E Old Settlers Blvd,Round Rock,TX,78664,',
+      ].join('\n')
+    );
+
+    expect(rows).toEqual([
+      {
+        name: 'Bunker Hill',
+        storeNumber: '1001',
+        address: '9401 Katy Fwy, Houston, TX 77024',
+        status: 'open',
+      },
+      {
+        name: 'Round Rock',
+        storeNumber: '1004',
+        address: '1000 E Old Settlers Blvd, Round Rock, TX 78664',
+        status: undefined,
+      },
+    ]);
+    expect(errors).toEqual([
+      { line: 3, message: 'Missing name or address' },
+      { line: 4, message: 'Unknown status "remodel"' },
+    ]);
+  });
+
+  it('rejects a header without address columns', () => {
+    expect(() => parseLocationsCsv('name,store\nBunker Hill,1001')).toThrow(
+      /address/
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseAnswer, parseStructuredAnswer } from '../convex/lib/parse';
+import {
+  isStructuredAnswer,
+  renderAnswerMarkdown,
+  type PartialStructuredAnswer,
+} from '../convex/lib/structured';
+import { parseVerdictLabel, rollUpVerdict } from '../convex/lib/verdict';
+import type {
+  RetrievedChunk,
+  StructuredAnswer,
+  JurisdictionVerdict,
+} from '../convex/query/types';
+
+const FIXTURES = join(__dirname, 'fixtures', 'answers');
+
+function fixture(name: string): string {
+  return readFileSync(join(FIXTURES, name), 'utf8');
+}
+
+const chunks: RetrievedChunk[] = JSON.parse(fixture('chunks.json'));
+const structuredValid: unknown = JSON.parse(fixture('structured-valid.json'));
+const structuredInvalid: unknown = JSON.parse(
+  fixture('structured-invalid.json')
+);
+
+describe('parseStructuredAnswer', () => {
+  it('takes summary, sections and permits directly from tool input', () => {
+    const parsed = parseStructuredAnswer(structuredValid, chunks);
+
+    expect(parsed).not.toBeNull();
+    expect(parsed!.summary).toMatch(/^Yes\. A Houston restaurant/);
+    expect(parsed!.sections.map((s) => s.level)).toEqual([
+      'federal',
+      'state',
+      'municipal',
+    ]);
+    expect(parsed!.permits.map((p) => p.name)).toEqual([
+      'Food Establishment Permit',
+      "Medical Food Dealer's Permit",
+    ]);
+    expect(parsed!.citations.map((c) => c.id).sort()).toEqual([1, 2, 3, 4]);
+    expect(parsed!.warnings).toEqual([]);
+  });
+
+  it('attaches per-section citations and permits by level', () => {
+    const parsed = parseStructuredAnswer(structuredValid, chunks)!;
+    const state = parsed.sections.find((s) => s.level === 'state')!;
+
+    expect(state.citations.map((c) => c.id).sort()).toEqual([2, 3]);
+    expect(state.permits.map((p) => p.name)).toEqual([
+      'Food Establishment Permit',
+    ]);
+  });
+
+  it('returns null for input that does not match the schema', () => {
+    expect(isStructuredAnswer(structuredInvalid)).toBe(false);
+    expect(parseStructuredAnswer(structuredInvalid, chunks)).toBeNull();
+    expect(parseStructuredAnswer(undefined, chunks)).toBeNull();
+  });
+
+  it('warns on citations to non-existent chunks', () => {
+    const input = {
+      summary: 'A permit is required [7].',
+      sections: [],
+      permits: [],
+    };
+
+    const parsed = parseStructuredAnswer(input, chunks)!;
+    expect(parsed.warnings).toHaveLength(1);
+  });
+});
+
+describe('renderAnswerMarkdown', () => {
+  it('renders markdown the regex parser reads back identically', () => {
+    const structured = parseStructuredAnswer(structuredValid, chunks)!;
+    const reparsed = parseAnswer(
+      renderAnswerMarkdown(structuredValid as StructuredAnswer),
+      chunks
+    );
+
+    expect(reparsed.permits).toEqual(structured.permits);
+    expect(reparsed.verdict).toEqual(structured.verdict);
+    expect(
+      reparsed.sections.map(({ level, jurisdictionName, content }) => ({
+        level,
+        jurisdictionName,
+        content,
+      }))
+    ).toEqual(
+      structured.sections.map(({ level, jurisdictionName, content }) => ({
+        level,
+        jurisdictionName,
+        content,
+      }))
+    );
+  });
+
+  it('renders partial streaming snapshots', () => {
+    const markdown = renderAnswerMarkdown({
+      summary: 'A permit is required [3].',
+      sections: [{ level: 'state', jurisdictionName: 'Tex' }],
+      permits: [{ issuingAgency: 'Texas' }],
+    });
+
+    expect(markdown).toBe('A permit is required [3].\n\n### State: Tex');
+  });
+
+  it('skips malformed fields instead of throwing', () => {
+    const malformed = {
+      summary: 42,
+      sections: { level: 'state', content: 'not an array' },
+      permits: { name: 'not an array' },
+    } as unknown as PartialStructuredAnswer;
+
+    expect(isStructuredAnswer(malformed)).toBe(false);
+    expect(renderAnswerMarkdown(malformed)).toBe('');
+    expect(
+      renderAnswerMarkdown({
+        summary: 'Yes [1].',
+        sections: [{ level: 'state', jurisdictionName: 'Texas', content: 7 }],
+      } as unknown as PartialStructuredAnswer)
+    ).toBe('Yes [1].\n\n### State: Texas');
+  });
+});
+
+describe('parseAnswer (markdown fallback)', () => {
+  it('parses sections and permits from the standard layout', () => {
+    const parsed = parseAnswer(fixture('markdown.md'), chunks);
+
+    expect(parsed.sections.map((s) => [s.level, s.jurisdictionName])).toEqual([
+      ['federal', 'Federal'],
+      ['state', 'Texas'],
+      ['municipal', 'Houston'],
+    ]);
+    expect(parsed.permits).toEqual(
+      parseStructuredAnswer(structuredValid, chunks)!.permits
+    );
+  });
+
+  it('drops permits when the model drifts from the permit format', () => {
+    const parsed = parseAnswer(fixture('markdown-drift.md'), chunks);
+
+    expect(parsed.sections).toHaveLength(2);
+    expect(parsed.permits).toEqual([]);
+  });
+});
+
+describe('verdicts', () => {
+  function level(
+    level: JurisdictionVerdict['level'],
+    status: JurisdictionVerdict['status'],
+    blockingCitations: number[] = []
+  ): JurisdictionVerdict {
+    return { level, jurisdictionName: level, status, blockingCitations };
+  }
+
+  it('maps model verdict labels to statuses', () => {
+    expect(parseVerdictLabel('❌ NOT PERMITTED [2]')).toBe('prohibited');
+    expect(parseVerdictLabel('Permitted with permits [3]')).toBe(
+      'permitted_with_permits'
+    );
+    expect(parseVerdictLabel('Restricted')).toBe('restricted');
+    expect(parseVerdictLabel('Permitted')).toBe('permitted');
+    expect(parseVerdictLabel('Depends on zoning')).toBe('unclear');
+  });
+
+  it('lets a state prohibition override local permissiveness', () => {
+    const verdict = rollUpVerdict([
+      level('municipal', 'permitted'),
+      level('state', 'prohibited', [2]),
+      level('federal', 'prohibited', [1]),
+    ]);
+
+    expect(verdict.status).toBe('prohibited');
+    expect(verdict.decidingLevel).toBe('federal');
+    expect(verdict.levels.map((l) => l.level)).toEqual([
+      'federal',
+      'state',
+      'municipal',
+    ]);
+  });
+
+  it('uses the most restrictive level and ignores unclear levels', () => {
+    expect(
+      rollUpVerdict([
+        level('federal', 'unclear'),
+        level('state', 'permitted_with_permits'),
+        level('county', 'restricted', [5]),
+      ])
+    ).toMatchObject({ status: 'restricted', decidingLevel: 'county' });
+
+    expect(rollUpVerdict([level('state', 'unclear')])).toMatchObject({
+      status: 'unclear',
+      decidingLevel: undefined,
+    });
+  });
+
+  it('extracts verdict lines from markdown sections with blocking citations', () => {
+    const parsed = parseAnswer(fixture('markdown.md'), chunks);
+
+    expect(parsed.verdict).toMatchObject({
+      status: 'permitted_with_permits',
+      decidingLevel: 'state',
+    });
+    expect(parsed.verdict!.levels.map((l) => l.blockingCitations)).toEqual([
+      [],
+      [3],
+      [4],
+    ]);
+    expect(parsed.sections[1]!.content).not.toMatch(/Verdict/);
+  });
+
+  it('keeps only blocking citations to retrieved sources', () => {
+    const parsed = parseAnswer(
+      '### State: Texas\n**Verdict**: Prohibited [0] [2] [9]\nSales are barred [2].',
+      chunks
+    );
+
+    expect(parsed.verdict!.levels[0]!.blockingCitations).toEqual([2]);
+  });
+
+  it('leaves verdict undefined when sections have no verdict lines', () => {
+    expect(parseAnswer(fixture('markdown-drift.md'), chunks).verdict).toBe(
+      undefined
+    );
+  });
+});
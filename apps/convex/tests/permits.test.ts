@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeExpiry,
+  permitLevel,
+  permitTypeKey,
+} from '../convex/lib/permits';
+
+describe('permitTypeKey', () => {
+  it('normalizes case, possessives and punctuation', () => {
+    expect(permitTypeKey("Medical Food Dealer's Permit")).toBe(
+      'medical-food-dealer-permit'
+    );
+    expect(permitTypeKey('Food establishment permit ')).toBe(
+      'food-establishment-permit'
+    );
+  });
+});
+
+describe('permitLevel', () => {
+  it('maps level names and jurisdiction IDs to levels', () => {
+    expect(permitLevel('Federal')).toBe('federal');
+    expect(permitLevel('US')).toBe('federal');
+    expect(permitLevel('TX')).toBe('state');
+    expect(permitLevel('TX-48201')).toBe('county');
+    expect(permitLevel('TX-houston')).toBe('municipal');
+  });
+});
+
+describe('computeExpiry', () => {
+  it('adds the renewal interval in calendar months', () => {
+    expect(computeExpiry(Date.UTC(2025, 0, 15), 12)).toBe(
+      Date.UTC(2026, 0, 15)
+    );
+    expect(computeExpiry(Date.UTC(2025, 8, 30, 12), 3)).toBe(
+      Date.UTC(2025, 11, 30, 12)
+    );
+  });
+});
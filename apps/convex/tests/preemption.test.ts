@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  describeJurisdictionHierarchy,
+  findPreemptionRules,
+} from '../convex/lib/preemption';
+import { parseAnswer, parseStructuredAnswer } from '../convex/lib/parse';
+import { renderAnswerMarkdown } from '../convex/lib/structured';
+import { buildUserPrompt } from '../convex/lib/prompt';
+import type { RetrievedChunk, StructuredAnswer } from '../convex/query/types';
+
+const chunks: RetrievedChunk[] = JSON.parse(
+  readFileSync(join(__dirname, 'fixtures', 'answers', 'chunks.json'), 'utf8')
+);
+
+const HOUSTON = ['US', 'TX', 'TX-48201', 'TX-houston'];
+
+// [4] is a Houston ordinance; [2] is state law
+const answer: StructuredAnswer = {
+  summary: 'Beer sales are permitted with a TABC permit [2].',
+  sections: [
+    {
+      level: 'state',
+      jurisdictionName: 'Texas',
+      content: 'A TABC permit is required [2].',
+      verdict: 'permitted_with_permits',
+    },
+    {
+      level: 'municipal',
+      jurisdictionName: 'Houston',
+      content: 'No binding city requirements.',
+      verdict: 'restricted',
+      blockingCitations: [4],
+    },
+  ],
+  permits: [],
+  preemptedProvisions: [
+    {
+      citation: 4,
+      preemptedBy: 'Tex. Alco. Bev. Code § 109.57',
+      reason: 'Imposes stricter standards on licensed premises.',
+    },
+    { citation: 2, preemptedBy: 'Tex. Alco. Bev. Code § 1.06', reason: '' },
+  ],
+};
+
+describe('findPreemptionRules', () => {
+  it('matches rules by category and preempted local level', () => {
+    expect(
+      findPreemptionRules(HOUSTON, ['alcohol', 'licensing']).map((r) => r.id)
+    ).toEqual(['tx-alcohol']);
+    expect(
+      findPreemptionRules(['US', 'TX', 'TX-48201'], ['firearms']).map(
+        (r) => r.id
+      )
+    ).toEqual(['tx-firearms-county']);
+  });
+
+  it('returns nothing without local jurisdictions', () => {
+    expect(findPreemptionRules(['US', 'TX'], ['alcohol'])).toEqual([]);
+  });
+});
+
+describe('buildUserPrompt hierarchy section', () => {
+  it('orders jurisdictions by precedence and lists preempted fields', () => {
+    expect(
+      describeJurisdictionHierarchy(['TX-houston', 'US', 'TX-48201', 'TX'])
+    ).toBe(
+      'United States (US) > Texas (TX) > Harris County (TX-48201) > Houston (TX-houston)'
+    );
+
+    const prompt = buildUserPrompt('Can we sell beer?', chunks, HOUSTON, [], {
+      preemptionRules: findPreemptionRules(HOUSTON, ['alcohol']),
+    });
+    expect(prompt).toContain('## Jurisdiction Hierarchy and Preemption');
+    expect(prompt).toContain(
+      'Preempted by Tex. Alco. Bev. Code §§ 1.06, 109.57'
+    );
+  });
+
+  it('is omitted for federal/state-only queries', () => {
+    expect(
+      buildUserPrompt('Can we sell beer?', chunks, ['US', 'TX'])
+    ).not.toContain('Jurisdiction Hierarchy');
+  });
+});
+
+describe('preempted provisions', () => {
+  it('flags preempted local citations and drops them from verdicts', () => {
+    const parsed = parseStructuredAnswer(answer, chunks)!;
+
+    expect(parsed.preemptedProvisions).toEqual([
+      {
+        citationId: 4,
+        citation: 'Houston, Tex., Code of Ordinances § 20-19',
+        jurisdiction: 'TX-houston',
+        preemptedBy: 'Tex. Alco. Bev. Code § 109.57',
+        reason: 'Imposes stricter standards on licensed premises.',
+      },
+    ]);
+    expect(parsed.citations.find((c) => c.id === 4)?.preemptedBy).toBe(
+      'Tex. Alco. Bev. Code § 109.57'
+    );
+    expect(
+      parsed.verdict?.levels.find((l) => l.level === 'municipal')
+        ?.blockingCitations
+    ).toEqual([]);
+    // State law can't be a preempted local provision
+    expect(parsed.warnings).toEqual([
+      'Preempted provision [2] is a state source, not a local provision',
+    ]);
+  });
+
+  it('reads the same provisions back from rendered markdown', () => {
+    const markdown = renderAnswerMarkdown(answer);
+    expect(markdown).toContain('### Preempted Local Provisions');
+
+    expect(parseAnswer(markdown, chunks).preemptedProvisions).toEqual(
+      parseStructuredAnswer(answer, chunks)!.preemptedProvisions
+    );
+  });
+});
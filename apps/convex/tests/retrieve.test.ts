@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import { OPEN_EFFECTIVE_TO } from '@compliance-iq/shared-types';
+import {
+  heuristicReranker,
+  createModelReranker,
+  rerankChunks,
+  selectWithQuota,
+  isInForce,
+  cfrPartsOfChunks,
+  isPendingRule,
+  type RelevanceScorer,
+  type RerankCandidate,
+} from '../convex/lib/retrieve';
+
+function chunk(
+  id: string,
+  score: number,
+  text: string,
+  lastUpdated?: string,
+  jurisdiction = 'US'
+): RerankCandidate {
+  return {
+    id,
+    score,
+    text,
+    citation: `21 C.F.R. § ${id}`,
+    jurisdiction,
+    sourceType: 'federal',
+    lastUpdated,
+  };
+}
+
+/**
+ * Deterministic fake scorer: fraction of query words present in the passage
+ */
+const keywordScorer: RelevanceScorer = async (query, passages) => {
+  const words = query.toLowerCase().split(/\s+/);
+  return passages.map(
+    (passage) =>
+      words.filter((word) => passage.toLowerCase().includes(word)).length /
+      words.length
+  );
+};
+
+const bySimilarity = { relevance: (c: RerankCandidate) => c.score };
+
+describe('heuristicReranker', () => {
+  it('adds a recency bonus to recently updated chunks', async () => {
+    const recent = new Date().toISOString();
+    const chunks = [
+      chunk('a', 0.9, 'older but more similar', '2001-01-01'),
+      chunk('b', 0.8, 'recently updated', recent),
+    ];
+
+    const reranked = await heuristicReranker.rerank(chunks, bySimilarity);
+
+    expect(reranked.map((c) => c.id)).toEqual(['b', 'a']);
+  });
+
+  it('orders by relevance when no chunk is recent', async () => {
+    const chunks = [
+      chunk('a', 0.6, ''),
+      chunk('b', 0.9, ''),
+      chunk('c', 0.7, ''),
+    ];
+
+    const reranked = await heuristicReranker.rerank(chunks, bySimilarity);
+
+    expect(reranked.map((c) => c.id)).toEqual(['b', 'c', 'a']);
+  });
+});
+
+describe('createModelReranker', () => {
+  const chunks = [
+    chunk('a', 0.9, 'general food facility registration'),
+    chunk('b', 0.8, 'beer and wine retailer permit required'),
+    chunk('c', 0.7, 'tobacco retail sales'),
+  ];
+
+  it('orders chunks by model relevance over similarity', async () => {
+    const reranker = createModelReranker(keywordScorer, { modelWeight: 1 });
+
+    const reranked = await reranker.rerank(chunks, {
+      ...bySimilarity,
+      query: 'beer permit',
+    });
+
+    expect(reranked.map((c) => c.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('blends model score with retrieval relevance', async () => {
+    const scorer: RelevanceScorer = async () => [0.5, 0.5, 0.5];
+    const reranker = createModelReranker(scorer, { modelWeight: 0.5 });
+
+    const reranked = await reranker.rerank(chunks, {
+      ...bySimilarity,
+      query: 'anything',
+    });
+
+    expect(reranked.map((c) => c.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('only scores the top candidates and keeps the rest in order', async () => {
+    const scored: string[][] = [];
+    const scorer: RelevanceScorer = async (query, passages) => {
+      scored.push(passages);
+      return keywordScorer(query, passages);
+    };
+    const reranker = createModelReranker(scorer, {
+      modelWeight: 1,
+      maxCandidates: 2,
+    });
+
+    const reranked = await reranker.rerank(chunks, {
+      ...bySimilarity,
+      query: 'tobacco beer',
+    });
+
+    expect(scored[0]).toHaveLength(2);
+    expect(reranked.map((c) => c.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('falls back to retrieval order when the scorer fails', async () => {
+    const reranker = createModelReranker(async () => {
+      throw new Error('rate limited');
+    });
+
+    const reranked = await reranker.rerank([...chunks].reverse(), {
+      ...bySimilarity,
+      query: 'beer permit',
+    });
+
+    expect(reranked.map((c) => c.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('falls back to retrieval order without query text', async () => {
+    let called = false;
+    const reranker = createModelReranker(async (query, passages) => {
+      called = true;
+      return keywordScorer(query, passages);
+    });
+
+    const reranked = await reranker.rerank(chunks, bySimilarity);
+
+    expect(called).toBe(false);
+    expect(reranked.map((c) => c.id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('rerankChunks', () => {
+  it('applies the given reranker and truncates to finalTopK', async () => {
+    const chunks = [
+      chunk('a', 0.9, 'store hours'),
+      chunk('b', 0.6, 'pharmacy license'),
+      chunk('c', 0.5, 'pharmacy technician license renewal'),
+    ];
+
+    const reranked = await rerankChunks(
+      chunks,
+      2,
+      createModelReranker(keywordScorer, { modelWeight: 1 }),
+      'pharmacy license'
+    );
+
+    expect(reranked.map((c) => c.id)).toEqual(['b', 'c']);
+  });
+});
+
+describe('selectWithQuota', () => {
+  const ranked = [
+    chunk('us1', 0.9, '', undefined, 'US'),
+    chunk('us2', 0.85, '', undefined, 'US'),
+    chunk('us3', 0.8, '', undefined, 'US'),
+    chunk('tx1', 0.75, '', undefined, 'TX'),
+    chunk('us4', 0.7, '', undefined, 'US'),
+    chunk('hc1', 0.6, '', undefined, 'TX-48201'),
+    chunk('hc2', 0.55, '', undefined, 'TX-48201'),
+  ];
+
+  it('guarantees each jurisdiction its quota in rank order', () => {
+    const selected = selectWithQuota(ranked, ['US', 'TX', 'TX-48201'], 1, 4);
+
+    expect(selected.map((c) => c.id)).toEqual(['us1', 'us2', 'tx1', 'hc1']);
+  });
+
+  it('fills remaining slots by rank', () => {
+    const selected = selectWithQuota(ranked, ['US', 'TX', 'TX-48201'], 2, 6);
+
+    expect(selected.map((c) => c.id)).toEqual([
+      'us1',
+      'us2',
+      'us3',
+      'tx1',
+      'hc1',
+      'hc2',
+    ]);
+  });
+});
+
+describe('isInForce', () => {
+  const asOf = 20230601;
+
+  it('keeps federal versions whose range covers the date', () => {
+    const version = {
+      sourceType: 'federal',
+      effectiveFrom: 20210301,
+      effectiveTo: 20240115,
+    };
+    expect(isInForce(version, asOf)).toBe(true);
+    expect(isInForce({ ...version, effectiveTo: 20230601 }, asOf)).toBe(false);
+    expect(
+      isInForce(
+        { ...version, effectiveFrom: 20240115, effectiveTo: OPEN_EFFECTIVE_TO },
+        asOf
+      )
+    ).toBe(false);
+    expect(
+      isInForce({ ...version, effectiveTo: OPEN_EFFECTIVE_TO }, asOf)
+    ).toBe(true);
+  });
+
+  it('keeps unversioned U.S. Code chunks for any date', () => {
+    const statute = {
+      sourceType: 'federal',
+      sourceId: 'usc-title-21',
+      citation: '21 U.S.C. § 812',
+      effectiveTo: OPEN_EFFECTIVE_TO,
+    };
+    expect(isInForce(statute, asOf)).toBe(true);
+    // Earlier than any ingestion date
+    expect(isInForce(statute, 19900101)).toBe(true);
+  });
+
+  it('drops undated federal chunks but never filters state or local text', () => {
+    expect(isInForce({ sourceType: 'federal' }, asOf)).toBe(false);
+    expect(isInForce(undefined, asOf)).toBe(false);
+    expect(isInForce({ sourceType: 'state' }, asOf)).toBe(true);
+  });
+});
+
+describe('cfrPartsOfChunks', () => {
+  it('collects distinct CFR parts of federal chunks', () => {
+    expect(
+      cfrPartsOfChunks([
+        chunk('cfr-21-117-117.5-0', 0.9, 'text'),
+        chunk('cfr-21-117-117.3-1@2021-03-01', 0.8, 'text'),
+        chunk('cfr-9-317-317.2-0', 0.7, 'text'),
+        chunk('tx-statute-HS-437-437.0055-0', 0.6, 'text', undefined, 'TX'),
+      ])
+    ).toEqual(['21-117', '9-317']);
+  });
+});
+
+describe('isPendingRule', () => {
+  it('treats proposed rules as pending and final rules until effective', () => {
+    const today = '2026-10-19';
+    expect(isPendingRule({ documentType: 'proposed_rule' }, today)).toBe(true);
+    expect(
+      isPendingRule(
+        { documentType: 'final_rule', effectiveOn: '2027-01-01' },
+        today
+      )
+    ).toBe(true);
+    expect(
+      isPendingRule(
+        { documentType: 'final_rule', effectiveOn: '2026-10-19' },
+        today
+      )
+    ).toBe(false);
+    expect(isPendingRule({ documentType: 'final_rule' }, today)).toBe(false);
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  extractClaims,
+  verifyGroundedness,
+  lexicalClaimVerifier,
+  REGENERATION_THRESHOLD,
+  type ClaimVerifier,
+} from '../convex/lib/verify';
+import { renderAnswerMarkdown } from '../convex/lib/structured';
+import type { RetrievedChunk } from '../convex/query/types';
+
+const chunks: RetrievedChunk[] = JSON.parse(
+  readFileSync(join(__dirname, 'fixtures', 'answers', 'chunks.json'), 'utf8')
+);
+
+/** Supported by its cited chunk (25 Tex. Admin. Code § 228.4) */
+const SUPPORTED =
+  'A food establishment must obtain a permit from the regulatory authority [3].';
+/** Supported by its cited chunk (21 C.F.R. § 117.5) */
+const SUPPORTED_FEDERAL =
+  'A qualified facility is subject only to subpart A [1].';
+/** Supported by its cited chunk (Tex. Health & Safety Code § 437.0055) */
+const SUPPORTED_STATE =
+  'A person may not operate a retail food store without a permit issued by the department [2].';
+/** Supported by the Houston ordinance [4], not the cited CFR section */
+const MISCITED =
+  "Houston requires a medical food dealer's permit from the health officer [1].";
+/** Supported by no chunk */
+const UNSUPPORTED = 'Vendors must renew the license every ninety days [2].';
+
+describe('extractClaims', () => {
+  it('splits cited sentences and strips citation markers', () => {
+    expect(
+      extractClaims(
+        'Food facilities must register with FDA [1]. Plans are required [2][3].'
+      )
+    ).toEqual([
+      { text: 'Food facilities must register with FDA.', citationIds: [1] },
+      { text: 'Plans are required.', citationIds: [2, 3] },
+    ]);
+  });
+
+  it('does not split inside Bluebook citations', () => {
+    expect(
+      extractClaims(
+        'Retailers must hold a permit under Tex. Alco. Bev. Code § 25.01 before selling wine [1]. ' +
+          'Food facilities must register with the U.S. Food and Drug Administration [2].'
+      )
+    ).toEqual([
+      {
+        text: 'Retailers must hold a permit under Tex. Alco. Bev. Code § 25.01 before selling wine.',
+        citationIds: [1],
+      },
+      {
+        text: 'Food facilities must register with the U.S. Food and Drug Administration.',
+        citationIds: [2],
+      },
+    ]);
+  });
+
+  it('ends sentences after citation markers and terminal periods', () => {
+    expect(
+      extractClaims(
+        'Under 21 C.F.R. Part 117, facilities need a food safety plan [1]. ' +
+          'Schedule I substances are listed in 21 U.S.C. § 812 [2]. ' +
+          'Permits are issued under 25 Tex. Admin. Code § 228.4. Restaurants must post them [3].'
+      )
+    ).toEqual([
+      {
+        text: 'Under 21 C.F.R. Part 117, facilities need a food safety plan.',
+        citationIds: [1],
+      },
+      {
+        text: 'Schedule I substances are listed in 21 U.S.C. § 812.',
+        citationIds: [2],
+      },
+      { text: 'Restaurants must post them.', citationIds: [3] },
+    ]);
+  });
+
+  it('skips uncited text, verdict lines and the permits block', () => {
+    const answer = [
+      'Yes, with permits [2].',
+      '',
+      '### State: Texas',
+      '**Verdict**: Permitted with permits [2]',
+      '- Retail food stores need a **state permit** [2][2].',
+      'Check with your city first.',
+      '',
+      '### Required Permits',
+      '- Food Establishment Permit [3]',
+    ].join('\n');
+
+    expect(extractClaims(answer)).toEqual([
+      { text: 'Yes, with permits.', citationIds: [2] },
+      { text: 'Retail food stores need a state permit.', citationIds: [2] },
+    ]);
+  });
+
+  it('skips the preempted provisions block of rendered answers', () => {
+    const markdown = renderAnswerMarkdown({
+      summary: 'Beer sales are permitted with a TABC permit [2].',
+      sections: [
+        {
+          level: 'municipal',
+          jurisdictionName: 'Houston',
+          content: 'No binding city requirements.',
+          verdict: 'permitted',
+        },
+      ],
+      permits: [
+        {
+          name: 'Wine and Beer Retailer Permit',
+          issuingAgency: 'TABC',
+          jurisdiction: 'Texas',
+          citation: '[2]',
+        },
+      ],
+      preemptedProvisions: [
+        {
+          citation: 4,
+          preemptedBy: 'Tex. Alco. Bev. Code § 109.57',
+          reason: 'Imposes stricter standards on licensed premises.',
+        },
+      ],
+    });
+    expect(markdown).toContain('### Preempted Local Provisions');
+
+    expect(extractClaims(markdown)).toEqual([
+      {
+        text: 'Beer sales are permitted with a TABC permit.',
+        citationIds: [2],
+      },
+    ]);
+  });
+});
+
+describe('lexicalClaimVerifier', () => {
+  it('supports claims whose terms mostly appear in the evidence', async () => {
+    expect(
+      await lexicalClaimVerifier([
+        {
+          claim: 'Permits must be posted conspicuously.',
+          evidence: chunks[2]!.text,
+        },
+        { claim: 'Permits must be renewed yearly.', evidence: chunks[2]!.text },
+        { claim: 'The.', evidence: '' },
+      ])
+    ).toEqual([false, false, true]);
+    expect(
+      await lexicalClaimVerifier([
+        { claim: 'The permit shall be posted.', evidence: chunks[2]!.text },
+      ])
+    ).toEqual([true]);
+  });
+});
+
+describe('verifyGroundedness', () => {
+  it('scores a fully supported answer as grounded', async () => {
+    const report = await verifyGroundedness(
+      `${SUPPORTED} ${SUPPORTED_FEDERAL}`,
+      chunks,
+      lexicalClaimVerifier
+    );
+
+    expect(report).toEqual({
+      groundedness: 1,
+      totalClaims: 2,
+      supportedClaims: 2,
+      flagged: [],
+    });
+  });
+
+  it('treats answers without cited claims as grounded', async () => {
+    expect(
+      await verifyGroundedness(
+        'No permit is required.',
+        chunks,
+        lexicalClaimVerifier
+      )
+    ).toEqual({
+      groundedness: 1,
+      totalClaims: 0,
+      supportedClaims: 0,
+      flagged: [],
+    });
+  });
+
+  it('flags mis-cited claims with the source that supports them', async () => {
+    const report = await verifyGroundedness(
+      `${SUPPORTED} ${MISCITED} ${UNSUPPORTED}`,
+      chunks,
+      lexicalClaimVerifier
+    );
+
+    expect(report.supportedClaims).toBe(1);
+    expect(report.flagged).toEqual([
+      {
+        claim:
+          "Houston requires a medical food dealer's permit from the health officer.",
+        citationIds: [1],
+        status: 'miscited',
+        suggestedCitationId: 4,
+      },
+      {
+        claim: 'Vendors must renew the license every ninety days.',
+        citationIds: [2],
+        status: 'unsupported',
+        suggestedCitationId: undefined,
+      },
+    ]);
+  });
+
+  it('marks claims citing only out-of-range sources as mis-cited', async () => {
+    const report = await verifyGroundedness(
+      'Vendors must renew the license every ninety days [9].',
+      chunks,
+      lexicalClaimVerifier
+    );
+
+    expect(report.groundedness).toBe(0);
+    expect(report.flagged).toMatchObject([
+      { citationIds: [9], status: 'miscited', suggestedCitationId: undefined },
+    ]);
+  });
+
+  it('scores partly unsupported answers against the regeneration threshold', async () => {
+    const below = await verifyGroundedness(
+      `${SUPPORTED} ${SUPPORTED_FEDERAL} ${UNSUPPORTED}`,
+      chunks,
+      lexicalClaimVerifier
+    );
+    const above = await verifyGroundedness(
+      `${SUPPORTED} ${SUPPORTED_FEDERAL} ${SUPPORTED_STATE} ${UNSUPPORTED}`,
+      chunks,
+      lexicalClaimVerifier
+    );
+
+    expect(below.groundedness).toBeCloseTo(2 / 3);
+    expect(below.groundedness).toBeLessThan(REGENERATION_THRESHOLD);
+    expect(above.groundedness).toBe(0.75);
+    expect(above.groundedness).toBeGreaterThanOrEqual(REGENERATION_THRESHOLD);
+  });
+
+  it('uses the given verifier for cited claims', async () => {
+    const rejectAll: ClaimVerifier = async (pairs) => pairs.map(() => false);
+    const report = await verifyGroundedness(SUPPORTED, chunks, rejectAll);
+
+    expect(report.groundedness).toBe(0);
+    expect(report.flagged[0]!.status).toBe('unsupported');
+  });
+
+  it('falls back to lexical verification when the verifier fails', async () => {
+    const failing: ClaimVerifier = async () => {
+      throw new Error('verifier unavailable');
+    };
+    const truncated: ClaimVerifier = async () => [];
+    const answer = `${SUPPORTED} ${MISCITED}`;
+    const lexical = await verifyGroundedness(
+      answer,
+      chunks,
+      lexicalClaimVerifier
+    );
+
+    expect(await verifyGroundedness(answer, chunks, failing)).toEqual(lexical);
+    expect(await verifyGroundedness(answer, chunks, truncated)).toEqual(
+      lexical
+    );
+    expect(lexical.groundedness).toBe(0.5);
+  });
+});
@@ -8,7 +8,7 @@
  * 1. Load checkpoint (if exists) to resume from last position
  * 2. For each enabled county:
  *    a. Fetch ordinances via adapter
- *    b. Store raw HTML in R2
+ *    b. Record section changes against the stored copy, store raw HTML in R2
  *    c. Chunk ordinances
  *    d. Generate embeddings via OpenAI
  *    e. Prepare Pinecone records with metadata
@@ -18,12 +18,14 @@
  * 4. Sync freshness to Convex (best-effort)
  */
 
+import { countyJurisdictionId } from '@compliance-iq/shared-types';
 import type { Env } from '../types';
 import type { CountySourceConfig, CountyOrdinance, CountyChunk } from './types';
 import { getEnabledCounties } from './sources';
 import { getAdapterForCounty } from './adapters';
 import {
   storeCountyOrdinance,
+  getCountyOrdinance,
   saveCountyCheckpoint,
   loadCountyCheckpoint,
   clearCountyCheckpoint,
@@ -31,6 +33,13 @@ import {
 import { chunkCountyOrdinance, type CountyChunkContext } from './chunk';
 import { embedChunks } from '../federal/embed'; // Reuse federal embed
 import { initPinecone, getIndex, upsertChunks } from '../pinecone';
+import { registerSource, countySource } from '../lib/sources';
+import {
+  createChangeTracker,
+  recordSectionChanges,
+  countyChangeSource,
+  countyOrdinanceSnapshot,
+} from '../lib/changes';
 
 /**
  * Result of processing a single county through the pipeline
@@ -121,11 +130,23 @@ export async function processCounty(
 
     // Collect all ordinances
     const ordinances: CountyOrdinance[] = [];
+    const changes = createChangeTracker(
+      countyChangeSource(config.name, config.fipsCode)
+    );
     for await (const ordinance of adapter.fetchOrdinances()) {
       ordinances.push(ordinance);
 
       // Store raw HTML in R2
       try {
+        // Compare with the previous run's copy before overwriting it
+        const previous = await getCountyOrdinance(
+          env.DOCUMENTS_BUCKET,
+          config.fipsCode,
+          ordinance.chapter,
+          ordinance.section
+        );
+        changes.compare(previous, countyOrdinanceSnapshot(ordinance));
+
         await storeCountyOrdinance(env.DOCUMENTS_BUCKET, ordinance, ordinance.text);
       } catch (error) {
         const errorMessage = `Failed to store ordinance ${ordinance.chapter}/${ordinance.section}: ${
@@ -193,7 +214,7 @@ export async function processCounty(
           chunkId: countyChunk.chunkId,
           sourceId: countyChunk.sourceId,
           sourceType: 'county' as const,
-          jurisdiction: `TX-${config.fipsCode}`,
+          jurisdiction: countyJurisdictionId('TX', config.fipsCode),
           text: countyChunk.text,
           citation: countyChunk.citation,
           url: countyChunk.url,
@@ -209,6 +230,19 @@ export async function processCounty(
     await upsertChunks(index, records);
     vectorsUpserted = records.length;
 
+    // Record section changes in Convex (best-effort)
+    await recordSectionChanges(env.CONVEX_URL, changes.events());
+
+    // Register county code in Convex sources (best-effort)
+    await registerSource(
+      env.CONVEX_URL,
+      countySource(
+        config,
+        errors.length === 0 ? 'complete' : 'error',
+        vectorsUpserted
+      )
+    );
+
     const durationMs = Date.now() - startTime;
     console.log(
       `[County Pipeline] ${config.name} County complete: ${vectorsUpserted} vectors in ${durationMs}ms`
@@ -0,0 +1,88 @@
+/**
+ * Federal Register Chunking
+ *
+ * Turns each rule document into a single summary chunk: rule type, title,
+ * agency, the CFR parts it amends, its key dates and the abstract. The
+ * amended parts are also kept as metadata (`cfrParts`) so the query
+ * pipeline can find pending rules for the CFR sections an answer cites.
+ */
+
+import {
+  generateFederalRegisterCitation,
+  generateFederalRegisterChunkId,
+  generateFederalRegisterSourceId,
+} from '../lib/citations';
+import {
+  TARGET_AGENCIES,
+  type FederalRegisterChunk,
+  type FederalRegisterDocument,
+} from './types';
+
+/**
+ * Readable label for each document type
+ */
+const DOCUMENT_TYPE_LABELS = {
+  proposed_rule: 'Proposed rule',
+  final_rule: 'Final rule',
+} as const;
+
+/**
+ * Build the summary chunk for a rule document
+ *
+ * @param document Parsed rule document
+ * @returns Chunk ready for embedding
+ *
+ * @example
+ * ```ts
+ * const chunk = chunkFederalRegisterDocument(doc);
+ * // chunk.chunkId => "fr-2026-18231-0"
+ * // chunk.cfrParts => ["21-117"]
+ * ```
+ */
+export function chunkFederalRegisterDocument(
+  document: FederalRegisterDocument
+): FederalRegisterChunk {
+  const agency = TARGET_AGENCIES.find((a) => a.key === document.agencyKeys[0]);
+  const affects = document.cfrReferences
+    .map((ref) => `${ref.title} CFR part ${ref.part}`)
+    .join(', ');
+
+  const lines = [
+    `${DOCUMENT_TYPE_LABELS[document.documentType]}: ${document.title}`,
+    `Agency: ${document.agencyNames.join('; ') || agency?.name || 'Unknown'}`,
+    `Amends: ${affects}`,
+    `Published: ${document.publicationDate}`,
+  ];
+  if (document.action) {
+    lines.push(`Action: ${document.action}`);
+  }
+  if (document.commentsCloseOn) {
+    lines.push(`Comments due: ${document.commentsCloseOn}`);
+  }
+  if (document.effectiveOn) {
+    lines.push(`Effective: ${document.effectiveOn}`);
+  }
+  if (document.abstract) {
+    lines.push('', document.abstract);
+  }
+
+  return {
+    chunkId: generateFederalRegisterChunkId(document.documentNumber, 0),
+    sourceId: generateFederalRegisterSourceId(agency?.key ?? 'other'),
+    text: lines.join('\n'),
+    citation: generateFederalRegisterCitation(
+      document.citation,
+      document.documentNumber,
+      document.publicationDate
+    ),
+    url: document.url,
+    documentNumber: document.documentNumber,
+    documentType: document.documentType,
+    title: document.title,
+    cfrParts: document.cfrReferences.map((ref) => `${ref.title}-${ref.part}`),
+    category: agency?.categories[0],
+    publicationDate: document.publicationDate,
+    effectiveOn: document.effectiveOn,
+    commentsCloseOn: document.commentsCloseOn,
+  };
+}
@@ -0,0 +1,356 @@
+/**
+ * Federal Register API integration for fetching proposed and final rules
+ *
+ * API documentation: https://www.federalregister.gov/developers/documentation/api/v1
+ *
+ * The HTTP client is injectable (`fetchFn`) so the fetch layer can be
+ * tested against recorded API responses.
+ */
+
+import { isIsoDate } from '@compliance-iq/shared-types';
+import {
+  TARGET_AGENCIES,
+  type CFRPartReference,
+  type FederalRegisterAgencyConfig,
+  type FederalRegisterDocument,
+  type FederalRegisterDocumentType,
+} from './types';
+
+/**
+ * Custom error class for Federal Register API fetch failures
+ */
+export class FederalRegisterFetchError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'FederalRegisterFetchError';
+  }
+}
+
+/**
+ * Retry configuration for Federal Register API calls
+ */
+const RETRY_CONFIG = {
+  maxRetries: 3,
+  delays: [1000, 2000, 4000], // 1s, 2s, 4s exponential backoff
+};
+
+/**
+ * Base URL for the Federal Register API
+ */
+const FR_BASE_URL = 'https://www.federalregister.gov/api/v1';
+
+/**
+ * Results per page (API maximum is 1000)
+ */
+const PAGE_SIZE = 100;
+
+/**
+ * Fields requested for each document
+ */
+const DOCUMENT_FIELDS = [
+  'document_number',
+  'type',
+  'title',
+  'abstract',
+  'action',
+  'citation',
+  'agencies',
+  'publication_date',
+  'effective_on',
+  'comments_close_on',
+  'html_url',
+  'regulation_id_numbers',
+  'cfr_references',
+];
+
+/**
+ * API document types for each tracked document type
+ */
+const API_DOCUMENT_TYPES: Record<string, FederalRegisterDocumentType> = {
+  Rule: 'final_rule',
+  'Proposed Rule': 'proposed_rule',
+};
+
+/**
+ * Document as returned by the documents search endpoint
+ */
+export interface RawFederalRegisterDocument {
+  document_number: string;
+  type: string;
+  title: string;
+  abstract?: string | null;
+  action?: string | null;
+  citation?: string | null;
+  agencies?: Array<{ name?: string; raw_name?: string; slug?: string }>;
+  publication_date: string;
+  effective_on?: string | null;
+  comments_close_on?: string | null;
+  html_url: string;
+  regulation_id_numbers?: string[];
+  cfr_references?: Array<{
+    title: number | string;
+    part?: number | string | null;
+  }>;
+}
+
+/**
+ * Documents search response page
+ */
+interface DocumentsPage {
+  count: number;
+  total_pages?: number;
+  next_page_url?: string | null;
+  results?: RawFederalRegisterDocument[];
+}
+
+/**
+ * Options for fetchFederalRegisterDocuments
+ */
+export interface FederalRegisterFetchOptions {
+  /** Earliest publication date (YYYY-MM-DD, inclusive) */
+  since: string;
+  /** Latest publication date (YYYY-MM-DD, inclusive; default: no limit) */
+  until?: string;
+  /** Agencies to fetch (default: enabled TARGET_AGENCIES) */
+  agencies?: FederalRegisterAgencyConfig[];
+  /** HTTP client (default: global fetch) */
+  fetchFn?: typeof fetch;
+}
+
+/**
+ * Result of fetchFederalRegisterDocuments
+ */
+export interface FederalRegisterFetchResult {
+  /** Documents amending tracked CFR titles, oldest first */
+  documents: FederalRegisterDocument[];
+  /** Documents skipped (untracked type or no tracked CFR parts) */
+  skipped: number;
+}
+
+/**
+ * Retry a function with exponential backoff
+ */
+async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  operationName: string
+): Promise<T> {
+  let lastError: Error = new Error(
+    `Failed after ${RETRY_CONFIG.maxRetries} retries`
+  );
+
+  for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      // Don't retry client errors (bad query parameters)
+      if (
+        error instanceof FederalRegisterFetchError &&
+        error.status >= 400 &&
+        error.status < 500 &&
+        error.status !== 429
+      ) {
+        throw error;
+      }
+
+      // If this was the last attempt, throw
+      if (attempt === RETRY_CONFIG.maxRetries) {
+        throw lastError;
+      }
+
+      // Wait before retry
+      const delay = RETRY_CONFIG.delays[attempt];
+      console.log(
+        `[FederalRegister] Retrying ${operationName} after ${delay}ms...`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Build the documents search URL for the first page
+ *
+ * @param options Fetch options (since/until/agencies)
+ * @returns Search URL for proposed and final rules of the agencies
+ */
+export function buildDocumentsSearchUrl(
+  options: Pick<FederalRegisterFetchOptions, 'since' | 'until' | 'agencies'>
+): string {
+  const agencies =
+    options.agencies ?? TARGET_AGENCIES.filter((agency) => agency.enabled);
+
+  const params = new URLSearchParams();
+  params.set('per_page', String(PAGE_SIZE));
+  params.set('order', 'oldest');
+  for (const field of DOCUMENT_FIELDS) {
+    params.append('fields[]', field);
+  }
+  params.append('conditions[type][]', 'RULE');
+  params.append('conditions[type][]', 'PRORULE');
+  for (const agency of agencies) {
+    params.append('conditions[agencies][]', agency.slug);
+  }
+  params.set('conditions[publication_date][gte]', options.since);
+  if (options.until) {
+    params.set('conditions[publication_date][lte]', options.until);
+  }
+
+  return `${FR_BASE_URL}/documents.json?${params.toString()}`;
+}
+
+/**
+ * Convert an API document into a tracked rule document
+ *
+ * Issuing agencies are matched by slug; documents from sub-agencies that
+ * don't list a tracked parent are attributed by the CFR titles they amend.
+ * CFR references outside the agencies' titles are dropped.
+ *
+ * @param raw Document from the search endpoint
+ * @param agencies Tracked agencies (default: enabled TARGET_AGENCIES)
+ * @returns Parsed document, or null if it's not a rule or amends no tracked CFR part
+ *
+ * @example
+ * ```ts
+ * const doc = parseFederalRegisterDocument(raw);
+ * // => { documentNumber: '2026-18231', documentType: 'proposed_rule',
+ * //      cfrReferences: [{ title: 21, part: 117 }], ... }
+ * ```
+ */
+export function parseFederalRegisterDocument(
+  raw: RawFederalRegisterDocument,
+  agencies: FederalRegisterAgencyConfig[] = TARGET_AGENCIES.filter(
+    (agency) => agency.enabled
+  )
+): FederalRegisterDocument | null {
+  const documentType = API_DOCUMENT_TYPES[raw.type];
+  if (!documentType) {
+    return null;
+  }
+
+  const trackedTitles = new Set(agencies.flatMap((agency) => agency.cfrTitles));
+  const seen = new Set<string>();
+  const cfrReferences: CFRPartReference[] = [];
+  for (const ref of raw.cfr_references ?? []) {
+    const title = Number(ref.title);
+    const part = Number(ref.part);
+    const key = `${title}-${part}`;
+    if (!trackedTitles.has(title) || !Number.isInteger(part) || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    cfrReferences.push({ title, part });
+  }
+  if (cfrReferences.length === 0) {
+    return null;
+  }
+
+  const slugs = new Set((raw.agencies ?? []).map((agency) => agency.slug));
+  let issuers = agencies.filter((agency) => slugs.has(agency.slug));
+  if (issuers.length === 0) {
+    issuers = agencies.filter((agency) =>
+      cfrReferences.some((ref) => agency.cfrTitles.includes(ref.title))
+    );
+  }
+
+  return {
+    documentNumber: raw.document_number,
+    documentType,
+    title: raw.title,
+    abstract: raw.abstract ?? undefined,
+    action: raw.action ?? undefined,
+    citation: raw.citation ?? undefined,
+    agencyKeys: issuers.map((agency) => agency.key),
+    agencyNames: (raw.agencies ?? []).flatMap((agency) => {
+      const name = agency.name ?? agency.raw_name;
+      return name ? [name] : [];
+    }),
+    publicationDate: raw.publication_date,
+    effectiveOn: raw.effective_on ?? undefined,
+    commentsCloseOn: raw.comments_close_on ?? undefined,
+    url: raw.html_url,
+    regulationIdNumbers: raw.regulation_id_numbers ?? [],
+    cfrReferences,
+  };
+}
+
+/**
+ * Fetch proposed and final rules published by the tracked agencies
+ *
+ * Follows `next_page_url` until all pages are read. Each page is retried
+ * with exponential backoff.
+ *
+ * @param options Publication date range, agencies, and HTTP client
+ * @returns Rule documents amending tracked CFR titles, oldest first
+ * @throws Error if since/until is not a YYYY-MM-DD date
+ * @throws FederalRegisterFetchError if the API keeps failing
+ *
+ * @example
+ * ```ts
+ * const { documents } = await fetchFederalRegisterDocuments({
+ *   since: '2026-07-01',
+ * });
+ * console.log(`${documents.length} rules since July`);
+ * ```
+ */
+export async function fetchFederalRegisterDocuments(
+  options: FederalRegisterFetchOptions
+): Promise<FederalRegisterFetchResult> {
+  for (const date of [options.since, options.until]) {
+    if (date !== undefined && !isIsoDate(date)) {
+      throw new Error(`Invalid date "${date}" (expected YYYY-MM-DD)`);
+    }
+  }
+
+  const fetchFn = options.fetchFn ?? fetch;
+  const agencies =
+    options.agencies ?? TARGET_AGENCIES.filter((agency) => agency.enabled);
+  const documents: FederalRegisterDocument[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+
+  let url: string | null = buildDocumentsSearchUrl({ ...options, agencies });
+  let page = 1;
+  while (url) {
+    const pageUrl: string = url;
+    const data = await retryWithBackoff(async () => {
+      const response = await fetchFn(pageUrl, {
+        headers: { Accept: 'application/json' },
+      });
+      if (!response.ok) {
+        throw new FederalRegisterFetchError(
+          response.status,
+          `Federal Register API returned ${response.status} for page ${page}`
+        );
+      }
+      return (await response.json()) as DocumentsPage;
+    }, `documents page ${page}`);
+
+    for (const raw of data.results ?? []) {
+      if (seen.has(raw.document_number)) continue;
+      seen.add(raw.document_number);
+
+      const document = parseFederalRegisterDocument(raw, agencies);
+      if (document) {
+        documents.push(document);
+      } else {
+        skipped++;
+      }
+    }
+
+    url = data.next_page_url ?? null;
+    page++;
+  }
+
+  console.log(
+    `[FederalRegister] Fetched ${documents.length} rules since ${options.since} (${skipped} skipped)`
+  );
+
+  return { documents, skipped };
+}
@@ -0,0 +1,47 @@
+/**
+ * Federal Register Data Pipeline
+ *
+ * Public API for proposed-rule and final-rule tracking.
+ * Barrel export for all Federal Register pipeline modules.
+ */
+
+// Types
+export {
+  TARGET_AGENCIES,
+  getEnabledAgencies,
+  type FederalRegisterAgencyConfig,
+  type FederalRegisterDocument,
+  type FederalRegisterDocumentType,
+  type FederalRegisterChunk,
+  type FederalRegisterSyncState,
+  type CFRPartReference,
+} from './types';
+
+// Fetch
+export {
+  fetchFederalRegisterDocuments,
+  parseFederalRegisterDocument,
+  buildDocumentsSearchUrl,
+  FederalRegisterFetchError,
+  type RawFederalRegisterDocument,
+  type FederalRegisterFetchOptions,
+  type FederalRegisterFetchResult,
+} from './fetch';
+
+// Storage
+export {
+  storeFederalRegisterDocument,
+  getFederalRegisterDocument,
+  saveFederalRegisterSyncState,
+  loadFederalRegisterSyncState,
+} from './storage';
+
+// Chunking
+export { chunkFederalRegisterDocument } from './chunk';
+
+// Pipeline orchestration
+export { processFederalRegister } from './pipeline';
+export type {
+  FederalRegisterPipelineResult,
+  FederalRegisterPipelineOptions,
+} from './pipeline';
@@ -0,0 +1,206 @@
+/**
+ * Federal Register Data Pipeline Orchestrator
+ *
+ * Tracks upcoming changes to the CFR: proposed rules and final rules not
+ * yet codified in eCFR, for the agencies behind the federal TARGET_TITLES.
+ *
+ * Pipeline Flow:
+ * 1. Resume from the last publication date ingested (sync state in R2),
+ *    or look back LOOKBACK_DAYS on the first run
+ * 2. Fetch proposed and final rules from the Federal Register API
+ * 3. Store each document in R2
+ * 4. Build one summary chunk per document (linked to the CFR parts it amends)
+ * 5. Generate embeddings and upsert to Pinecone (sourceType 'federal_register')
+ * 6. Register agency sources in Convex (best-effort) and save sync state
+ *
+ * Documents are re-indexed under the same chunk ID, so overlapping runs
+ * are idempotent. The query pipeline decides at answer time which rules
+ * are still pending (proposed, or final with a future effective date).
+ */
+
+import { toEffectiveDateNumber } from '@compliance-iq/shared-types';
+import type { Env } from '../types';
+import { embedChunks } from '../federal/embed'; // Reuse federal embed
+import { initPinecone, getIndex, upsertChunks } from '../pinecone';
+import { registerSource, federalRegisterSource } from '../lib/sources';
+import { fetchFederalRegisterDocuments } from './fetch';
+import { chunkFederalRegisterDocument } from './chunk';
+import {
+  storeFederalRegisterDocument,
+  loadFederalRegisterSyncState,
+  saveFederalRegisterSyncState,
+} from './storage';
+import { getEnabledAgencies } from './types';
+
+/**
+ * Days of rules fetched on the first run
+ */
+const LOOKBACK_DAYS = 180;
+
+/**
+ * Result of a Federal Register pipeline run
+ */
+export interface FederalRegisterPipelineResult {
+  success: boolean;
+  /** Earliest publication date fetched (YYYY-MM-DD) */
+  since: string;
+  documentsFetched: number;
+  documentsSkipped: number;
+  vectorsUpserted: number;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Options for processFederalRegister
+ */
+export interface FederalRegisterPipelineOptions {
+  /** Fetch rules published on or after this date (default: resume from sync state) */
+  since?: string;
+  /** HTTP client for the Federal Register API (default: global fetch) */
+  fetchFn?: typeof fetch;
+}
+
+/**
+ * Publication date to resume from
+ */
+function defaultSince(lastPublicationDate: string | undefined): string {
+  if (lastPublicationDate) {
+    // Re-fetch the last day: documents published later that day were missed
+    return lastPublicationDate;
+  }
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - LOOKBACK_DAYS);
+  return date.toISOString().split('T')[0] as string;
+}
+
+/**
+ * Process Federal Register rules for all enabled agencies
+ *
+ * @param env Cloudflare Workers environment
+ * @param options Start date override and HTTP client
+ * @returns Pipeline result with fetch and indexing counts
+ *
+ * @example
+ * ```ts
+ * const result = await processFederalRegister(env);
+ * console.log(`Indexed ${result.vectorsUpserted} rules since ${result.since}`);
+ * ```
+ */
+export async function processFederalRegister(
+  env: Env,
+  options?: FederalRegisterPipelineOptions
+): Promise<FederalRegisterPipelineResult> {
+  const startTime = Date.now();
+  const agencies = getEnabledAgencies();
+  const syncState = await loadFederalRegisterSyncState(env.DOCUMENTS_BUCKET);
+  const since = options?.since ?? defaultSince(syncState?.lastPublicationDate);
+
+  console.log(`[FederalRegister Pipeline] Fetching rules since ${since}`);
+
+  try {
+    // Fetch and store documents
+    const { documents, skipped } = await fetchFederalRegisterDocuments({
+      since,
+      agencies,
+      fetchFn: options?.fetchFn,
+    });
+
+    for (const document of documents) {
+      await storeFederalRegisterDocument(env.DOCUMENTS_BUCKET, document);
+    }
+
+    let vectorsUpserted = 0;
+    if (documents.length > 0) {
+      // Chunk and embed
+      const chunks = documents.map(chunkFederalRegisterDocument);
+      const embedded = await embedChunks(chunks, env.OPENAI_API_KEY);
+
+      const records = embedded.map(({ chunk, embedding }) => ({
+        id: chunk.chunkId,
+        values: embedding,
+        metadata: {
+          chunkId: chunk.chunkId,
+          sourceId: chunk.sourceId,
+          sourceType: 'federal_register' as const,
+          jurisdiction: 'US',
+          text: chunk.text,
+          citation: chunk.citation,
+          title: chunk.title,
+          url: chunk.url,
+          chunkIndex: 0,
+          totalChunks: 1,
+          ...(chunk.category ? { category: chunk.category } : {}),
+          indexedAt: new Date().toISOString(),
+          lastUpdated: chunk.publicationDate,
+          documentType: chunk.documentType,
+          cfrParts: chunk.cfrParts,
+          ...(chunk.effectiveOn
+            ? { effectiveOn: toEffectiveDateNumber(chunk.effectiveOn) }
+            : {}),
+          ...(chunk.commentsCloseOn
+            ? {
+                commentsCloseOn: toEffectiveDateNumber(chunk.commentsCloseOn),
+              }
+            : {}),
+        },
+      }));
+
+      // Upsert to Pinecone
+      const pinecone = initPinecone(env.PINECONE_API_KEY);
+      await upsertChunks(getIndex(pinecone), records);
+      vectorsUpserted = records.length;
+
+      // Register agency sources in Convex (best-effort)
+      for (const agency of agencies) {
+        const count = documents.filter((d) =>
+          d.agencyKeys.includes(agency.key)
+        ).length;
+        if (count > 0) {
+          await registerSource(
+            env.CONVEX_URL,
+            federalRegisterSource(agency, 'complete', count)
+          );
+        }
+      }
+    }
+
+    // Save sync state (documents are ordered oldest first)
+    const lastPublicationDate =
+      documents[documents.length - 1]?.publicationDate ??
+      syncState?.lastPublicationDate ??
+      since;
+    await saveFederalRegisterSyncState(env.DOCUMENTS_BUCKET, {
+      lastPublicationDate,
+      lastSync: new Date().toISOString(),
+      documentsIndexed: vectorsUpserted,
+    });
+
+    console.log(
+      `[FederalRegister Pipeline] Indexed ${vectorsUpserted} rules since ${since}`
+    );
+
+    return {
+      success: true,
+      since,
+      documentsFetched: documents.length,
+      documentsSkipped: skipped,
+      vectorsUpserted,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[FederalRegister Pipeline] Failed: ${errorMessage}`);
+
+    return {
+      success: false,
+      since,
+      documentsFetched: 0,
+      documentsSkipped: 0,
+      vectorsUpserted: 0,
+      durationMs: Date.now() - startTime,
+      error: errorMessage,
+    };
+  }
+}
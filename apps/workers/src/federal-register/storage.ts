@@ -0,0 +1,102 @@
+/**
+ * Federal Register Storage Operations
+ *
+ * R2 storage for fetched rule documents and the sync state that lets each
+ * run resume from the last publication date ingested.
+ *
+ * Folder Structure:
+ *   federal-register/
+ *   ├── documents/
+ *   │   ├── 2026-18231.json
+ *   │   └── 2026-19044.json
+ *   └── sync-state.json
+ */
+
+import { storeDocument, getDocument } from '../lib/r2';
+import type {
+  FederalRegisterDocument,
+  FederalRegisterSyncState,
+} from './types';
+
+const SYNC_STATE_KEY = 'federal-register/sync-state.json';
+
+/**
+ * Store a rule document in R2
+ *
+ * Key pattern: federal-register/documents/{documentNumber}.json
+ *
+ * @param bucket R2 bucket instance
+ * @param document Parsed rule document
+ */
+export async function storeFederalRegisterDocument(
+  bucket: R2Bucket,
+  document: FederalRegisterDocument
+): Promise<void> {
+  const key = `federal-register/documents/${document.documentNumber}.json`;
+
+  await storeDocument(bucket, key, JSON.stringify(document, null, 2), {
+    source: 'Federal Register',
+    dataType: 'raw-regulation',
+    documentNumber: document.documentNumber,
+    documentType: document.documentType,
+    fetchedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Retrieve a rule document from R2
+ *
+ * @param bucket R2 bucket instance
+ * @param documentNumber FR document number
+ * @returns Document, or null if not found
+ */
+export async function getFederalRegisterDocument(
+  bucket: R2Bucket,
+  documentNumber: string
+): Promise<FederalRegisterDocument | null> {
+  const key = `federal-register/documents/${documentNumber}.json`;
+  const result = await getDocument(bucket, key);
+  return result
+    ? (JSON.parse(result.content) as FederalRegisterDocument)
+    : null;
+}
+
+/**
+ * Save sync state to R2
+ *
+ * @param bucket R2 bucket instance
+ * @param state Sync state to save
+ */
+export async function saveFederalRegisterSyncState(
+  bucket: R2Bucket,
+  state: FederalRegisterSyncState
+): Promise<void> {
+  await storeDocument(bucket, SYNC_STATE_KEY, JSON.stringify(state, null, 2), {
+    source: 'pipeline',
+    dataType: 'checkpoint',
+    fetchedAt: state.lastSync,
+  });
+}
+
+/**
+ * Load sync state from R2
+ *
+ * @param bucket R2 bucket instance
+ * @returns Sync state, or null before the first run
+ */
+export async function loadFederalRegisterSyncState(
+  bucket: R2Bucket
+): Promise<FederalRegisterSyncState | null> {
+  const result = await getDocument(bucket, SYNC_STATE_KEY);
+
+  if (!result) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(result.content) as FederalRegisterSyncState;
+  } catch (error) {
+    console.error('[FederalRegister] Failed to parse sync state:', error);
+    return null;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Federal Register Data Pipeline Types
+ *
+ * TypeScript interfaces for Federal Register rule documents (proposed and
+ * final rules), their chunks, and the agencies tracked.
+ */
+
+/**
+ * Federal Register document type tracked by the pipeline
+ * - proposed_rule: NPRM, not yet in the CFR
+ * - final_rule: amends the CFR on its effective date
+ */
+export type FederalRegisterDocumentType = 'proposed_rule' | 'final_rule';
+
+/**
+ * Agency whose rules are tracked
+ */
+export interface FederalRegisterAgencyConfig {
+  /** Short key used in source IDs (e.g., "fda") */
+  key: string;
+  /** Federal Register API agency slug */
+  slug: string;
+  /** Display name */
+  name: string;
+  /** CFR titles the agency's rules amend (see federal TARGET_TITLES) */
+  cfrTitles: number[];
+  /** Activity category tags */
+  categories: string[];
+  /** Whether the agency is tracked */
+  enabled: boolean;
+}
+
+/**
+ * CFR part amended by a document
+ */
+export interface CFRPartReference {
+  /** CFR title number */
+  title: number;
+  /** CFR part number */
+  part: number;
+}
+
+/**
+ * Federal Register rule document
+ */
+export interface FederalRegisterDocument {
+  /** FR document number (e.g., "2026-18231") */
+  documentNumber: string;
+  /** Proposed or final rule */
+  documentType: FederalRegisterDocumentType;
+  /** Document title */
+  title: string;
+  /** Summary of the rule */
+  abstract?: string;
+  /** Action line (e.g., "Proposed rule; request for comments.") */
+  action?: string;
+  /** FR citation (e.g., "91 FR 61234") */
+  citation?: string;
+  /** Tracked agencies that issued the document (keys, e.g. ["fda"]) */
+  agencyKeys: string[];
+  /** Issuing agency names as published */
+  agencyNames: string[];
+  /** Publication date (YYYY-MM-DD) */
+  publicationDate: string;
+  /** Date a final rule takes effect (YYYY-MM-DD) */
+  effectiveOn?: string;
+  /** Comment deadline of a proposed rule (YYYY-MM-DD) */
+  commentsCloseOn?: string;
+  /** federalregister.gov page */
+  url: string;
+  /** Regulation Identifier Numbers (e.g., ["0910-AI98"]) */
+  regulationIdNumbers: string[];
+  /** CFR parts amended, limited to the tracked CFR titles */
+  cfrReferences: CFRPartReference[];
+}
+
+/**
+ * Federal Register chunk ready for embedding
+ *
+ * One chunk per document: the rule summary, with the amended CFR parts.
+ */
+export interface FederalRegisterChunk {
+  /** Unique chunk identifier (e.g., "fr-2026-18231-0") */
+  chunkId: string;
+  /** Source identifier (e.g., "fr-fda") */
+  sourceId: string;
+  /** Text content to embed */
+  text: string;
+  /** FR citation, or document number if not yet paginated */
+  citation: string;
+  /** federalregister.gov page */
+  url: string;
+  /** FR document number */
+  documentNumber: string;
+  /** Proposed or final rule */
+  documentType: FederalRegisterDocumentType;
+  /** Document title */
+  title: string;
+  /** Amended parts as "{title}-{part}" (e.g., ["21-117"]) */
+  cfrParts: string[];
+  /** Activity category tag */
+  category?: string;
+  /** Publication date (YYYY-MM-DD) */
+  publicationDate: string;
+  /** Date a final rule takes effect (YYYY-MM-DD) */
+  effectiveOn?: string;
+  /** Comment deadline of a proposed rule (YYYY-MM-DD) */
+  commentsCloseOn?: string;
+}
+
+/**
+ * Sync state stored in R2 between runs
+ */
+export interface FederalRegisterSyncState {
+  /** Latest publication date ingested (YYYY-MM-DD) */
+  lastPublicationDate: string;
+  /** ISO timestamp of the last run */
+  lastSync: string;
+  /** Documents indexed by the last run */
+  documentsIndexed: number;
+}
+
+/**
+ * Agencies behind the CFR titles in federal TARGET_TITLES
+ */
+export const TARGET_AGENCIES: FederalRegisterAgencyConfig[] = [
+  {
+    key: 'fda',
+    slug: 'food-and-drug-administration',
+    name: 'Food and Drug Administration',
+    cfrTitles: [21],
+    categories: ['food-safety', 'pharmacy'],
+    enabled: true,
+  },
+  {
+    key: 'usda',
+    slug: 'agriculture-department',
+    name: 'Department of Agriculture',
+    cfrTitles: [7, 9],
+    categories: ['food-retail', 'food-safety'],
+    enabled: true,
+  },
+  {
+    key: 'ttb',
+    slug: 'alcohol-and-tobacco-tax-and-trade-bureau',
+    name: 'Alcohol and Tobacco Tax and Trade Bureau',
+    cfrTitles: [27],
+    categories: ['alcohol'],
+    enabled: true,
+  },
+  {
+    key: 'osha',
+    slug: 'occupational-safety-and-health-administration',
+    name: 'Occupational Safety and Health Administration',
+    cfrTitles: [29],
+    categories: ['employment'],
+    enabled: true,
+  },
+  {
+    key: 'epa',
+    slug: 'environmental-protection-agency',
+    name: 'Environmental Protection Agency',
+    cfrTitles: [40],
+    categories: ['fuel', 'hazmat'],
+    enabled: true,
+  },
+  {
+    key: 'dot',
+    slug: 'transportation-department',
+    name: 'Department of Transportation',
+    cfrTitles: [49],
+    categories: ['fuel', 'transportation'],
+    enabled: true,
+  },
+];
+
+/**
+ * Get enabled agencies
+ * @returns Array of enabled agency configurations
+ */
+export function getEnabledAgencies(): FederalRegisterAgencyConfig[] {
+  return TARGET_AGENCIES.filter((agency) => agency.enabled);
+}
@@ -28,6 +28,10 @@ export interface CachedCFRPart {
     parsedAt: string;
     xmlHash: string;
     sectionCount: number;
+    /** When section effective dates were applied (unset if version history was unavailable) */
+    versionedAt?: string;
+    /** Point-in-time date of a snapshot part (unset for the current version) */
+    asOfDate?: string;
   };
 }
 
@@ -46,6 +50,8 @@ export interface TitleManifest {
   }[];
   lastRefresh: string;
   ecfrDate: string;
+  /** Point-in-time date of a snapshot (unset for the current version) */
+  asOfDate?: string;
 }
 
 /**
@@ -73,12 +79,23 @@ function getCacheManifestPath(): string {
   return `${CACHE_PREFIX}/manifest.json`;
 }
 
-function getTitleManifestPath(titleNumber: number): string {
-  return `${CACHE_PREFIX}/title-${titleNumber}/manifest.json`;
+// Point-in-time snapshots live under as-of/{date}/, next to the current version
+function getTitlePrefix(titleNumber: number, asOfDate?: string): string {
+  return asOfDate
+    ? `${CACHE_PREFIX}/as-of/${asOfDate}/title-${titleNumber}`
+    : `${CACHE_PREFIX}/title-${titleNumber}`;
 }
 
-function getPartCachePath(titleNumber: number, partNumber: number): string {
-  return `${CACHE_PREFIX}/title-${titleNumber}/part-${partNumber}.json`;
+function getTitleManifestPath(titleNumber: number, asOfDate?: string): string {
+  return `${getTitlePrefix(titleNumber, asOfDate)}/manifest.json`;
+}
+
+function getPartCachePath(
+  titleNumber: number,
+  partNumber: number,
+  asOfDate?: string
+): string {
+  return `${getTitlePrefix(titleNumber, asOfDate)}/part-${partNumber}.json`;
 }
 
 // ============================================================================
@@ -101,14 +118,15 @@ export async function getCacheManifest(bucket: R2Bucket): Promise<CacheManifest
 }
 
 /**
- * Get a title's manifest
+ * Get a title's manifest (or a point-in-time snapshot's, with asOfDate)
  */
 export async function getTitleManifest(
   bucket: R2Bucket,
-  titleNumber: number
+  titleNumber: number,
+  asOfDate?: string
 ): Promise<TitleManifest | null> {
   try {
-    const obj = await bucket.get(getTitleManifestPath(titleNumber));
+    const obj = await bucket.get(getTitleManifestPath(titleNumber, asOfDate));
     if (!obj) return null;
     const text = await obj.text();
     return JSON.parse(text) as TitleManifest;
@@ -119,15 +137,18 @@ export async function getTitleManifest(
 }
 
 /**
- * Get a cached part
+ * Get a cached part (or a point-in-time snapshot's, with asOfDate)
  */
 export async function getCachedPart(
   bucket: R2Bucket,
   titleNumber: number,
-  partNumber: number
+  partNumber: number,
+  asOfDate?: string
 ): Promise<CachedCFRPart | null> {
   try {
-    const obj = await bucket.get(getPartCachePath(titleNumber, partNumber));
+    const obj = await bucket.get(
+      getPartCachePath(titleNumber, partNumber, asOfDate)
+    );
     if (!obj) return null;
     const text = await obj.text();
     return JSON.parse(text) as CachedCFRPart;
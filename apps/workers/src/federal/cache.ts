@@ -17,11 +17,35 @@
  *     title-21/
  *       manifest.json
  *       part-117.json
+ *     as-of/2023-06-01/              # Point-in-time snapshots (same layout)
+ *       title-21/
+ *         manifest.json
+ *         part-117.json
+ *
+ * Sections carry the effective date range of their version (from the eCFR
+ * versions endpoint), so chunks can be tagged for point-in-time retrieval.
+ *
+ * Refreshing the current version diffs each re-parsed part against its
+ * previous cached copy and records section change events in Convex
+ * (see ../lib/changes.ts).
  */
 
 import type { CFRSection } from './types';
-import { fetchCFRTitleStructure, fetchCFRPart, parseCFRXML, fetchCFRTitleList } from './fetch';
+import {
+  fetchCFRTitleStructure,
+  fetchCFRPart,
+  parseCFRXML,
+  fetchCFRTitleList,
+  fetchSectionEffectiveRanges,
+} from './fetch';
 import { TARGET_TITLES } from './types';
+import {
+  cfrSectionSnapshot,
+  diffSections,
+  federalChangeSource,
+  recordSectionChanges,
+  type SectionChangeEvent,
+} from '../lib/changes';
 
 // Re-export all read functions and types from cache-read
 // This allows importing everything from './cache' for convenience
@@ -40,6 +64,7 @@ export {
 import {
   getCacheManifest,
   getCachedPart,
+  getTitleManifest,
   type CachedCFRPart,
   type TitleManifest,
   type CacheManifest,
@@ -57,6 +82,8 @@ export interface TitleRefreshResult {
   titleNumber: number;
   partsProcessed: number;
   sectionsProcessed: number;
+  /** Sections added, modified, or removed since the previous refresh */
+  sectionsChanged: number;
   durationMs: number;
   error?: string;
 }
@@ -69,6 +96,7 @@ export interface CacheRefreshResult {
   titlesProcessed: number;
   partsProcessed: number;
   sectionsProcessed: number;
+  sectionsChanged: number;
   durationMs: number;
   results: TitleRefreshResult[];
   errors: string[];
@@ -84,12 +112,22 @@ function getCacheManifestPath(): string {
   return `${CACHE_PREFIX}/manifest.json`;
 }
 
-function getTitleManifestPath(titleNumber: number): string {
-  return `${CACHE_PREFIX}/title-${titleNumber}/manifest.json`;
+function getTitlePrefix(titleNumber: number, asOfDate?: string): string {
+  return asOfDate
+    ? `${CACHE_PREFIX}/as-of/${asOfDate}/title-${titleNumber}`
+    : `${CACHE_PREFIX}/title-${titleNumber}`;
 }
 
-function getPartCachePath(titleNumber: number, partNumber: number): string {
-  return `${CACHE_PREFIX}/title-${titleNumber}/part-${partNumber}.json`;
+function getTitleManifestPath(titleNumber: number, asOfDate?: string): string {
+  return `${getTitlePrefix(titleNumber, asOfDate)}/manifest.json`;
+}
+
+function getPartCachePath(
+  titleNumber: number,
+  partNumber: number,
+  asOfDate?: string
+): string {
+  return `${getTitlePrefix(titleNumber, asOfDate)}/part-${partNumber}.json`;
 }
 
 // ============================================================================
@@ -128,9 +166,13 @@ async function saveTitleManifest(
   titleNumber: number,
   manifest: TitleManifest
 ): Promise<void> {
-  await bucket.put(getTitleManifestPath(titleNumber), JSON.stringify(manifest, null, 2), {
-    httpMetadata: { contentType: 'application/json' },
-  });
+  await bucket.put(
+    getTitleManifestPath(titleNumber, manifest.asOfDate),
+    JSON.stringify(manifest, null, 2),
+    {
+      httpMetadata: { contentType: 'application/json' },
+    }
+  );
 }
 
 /**
@@ -142,9 +184,13 @@ async function saveCachedPart(
   partNumber: number,
   part: CachedCFRPart
 ): Promise<void> {
-  await bucket.put(getPartCachePath(titleNumber, partNumber), JSON.stringify(part, null, 2), {
-    httpMetadata: { contentType: 'application/json' },
-  });
+  await bucket.put(
+    getPartCachePath(titleNumber, partNumber, part.metadata.asOfDate),
+    JSON.stringify(part, null, 2),
+    {
+      httpMetadata: { contentType: 'application/json' },
+    }
+  );
 }
 
 /**
@@ -201,18 +247,30 @@ async function updateGlobalManifest(
 /**
  * Refresh cache for a single CFR title
  *
- * Fetches all parts in the title, parses XML, and stores as JSON in R2.
+ * Fetches all parts in the title, parses XML, dates each section from the
+ * part's version history, and stores as JSON in R2. With asOfDate, caches
+ * the point-in-time snapshot of that date instead of the current version.
+ *
+ * Current-version refreshes record section changes against the previous
+ * cache (parts and sections no longer in the title count as removed) when
+ * convexUrl is set.
  */
 export async function refreshCFRTitle(
   bucket: R2Bucket,
-  titleNumber: number
+  titleNumber: number,
+  asOfDate?: string,
+  convexUrl?: string
 ): Promise<TitleRefreshResult> {
   const startTime = Date.now();
   let partsProcessed = 0;
   let sectionsProcessed = 0;
+  const changes: SectionChangeEvent[] = [];
+  const changeSource = federalChangeSource(titleNumber);
 
   try {
-    console.log(`[Cache] Refreshing cache for title ${titleNumber}`);
+    console.log(
+      `[Cache] Refreshing cache for title ${titleNumber}${asOfDate ? ` as of ${asOfDate}` : ''}`
+    );
 
     // Get title name from config or API
     const titleConfig = TARGET_TITLES.find(t => t.number === titleNumber);
@@ -232,11 +290,15 @@ export async function refreshCFRTitle(
     }
 
     // Get title structure (list of parts)
-    const structure = await fetchCFRTitleStructure(titleNumber);
+    const structure = await fetchCFRTitleStructure(titleNumber, asOfDate);
     console.log(`[Cache] Title ${titleNumber} has ${structure.parts.length} parts`);
 
-    const ecfrDate = new Date().toISOString().split('T')[0] as string;
+    const ecfrDate =
+      asOfDate ?? (new Date().toISOString().split('T')[0] as string);
     const partManifests: TitleManifest['parts'] = [];
+    const previousManifest = asOfDate
+      ? null
+      : await getTitleManifest(bucket, titleNumber);
 
     // Process each part
     for (const partNumber of structure.parts) {
@@ -245,14 +307,23 @@ export async function refreshCFRTitle(
 
         // Fetch XML
         const fetchedAt = new Date().toISOString();
-        const xml = await fetchCFRPart(titleNumber, partNumber);
+        const xml = await fetchCFRPart(titleNumber, partNumber, asOfDate);
 
         // Compute hash for change detection
         const xmlHash = await computeXMLHash(xml);
 
-        // Check if we already have this exact version cached
-        const existingPart = await getCachedPart(bucket, titleNumber, partNumber);
-        if (existingPart && existingPart.metadata.xmlHash === xmlHash) {
+        // Check if we already have this exact version cached (and dated)
+        const existingPart = await getCachedPart(
+          bucket,
+          titleNumber,
+          partNumber,
+          asOfDate
+        );
+        if (
+          existingPart &&
+          existingPart.metadata.xmlHash === xmlHash &&
+          existingPart.metadata.versionedAt
+        ) {
           console.log(`[Cache] Part ${partNumber} unchanged (hash match), skipping`);
           partManifests.push({
             partNumber,
@@ -277,13 +348,22 @@ export async function refreshCFRTitle(
           continue;
         }
 
+        // Effective range of each section's version (best-effort)
+        const ranges = await fetchSectionEffectiveRanges(
+          titleNumber,
+          partNumber,
+          ecfrDate
+        );
+
         // Convert sections to standard format
         const sections: CFRSection[] = parsedPart.sections.map(s => ({
           number: s.number,
           title: s.heading,
           text: s.text,
           subsections: s.subsections,
-          effectiveDate: s.effectiveDate,
+          effectiveDate:
+            ranges?.get(s.number)?.effectiveDate ?? s.effectiveDate,
+          effectiveUntil: ranges?.get(s.number)?.effectiveUntil,
           lastAmended: s.lastAmended,
         }));
 
@@ -299,9 +379,26 @@ export async function refreshCFRTitle(
             parsedAt,
             xmlHash,
             sectionCount: sections.length,
+            ...(ranges ? { versionedAt: parsedAt } : {}),
+            ...(asOfDate ? { asOfDate } : {}),
           },
         };
 
+        // Diff sections against the previous cached copy
+        if (existingPart && !asOfDate) {
+          changes.push(
+            ...diffSections(
+              changeSource,
+              existingPart.sections.map((s) =>
+                cfrSectionSnapshot(titleNumber, partNumber, s)
+              ),
+              sections.map((s) =>
+                cfrSectionSnapshot(titleNumber, partNumber, s)
+              )
+            )
+          );
+        }
+
         // Save to R2
         await saveCachedPart(bucket, titleNumber, partNumber, cachedPart);
 
@@ -323,6 +420,32 @@ export async function refreshCFRTitle(
       }
     }
 
+    // Sections of parts no longer in the title were removed
+    for (const previousPart of previousManifest?.parts ?? []) {
+      if (structure.parts.includes(previousPart.partNumber)) continue;
+      const removed = await getCachedPart(
+        bucket,
+        titleNumber,
+        previousPart.partNumber
+      );
+      changes.push(
+        ...diffSections(
+          changeSource,
+          (removed?.sections ?? []).map((s) =>
+            cfrSectionSnapshot(titleNumber, previousPart.partNumber, s)
+          ),
+          []
+        )
+      );
+    }
+
+    if (changes.length > 0) {
+      const recorded = await recordSectionChanges(convexUrl, changes);
+      console.log(
+        `[Cache] Title ${titleNumber}: ${changes.length} sections changed (${recorded} recorded)`
+      );
+    }
+
     // Save title manifest
     const titleManifest: TitleManifest = {
       titleNumber,
@@ -330,11 +453,19 @@ export async function refreshCFRTitle(
       parts: partManifests,
       lastRefresh: new Date().toISOString(),
       ecfrDate,
+      ...(asOfDate ? { asOfDate } : {}),
     };
     await saveTitleManifest(bucket, titleNumber, titleManifest);
 
-    // Update global manifest with this title's info
-    await updateGlobalManifest(bucket, titleNumber, titleName, partsProcessed);
+    // Update global manifest with this title's info (current version only)
+    if (!asOfDate) {
+      await updateGlobalManifest(
+        bucket,
+        titleNumber,
+        titleName,
+        partsProcessed
+      );
+    }
 
     const durationMs = Date.now() - startTime;
     console.log(
@@ -346,6 +477,7 @@ export async function refreshCFRTitle(
       titleNumber,
       partsProcessed,
       sectionsProcessed,
+      sectionsChanged: changes.length,
       durationMs,
     };
   } catch (error) {
@@ -358,6 +490,7 @@ export async function refreshCFRTitle(
       titleNumber,
       partsProcessed,
       sectionsProcessed,
+      sectionsChanged: changes.length,
       durationMs,
       error: errorMessage,
     };
@@ -368,14 +501,19 @@ export async function refreshCFRTitle(
  * Refresh cache for all target CFR titles
  *
  * Processes each title sequentially to avoid overwhelming the eCFR API.
+ * Section changes are recorded in Convex when convexUrl is set.
  */
-export async function refreshCFRCache(bucket: R2Bucket): Promise<CacheRefreshResult> {
+export async function refreshCFRCache(
+  bucket: R2Bucket,
+  convexUrl?: string
+): Promise<CacheRefreshResult> {
   const startTime = Date.now();
   const results: TitleRefreshResult[] = [];
   const errors: string[] = [];
 
   let totalPartsProcessed = 0;
   let totalSectionsProcessed = 0;
+  let totalSectionsChanged = 0;
 
   console.log(`[Cache] Starting full cache refresh for ${TARGET_TITLES.length} titles`);
 
@@ -386,12 +524,18 @@ export async function refreshCFRCache(bucket: R2Bucket): Promise<CacheRefreshRes
       continue;
     }
 
-    const result = await refreshCFRTitle(bucket, titleConfig.number);
+    const result = await refreshCFRTitle(
+      bucket,
+      titleConfig.number,
+      undefined,
+      convexUrl
+    );
     results.push(result);
 
     if (result.success) {
       totalPartsProcessed += result.partsProcessed;
       totalSectionsProcessed += result.sectionsProcessed;
+      totalSectionsChanged += result.sectionsChanged;
     } else if (result.error) {
       errors.push(`Title ${titleConfig.number}: ${result.error}`);
     }
@@ -430,6 +574,7 @@ export async function refreshCFRCache(bucket: R2Bucket): Promise<CacheRefreshRes
     titlesProcessed: results.filter(r => r.success).length,
     partsProcessed: totalPartsProcessed,
     sectionsProcessed: totalSectionsProcessed,
+    sectionsChanged: totalSectionsChanged,
     durationMs,
     results,
     errors,
@@ -6,6 +6,10 @@
  * oversized sections at subsection boundaries with overlap.
  */
 
+import {
+  OPEN_EFFECTIVE_TO,
+  toEffectiveDateNumber,
+} from '@compliance-iq/shared-types';
 import type { CFRSection, CFRPart, CFRChunk } from './types';
 // Use simple token estimation to avoid CPU-intensive tiktoken initialization
 // This makes workflows compatible with Cloudflare's CPU limits
@@ -15,6 +19,7 @@ import {
   generateECFRUrl,
   generateHierarchy,
   generateChunkId,
+  generateVersionedChunkId,
   generateSourceId,
 } from '../lib/citations';
 
@@ -22,13 +27,13 @@ import {
  * Maximum tokens per chunk (well under 8192 embedding limit)
  * Provides headroom for metadata in vector store
  */
-const MAX_CHUNK_TOKENS = 1500;
+export const MAX_CHUNK_TOKENS = 1500;
 
 /**
  * Overlap ratio for splitting very long subsections
  * 15% overlap preserves cross-reference context ("as defined in paragraph (a)")
  */
-const OVERLAP_RATIO = 0.15;
+export const OVERLAP_RATIO = 0.15;
 
 /**
  * Chunk context - hierarchical information for a section
@@ -110,6 +115,7 @@ export function chunkCFRSection(
         hierarchy,
         category,
         effectiveDate: section.effectiveDate,
+        effectiveUntil: section.effectiveUntil,
         lastAmended: section.lastAmended,
         chunkIndex: 0,
         totalChunks: 1,
@@ -159,6 +165,7 @@ export function chunkCFRSection(
         hierarchy,
         category,
         effectiveDate: section.effectiveDate,
+        effectiveUntil: section.effectiveUntil,
         lastAmended: section.lastAmended,
         chunkIndex,
         totalChunks: 0, // Will be updated at end
@@ -191,6 +198,7 @@ export function chunkCFRSection(
           hierarchy,
           category,
           effectiveDate: section.effectiveDate,
+          effectiveUntil: section.effectiveUntil,
           lastAmended: section.lastAmended,
           chunkIndex,
           totalChunks: 0, // Will be updated at end
@@ -276,7 +284,7 @@ function splitAtSubsections(text: string): SubsectionPart[] {
  * @param overlapRatio Ratio of overlap between chunks (0.0 - 1.0)
  * @returns Array of text chunks with overlap
  */
-function splitWithOverlap(
+export function splitWithOverlap(
   text: string,
   maxTokens: number,
   overlapRatio: number
@@ -370,6 +378,7 @@ function splitSectionWithOverlap(
       hierarchy,
       category,
       effectiveDate: section.effectiveDate,
+      effectiveUntil: section.effectiveUntil,
       lastAmended: section.lastAmended,
       chunkIndex: i,
       totalChunks: splitTexts.length,
@@ -440,6 +449,52 @@ export function chunkCFRPart(
   return chunks;
 }
 
+/**
+ * Chunks to index for a point-in-time (as-of) snapshot
+ *
+ * Versions still in force are already in the current index, so only
+ * superseded versions are kept. Their IDs carry the version's effective
+ * date so they sit alongside the current version of the same section.
+ *
+ * @param chunks Chunks of a snapshot part (sections with effective ranges)
+ * @returns Superseded-version chunks with versioned IDs
+ */
+export function toSnapshotChunks(chunks: CFRChunk[]): CFRChunk[] {
+  return chunks
+    .filter((chunk) => chunk.effectiveDate && chunk.effectiveUntil)
+    .map((chunk) => ({
+      ...chunk,
+      chunkId: generateVersionedChunkId(chunk.chunkId, chunk.effectiveDate!),
+    }));
+}
+
+/**
+ * Pinecone metadata for a chunk's effective date range
+ *
+ * Dates are stored as YYYYMMDD numbers so retrieval can range-filter on
+ * them (see @compliance-iq/shared-types effective-dates). Undated chunks
+ * (version history unavailable) get no range.
+ *
+ * @example
+ * ```ts
+ * effectiveRangeMetadata({ effectiveDate: '2021-03-01', effectiveUntil: '2024-01-15' });
+ * // => { effectiveFrom: 20210301, effectiveTo: 20240115 }
+ * ```
+ */
+export function effectiveRangeMetadata(
+  chunk: Pick<CFRChunk, 'effectiveDate' | 'effectiveUntil'>
+): { effectiveFrom?: number; effectiveTo?: number } {
+  if (!chunk.effectiveDate) {
+    return {};
+  }
+  return {
+    effectiveFrom: toEffectiveDateNumber(chunk.effectiveDate),
+    effectiveTo: chunk.effectiveUntil
+      ? toEffectiveDateNumber(chunk.effectiveUntil)
+      : OPEN_EFFECTIVE_TO,
+  };
+}
+
 /**
  * Statistics about chunked data
  */
@@ -0,0 +1,276 @@
+/**
+ * Federal CFR Incremental Indexing
+ *
+ * Tracks what was last indexed for each CFR title so re-indexing can skip
+ * unchanged parts. The cache refresh (./cache) records an eCFR XML hash per
+ * part in the title manifest; the indexed state records the hash each part
+ * had when it was last embedded, plus the vector IDs it produced. Diffing
+ * the two gives the parts to re-chunk, re-embed and re-upsert, and the
+ * vectors to delete for sections (or whole parts) that no longer exist.
+ *
+ * Like './cache-read', this module has no XML parsing dependencies, so it
+ * is safe to use in Cloudflare Workflows.
+ *
+ * R2 layout (next to the cache):
+ *   cache/federal/title-21/
+ *     indexed.json     # Hash + vector IDs per part at last indexing
+ *     changelog.json   # Recent runs and the parts they changed
+ */
+
+import type { TitleManifest } from './cache-read';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How a part differs from what was last indexed
+ */
+export type PartChangeType = 'added' | 'changed' | 'removed';
+
+/**
+ * A part as it was last indexed
+ */
+export interface IndexedPart {
+  partNumber: number;
+  /** eCFR XML hash at indexing (unset when indexed without a part-level hash) */
+  xmlHash?: string;
+  /** Pinecone vector IDs upserted for the part */
+  chunkIds: string[];
+  indexedAt: string;
+}
+
+/**
+ * Indexed state of a title
+ */
+export interface IndexedTitleState {
+  titleNumber: number;
+  parts: IndexedPart[];
+  lastIndexed: string;
+}
+
+/**
+ * A part that needs re-indexing (or removing) since the last run
+ */
+export interface PartChange {
+  partNumber: number;
+  change: PartChangeType;
+  /** Hash when last indexed */
+  previousHash?: string;
+  /** Hash in the current manifest (unset for removed parts) */
+  xmlHash?: string;
+}
+
+/**
+ * Difference between a title manifest and its indexed state
+ */
+export interface TitleDelta {
+  changes: PartChange[];
+  /** Parts whose hash matches what was indexed */
+  unchanged: number[];
+}
+
+/**
+ * One re-indexing run in a title's change log
+ */
+export interface TitleChangeLogEntry {
+  titleNumber: number;
+  /** 'delta' skips unchanged parts; 'full' re-indexes every part */
+  mode: 'full' | 'delta';
+  runAt: string;
+  changes: Array<
+    PartChange & {
+      /** Vectors upserted for the part */
+      vectorsUpserted: number;
+      /** Vectors deleted for removed sections or parts */
+      vectorsDeleted: number;
+    }
+  >;
+  unchangedParts: number;
+}
+
+/**
+ * Entries kept in a title's change log (oldest dropped first)
+ */
+const MAX_CHANGELOG_ENTRIES = 50;
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+/**
+ * Compare a title manifest with what was last indexed
+ *
+ * Parts missing from the indexed state are added, parts whose hash differs
+ * (or was never recorded) are changed, and indexed parts no longer in the
+ * manifest are removed. Without indexed state every part is added.
+ *
+ * @example
+ * ```ts
+ * const delta = diffTitleManifest(manifest, await getIndexedState(bucket, 21));
+ * // => { changes: [{ partNumber: 117, change: 'changed', ... }], unchanged: [1, 2, ...] }
+ * ```
+ */
+export function diffTitleManifest(
+  manifest: TitleManifest,
+  indexed: IndexedTitleState | null
+): TitleDelta {
+  const previous = new Map(
+    (indexed?.parts ?? []).map((part) => [part.partNumber, part])
+  );
+  const current = new Set(manifest.parts.map((part) => part.partNumber));
+  const changes: PartChange[] = [];
+  const unchanged: number[] = [];
+
+  for (const { partNumber, xmlHash } of manifest.parts) {
+    const indexedPart = previous.get(partNumber);
+    if (!indexedPart) {
+      changes.push({ partNumber, change: 'added', xmlHash });
+    } else if (indexedPart.xmlHash !== xmlHash) {
+      changes.push({
+        partNumber,
+        change: 'changed',
+        previousHash: indexedPart.xmlHash,
+        xmlHash,
+      });
+    } else {
+      unchanged.push(partNumber);
+    }
+  }
+
+  for (const indexedPart of previous.values()) {
+    if (!current.has(indexedPart.partNumber)) {
+      changes.push({
+        partNumber: indexedPart.partNumber,
+        change: 'removed',
+        previousHash: indexedPart.xmlHash,
+      });
+    }
+  }
+
+  return { changes, unchanged };
+}
+
+/**
+ * Vector IDs indexed before that a re-indexed part no longer produces
+ *
+ * Covers removed sections and sections that now split into fewer chunks.
+ */
+export function staleChunkIds(previous: string[], current: string[]): string[] {
+  const keep = new Set(current);
+  return previous.filter((id) => !keep.has(id));
+}
+
+/**
+ * Indexed state after a run
+ *
+ * Re-indexed parts replace their previous entry, removed parts are dropped,
+ * and every other part keeps its entry - including parts that failed, so
+ * the next delta run picks them up again.
+ */
+export function updateIndexedState(
+  titleNumber: number,
+  previous: IndexedTitleState | null,
+  indexedParts: IndexedPart[],
+  removedParts: number[]
+): IndexedTitleState {
+  const parts = new Map(
+    (previous?.parts ?? []).map((part) => [part.partNumber, part])
+  );
+  for (const partNumber of removedParts) {
+    parts.delete(partNumber);
+  }
+  for (const part of indexedParts) {
+    parts.set(part.partNumber, part);
+  }
+
+  return {
+    titleNumber,
+    parts: [...parts.values()].sort((a, b) => a.partNumber - b.partNumber),
+    lastIndexed: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// R2 Storage
+// ============================================================================
+
+const CACHE_PREFIX = 'cache/federal';
+
+function getIndexedStatePath(titleNumber: number): string {
+  return `${CACHE_PREFIX}/title-${titleNumber}/indexed.json`;
+}
+
+function getChangeLogPath(titleNumber: number): string {
+  return `${CACHE_PREFIX}/title-${titleNumber}/changelog.json`;
+}
+
+/**
+ * Get a title's indexed state (null before its first recorded run)
+ */
+export async function getIndexedState(
+  bucket: R2Bucket,
+  titleNumber: number
+): Promise<IndexedTitleState | null> {
+  try {
+    const obj = await bucket.get(getIndexedStatePath(titleNumber));
+    if (!obj) return null;
+    return JSON.parse(await obj.text()) as IndexedTitleState;
+  } catch (error) {
+    console.error(
+      `[Delta] Failed to read title ${titleNumber} indexed state:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Save a title's indexed state
+ */
+export async function saveIndexedState(
+  bucket: R2Bucket,
+  state: IndexedTitleState
+): Promise<void> {
+  await bucket.put(
+    getIndexedStatePath(state.titleNumber),
+    JSON.stringify(state),
+    { httpMetadata: { contentType: 'application/json' } }
+  );
+}
+
+/**
+ * Get a title's change log, most recent run first
+ */
+export async function getChangeLog(
+  bucket: R2Bucket,
+  titleNumber: number
+): Promise<TitleChangeLogEntry[]> {
+  try {
+    const obj = await bucket.get(getChangeLogPath(titleNumber));
+    if (!obj) return [];
+    return JSON.parse(await obj.text()) as TitleChangeLogEntry[];
+  } catch (error) {
+    console.error(
+      `[Delta] Failed to read title ${titleNumber} change log:`,
+      error
+    );
+    return [];
+  }
+}
+
+/**
+ * Record a run in its title's change log
+ */
+export async function appendChangeLog(
+  bucket: R2Bucket,
+  entry: TitleChangeLogEntry
+): Promise<void> {
+  const log = await getChangeLog(bucket, entry.titleNumber);
+  const updated = [entry, ...log].slice(0, MAX_CHANGELOG_ENTRIES);
+  await bucket.put(
+    getChangeLogPath(entry.titleNumber),
+    JSON.stringify(updated, null, 2),
+    { httpMetadata: { contentType: 'application/json' } }
+  );
+}
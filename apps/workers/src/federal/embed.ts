@@ -145,11 +145,17 @@ export async function generateEmbeddings(
 }
 
 /**
- * Embedded chunk - CFR chunk with vector embedding
+ * Minimum chunk shape embedChunks needs (CFR, USC and Federal Register
+ * chunks all qualify)
  */
-export interface EmbeddedChunk {
+export type EmbeddableChunk = Pick<CFRChunk, 'chunkId' | 'text'>;
+
+/**
+ * Embedded chunk - source chunk with vector embedding
+ */
+export interface EmbeddedChunk<T extends EmbeddableChunk = CFRChunk> {
   /** Original chunk with metadata */
-  chunk: CFRChunk;
+  chunk: T;
   /** 3072-dimension embedding vector */
   embedding: number[];
 }
@@ -174,12 +180,13 @@ export interface EmbeddingStats {
 }
 
 /**
- * Embed array of CFR chunks with batching
+ * Embed array of chunks with batching
  *
  * Processes chunks in batches of 64 with 100ms delay between batches
  * to avoid rate limits. Validates token counts before each batch.
+ * Each result carries the caller's chunk type through unchanged.
  *
- * @param chunks Array of CFR chunks to embed
+ * @param chunks Array of chunks to embed (anything with chunkId and text)
  * @param apiKey OpenAI API key
  * @param onProgress Optional progress callback (current, total)
  * @returns Array of embedded chunks (chunk + embedding)
@@ -194,12 +201,12 @@ export interface EmbeddingStats {
  * );
  * ```
  */
-export async function embedChunks(
-  chunks: CFRChunk[],
+export async function embedChunks<T extends EmbeddableChunk = CFRChunk>(
+  chunks: T[],
   apiKey: string,
   onProgress?: ProgressCallback
-): Promise<EmbeddedChunk[]> {
-  const results: EmbeddedChunk[] = [];
+): Promise<EmbeddedChunk<T>[]> {
+  const results: EmbeddedChunk<T>[] = [];
   const totalBatches = Math.ceil(chunks.length / BATCH_SIZE);
   const batchTimes: number[] = [];
 
@@ -274,7 +281,9 @@ export async function embedChunks(
  * @param chunks Array of embedded chunks
  * @returns Statistics object
  */
-export function getEmbeddingStats(chunks: EmbeddedChunk[]): EmbeddingStats {
+export function getEmbeddingStats(
+  chunks: EmbeddedChunk<EmbeddableChunk>[]
+): EmbeddingStats {
   const totalChunks = chunks.length;
   const totalBatches = Math.ceil(totalChunks / BATCH_SIZE);
 
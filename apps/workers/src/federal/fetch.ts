@@ -5,6 +5,7 @@
  */
 
 import { XMLParser } from 'fast-xml-parser';
+import { isIsoDate } from '@compliance-iq/shared-types';
 
 /**
  * Custom error class for eCFR API fetch failures
@@ -33,6 +34,11 @@ const RETRY_CONFIG = {
  */
 const ECFR_BASE_URL = 'https://www.ecfr.gov/api/versioner/v1';
 
+/**
+ * Earliest point-in-time date the eCFR versioner serves
+ */
+export const ECFR_EARLIEST_DATE = '2017-01-03';
+
 /**
  * Cached date from eCFR API metadata
  */
@@ -70,6 +76,28 @@ async function getAvailableDateFromAPI(): Promise<string> {
   return cachedAvailableDate;
 }
 
+/**
+ * Date to request from the eCFR API: the as-of date for point-in-time
+ * requests, otherwise the latest available date
+ *
+ * @throws Error if asOfDate is malformed, before ECFR_EARLIEST_DATE, or in the future
+ */
+async function resolveECFRDate(asOfDate?: string): Promise<string> {
+  if (asOfDate === undefined) {
+    return getAvailableDateFromAPI();
+  }
+  if (!isIsoDate(asOfDate)) {
+    throw new Error(`Invalid as-of date "${asOfDate}" (expected YYYY-MM-DD)`);
+  }
+  if (asOfDate < ECFR_EARLIEST_DATE) {
+    throw new Error(
+      `eCFR history starts ${ECFR_EARLIEST_DATE}; cannot fetch as of ${asOfDate}`
+    );
+  }
+  const latest = await getAvailableDateFromAPI();
+  return asOfDate > latest ? latest : asOfDate;
+}
+
 /**
  * Get current date in YYYY-MM-DD format for eCFR API
  * @deprecated Use getAvailableDateFromAPI() instead for reliability
@@ -122,10 +150,14 @@ async function retryWithBackoff<T>(
  * Fetch the structure (parts list) of a CFR title from eCFR API
  *
  * @param titleNumber - CFR title number
+ * @param asOfDate - Point-in-time date (YYYY-MM-DD; default: latest available)
  * @returns Array of part numbers that exist in this title
  */
-export async function fetchCFRTitleStructure(titleNumber: number): Promise<{ parts: number[] }> {
-  const date = await getAvailableDateFromAPI();
+export async function fetchCFRTitleStructure(
+  titleNumber: number,
+  asOfDate?: string
+): Promise<{ parts: number[] }> {
+  const date = await resolveECFRDate(asOfDate);
   const url = `${ECFR_BASE_URL}/structure/${date}/title-${titleNumber}.json`;
 
   return retryWithBackoff(async () => {
@@ -231,10 +263,14 @@ export async function fetchCFRTitleList(): Promise<{ number: number; name: strin
  * Fetch full XML for a specific CFR title
  *
  * @param titleNumber - CFR title number (e.g., 21 for Food and Drugs)
+ * @param asOfDate - Point-in-time date (YYYY-MM-DD; default: latest available)
  * @returns Raw XML string
  */
-export async function fetchCFRTitle(titleNumber: number): Promise<string> {
-  const date = await getAvailableDateFromAPI();
+export async function fetchCFRTitle(
+  titleNumber: number,
+  asOfDate?: string
+): Promise<string> {
+  const date = await resolveECFRDate(asOfDate);
   const url = `${ECFR_BASE_URL}/full/${date}/title-${titleNumber}.xml`;
 
   return retryWithBackoff(async () => {
@@ -275,10 +311,15 @@ export async function fetchCFRTitle(titleNumber: number): Promise<string> {
  *
  * @param titleNumber - CFR title number
  * @param partNumber - Part number within the title
+ * @param asOfDate - Point-in-time date (YYYY-MM-DD; default: latest available)
  * @returns Raw XML string
  */
-export async function fetchCFRPart(titleNumber: number, partNumber: number): Promise<string> {
-  const date = await getAvailableDateFromAPI();
+export async function fetchCFRPart(
+  titleNumber: number,
+  partNumber: number,
+  asOfDate?: string
+): Promise<string> {
+  const date = await resolveECFRDate(asOfDate);
   const url = `${ECFR_BASE_URL}/full/${date}/title-${titleNumber}.xml?part=${partNumber}`;
 
   return retryWithBackoff(async () => {
@@ -314,6 +355,158 @@ export async function fetchCFRPart(titleNumber: number, partNumber: number): Pro
   }, `fetchCFRPart(${titleNumber}, ${partNumber})`);
 }
 
+/**
+ * A dated version of a CFR section from the eCFR versions endpoint
+ */
+export interface CFRSectionVersion {
+  /** Section number (e.g., "117.3") */
+  identifier: string;
+  /** Date the version took effect in the eCFR (YYYY-MM-DD) */
+  date: string;
+  /** Date of the amending Federal Register document */
+  amendmentDate?: string;
+  /** Whether this version removed the section */
+  removed: boolean;
+}
+
+/**
+ * Effective date range of the section version in force on a date
+ */
+export interface SectionEffectiveRange {
+  /** Date the version took effect (YYYY-MM-DD) */
+  effectiveDate: string;
+  /** Date the next version superseded it (unset while in force) */
+  effectiveUntil?: string;
+}
+
+/**
+ * Fetch the version history of every section in a CFR part
+ *
+ * @param titleNumber - CFR title number
+ * @param partNumber - Part number within the title
+ * @returns Section versions (one entry per section per amendment)
+ */
+export async function fetchCFRVersions(
+  titleNumber: number,
+  partNumber: number
+): Promise<CFRSectionVersion[]> {
+  const url = `${ECFR_BASE_URL}/versions/title-${titleNumber}.json?part=${partNumber}`;
+
+  return retryWithBackoff(async () => {
+    console.log(
+      `[eCFR] Fetching versions for title ${titleNumber} part ${partNumber}`
+    );
+
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      throw new ECFRFetchError(
+        response.status,
+        `${titleNumber}-${partNumber}`,
+        `Failed to fetch versions for CFR title ${titleNumber} part ${partNumber}: ${response.statusText}`
+      );
+    }
+
+    const data = (await response.json()) as {
+      content_versions?: Array<{
+        identifier?: string;
+        date?: string;
+        amendment_date?: string;
+        removed?: boolean;
+        type?: string;
+      }>;
+    };
+
+    return (data.content_versions ?? [])
+      .filter((v) => v.type === 'section' && v.identifier && v.date)
+      .map((v) => ({
+        identifier: v.identifier!,
+        date: v.date!,
+        amendmentDate: v.amendment_date,
+        removed: v.removed ?? false,
+      }));
+  }, `fetchCFRVersions(${titleNumber}, ${partNumber})`);
+}
+
+/**
+ * Effective date range of each section's version in force on a date
+ *
+ * A section's version in force on `asOfDate` is its latest version dated on
+ * or before it; that version is superseded by the next one, if any.
+ * Sections not yet added, or removed, on that date are omitted.
+ *
+ * @param versions - Section versions from fetchCFRVersions
+ * @param asOfDate - Point-in-time date (YYYY-MM-DD; default: latest versions)
+ * @returns Range per section number
+ *
+ * @example
+ * ```ts
+ * sectionEffectiveRanges(versions, '2023-06-01').get('117.3');
+ * // => { effectiveDate: '2021-03-01', effectiveUntil: '2024-01-15' }
+ * ```
+ */
+export function sectionEffectiveRanges(
+  versions: CFRSectionVersion[],
+  asOfDate?: string
+): Map<string, SectionEffectiveRange> {
+  const bySection = new Map<string, CFRSectionVersion[]>();
+  for (const version of versions) {
+    const list = bySection.get(version.identifier) ?? [];
+    list.push(version);
+    bySection.set(version.identifier, list);
+  }
+
+  const ranges = new Map<string, SectionEffectiveRange>();
+  for (const [section, list] of bySection) {
+    const sorted = [...list].sort((a, b) => a.date.localeCompare(b.date));
+    let inForceIdx = sorted.length - 1;
+    while (asOfDate && inForceIdx >= 0 && sorted[inForceIdx]!.date > asOfDate) {
+      inForceIdx--;
+    }
+    const inForce = sorted[inForceIdx];
+    if (!inForce || inForce.removed) {
+      continue;
+    }
+    const next = sorted
+      .slice(inForceIdx + 1)
+      .find((v) => v.date > inForce.date);
+    ranges.set(section, {
+      effectiveDate: inForce.date,
+      ...(next ? { effectiveUntil: next.date } : {}),
+    });
+  }
+
+  return ranges;
+}
+
+/**
+ * Fetch a part's version history and resolve each section's effective range
+ *
+ * Best-effort: returns null (and logs) if the versions endpoint fails, so
+ * callers can cache or index the part without dates.
+ *
+ * @param titleNumber - CFR title number
+ * @param partNumber - Part number within the title
+ * @param asOfDate - Point-in-time date (YYYY-MM-DD; default: latest versions)
+ * @returns Range per section number, or null if unavailable
+ */
+export async function fetchSectionEffectiveRanges(
+  titleNumber: number,
+  partNumber: number,
+  asOfDate?: string
+): Promise<Map<string, SectionEffectiveRange> | null> {
+  try {
+    const versions = await fetchCFRVersions(titleNumber, partNumber);
+    return sectionEffectiveRanges(versions, asOfDate);
+  } catch (error) {
+    console.warn(
+      `[eCFR] Version history unavailable for title ${titleNumber} part ${partNumber}, sections left undated:`,
+      error
+    );
+    return null;
+  }
+}
+
 /**
  * CFR structure types
  */
@@ -336,6 +529,7 @@ export interface CFRSection {
   text: string;
   subsections?: CFRSubsection[];
   effectiveDate?: string;
+  effectiveUntil?: string;
   lastAmended?: string;
 }
 
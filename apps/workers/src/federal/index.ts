@@ -9,13 +9,28 @@
 export { TARGET_TITLES, type CFRTitleConfig, type CFRChunk, type CFRPart, type CFRSection } from './types';
 
 // Fetch
-export { fetchCFRTitle, fetchCFRPart, parseCFRXML } from './fetch';
+export {
+  fetchCFRTitle,
+  fetchCFRPart,
+  parseCFRXML,
+  fetchCFRVersions,
+  sectionEffectiveRanges,
+  fetchSectionEffectiveRanges,
+  ECFR_EARLIEST_DATE,
+  type CFRSectionVersion,
+  type SectionEffectiveRange,
+} from './fetch';
 
 // Storage
 export { storeCFRPart, saveCheckpoint, loadCheckpoint, clearCheckpoint } from './storage';
 
 // Chunking
-export { chunkCFRSection, chunkCFRPart } from './chunk';
+export {
+  chunkCFRSection,
+  chunkCFRPart,
+  toSnapshotChunks,
+  effectiveRangeMetadata,
+} from './chunk';
 
 // Embedding
 export { embedChunks, generateEmbeddings } from './embed';
@@ -39,6 +54,24 @@ export type {
   TitleRefreshResult,
 } from './cache';
 
+// Incremental indexing (part hash diffs against the last indexed run)
+export {
+  diffTitleManifest,
+  staleChunkIds,
+  getIndexedState,
+  getChangeLog,
+} from './delta';
+export type {
+  IndexedTitleState,
+  PartChange,
+  TitleDelta,
+  TitleChangeLogEntry,
+} from './delta';
+
 // Pipeline orchestration
 export { processCFRTitle, processAllFederalTitles } from './pipeline';
-export type { PipelineResult, BatchPipelineResult } from './pipeline';
+export type {
+  PipelineResult,
+  BatchPipelineResult,
+  PipelineOptions,
+} from './pipeline';
@@ -17,16 +17,60 @@
  *    e) Save checkpoint
  * 5. Clear checkpoint on completion
  * 6. Sync freshness to Convex
+ *
+ * Delta mode (`{ delta: true }`) instead refreshes the R2 part cache, which
+ * hashes each part's eCFR XML, and only re-indexes parts whose hash changed
+ * since the last indexed run, deleting vectors for removed sections and
+ * parts (see ./delta.ts).
+ *
+ * With `{ asOfDate }`, the title is fetched as of that date and only section
+ * versions superseded since are indexed, under versioned chunk IDs and
+ * tagged with their effective date range, next to the current version
+ * (see chunk.ts toSnapshotChunks). Checkpoints, raw XML storage, and source
+ * registration apply to the current version only.
  */
 
+import type { Index } from '@pinecone-database/pinecone';
 import type { Env } from '../types';
 import { TARGET_TITLES, getCategoriesForTitle } from './types';
-import { fetchCFRTitle, parseCFRXML } from './fetch';
-import { storeCFRPart, saveCheckpoint, loadCheckpoint, clearCheckpoint } from './storage';
-import { chunkCFRPart } from './chunk';
+import {
+  fetchCFRTitle,
+  parseCFRXML,
+  fetchSectionEffectiveRanges,
+} from './fetch';
+import {
+  storeCFRPart,
+  saveCheckpoint,
+  loadCheckpoint,
+  clearCheckpoint,
+} from './storage';
+import {
+  chunkCFRPart,
+  toSnapshotChunks,
+  effectiveRangeMetadata,
+} from './chunk';
 import type { CFRPart, CFRSection } from './types';
 import { embedChunks } from './embed';
-import { initPinecone, getIndex, upsertChunks } from '../pinecone';
+import { refreshCFRTitle, getTitleManifest, getCachedPart } from './cache';
+import {
+  appendChangeLog,
+  diffTitleManifest,
+  getIndexedState,
+  saveIndexedState,
+  staleChunkIds,
+  updateIndexedState,
+  type IndexedPart,
+  type TitleChangeLogEntry,
+} from './delta';
+import {
+  initPinecone,
+  getIndex,
+  upsertChunks,
+  deleteChunks,
+  type ChunkMetadata,
+} from '../pinecone';
+import { registerSource, federalTitleSource } from '../lib/sources';
+import { DELETE_BATCH_SIZE } from '../workflows/utils/constants';
 
 /**
  * Result of processing a single CFR title
@@ -42,12 +86,26 @@ export interface PipelineResult {
   chunksCreated: number;
   /** Total vectors upserted to Pinecone */
   vectorsUpserted: number;
+  /** Parts skipped in delta mode (hash unchanged) */
+  partsUnchanged?: number;
+  /** Vectors deleted for removed sections or parts (delta mode) */
+  vectorsDeleted?: number;
   /** Processing duration in milliseconds */
   durationMs: number;
   /** Errors encountered (if any) */
   errors?: string[];
 }
 
+/**
+ * Options for processing CFR titles
+ */
+export interface PipelineOptions {
+  /** Only re-index parts whose eCFR hash changed since the last run */
+  delta?: boolean;
+  /** Index the point-in-time version of this date (YYYY-MM-DD) */
+  asOfDate?: string;
+}
+
 /**
  * Result of processing all federal titles
  */
@@ -75,6 +133,7 @@ export interface BatchPipelineResult {
  *
  * @param titleNumber CFR title number (e.g., 21 for Food and Drugs)
  * @param env Cloudflare Worker environment bindings
+ * @param options Pipeline options (delta mode, as-of date)
  * @returns Pipeline result with statistics
  *
  * @example
@@ -85,19 +144,37 @@ export interface BatchPipelineResult {
  */
 export async function processCFRTitle(
   titleNumber: number,
-  env: Env
+  env: Env,
+  options: PipelineOptions = {}
 ): Promise<PipelineResult> {
+  const { asOfDate } = options;
+  if (options.delta && asOfDate) {
+    throw new Error(
+      'Delta mode re-indexes the current version only; omit asOfDate'
+    );
+  }
+  if (options.delta) {
+    return processCFRTitleDelta(titleNumber, env);
+  }
+
   const startTime = Date.now();
   const errors: string[] = [];
+  const snapshot = asOfDate !== undefined;
+  const ecfrDate =
+    asOfDate ?? (new Date().toISOString().split('T')[0] as string);
   let partsProcessed = 0;
   let chunksCreated = 0;
   let vectorsUpserted = 0;
 
-  console.log(`[Pipeline] Processing CFR Title ${titleNumber}`);
+  console.log(
+    `[Pipeline] Processing CFR Title ${titleNumber}${snapshot ? ` as of ${asOfDate}` : ''}`
+  );
 
   try {
     // Load checkpoint (if exists)
-    const checkpoint = await loadCheckpoint(env.DOCUMENTS_BUCKET, titleNumber);
+    const checkpoint = snapshot
+      ? null
+      : await loadCheckpoint(env.DOCUMENTS_BUCKET, titleNumber);
     const resumeFromPart = checkpoint?.lastProcessedPart ?? 0;
 
     if (checkpoint) {
@@ -107,7 +184,7 @@ export async function processCFRTitle(
     }
 
     // Fetch and parse title XML
-    const xml = await fetchCFRTitle(titleNumber);
+    const xml = await fetchCFRTitle(titleNumber, asOfDate);
     const parsed = parseCFRXML(xml);
 
     console.log(`[Pipeline] Parsed title ${titleNumber}: ${parsed.parts.length} parts`);
@@ -132,7 +209,21 @@ export async function processCFRTitle(
         console.log(`[Pipeline] Processing part ${parsedPart.number} (${parsedPart.sections.length} sections)`);
 
         // Store parsed part data in R2 (not re-fetching XML)
-        await storeCFRPart(env.DOCUMENTS_BUCKET, titleNumber, parsedPart.number, JSON.stringify(parsedPart));
+        if (!snapshot) {
+          await storeCFRPart(
+            env.DOCUMENTS_BUCKET,
+            titleNumber,
+            parsedPart.number,
+            JSON.stringify(parsedPart)
+          );
+        }
+
+        // Effective range of each section's version (best-effort)
+        const ranges = await fetchSectionEffectiveRanges(
+          titleNumber,
+          parsedPart.number,
+          ecfrDate
+        );
 
         // Convert parsed sections to expected format (heading -> title)
         const sections: CFRSection[] = parsedPart.sections.map(s => ({
@@ -140,7 +231,9 @@ export async function processCFRTitle(
           title: s.heading, // Map 'heading' to 'title'
           text: s.text,
           subsections: s.subsections,
-          effectiveDate: s.effectiveDate,
+          effectiveDate:
+            ranges?.get(s.number)?.effectiveDate ?? s.effectiveDate,
+          effectiveUntil: ranges?.get(s.number)?.effectiveUntil,
           lastAmended: s.lastAmended,
         }));
 
@@ -151,54 +244,35 @@ export async function processCFRTitle(
           sections,
         };
 
-        // Chunk sections
-        const chunks = chunkCFRPart(part, {
+        // Chunk, embed, and upsert
+        const chunkIds = await indexCFRPart(
+          part,
           titleNumber,
-          titleName: parsed.name,
-          chapter: 'I', // Simplified for MVP - would extract from XML
+          parsed.name,
           category,
-        });
-
-        chunksCreated += chunks.length;
-
-        // Generate embeddings
-        const embedded = await embedChunks(chunks, env.OPENAI_API_KEY);
-
-        // Prepare Pinecone records
-        const records = embedded.map(({ chunk, embedding }) => ({
-          id: chunk.chunkId,
-          values: embedding,
-          metadata: {
-            chunkId: chunk.chunkId,
-            sourceId: chunk.sourceId,
-            sourceType: 'federal' as const,
-            jurisdiction: 'US',
-            text: chunk.text,
-            citation: chunk.citation,
-            chunkIndex: chunk.chunkIndex,
-            totalChunks: chunk.totalChunks,
-            ...(chunk.category ? { category: chunk.category } : {}), // Only include if defined
-            indexedAt: new Date().toISOString(),
-          },
-        }));
+          env,
+          index,
+          snapshot
+        );
 
-        // Upsert to Pinecone
-        await upsertChunks(index, records);
-        vectorsUpserted += records.length;
+        chunksCreated += chunkIds.length;
+        vectorsUpserted += chunkIds.length;
 
         partsProcessed++;
 
         // Save checkpoint after successful part
-        await saveCheckpoint(env.DOCUMENTS_BUCKET, titleNumber, {
-          titleNumber,
-          lastProcessedPart: parsedPart.number,
-          timestamp: new Date().toISOString(),
-          chunksProcessed: chunksCreated,
-          status: 'in_progress',
-        });
+        if (!snapshot) {
+          await saveCheckpoint(env.DOCUMENTS_BUCKET, titleNumber, {
+            titleNumber,
+            lastProcessedPart: parsedPart.number,
+            timestamp: new Date().toISOString(),
+            chunksProcessed: chunksCreated,
+            status: 'in_progress',
+          });
+        }
 
         console.log(
-          `[Pipeline] Part ${parsedPart.number} complete: ${chunks.length} chunks, ${records.length} vectors`
+          `[Pipeline] Part ${parsedPart.number} complete: ${chunkIds.length} chunks, ${chunkIds.length} vectors`
         );
       } catch (error) {
         const errorMessage = `Part ${parsedPart.number} failed: ${
@@ -208,22 +282,37 @@ export async function processCFRTitle(
         console.error(`[Pipeline] ${errorMessage}`);
 
         // Save failed checkpoint
-        await saveCheckpoint(env.DOCUMENTS_BUCKET, titleNumber, {
-          titleNumber,
-          lastProcessedPart: parsedPart.number - 1, // Resume from previous part
-          timestamp: new Date().toISOString(),
-          chunksProcessed: chunksCreated,
-          status: 'failed',
-          error: errorMessage,
-        });
+        if (!snapshot) {
+          await saveCheckpoint(env.DOCUMENTS_BUCKET, titleNumber, {
+            titleNumber,
+            lastProcessedPart: parsedPart.number - 1, // Resume from previous part
+            timestamp: new Date().toISOString(),
+            chunksProcessed: chunksCreated,
+            status: 'failed',
+            error: errorMessage,
+          });
+        }
 
         // Continue with next part (don't fail entire title)
         continue;
       }
     }
 
-    // Clear checkpoint on successful completion
-    await clearCheckpoint(env.DOCUMENTS_BUCKET, titleNumber);
+    if (!snapshot) {
+      // Clear checkpoint on successful completion
+      await clearCheckpoint(env.DOCUMENTS_BUCKET, titleNumber);
+
+      // Register title in Convex sources (best-effort)
+      await registerSource(
+        env.CONVEX_URL,
+        federalTitleSource(
+          titleNumber,
+          parsed.name,
+          errors.length === 0 ? 'complete' : 'error',
+          vectorsUpserted
+        )
+      );
+    }
 
     const durationMs = Date.now() - startTime;
     console.log(
@@ -258,6 +347,248 @@ export async function processCFRTitle(
   }
 }
 
+/**
+ * Chunk, embed, and upsert a single CFR part
+ *
+ * Snapshot parts keep only superseded section versions (see toSnapshotChunks).
+ *
+ * @returns IDs of the vectors upserted for the part
+ */
+async function indexCFRPart(
+  part: CFRPart,
+  titleNumber: number,
+  titleName: string,
+  category: string | undefined,
+  env: Env,
+  index: Index<ChunkMetadata>,
+  snapshot = false
+): Promise<string[]> {
+  // Chunk sections
+  const allChunks = chunkCFRPart(part, {
+    titleNumber,
+    titleName,
+    chapter: 'I', // Simplified for MVP - would extract from XML
+    category,
+  });
+  const chunks = snapshot ? toSnapshotChunks(allChunks) : allChunks;
+  if (chunks.length === 0) {
+    return [];
+  }
+
+  // Generate embeddings
+  const embedded = await embedChunks(chunks, env.OPENAI_API_KEY);
+
+  // Prepare Pinecone records
+  const records = embedded.map(({ chunk, embedding }) => ({
+    id: chunk.chunkId,
+    values: embedding,
+    metadata: {
+      chunkId: chunk.chunkId,
+      sourceId: chunk.sourceId,
+      sourceType: 'federal' as const,
+      jurisdiction: 'US',
+      text: chunk.text,
+      citation: chunk.citation,
+      chunkIndex: chunk.chunkIndex,
+      totalChunks: chunk.totalChunks,
+      ...(chunk.category ? { category: chunk.category } : {}), // Only include if defined
+      ...effectiveRangeMetadata(chunk),
+      indexedAt: new Date().toISOString(),
+    },
+  }));
+
+  // Upsert to Pinecone
+  await upsertChunks(index, records);
+
+  return records.map((record) => record.id);
+}
+
+/**
+ * Re-index only the parts of a CFR title that changed since the last run
+ *
+ * Refreshes the title's R2 cache (which hashes each part's eCFR XML and
+ * only re-parses changed parts), diffs the part hashes against the indexed
+ * state, and chunks, embeds, and upserts changed and added parts from the
+ * cache. Vectors for removed sections and parts are deleted, and the run is
+ * recorded in the title's change log. Parts that fail keep their previous
+ * indexed state, so the next run retries them.
+ *
+ * @param titleNumber CFR title number
+ * @param env Cloudflare Worker environment bindings
+ * @returns Pipeline result; an unchanged title upserts nothing
+ */
+async function processCFRTitleDelta(
+  titleNumber: number,
+  env: Env
+): Promise<PipelineResult> {
+  const startTime = Date.now();
+  const errors: string[] = [];
+  let partsProcessed = 0;
+  let chunksCreated = 0;
+  let vectorsDeleted = 0;
+
+  console.log(`[Pipeline] Processing CFR Title ${titleNumber} (delta)`);
+
+  try {
+    // Refresh the part cache (computes per-part XML hashes)
+    const refresh = await refreshCFRTitle(env.DOCUMENTS_BUCKET, titleNumber);
+    if (!refresh.success) {
+      throw new Error(
+        `Cache refresh failed: ${refresh.error ?? 'Unknown error'}`
+      );
+    }
+
+    const manifest = await getTitleManifest(env.DOCUMENTS_BUCKET, titleNumber);
+    if (!manifest) {
+      throw new Error(`No cached manifest for title ${titleNumber}`);
+    }
+
+    // Diff part hashes against the last indexed run
+    const previous = await getIndexedState(env.DOCUMENTS_BUCKET, titleNumber);
+    const { changes, unchanged } = diffTitleManifest(manifest, previous);
+
+    console.log(
+      `[Pipeline] Title ${titleNumber}: ${changes.length} parts changed, ${unchanged.length} unchanged`
+    );
+
+    const category = getCategoriesForTitle(titleNumber)[0];
+    const pinecone = initPinecone(env.PINECONE_API_KEY);
+    const index = getIndex(pinecone);
+
+    const indexedParts: IndexedPart[] = [];
+    const removedParts: number[] = [];
+    const logged: TitleChangeLogEntry['changes'] = [];
+
+    for (const change of changes) {
+      const before = previous?.parts.find(
+        (p) => p.partNumber === change.partNumber
+      );
+
+      try {
+        let chunkIds: string[] = [];
+
+        if (change.change !== 'removed') {
+          const cached = await getCachedPart(
+            env.DOCUMENTS_BUCKET,
+            titleNumber,
+            change.partNumber
+          );
+          if (!cached) {
+            throw new Error('Cache miss');
+          }
+
+          chunkIds = await indexCFRPart(
+            {
+              number: cached.partNumber,
+              name: cached.partName,
+              sections: cached.sections,
+            },
+            titleNumber,
+            cached.titleName,
+            category,
+            env,
+            index
+          );
+          indexedParts.push({
+            partNumber: change.partNumber,
+            xmlHash: cached.metadata.xmlHash,
+            chunkIds,
+            indexedAt: new Date().toISOString(),
+          });
+          chunksCreated += chunkIds.length;
+          partsProcessed++;
+        } else {
+          removedParts.push(change.partNumber);
+        }
+
+        // Delete vectors the part no longer produces
+        const stale = staleChunkIds(before?.chunkIds ?? [], chunkIds);
+        for (let i = 0; i < stale.length; i += DELETE_BATCH_SIZE) {
+          await deleteChunks(index, stale.slice(i, i + DELETE_BATCH_SIZE));
+        }
+        vectorsDeleted += stale.length;
+
+        logged.push({
+          ...change,
+          vectorsUpserted: chunkIds.length,
+          vectorsDeleted: stale.length,
+        });
+
+        console.log(
+          `[Pipeline] Part ${change.partNumber} ${change.change}: ${chunkIds.length} vectors upserted, ${stale.length} deleted`
+        );
+      } catch (error) {
+        const errorMessage = `Part ${change.partNumber} failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`;
+        errors.push(errorMessage);
+        console.error(`[Pipeline] ${errorMessage}`);
+      }
+    }
+
+    // Record indexed hashes and the change log
+    await saveIndexedState(
+      env.DOCUMENTS_BUCKET,
+      updateIndexedState(titleNumber, previous, indexedParts, removedParts)
+    );
+    await appendChangeLog(env.DOCUMENTS_BUCKET, {
+      titleNumber,
+      mode: 'delta',
+      runAt: new Date().toISOString(),
+      changes: logged,
+      unchangedParts: unchanged.length,
+    });
+
+    // Register title in Convex sources (best-effort)
+    await registerSource(
+      env.CONVEX_URL,
+      federalTitleSource(
+        titleNumber,
+        manifest.titleName,
+        errors.length === 0 ? 'complete' : 'error',
+        chunksCreated
+      )
+    );
+
+    const durationMs = Date.now() - startTime;
+    console.log(
+      `[Pipeline] Title ${titleNumber} delta complete: ${chunksCreated} vectors upserted, ${vectorsDeleted} deleted in ${durationMs}ms`
+    );
+
+    return {
+      titleNumber,
+      success: errors.length === 0,
+      partsProcessed,
+      partsUnchanged: unchanged.length,
+      chunksCreated,
+      vectorsUpserted: chunksCreated,
+      vectorsDeleted,
+      durationMs,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  } catch (error) {
+    const durationMs = Date.now() - startTime;
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    errors.push(errorMessage);
+
+    console.error(
+      `[Pipeline] Title ${titleNumber} delta failed: ${errorMessage}`
+    );
+
+    return {
+      titleNumber,
+      success: false,
+      partsProcessed,
+      chunksCreated,
+      vectorsUpserted: chunksCreated,
+      vectorsDeleted,
+      durationMs,
+      errors,
+    };
+  }
+}
+
 /**
  * Process all enabled federal CFR titles
  *
@@ -265,6 +596,7 @@ export async function processCFRTitle(
  * Continues processing even if individual titles fail.
  *
  * @param env Cloudflare Worker environment bindings
+ * @param options Pipeline options (delta mode, as-of date)
  * @returns Batch pipeline result with aggregated statistics
  *
  * @example
@@ -273,7 +605,10 @@ export async function processCFRTitle(
  * console.log(`Processed ${result.titlesProcessed} titles, ${result.totalVectors} total vectors`);
  * ```
  */
-export async function processAllFederalTitles(env: Env): Promise<BatchPipelineResult> {
+export async function processAllFederalTitles(
+  env: Env,
+  options: PipelineOptions = {}
+): Promise<BatchPipelineResult> {
   const startTime = Date.now();
   const results: PipelineResult[] = [];
 
@@ -287,7 +622,7 @@ export async function processAllFederalTitles(env: Env): Promise<BatchPipelineRe
     }
 
     try {
-      const result = await processCFRTitle(titleConfig.number, env);
+      const result = await processCFRTitle(titleConfig.number, env, options);
       results.push(result);
 
       console.log(
@@ -59,6 +59,8 @@ export interface CFRSection {
   subsections?: CFRSubsection[];
   /** Date this section became effective */
   effectiveDate?: string;
+  /** Date this version was superseded (unset while in force) */
+  effectiveUntil?: string;
   /** Date this section was last amended */
   lastAmended?: string;
 }
@@ -115,6 +117,9 @@ export interface CFRChunk {
   /** Date this section became effective */
   effectiveDate?: string;
 
+  /** Date this version was superseded (unset while in force) */
+  effectiveUntil?: string;
+
   /** Date this section was last amended */
   lastAmended?: string;
 
@@ -0,0 +1,185 @@
+/**
+ * U.S. Code Cache Reading Functions
+ *
+ * Lightweight module for reading cached USC data from R2.
+ * This module has NO dependencies on XML parsing, making it safe
+ * to use in Cloudflare Workflows without CPU limit issues.
+ *
+ * For cache refresh operations, use './cache' instead.
+ */
+
+import type { CFRSection } from '../types';
+import { isCacheValid } from '../cache-read';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Cached USC Chapter - Pre-parsed and ready for chunking
+ */
+export interface CachedUSCChapter {
+  titleNumber: number;
+  titleName: string;
+  chapterNumber: string;
+  chapterName: string;
+  sections: CFRSection[];
+  metadata: {
+    fetchedAt: string;
+    /** OLRC release point the chapter was parsed from */
+    releasePoint: string;
+    contentHash: string;
+    sectionCount: number;
+  };
+}
+
+/**
+ * USC title-level manifest
+ */
+export interface USCTitleManifest {
+  titleNumber: number;
+  titleName: string;
+  chapters: {
+    chapterNumber: string;
+    chapterName: string;
+    sectionCount: number;
+    contentHash: string;
+    cachedAt: string;
+  }[];
+  lastRefresh: string;
+  releasePoint: string;
+}
+
+/**
+ * Global USC cache manifest
+ */
+export interface USCCacheManifest {
+  version: string;
+  titles: {
+    titleNumber: number;
+    titleName: string;
+    chapterCount: number;
+    releasePoint: string;
+    lastUpdated: string;
+  }[];
+  lastRefresh: string;
+}
+
+// ============================================================================
+// Cache Paths
+// ============================================================================
+
+const CACHE_PREFIX = 'cache/usc';
+
+function getCacheManifestPath(): string {
+  return `${CACHE_PREFIX}/manifest.json`;
+}
+
+function getTitleManifestPath(titleNumber: number): string {
+  return `${CACHE_PREFIX}/title-${titleNumber}/manifest.json`;
+}
+
+function getChapterCachePath(
+  titleNumber: number,
+  chapterNumber: string
+): string {
+  return `${CACHE_PREFIX}/title-${titleNumber}/chapter-${chapterNumber}.json`;
+}
+
+// ============================================================================
+// Cache Read Functions
+// ============================================================================
+
+/**
+ * Get the global USC cache manifest
+ */
+export async function getUSCCacheManifest(
+  bucket: R2Bucket
+): Promise<USCCacheManifest | null> {
+  try {
+    const obj = await bucket.get(getCacheManifestPath());
+    if (!obj) return null;
+    const text = await obj.text();
+    return JSON.parse(text) as USCCacheManifest;
+  } catch (error) {
+    console.error('[USC Cache] Failed to read cache manifest:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a USC title's manifest
+ */
+export async function getUSCTitleManifest(
+  bucket: R2Bucket,
+  titleNumber: number
+): Promise<USCTitleManifest | null> {
+  try {
+    const obj = await bucket.get(getTitleManifestPath(titleNumber));
+    if (!obj) return null;
+    const text = await obj.text();
+    return JSON.parse(text) as USCTitleManifest;
+  } catch (error) {
+    console.error(
+      `[USC Cache] Failed to read title ${titleNumber} manifest:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Get a cached USC chapter
+ */
+export async function getCachedUSCChapter(
+  bucket: R2Bucket,
+  titleNumber: number,
+  chapterNumber: string
+): Promise<CachedUSCChapter | null> {
+  try {
+    const obj = await bucket.get(
+      getChapterCachePath(titleNumber, chapterNumber)
+    );
+    if (!obj) return null;
+    const text = await obj.text();
+    return JSON.parse(text) as CachedUSCChapter;
+  } catch (error) {
+    console.error(
+      `[USC Cache] Failed to read cached chapter ${titleNumber}/${chapterNumber}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Get USC cache status summary
+ */
+export async function getUSCCacheStatus(bucket: R2Bucket): Promise<{
+  hasCachedData: boolean;
+  manifest: USCCacheManifest | null;
+  titles: {
+    titleNumber: number;
+    titleName: string;
+    chapterCount: number;
+    releasePoint: string;
+    lastUpdated: string;
+    isStale: boolean;
+  }[];
+}> {
+  const manifest = await getUSCCacheManifest(bucket);
+
+  if (!manifest) {
+    return { hasCachedData: false, manifest: null, titles: [] };
+  }
+
+  return {
+    hasCachedData: true,
+    manifest,
+    titles: manifest.titles.map((t) => ({
+      ...t,
+      // OLRC release points change far less often than the eCFR
+      isStale: !isCacheValid(t.lastUpdated, 30),
+    })),
+  };
+}
@@ -0,0 +1,289 @@
+/**
+ * U.S. Code Cache Management
+ *
+ * Downloads and parses USLM XML outside of workflows and caches each
+ * chapter as JSON in R2, mirroring the CFR cache (see ../cache.ts).
+ *
+ * For workflows (which have CPU limits), use './cache-read' directly
+ * as it has no XML parsing dependencies.
+ *
+ * Cache structure:
+ *   cache/usc/
+ *     manifest.json                  # Global manifest with release points
+ *     title-21/
+ *       manifest.json                # Chapter list, hashes, release point
+ *       chapter-9.json               # Parsed USCChapter (JSON)
+ *       chapter-13.json
+ */
+
+import { computeXMLHash } from '../cache';
+import { fetchUSCTitleChapters, USC_RELEASE_POINT } from './fetch';
+import { USC_TARGET_TITLES, getEnabledUSCTitles } from './types';
+
+// Re-export all read functions and types from cache-read
+export {
+  getUSCCacheManifest,
+  getUSCTitleManifest,
+  getCachedUSCChapter,
+  getUSCCacheStatus,
+  type CachedUSCChapter,
+  type USCTitleManifest,
+  type USCCacheManifest,
+} from './cache-read';
+
+// Import for internal use
+import {
+  getUSCCacheManifest,
+  type CachedUSCChapter,
+  type USCTitleManifest,
+  type USCCacheManifest,
+} from './cache-read';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Result from refreshing a single USC title
+ */
+export interface USCTitleRefreshResult {
+  success: boolean;
+  titleNumber: number;
+  releasePoint: string;
+  chaptersProcessed: number;
+  sectionsProcessed: number;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Result from refreshing all USC titles
+ */
+export interface USCCacheRefreshResult {
+  success: boolean;
+  titlesProcessed: number;
+  chaptersProcessed: number;
+  sectionsProcessed: number;
+  durationMs: number;
+  results: USCTitleRefreshResult[];
+  errors: string[];
+}
+
+// ============================================================================
+// Cache Paths
+// ============================================================================
+
+const CACHE_PREFIX = 'cache/usc';
+
+function getCacheManifestPath(): string {
+  return `${CACHE_PREFIX}/manifest.json`;
+}
+
+function getTitleManifestPath(titleNumber: number): string {
+  return `${CACHE_PREFIX}/title-${titleNumber}/manifest.json`;
+}
+
+function getChapterCachePath(
+  titleNumber: number,
+  chapterNumber: string
+): string {
+  return `${CACHE_PREFIX}/title-${titleNumber}/chapter-${chapterNumber}.json`;
+}
+
+// ============================================================================
+// Cache Write Functions
+// ============================================================================
+
+async function putJSON(
+  bucket: R2Bucket,
+  key: string,
+  value: unknown
+): Promise<void> {
+  await bucket.put(key, JSON.stringify(value, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+}
+
+/**
+ * Update a title's entry in the global manifest
+ */
+async function updateGlobalManifest(
+  bucket: R2Bucket,
+  titleManifest: USCTitleManifest
+): Promise<void> {
+  const manifest: USCCacheManifest = (await getUSCCacheManifest(bucket)) ?? {
+    version: '1.0',
+    titles: [],
+    lastRefresh: '',
+  };
+
+  const entry = {
+    titleNumber: titleManifest.titleNumber,
+    titleName: titleManifest.titleName,
+    chapterCount: titleManifest.chapters.length,
+    releasePoint: titleManifest.releasePoint,
+    lastUpdated: titleManifest.lastRefresh,
+  };
+  manifest.titles = [
+    ...manifest.titles.filter((t) => t.titleNumber !== entry.titleNumber),
+    entry,
+  ].sort((a, b) => a.titleNumber - b.titleNumber);
+  manifest.lastRefresh = titleManifest.lastRefresh;
+
+  await putJSON(bucket, getCacheManifestPath(), manifest);
+}
+
+// ============================================================================
+// Cache Refresh Functions
+// ============================================================================
+
+/**
+ * Refresh cache for a single USC title
+ *
+ * Downloads the title's USLM archive for a release point, parses it chapter
+ * by chapter, and stores each chapter as JSON in R2. Chapters are written
+ * as they are parsed so large titles never sit in memory whole.
+ */
+export async function refreshUSCTitle(
+  bucket: R2Bucket,
+  titleNumber: number,
+  releasePoint: string = USC_RELEASE_POINT
+): Promise<USCTitleRefreshResult> {
+  const startTime = Date.now();
+  let sectionsProcessed = 0;
+  const chapters: USCTitleManifest['chapters'] = [];
+
+  try {
+    console.log(
+      `[USC Cache] Refreshing title ${titleNumber} (release point ${releasePoint})`
+    );
+
+    const titleName =
+      USC_TARGET_TITLES.find((t) => t.number === titleNumber)?.name ??
+      `Title ${titleNumber}`;
+
+    for await (const chapter of fetchUSCTitleChapters(titleNumber, {
+      releasePoint,
+    })) {
+      const now = new Date().toISOString();
+      const contentHash = await computeXMLHash(
+        JSON.stringify(chapter.sections)
+      );
+
+      const cached: CachedUSCChapter = {
+        titleNumber,
+        titleName,
+        chapterNumber: chapter.number,
+        chapterName: chapter.name,
+        sections: chapter.sections,
+        metadata: {
+          fetchedAt: now,
+          releasePoint,
+          contentHash,
+          sectionCount: chapter.sections.length,
+        },
+      };
+      await putJSON(
+        bucket,
+        getChapterCachePath(titleNumber, chapter.number),
+        cached
+      );
+
+      chapters.push({
+        chapterNumber: chapter.number,
+        chapterName: chapter.name,
+        sectionCount: chapter.sections.length,
+        contentHash,
+        cachedAt: now,
+      });
+      sectionsProcessed += chapter.sections.length;
+    }
+
+    if (chapters.length === 0) {
+      throw new Error(`No chapters found in title ${titleNumber}`);
+    }
+
+    const titleManifest: USCTitleManifest = {
+      titleNumber,
+      titleName,
+      chapters,
+      lastRefresh: new Date().toISOString(),
+      releasePoint,
+    };
+    await putJSON(bucket, getTitleManifestPath(titleNumber), titleManifest);
+    await updateGlobalManifest(bucket, titleManifest);
+
+    const durationMs = Date.now() - startTime;
+    console.log(
+      `[USC Cache] Title ${titleNumber} refresh complete: ${chapters.length} chapters, ${sectionsProcessed} sections in ${durationMs}ms`
+    );
+
+    return {
+      success: true,
+      titleNumber,
+      releasePoint,
+      chaptersProcessed: chapters.length,
+      sectionsProcessed,
+      durationMs,
+    };
+  } catch (error) {
+    const durationMs = Date.now() - startTime;
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[USC Cache] Failed to refresh title ${titleNumber}:`, error);
+
+    return {
+      success: false,
+      titleNumber,
+      releasePoint,
+      chaptersProcessed: chapters.length,
+      sectionsProcessed,
+      durationMs,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Refresh cache for all enabled USC titles
+ *
+ * Processes each title sequentially to keep memory bounded.
+ */
+export async function refreshUSCCache(
+  bucket: R2Bucket,
+  releasePoint: string = USC_RELEASE_POINT
+): Promise<USCCacheRefreshResult> {
+  const startTime = Date.now();
+  const results: USCTitleRefreshResult[] = [];
+  const errors: string[] = [];
+
+  for (const titleConfig of getEnabledUSCTitles()) {
+    const result = await refreshUSCTitle(
+      bucket,
+      titleConfig.number,
+      releasePoint
+    );
+    results.push(result);
+    if (!result.success && result.error) {
+      errors.push(`Title ${titleConfig.number}: ${result.error}`);
+    }
+  }
+
+  const succeeded = results.filter((r) => r.success);
+
+  return {
+    success: errors.length === 0,
+    titlesProcessed: succeeded.length,
+    chaptersProcessed: succeeded.reduce(
+      (sum, r) => sum + r.chaptersProcessed,
+      0
+    ),
+    sectionsProcessed: succeeded.reduce(
+      (sum, r) => sum + r.sectionsProcessed,
+      0
+    ),
+    durationMs: Date.now() - startTime,
+    results,
+    errors,
+  };
+}
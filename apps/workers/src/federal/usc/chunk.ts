@@ -0,0 +1,125 @@
+/**
+ * U.S. Code Chunking
+ *
+ * Splits USC sections into CFRChunk-compatible chunks so the federal
+ * embedding, upsert and validation steps handle statutes and regulations
+ * alike. Uses the CFR chunk limits and overlap splitting.
+ */
+
+import type { CFRChunk, CFRSection } from '../types';
+import type { USCChapter } from './types';
+import { countTokens } from '../../lib/tokens-simple';
+import { MAX_CHUNK_TOKENS, OVERLAP_RATIO, splitWithOverlap } from '../chunk';
+import {
+  generateUSCCitation,
+  generateUSCUrl,
+  generateUSCChunkId,
+  generateUSCSourceId,
+  generateUSCHierarchy,
+} from '../../lib/citations';
+
+/**
+ * Chunk context - hierarchical information for a USC section
+ */
+export interface USCChunkContext {
+  /** Title number */
+  titleNumber: number;
+  /** Chapter number (e.g., "13", "9A") */
+  chapter: string;
+  /** Activity category tags from USC_TARGET_TITLES (optional) */
+  category?: string;
+}
+
+/**
+ * Chunk a USC section into embeddings-ready chunks
+ *
+ * Small sections stay whole. Larger ones split at their top-level
+ * subsections ((a), (b), ...), and subsections still over the limit split
+ * at paragraph boundaries with overlap.
+ *
+ * @param section USC section with text and subsections
+ * @param context Hierarchical context for chunk metadata
+ * @returns Array of chunks (usually 1, more if section is large)
+ *
+ * @example
+ * ```ts
+ * const chunks = chunkUSCSection(section, {
+ *   titleNumber: 21,
+ *   chapter: '13',
+ *   category: 'pharmacy'
+ * });
+ * // chunks[0].citation => "21 U.S.C. § 812"
+ * ```
+ */
+export function chunkUSCSection(
+  section: CFRSection,
+  context: USCChunkContext
+): CFRChunk[] {
+  const pieces: Array<{ text: string; subsection?: string }> = [];
+
+  if (countTokens(section.text) <= MAX_CHUNK_TOKENS) {
+    pieces.push({ text: section.text });
+  } else if (section.subsections && section.subsections.length > 0) {
+    for (const subsection of section.subsections) {
+      const texts =
+        countTokens(subsection.text) <= MAX_CHUNK_TOKENS
+          ? [subsection.text]
+          : splitWithOverlap(subsection.text, MAX_CHUNK_TOKENS, OVERLAP_RATIO);
+      for (const text of texts) {
+        pieces.push({ text, subsection: subsection.id });
+      }
+    }
+  } else {
+    for (const text of splitWithOverlap(
+      section.text,
+      MAX_CHUNK_TOKENS,
+      OVERLAP_RATIO
+    )) {
+      pieces.push({ text });
+    }
+  }
+
+  const { titleNumber, chapter, category } = context;
+
+  return pieces.map((piece, chunkIndex) => ({
+    chunkId: generateUSCChunkId(titleNumber, section.number, chunkIndex),
+    sourceId: generateUSCSourceId(titleNumber),
+    text: piece.text,
+    citation: generateUSCCitation(
+      titleNumber,
+      section.number,
+      piece.subsection
+    ),
+    url: generateUSCUrl(titleNumber, section.number),
+    title: titleNumber,
+    part: parseInt(chapter, 10) || 0,
+    section: section.number,
+    subsection: piece.subsection,
+    hierarchy: generateUSCHierarchy(titleNumber, chapter, section.number),
+    category,
+    chunkIndex,
+    totalChunks: pieces.length,
+  }));
+}
+
+/**
+ * Chunk all sections in a USC chapter
+ *
+ * @param chapter USC chapter with sections
+ * @param context Context without the chapter
+ * @returns Flat array of all chunks from all sections
+ */
+export function chunkUSCChapter(
+  chapter: USCChapter,
+  context: Omit<USCChunkContext, 'chapter'>
+): CFRChunk[] {
+  const chunks = chapter.sections.flatMap((section) =>
+    chunkUSCSection(section, { ...context, chapter: chapter.number })
+  );
+
+  console.log(
+    `[USC] Chapter ${chapter.number} chunked: ${chapter.sections.length} sections, ${chunks.length} chunks`
+  );
+
+  return chunks;
+}
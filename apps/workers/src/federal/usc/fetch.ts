@@ -0,0 +1,589 @@
+/**
+ * U.S. Code integration for fetching USLM XML from the Office of the Law
+ * Revision Counsel (OLRC)
+ *
+ * Download documentation: https://uscode.house.gov/download/download.shtml
+ * USLM schema: https://uscode.house.gov/download/resources/USLM-User-Guide.pdf
+ *
+ * OLRC publishes each title as a zipped XML file per release point. Titles
+ * such as 26 (Internal Revenue Code) are too large to parse in one piece
+ * within Worker memory, so the archive is decompressed as a stream and split
+ * into <chapter> fragments that are parsed one at a time.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import type { CFRSection } from '../types';
+import type { USCChapter, USCTitle } from './types';
+
+/**
+ * Custom error class for OLRC download failures
+ */
+export class USCFetchError extends Error {
+  constructor(
+    public status: number,
+    public title: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'USCFetchError';
+  }
+}
+
+/**
+ * Retry configuration for OLRC downloads
+ */
+const RETRY_CONFIG = {
+  maxRetries: 3,
+  delays: [1000, 2000, 4000], // 1s, 2s, 4s exponential backoff
+};
+
+/**
+ * Base URL for OLRC release point downloads
+ */
+const OLRC_RELEASE_POINTS_URL =
+  'https://uscode.house.gov/download/releasepoints/us/pl';
+
+/**
+ * Release point downloaded by default ("{congress}-{law}")
+ * Update when OLRC publishes a new release point.
+ */
+export const USC_RELEASE_POINT = '119-36';
+
+/**
+ * Hierarchy levels between a title and its sections
+ */
+const HIERARCHY_ELEMENTS = new Set([
+  'subtitle',
+  'chapter',
+  'subchapter',
+  'part',
+  'subpart',
+  'division',
+  'subdivision',
+]);
+
+/**
+ * Numbered levels within a section; each starts a new paragraph
+ */
+const LEVEL_ELEMENTS = new Set([
+  'subsection',
+  'paragraph',
+  'subparagraph',
+  'clause',
+  'subclause',
+  'item',
+  'subitem',
+  'subsubitem',
+]);
+
+/**
+ * Unnumbered blocks within a level; each starts a new paragraph
+ */
+const BLOCK_ELEMENTS = new Set(['chapeau', 'content', 'continuation', 'p']);
+
+/**
+ * Elements left out of section text: editorial notes, source credits, and
+ * the section's own number and heading (kept as metadata)
+ */
+const SKIPPED_ELEMENTS = new Set([
+  'num',
+  'heading',
+  'sourceCredit',
+  'notes',
+  'note',
+  'toc',
+  'footnote',
+]);
+
+/**
+ * Parsed XML node (fast-xml-parser preserveOrder format)
+ */
+type XMLNode = Record<string, unknown>;
+
+/**
+ * Options for fetching a title
+ */
+export interface USCFetchOptions {
+  /** OLRC release point (default: USC_RELEASE_POINT) */
+  releasePoint?: string;
+  /** HTTP client (default: global fetch) */
+  fetchFn?: typeof fetch;
+}
+
+/**
+ * Retry a function with exponential backoff
+ */
+async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  operationName: string
+): Promise<T> {
+  let lastError: Error = new Error(
+    `Failed after ${RETRY_CONFIG.maxRetries} retries`
+  );
+
+  for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      // Don't retry 404 (unknown title or release point)
+      if (error instanceof USCFetchError && error.status === 404) {
+        throw error;
+      }
+
+      // If this was the last attempt, throw
+      if (attempt === RETRY_CONFIG.maxRetries) {
+        throw lastError;
+      }
+
+      // Wait before retry
+      const delay = RETRY_CONFIG.delays[attempt];
+      console.log(`[USC] Retrying ${operationName} after ${delay}ms...`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Build the OLRC download URL for a title's USLM XML archive
+ *
+ * @param titleNumber USC title number
+ * @param releasePoint Release point (e.g., "119-36")
+ * @returns Zip archive URL
+ *
+ * @example
+ * ```ts
+ * buildUSCTitleUrl(21, '119-36')
+ * // => "https://uscode.house.gov/download/releasepoints/us/pl/119/36/xml_usc21@119-36.zip"
+ * ```
+ */
+export function buildUSCTitleUrl(
+  titleNumber: number,
+  releasePoint: string = USC_RELEASE_POINT
+): string {
+  const paddedTitle = String(titleNumber).padStart(2, '0');
+  return `${OLRC_RELEASE_POINTS_URL}/${releasePoint.replace('-', '/')}/xml_usc${paddedTitle}@${releasePoint}.zip`;
+}
+
+/**
+ * Stream the XML document out of a zip archive
+ *
+ * Reads the central directory to locate the first .xml entry and inflates
+ * it as a stream. Stored and deflated entries are supported (not ZIP64).
+ *
+ * @param archive Zip archive bytes
+ * @returns Decompressed XML bytes
+ * @throws Error if the archive has no XML entry or uses another compression method
+ */
+export function extractXMLFromZip(
+  archive: ArrayBuffer
+): ReadableStream<Uint8Array> {
+  const view = new DataView(archive);
+  const bytes = new Uint8Array(archive);
+
+  // End of central directory record (22 bytes + optional comment)
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Invalid zip archive: end of central directory not found');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let entry = 0; entry < entryCount; entry++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Invalid zip archive: bad central directory entry');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!name.toLowerCase().endsWith('.xml')) continue;
+
+    // Local header name/extra lengths can differ from the central directory
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const data = bytes.slice(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      return new Blob([data]).stream();
+    }
+    if (method === 8) {
+      return new Blob([data])
+        .stream()
+        .pipeThrough(new DecompressionStream('deflate-raw'));
+    }
+    throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+  }
+
+  throw new Error('Invalid zip archive: no XML document found');
+}
+
+/**
+ * Split streamed USLM text into <chapter> fragments
+ *
+ * Buffers only the current chapter, so memory stays bounded by the largest
+ * chapter rather than the title. Chapters quoted inside notes are nested
+ * and stay within their enclosing chapter.
+ *
+ * @param text USLM document text, in arbitrary pieces
+ * @returns Chapter XML fragments in document order
+ */
+export async function* splitUSLMChapters(
+  text: AsyncIterable<string>
+): AsyncGenerator<string> {
+  const tagPattern = /<chapter[\s>]|<\/chapter>/g;
+  let buffer = '';
+  let scanFrom = 0;
+  let start = -1;
+  let depth = 0;
+
+  for await (const piece of text) {
+    buffer += piece;
+    tagPattern.lastIndex = scanFrom;
+    let lastMatchEnd = scanFrom;
+
+    let match: RegExpExecArray | null;
+    while ((match = tagPattern.exec(buffer)) !== null) {
+      lastMatchEnd = tagPattern.lastIndex;
+      if (match[0] === '</chapter>') {
+        if (depth === 0) continue;
+        depth--;
+        if (depth === 0) {
+          yield buffer.slice(start, lastMatchEnd);
+          start = -1;
+        }
+      } else {
+        if (depth === 0) start = match.index;
+        depth++;
+      }
+    }
+
+    // A tag split across pieces starts within the last 9 characters
+    scanFrom = Math.max(lastMatchEnd, buffer.length - 9);
+
+    // Keep only the open chapter (or the unscanned tail)
+    const keepFrom = start >= 0 ? start : scanFrom;
+    buffer = buffer.slice(keepFrom);
+    scanFrom -= keepFrom;
+    if (start >= 0) start = 0;
+  }
+}
+
+/**
+ * Fetch a USC title and parse it chapter by chapter
+ *
+ * Downloads the title's USLM archive from OLRC (with retries) and yields
+ * each chapter as it is decompressed and parsed.
+ *
+ * @param titleNumber USC title number
+ * @param options Release point and HTTP client
+ * @returns Chapters in document order
+ * @throws USCFetchError if the download keeps failing
+ *
+ * @example
+ * ```ts
+ * for await (const chapter of fetchUSCTitleChapters(21)) {
+ *   console.log(`Chapter ${chapter.number}: ${chapter.sections.length} sections`);
+ * }
+ * ```
+ */
+export async function* fetchUSCTitleChapters(
+  titleNumber: number,
+  options?: USCFetchOptions
+): AsyncGenerator<USCChapter> {
+  const fetchFn = options?.fetchFn ?? fetch;
+  const url = buildUSCTitleUrl(titleNumber, options?.releasePoint);
+
+  const archive = await retryWithBackoff(async () => {
+    const response = await fetchFn(url);
+    if (!response.ok) {
+      throw new USCFetchError(
+        response.status,
+        titleNumber,
+        `OLRC returned ${response.status} for title ${titleNumber}`
+      );
+    }
+    return response.arrayBuffer();
+  }, `title ${titleNumber} download`);
+
+  const text = extractXMLFromZip(archive).pipeThrough(new TextDecoderStream());
+
+  for await (const fragment of splitUSLMChapters(text)) {
+    const chapter = parseUSLMChapter(fragment);
+    if (chapter && chapter.sections.length > 0) {
+      yield chapter;
+    }
+  }
+}
+
+/**
+ * Parse a complete USLM document into structured format
+ *
+ * @param xml USLM XML for a title
+ * @returns Parsed title with its chapters and sections
+ */
+export function parseUSLMXML(xml: string): USCTitle {
+  // <main> holds the title; <meta> has a dc:title that shares its local name
+  const document = createParser().parse(xml) as XMLNode[];
+  const main = findElement(document, 'main');
+  const title = findElement(main ? childNodes(main) : document, 'title');
+  if (!title) {
+    throw new Error('Invalid USLM XML: <title> element not found');
+  }
+
+  const titleChildren = childNodes(title);
+  const number = parseInt(numValue(titleChildren) ?? '0', 10);
+  const chapters: USCChapter[] = [];
+  collectChapters(titleChildren, chapters);
+
+  return {
+    number,
+    name: headingText(titleChildren) || `Title ${number}`,
+    chapters,
+  };
+}
+
+/**
+ * Parse a USLM <chapter> fragment
+ *
+ * @param xml Chapter XML (see splitUSLMChapters)
+ * @returns Parsed chapter, or null if the fragment has no chapter element
+ */
+export function parseUSLMChapter(xml: string): USCChapter | null {
+  const chapter = findElement(
+    createParser().parse(xml) as XMLNode[],
+    'chapter'
+  );
+  return chapter ? toChapter(chapter) : null;
+}
+
+function createParser(): XMLParser {
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    preserveOrder: true,
+    trimValues: false,
+    parseTagValue: false,
+    removeNSPrefix: true,
+    htmlEntities: true,
+  });
+}
+
+/**
+ * Collect chapters below a hierarchy level
+ */
+function collectChapters(nodes: XMLNode[], chapters: USCChapter[]): void {
+  for (const node of nodes) {
+    const tag = tagName(node);
+    if (tag === 'chapter') {
+      chapters.push(toChapter(node));
+    } else if (tag && HIERARCHY_ELEMENTS.has(tag)) {
+      collectChapters(childNodes(node), chapters);
+    }
+  }
+}
+
+/**
+ * Convert a <chapter> element, gathering sections from its subchapters and parts
+ */
+function toChapter(node: XMLNode): USCChapter {
+  const nodes = childNodes(node);
+  const number = numValue(nodes) ?? '';
+  const sections: CFRSection[] = [];
+  collectSections(nodes, sections);
+
+  return {
+    number,
+    name: headingText(nodes) || `Chapter ${number}`,
+    sections,
+  };
+}
+
+/**
+ * Collect sections in force below a hierarchy level
+ *
+ * Sections with a status (repealed, transferred, omitted, ...) are skipped.
+ */
+function collectSections(nodes: XMLNode[], sections: CFRSection[]): void {
+  for (const node of nodes) {
+    const tag = tagName(node);
+    if (tag === 'section') {
+      if (attribute(node, 'status')) continue;
+      const children = childNodes(node);
+      const number = numValue(children);
+      if (!number) continue;
+
+      const lines: string[] = [];
+      renderBlocks(children, lines);
+      const subsections = children
+        .filter((child) => tagName(child) === 'subsection')
+        .map((child) => {
+          const subsectionLines: string[] = [];
+          renderBlocks([child], subsectionLines);
+          return {
+            id: normalizeWhitespace(
+              textContent(childNodes(child).filter((c) => tagName(c) === 'num'))
+            ),
+            text: subsectionLines.join('\n\n'),
+          };
+        });
+
+      sections.push({
+        number,
+        title: headingText(children),
+        text: lines.join('\n\n'),
+        subsections: subsections.length > 0 ? subsections : undefined,
+      });
+    } else if (tag && HIERARCHY_ELEMENTS.has(tag)) {
+      collectSections(childNodes(node), sections);
+    }
+  }
+}
+
+/**
+ * Render section content as paragraphs, one per numbered level or block
+ *
+ * Each level's paragraph starts with its number and heading, e.g.
+ * "(a) Establishment There are established five schedules...".
+ */
+function renderBlocks(nodes: XMLNode[], lines: string[]): void {
+  let inline = '';
+  const flush = () => {
+    const line = normalizeWhitespace(inline);
+    if (line) lines.push(line);
+    inline = '';
+  };
+
+  for (const node of nodes) {
+    const tag = tagName(node);
+    if (tag === undefined) {
+      inline += String(node['#text'] ?? '');
+      continue;
+    }
+    if (SKIPPED_ELEMENTS.has(tag)) continue;
+
+    if (LEVEL_ELEMENTS.has(tag)) {
+      flush();
+      const children = childNodes(node);
+      const label = normalizeWhitespace(
+        `${textContent(children.filter((c) => tagName(c) === 'num'))} ${headingText(children)}`
+      );
+      const body: string[] = [];
+      renderBlocks(children, body);
+      // A level that opens with a nested level keeps its label on its own line
+      const first = children.find((child) => {
+        const childTag = tagName(child);
+        return childTag
+          ? !SKIPPED_ELEMENTS.has(childTag)
+          : String(child['#text'] ?? '').trim() !== '';
+      });
+      const firstTag = first ? tagName(first) : undefined;
+      if (firstTag && LEVEL_ELEMENTS.has(firstTag)) {
+        if (label) lines.push(label);
+      } else if (body.length > 0) {
+        body[0] = normalizeWhitespace(`${label} ${body[0]}`);
+      } else if (label) {
+        body.push(label);
+      }
+      lines.push(...body);
+    } else if (BLOCK_ELEMENTS.has(tag)) {
+      flush();
+      renderBlocks(childNodes(node), lines);
+    } else {
+      // Inline markup (ref, term, date, quotedText, ...)
+      inline += textContent([node]);
+    }
+  }
+
+  flush();
+}
+
+// ============================================================================
+// XML node helpers
+// ============================================================================
+
+/**
+ * Element name of a node, or undefined for text nodes
+ */
+function tagName(node: XMLNode): string | undefined {
+  return Object.keys(node).find((key) => key !== ':@' && key !== '#text');
+}
+
+function childNodes(node: XMLNode): XMLNode[] {
+  const tag = tagName(node);
+  const children = tag ? node[tag] : undefined;
+  return Array.isArray(children) ? (children as XMLNode[]) : [];
+}
+
+function attribute(node: XMLNode, name: string): string | undefined {
+  const attributes = node[':@'] as Record<string, string> | undefined;
+  return attributes?.[`@_${name}`];
+}
+
+/**
+ * Depth-first search for the first element with a name
+ */
+function findElement(nodes: XMLNode[], name: string): XMLNode | undefined {
+  for (const node of nodes) {
+    if (tagName(node) === name) return node;
+    const found = findElement(childNodes(node), name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Concatenated text of nodes and their descendants
+ */
+function textContent(nodes: XMLNode[]): string {
+  return nodes
+    .map((node) =>
+      tagName(node) === undefined
+        ? String(node['#text'] ?? '')
+        : textContent(childNodes(node))
+    )
+    .join('');
+}
+
+/**
+ * Value attribute of the <num> child (e.g., "812" for "§ 812.")
+ */
+function numValue(nodes: XMLNode[]): string | undefined {
+  const num = nodes.find((node) => tagName(node) === 'num');
+  const value = num ? (attribute(num, 'value') ?? textContent([num])) : '';
+  return normalizeWhitespace(value) || undefined;
+}
+
+/**
+ * Text of the <heading> child
+ */
+function headingText(nodes: XMLNode[]): string {
+  return normalizeWhitespace(
+    textContent(nodes.filter((node) => tagName(node) === 'heading'))
+  );
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,56 @@
+/**
+ * U.S. Code Data Pipeline
+ *
+ * Public API for federal statute processing.
+ * Barrel export for all USC pipeline modules.
+ */
+
+// Types
+export {
+  USC_TARGET_TITLES,
+  getEnabledUSCTitles,
+  getCategoriesForUSCTitle,
+  type USCTitle,
+  type USCChapter,
+  type USCTitleConfig,
+} from './types';
+
+// Fetch
+export {
+  USCFetchError,
+  USC_RELEASE_POINT,
+  buildUSCTitleUrl,
+  extractXMLFromZip,
+  splitUSLMChapters,
+  fetchUSCTitleChapters,
+  parseUSLMXML,
+  parseUSLMChapter,
+  type USCFetchOptions,
+} from './fetch';
+
+// Chunking
+export {
+  chunkUSCSection,
+  chunkUSCChapter,
+  type USCChunkContext,
+} from './chunk';
+
+// Cache (pre-processed USC data for workflows)
+export {
+  getUSCCacheManifest,
+  getUSCTitleManifest,
+  getCachedUSCChapter,
+  getUSCCacheStatus,
+  refreshUSCTitle,
+  refreshUSCCache,
+} from './cache';
+export type {
+  CachedUSCChapter,
+  USCTitleManifest,
+  USCCacheManifest,
+  USCTitleRefreshResult,
+  USCCacheRefreshResult,
+} from './cache';
+
+// Pipeline orchestration
+export { processUSCTitle, type USCPipelineResult } from './pipeline';
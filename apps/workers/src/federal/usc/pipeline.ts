@@ -0,0 +1,160 @@
+/**
+ * U.S. Code Data Pipeline Orchestrator
+ *
+ * Legacy synchronous counterpart of USCTitleWorkflow, used when
+ * FEATURE_WORKFLOWS is 'false'.
+ *
+ * Pipeline Flow:
+ * 1. Read the title manifest and chapters cached by refreshUSCTitle
+ * 2. Chunk each chapter's sections (CFRChunk-compatible, U.S.C. citations)
+ * 3. Generate embeddings and upsert to Pinecone (sourceType 'federal',
+ *    fully open effective range)
+ * 4. Register the title as a statute source in Convex (best-effort)
+ */
+
+import type { Env } from '../../types';
+import { embedChunks } from '../embed';
+import { initPinecone, getIndex, upsertChunks } from '../../pinecone';
+import { registerSource, uscTitleSource } from '../../lib/sources';
+import { getCachedUSCChapter, getUSCTitleManifest } from './cache-read';
+import { chunkUSCChapter } from './chunk';
+import { getCategoriesForUSCTitle, USC_EFFECTIVE_RANGE } from './types';
+
+/**
+ * Result of a USC title pipeline run
+ */
+export interface USCPipelineResult {
+  success: boolean;
+  titleNumber: number;
+  chaptersProcessed: number;
+  chunksProcessed: number;
+  vectorsUpserted: number;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Index a cached U.S. Code title
+ *
+ * @param titleNumber USC title number
+ * @param env Cloudflare Workers environment
+ * @returns Pipeline result with chunk and vector counts
+ *
+ * @example
+ * ```ts
+ * const result = await processUSCTitle(21, env);
+ * console.log(`Indexed ${result.vectorsUpserted} vectors for 21 U.S.C.`);
+ * ```
+ */
+export async function processUSCTitle(
+  titleNumber: number,
+  env: Env
+): Promise<USCPipelineResult> {
+  const startTime = Date.now();
+  let chaptersProcessed = 0;
+  let chunksProcessed = 0;
+  let vectorsUpserted = 0;
+
+  try {
+    const manifest = await getUSCTitleManifest(
+      env.DOCUMENTS_BUCKET,
+      titleNumber
+    );
+    if (!manifest || manifest.chapters.length === 0) {
+      throw new Error(
+        `No cached data for USC title ${titleNumber}. ` +
+          `Run POST /cache/usc/refresh/${titleNumber} first.`
+      );
+    }
+
+    const index = getIndex(initPinecone(env.PINECONE_API_KEY));
+    const category = getCategoriesForUSCTitle(titleNumber)[0];
+
+    for (const { chapterNumber } of manifest.chapters) {
+      const cached = await getCachedUSCChapter(
+        env.DOCUMENTS_BUCKET,
+        titleNumber,
+        chapterNumber
+      );
+      if (!cached) {
+        throw new Error(
+          `Cache miss: USC title ${titleNumber} chapter ${chapterNumber}`
+        );
+      }
+
+      const chunks = chunkUSCChapter(
+        {
+          number: cached.chapterNumber,
+          name: cached.chapterName,
+          sections: cached.sections,
+        },
+        { titleNumber, category }
+      ).filter((chunk) => chunk.text.trim().length > 0);
+
+      const embedded = await embedChunks(chunks, env.OPENAI_API_KEY);
+      await upsertChunks(
+        index,
+        embedded.map(({ chunk, embedding }) => ({
+          id: chunk.chunkId,
+          values: embedding,
+          metadata: {
+            chunkId: chunk.chunkId,
+            sourceId: chunk.sourceId,
+            sourceType: 'federal' as const,
+            jurisdiction: 'US',
+            text: chunk.text,
+            citation: chunk.citation,
+            chunkIndex: chunk.chunkIndex,
+            totalChunks: chunk.totalChunks,
+            ...(chunk.category ? { category: chunk.category } : {}),
+            ...USC_EFFECTIVE_RANGE,
+            indexedAt: new Date().toISOString(),
+          },
+        }))
+      );
+
+      chaptersProcessed++;
+      chunksProcessed += chunks.length;
+      vectorsUpserted += embedded.length;
+    }
+
+    await registerSource(
+      env.CONVEX_URL,
+      uscTitleSource(
+        titleNumber,
+        manifest.titleName,
+        'complete',
+        vectorsUpserted
+      )
+    );
+
+    console.log(
+      `[USC Pipeline] Title ${titleNumber}: ${chaptersProcessed} chapters, ${vectorsUpserted} vectors`
+    );
+
+    return {
+      success: true,
+      titleNumber,
+      chaptersProcessed,
+      chunksProcessed,
+      vectorsUpserted,
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    console.error(
+      `[USC Pipeline] Failed title ${titleNumber}: ${errorMessage}`
+    );
+
+    return {
+      success: false,
+      titleNumber,
+      chaptersProcessed,
+      chunksProcessed,
+      vectorsUpserted,
+      durationMs: Date.now() - startTime,
+      error: errorMessage,
+    };
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * United States Code Pipeline Types
+ *
+ * TypeScript interfaces for U.S. Code titles parsed from the Office of the
+ * Law Revision Counsel's USLM XML, and the titles to ingest.
+ *
+ * USC sections reuse CFRSection, and chunks are CFRChunk-compatible, so the
+ * federal embedding, upsert and validation code applies unchanged.
+ */
+
+import { OPEN_EFFECTIVE_TO } from '@compliance-iq/shared-types';
+import type { CFRSection } from '../types';
+
+/**
+ * USC Title - Top-level statutory grouping
+ * Example: Title 21 (Food and Drugs)
+ */
+export interface USCTitle {
+  /** Title number (1-54) */
+  number: number;
+  /** Title name */
+  name: string;
+  /** Chapters within the title */
+  chapters: USCChapter[];
+}
+
+/**
+ * USC Chapter - Subdivision of a title
+ * Example: Chapter 13 (Drug Abuse Prevention and Control)
+ */
+export interface USCChapter {
+  /** Chapter number (e.g., "13", "9A") */
+  number: string;
+  /** Chapter name */
+  name: string;
+  /** Sections within the chapter (including those in its subchapters and parts) */
+  sections: CFRSection[];
+}
+
+/**
+ * USC Title Configuration
+ * Defines which titles to ingest and their category mappings
+ */
+export interface USCTitleConfig {
+  /** Title number */
+  number: number;
+
+  /** Title name */
+  name: string;
+
+  /** Activity category tags for this title */
+  categories: string[];
+
+  /** Whether this title is enabled for processing */
+  enabled: boolean;
+}
+
+/**
+ * Target USC titles
+ * Statutes behind the CFR titles most retail compliance questions touch
+ */
+export const USC_TARGET_TITLES: USCTitleConfig[] = [
+  {
+    number: 21,
+    name: 'Food and Drugs',
+    categories: ['pharmacy', 'food-safety'],
+    enabled: true,
+  },
+  {
+    number: 26,
+    name: 'Internal Revenue Code',
+    categories: ['tax', 'alcohol'],
+    enabled: true,
+  },
+  {
+    number: 29,
+    name: 'Labor',
+    categories: ['employment'],
+    enabled: true,
+  },
+];
+
+/**
+ * Get enabled USC titles
+ * @returns Array of enabled USC title configurations
+ */
+export function getEnabledUSCTitles(): USCTitleConfig[] {
+  return USC_TARGET_TITLES.filter((title) => title.enabled);
+}
+
+/**
+ * Get categories for a USC title number
+ * @param titleNumber USC title number
+ * @returns Array of category tags, or empty array if title not found
+ */
+export function getCategoriesForUSCTitle(titleNumber: number): string[] {
+  const config = USC_TARGET_TITLES.find((t) => t.number === titleNumber);
+  return config?.categories ?? [];
+}
+
+/**
+ * Effective range metadata for USC chunks
+ *
+ * OLRC release points carry no effective date and only the current text is
+ * indexed, so the range is open at both ends: no effectiveFrom and an open
+ * effectiveTo. As-of retrieval then keeps statutes for any date.
+ */
+export const USC_EFFECTIVE_RANGE = { effectiveTo: OPEN_EFFECTIVE_TO } as const;
@@ -1,3 +1,4 @@
+import { isIsoDate } from '@compliance-iq/shared-types';
 import type { Env } from './types';
 // Import lightweight modules directly
 import { TARGET_TITLES } from './federal/types';
@@ -6,7 +7,14 @@ import {
   refreshCFRCache,
   refreshCFRTitle as refreshCFRTitleCache,
 } from './federal/cache';
-// Note: processCFRTitle and processAllFederalTitles are dynamically imported
+import { getChangeLog } from './federal/delta';
+import {
+  getUSCCacheStatus,
+  refreshUSCTitle as refreshUSCTitleCache,
+} from './federal/usc/cache';
+import { USC_TARGET_TITLES } from './federal/usc/types';
+import { loadFederalRegisterSyncState } from './federal-register/storage';
+// Note: processCFRTitle, processAllFederalTitles and processFederalRegister are dynamically imported
 // to avoid loading heavy dependencies (tiktoken, OpenAI SDK) at startup
 import {
   processTexasStatutes,
@@ -44,6 +52,7 @@ import type { WorkflowTriggerResponse, WorkflowStatusResponse } from './workflow
 // Re-export workflow classes for Cloudflare binding
 export { FederalBatchWorkflow } from './workflows/federal/batch.workflow';
 export { FederalTitleWorkflow } from './workflows/federal/title.workflow';
+export { USCTitleWorkflow } from './workflows/federal/usc.workflow';
 export { TexasBatchWorkflow } from './workflows/texas/batch.workflow';
 export { TexasCodeWorkflow } from './workflows/texas/code.workflow';
 export { TexasTACWorkflow } from './workflows/texas/tac.workflow';
@@ -59,12 +68,37 @@ function useWorkflows(env: Env): boolean {
   return env.FEATURE_WORKFLOWS !== 'false';
 }
 
+/**
+ * Validate the federal `?asOf=YYYY-MM-DD` point-in-time parameter
+ *
+ * @returns 400 response if invalid (or combined with delta mode), else null
+ */
+function validateAsOfParam(
+  asOfDate: string | undefined,
+  delta = false
+): Response | null {
+  let error: string | null = null;
+  if (asOfDate !== undefined && !isIsoDate(asOfDate)) {
+    error = `Invalid asOf date: ${asOfDate} (expected YYYY-MM-DD)`;
+  } else if (asOfDate !== undefined && delta) {
+    error = 'mode=delta re-indexes the current version only; omit asOf';
+  }
+  return error
+    ? new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    : null;
+}
+
 /**
  * Cloudflare Worker for ComplianceIQ data pipeline
  *
  * Handles:
  * - Document storage via R2
  * - Federal CFR data pipeline
+ * - Federal U.S. Code data pipeline
+ * - Federal Register rule tracking
  * - Texas state data pipeline (statutes + TAC)
  */
 export default {
@@ -86,10 +120,16 @@ export default {
             // Cache endpoints (pre-process CFR data for workflows)
             'GET /cache/federal/status - Get cache manifest and freshness info',
             'POST /cache/federal/refresh - Refresh cache for all 7 CFR titles',
-            'POST /cache/federal/refresh/:title - Refresh cache for single title',
+            'POST /cache/federal/refresh/:title - Refresh cache for single title (?asOf=YYYY-MM-DD for a point-in-time snapshot)',
+            'GET /cache/federal/changes/:title - Get re-indexing change log for a title',
+            'GET /cache/usc/status - Get U.S. Code cache manifest and release points',
+            'POST /cache/usc/refresh/:title - Refresh U.S. Code cache for a title from OLRC USLM XML (?releasePoint=119-36)',
             // Pipeline endpoints (now async when workflows enabled)
-            'POST /pipeline/federal - Trigger full federal pipeline (7 titles)',
-            'POST /pipeline/federal/:title - Trigger single CFR title pipeline',
+            'POST /pipeline/federal - Trigger full federal pipeline (7 titles; ?mode=delta for changed parts only, ?asOf=YYYY-MM-DD to index a snapshot)',
+            'POST /pipeline/federal/:title - Trigger single CFR title pipeline (?mode=delta for changed parts only, ?asOf=YYYY-MM-DD to index a snapshot)',
+            'POST /pipeline/usc/:title - Trigger single U.S. Code title pipeline (titles 21, 26, 29)',
+            'POST /pipeline/federal-register - Index Federal Register proposed/final rules for tracked agencies (?since=YYYY-MM-DD, default: resume from last run)',
+            'GET /pipeline/federal-register/status - Get Federal Register sync state',
             'POST /pipeline/texas - Trigger full Texas pipeline (statutes + TAC)',
             'POST /pipeline/texas/statutes - Trigger Texas Statutes pipeline (27 codes)',
             'POST /pipeline/texas/tac - Trigger Texas TAC pipeline (5 titles)',
@@ -185,7 +225,10 @@ export default {
     if (url.pathname === '/cache/federal/refresh' && request.method === 'POST') {
       try {
         console.log('[Worker] Starting full cache refresh');
-        const result = await refreshCFRCache(env.DOCUMENTS_BUCKET);
+        const result = await refreshCFRCache(
+          env.DOCUMENTS_BUCKET,
+          env.CONVEX_URL
+        );
 
         return new Response(JSON.stringify(result, null, 2), {
           status: result.success ? 200 : 207,
@@ -207,12 +250,23 @@ export default {
     }
 
     // POST /cache/federal/refresh/:title - Refresh cache for single title
+    // ?asOf=YYYY-MM-DD caches the point-in-time version of that date
     const cacheRefreshMatch = url.pathname.match(/^\/cache\/federal\/refresh\/(\d+)$/);
     if (cacheRefreshMatch && cacheRefreshMatch[1] && request.method === 'POST') {
       const titleNumber = parseInt(cacheRefreshMatch[1], 10);
+      const asOfDate = url.searchParams.get('asOf') ?? undefined;
+      const invalid = validateAsOfParam(asOfDate);
+      if (invalid) return invalid;
       try {
-        console.log(`[Worker] Refreshing cache for title ${titleNumber}`);
-        const result = await refreshCFRTitleCache(env.DOCUMENTS_BUCKET, titleNumber);
+        console.log(
+          `[Worker] Refreshing cache for title ${titleNumber}${asOfDate ? ` as of ${asOfDate}` : ''}`
+        );
+        const result = await refreshCFRTitleCache(
+          env.DOCUMENTS_BUCKET,
+          titleNumber,
+          asOfDate,
+          env.CONVEX_URL
+        );
 
         return new Response(JSON.stringify(result, null, 2), {
           status: result.success ? 200 : 500,
@@ -233,15 +287,36 @@ export default {
       }
     }
 
+    // GET /cache/federal/changes/:title - Get re-indexing change log
+    const changeLogMatch = url.pathname.match(
+      /^\/cache\/federal\/changes\/(\d+)$/
+    );
+    if (changeLogMatch && changeLogMatch[1] && request.method === 'GET') {
+      const titleNumber = parseInt(changeLogMatch[1], 10);
+      const changes = await getChangeLog(env.DOCUMENTS_BUCKET, titleNumber);
+
+      return new Response(JSON.stringify({ titleNumber, changes }, null, 2), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // POST /pipeline/federal - Trigger full federal data pipeline
+    // ?mode=delta re-indexes only parts whose eCFR hash changed
+    // ?asOf=YYYY-MM-DD indexes the cached point-in-time snapshots
     if (url.pathname === '/pipeline/federal' && request.method === 'POST') {
+      const delta = url.searchParams.get('mode') === 'delta';
+      const asOfDate = url.searchParams.get('asOf') ?? undefined;
+      const invalid = validateAsOfParam(asOfDate, delta);
+      if (invalid) return invalid;
       try {
-        console.log('[Worker] Starting full federal pipeline');
+        console.log(
+          `[Worker] Starting full federal pipeline${delta ? ' (delta)' : ''}`
+        );
 
         // Use workflows if enabled
         if (useWorkflows(env)) {
           const instance = await env.FEDERAL_BATCH_WORKFLOW.create({
-            params: {},
+            params: { delta, asOfDate },
           });
 
           const response: WorkflowTriggerResponse = {
@@ -260,7 +335,7 @@ export default {
 
         // Legacy synchronous processing (dynamically import to avoid loading tiktoken at startup)
         const { processAllFederalTitles } = await import('./federal/pipeline');
-        const result = await processAllFederalTitles(env);
+        const result = await processAllFederalTitles(env, { delta, asOfDate });
         return new Response(JSON.stringify(result), {
           headers: { 'Content-Type': 'application/json' },
         });
@@ -280,9 +355,15 @@ export default {
     }
 
     // POST /pipeline/federal/:title - Trigger single title pipeline
+    // ?mode=delta re-indexes only parts whose eCFR hash changed
+    // ?asOf=YYYY-MM-DD indexes the cached point-in-time snapshot
     const titleMatch = url.pathname.match(/^\/pipeline\/federal\/(\d+)$/);
     if (titleMatch && titleMatch[1] && request.method === 'POST') {
       const titleNumber = parseInt(titleMatch[1], 10);
+      const delta = url.searchParams.get('mode') === 'delta';
+      const asOfDate = url.searchParams.get('asOf') ?? undefined;
+      const invalid = validateAsOfParam(asOfDate, delta);
+      if (invalid) return invalid;
       try {
         console.log(`[Worker] Starting pipeline for title ${titleNumber}`);
 
@@ -298,7 +379,7 @@ export default {
           }
 
           const instance = await env.FEDERAL_TITLE_WORKFLOW.create({
-            params: { titleNumber },
+            params: { titleNumber, delta, asOfDate },
           });
 
           const response: WorkflowTriggerResponse = {
@@ -317,7 +398,10 @@ export default {
 
         // Legacy synchronous processing (dynamically import to avoid loading tiktoken at startup)
         const { processCFRTitle } = await import('./federal/pipeline');
-        const result = await processCFRTitle(titleNumber, env);
+        const result = await processCFRTitle(titleNumber, env, {
+          delta,
+          asOfDate,
+        });
         return new Response(JSON.stringify(result), {
           headers: { 'Content-Type': 'application/json' },
         });
@@ -336,6 +420,181 @@ export default {
       }
     }
 
+    // =========================================================================
+    // U.S. Code Endpoints (cache USLM chapters, then index a title)
+    // =========================================================================
+
+    // GET /cache/usc/status - Get USC cache status and release points
+    if (url.pathname === '/cache/usc/status' && request.method === 'GET') {
+      const status = await getUSCCacheStatus(env.DOCUMENTS_BUCKET);
+      return new Response(JSON.stringify(status, null, 2), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // POST /cache/usc/refresh/:title - Refresh cache for single USC title
+    // ?releasePoint=119-36 downloads a specific OLRC release point
+    const uscCacheRefreshMatch = url.pathname.match(
+      /^\/cache\/usc\/refresh\/(\d+)$/
+    );
+    if (
+      uscCacheRefreshMatch &&
+      uscCacheRefreshMatch[1] &&
+      request.method === 'POST'
+    ) {
+      const titleNumber = parseInt(uscCacheRefreshMatch[1], 10);
+      const releasePoint = url.searchParams.get('releasePoint') ?? undefined;
+      if (releasePoint !== undefined && !/^\d+-\d+$/.test(releasePoint)) {
+        return new Response(
+          JSON.stringify({
+            error: `Invalid releasePoint: ${releasePoint} (expected {congress}-{law}, e.g. 119-36)`,
+          }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      try {
+        console.log(`[Worker] Refreshing USC cache for title ${titleNumber}`);
+        const result = await refreshUSCTitleCache(
+          env.DOCUMENTS_BUCKET,
+          titleNumber,
+          releasePoint
+        );
+
+        return new Response(JSON.stringify(result, null, 2), {
+          status: result.success ? 200 : 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error(
+          `[Worker] USC cache refresh failed for title ${titleNumber}:`,
+          error
+        );
+        return new Response(
+          JSON.stringify({
+            error: 'Cache refresh failed',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          }),
+          {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+    }
+
+    // POST /pipeline/usc/:title - Trigger single USC title pipeline
+    const uscTitleMatch = url.pathname.match(/^\/pipeline\/usc\/(\d+)$/);
+    if (uscTitleMatch && uscTitleMatch[1] && request.method === 'POST') {
+      const titleNumber = parseInt(uscTitleMatch[1], 10);
+      if (!USC_TARGET_TITLES.some((t) => t.number === titleNumber)) {
+        return new Response(
+          JSON.stringify({ error: `Unknown USC title: ${titleNumber}` }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      try {
+        console.log(`[Worker] Starting USC pipeline for title ${titleNumber}`);
+
+        // Use workflows if enabled
+        if (useWorkflows(env)) {
+          const instance = await env.USC_TITLE_WORKFLOW.create({
+            params: { titleNumber },
+          });
+
+          const response: WorkflowTriggerResponse = {
+            instanceId: instance.id,
+            workflowType: 'usc-title',
+            status: 'queued',
+            statusUrl: `/workflows/${instance.id}/status`,
+            triggeredAt: new Date().toISOString(),
+          };
+
+          return new Response(JSON.stringify(response), {
+            status: 202,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
+
+        // Legacy synchronous processing (dynamically import to avoid loading tiktoken at startup)
+        const { processUSCTitle } = await import('./federal/usc/pipeline');
+        const result = await processUSCTitle(titleNumber, env);
+        return new Response(JSON.stringify(result), {
+          status: result.success ? 200 : 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error(
+          `[Worker] USC pipeline failed for title ${titleNumber}:`,
+          error
+        );
+        return new Response(
+          JSON.stringify({
+            error: 'Pipeline failed',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          }),
+          {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+    }
+
+    // POST /pipeline/federal-register - Index proposed and final rules
+    // ?since=YYYY-MM-DD overrides the publication date to fetch from
+    if (
+      url.pathname === '/pipeline/federal-register' &&
+      request.method === 'POST'
+    ) {
+      const since = url.searchParams.get('since') ?? undefined;
+      if (since !== undefined && !isIsoDate(since)) {
+        return new Response(
+          JSON.stringify({
+            error: `Invalid since date: ${since} (expected YYYY-MM-DD)`,
+          }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      try {
+        console.log('[Worker] Starting Federal Register pipeline');
+
+        // Dynamically import to avoid loading tiktoken at startup
+        const { processFederalRegister } =
+          await import('./federal-register/pipeline');
+        const result = await processFederalRegister(env, { since });
+        return new Response(JSON.stringify(result), {
+          status: result.success ? 200 : 500,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error('[Worker] Federal Register pipeline failed:', error);
+        return new Response(
+          JSON.stringify({
+            error: 'Pipeline failed',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          }),
+          {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+    }
+
+    // GET /pipeline/federal-register/status - Get sync state
+    if (
+      url.pathname === '/pipeline/federal-register/status' &&
+      request.method === 'GET'
+    ) {
+      const state = await loadFederalRegisterSyncState(env.DOCUMENTS_BUCKET);
+      return new Response(
+        JSON.stringify(state ?? { lastSync: null }, null, 2),
+        {
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     // POST /pipeline/texas - Trigger full Texas pipeline
     if (url.pathname === '/pipeline/texas' && request.method === 'POST') {
       try {
@@ -1138,7 +1397,13 @@ export default {
             status = await instance.status();
             workflowType = 'federal-title';
           } catch {
-            // Continue trying other workflow types
+            try {
+              const instance = await env.USC_TITLE_WORKFLOW.get(instanceId);
+              status = await instance.status();
+              workflowType = 'usc-title';
+            } catch {
+              // Continue trying other workflow types
+            }
           }
         }
 
@@ -1268,7 +1533,8 @@ export default {
 
   /**
    * Scheduled handler for cron-triggered cache refresh
-   * Runs weekly (Monday 2am UTC) to keep federal CFR cache fresh
+   * Runs weekly (Monday 2am UTC) to keep federal CFR cache fresh, then
+   * indexes the week's Federal Register rules
    */
   async scheduled(
     _event: ScheduledEvent,
@@ -1278,12 +1544,16 @@ export default {
     console.log('[Worker] Scheduled cache refresh triggered');
 
     try {
-      const result = await refreshCFRCache(env.DOCUMENTS_BUCKET);
+      const result = await refreshCFRCache(
+        env.DOCUMENTS_BUCKET,
+        env.CONVEX_URL
+      );
 
       if (result.success) {
         console.log(
           `[Worker] Scheduled refresh complete: ${result.titlesProcessed} titles, ` +
-          `${result.partsProcessed} parts, ${result.sectionsProcessed} sections`
+            `${result.partsProcessed} parts, ${result.sectionsProcessed} sections, ` +
+            `${result.sectionsChanged} changed`
         );
       } else {
         console.error('[Worker] Scheduled refresh had errors:', result.errors);
@@ -1291,5 +1561,16 @@ export default {
     } catch (error) {
       console.error('[Worker] Scheduled refresh failed:', error);
     }
+
+    const { processFederalRegister } =
+      await import('./federal-register/pipeline');
+    const frResult = await processFederalRegister(env);
+    if (frResult.success) {
+      console.log(
+        `[Worker] Federal Register sync complete: ${frResult.vectorsUpserted} rules since ${frResult.since}`
+      );
+    } else {
+      console.error('[Worker] Federal Register sync failed:', frResult.error);
+    }
   },
 };
@@ -0,0 +1,623 @@
+/**
+ * Section-Level Change Detection
+ *
+ * Compares the sections fetched by an ingestion run with the snapshot the
+ * previous run left in R2, and records a change event per added, modified
+ * or removed section in the Convex `changeEvents` table (via the
+ * `changes:recordChanges` mutation), where users subscribed to a citation
+ * get them as a feed.
+ *
+ * Each event carries a word-level redline (equal / insert / delete
+ * segments) between the previous and current text, and two keys derived
+ * from the section's chunk IDs that subscriptions match on:
+ * - sectionKey: chunk ID without the chunk index (e.g. "cfr-21-117-117.5")
+ * - chapterKey: sectionKey without the section (e.g. "cfr-21-117",
+ *   "municipal-houston-10")
+ *
+ * A source seen for the first time (no previous snapshot) produces no
+ * events (see createChangeTracker). Recording is best-effort, like source
+ * registration.
+ */
+
+import {
+  countyJurisdictionId,
+  cityJurisdictionId,
+} from '@compliance-iq/shared-types';
+import {
+  generateCFRCitation,
+  generateChunkId,
+  generateSourceId,
+  generateTexasStatuteCitation,
+  generateTACCitation,
+  generateTexasChunkId,
+  generateTexasSourceId,
+  generateCountyCitation,
+  generateCountyChunkId,
+  generateCountySourceId,
+  generateMunicipalCitation,
+  generateMunicipalChunkId,
+  generateMunicipalSourceId,
+} from './citations';
+import type { CFRSection } from '../federal/types';
+import type { TexasStatuteSection, TACRule } from '../texas/types';
+import type { CountyOrdinance } from '../counties/types';
+import type { MunicipalOrdinance } from '../municipal/types';
+
+/**
+ * Redline segment: unchanged, inserted, or deleted text
+ */
+export interface DiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Source a section belongs to (mirrors Convex `changeEvents` fields)
+ */
+export interface ChangeSource {
+  /** Pinecone chunk sourceId (e.g., "cfr-title-21") */
+  sourceKey: string;
+  /** Regulatory level */
+  sourceType: 'federal' | 'state' | 'county' | 'municipal';
+  /** Canonical jurisdiction ID (e.g., "US", "TX-houston") */
+  jurisdiction: string;
+}
+
+/**
+ * A section as fetched by an ingestion run
+ */
+export interface SectionSnapshot {
+  /** Chunk ID prefix of the section (e.g., "cfr-21-117-117.5") */
+  sectionKey: string;
+  /** Chunk ID prefix of the section's part or chapter (e.g., "cfr-21-117") */
+  chapterKey: string;
+  /** Bluebook citation */
+  citation: string;
+  /** Section heading */
+  heading?: string;
+  /** Section text */
+  text: string;
+}
+
+/**
+ * Change event payload for `changes:recordChanges`
+ */
+export interface SectionChangeEvent extends ChangeSource {
+  sectionKey: string;
+  chapterKey: string;
+  citation: string;
+  heading?: string;
+  changeType: 'added' | 'modified' | 'removed';
+  /** Redline from the previous to the current text */
+  diff: DiffSegment[];
+}
+
+/** Events sent per Convex mutation call (keeps arguments well under limits) */
+const RECORD_BATCH_SIZE = 50;
+
+/** Largest token grid diffed word by word; larger edits become one replace */
+const MAX_DIFF_CELLS = 4_000_000;
+
+// ============================================================================
+// Redline
+// ============================================================================
+
+/**
+ * Word-level redline between two texts
+ *
+ * Tokens are words and whitespace runs. The common prefix and suffix are
+ * kept as-is and the middle is diffed by longest common subsequence.
+ * Each run of changed words (including the whitespace between them) is
+ * reported as one deletion followed by one insertion.
+ *
+ * @param before Previous text
+ * @param after Current text
+ * @returns Segments that reproduce `before` (equal + delete) and `after` (equal + insert)
+ *
+ * @example
+ * ```ts
+ * redline('Permits expire after one year.', 'Permits expire after two years.')
+ * // => [
+ * //   { op: 'equal', text: 'Permits expire after ' },
+ * //   { op: 'delete', text: 'one year.' },
+ * //   { op: 'insert', text: 'two years.' },
+ * // ]
+ * ```
+ */
+export function redline(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [
+    { op: 'equal', text: a.slice(0, start).join('') },
+    ...diffTokens(a.slice(start, endA), b.slice(start, endB)),
+    { op: 'equal', text: a.slice(endA).join('') },
+  ];
+
+  // Group each run of changes into one deletion followed by one insertion,
+  // absorbing the whitespace between changed words, and drop empty segments
+  const merged: DiffSegment[] = [];
+  let deleted = '';
+  let inserted = '';
+  const flush = () => {
+    if (deleted) merged.push({ op: 'delete', text: deleted });
+    if (inserted) merged.push({ op: 'insert', text: inserted });
+    deleted = '';
+    inserted = '';
+  };
+  segments.forEach((segment, index) => {
+    const next = segments[index + 1];
+    if (segment.op === 'delete') {
+      deleted += segment.text;
+    } else if (segment.op === 'insert') {
+      inserted += segment.text;
+    } else if (
+      (deleted || inserted) &&
+      !segment.text.trim() &&
+      next &&
+      next.op !== 'equal'
+    ) {
+      deleted += segment.text;
+      inserted += segment.text;
+    } else if (segment.text) {
+      flush();
+      const last = merged[merged.length - 1];
+      if (last?.op === 'equal') {
+        last.text += segment.text;
+      } else {
+        merged.push({ ...segment });
+      }
+    }
+  });
+  flush();
+  return merged;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+/**
+ * LCS diff of two token lists (deletions before insertions at each change)
+ */
+function diffTokens(a: string[], b: string[]): DiffSegment[] {
+  if (
+    a.length === 0 ||
+    b.length === 0 ||
+    a.length * b.length > MAX_DIFF_CELLS
+  ) {
+    return [
+      { op: 'delete', text: a.join('') },
+      { op: 'insert', text: b.join('') },
+    ];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      segments.push({ op: 'equal', text: a[i]! });
+      i++;
+      j++;
+    } else if (
+      j >= b.length ||
+      (i < a.length && lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!)
+    ) {
+      segments.push({ op: 'delete', text: a[i]! });
+      i++;
+    } else {
+      segments.push({ op: 'insert', text: b[j]! });
+      j++;
+    }
+  }
+  return segments;
+}
+
+// ============================================================================
+// Section Diffs
+// ============================================================================
+
+/**
+ * Normalize whitespace so reformatting alone is not a change
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Compare a section with its previous snapshot text
+ *
+ * @param source Source the section belongs to
+ * @param previousText Text from the previous run, or null if the section is new
+ * @param current Section as fetched now
+ * @returns Change event, or null if the text is unchanged
+ */
+export function diffSection(
+  source: ChangeSource,
+  previousText: string | null,
+  current: SectionSnapshot
+): SectionChangeEvent | null {
+  if (
+    previousText !== null &&
+    normalizeText(previousText) === normalizeText(current.text)
+  ) {
+    return null;
+  }
+
+  return {
+    ...source,
+    sectionKey: current.sectionKey,
+    chapterKey: current.chapterKey,
+    citation: current.citation,
+    heading: current.heading,
+    changeType: previousText === null ? 'added' : 'modified',
+    diff: redline(previousText ?? '', current.text),
+  };
+}
+
+/**
+ * Compare all sections of a part or chapter with the previous snapshot
+ *
+ * Sections in `previous` but not in `current` are reported as removed.
+ *
+ * @param source Source the sections belong to
+ * @param previous Sections from the previous run
+ * @param current Sections fetched now
+ * @returns Change events in `current` order, then removals
+ */
+export function diffSections(
+  source: ChangeSource,
+  previous: SectionSnapshot[],
+  current: SectionSnapshot[]
+): SectionChangeEvent[] {
+  const previousByKey = new Map(previous.map((s) => [s.sectionKey, s]));
+  const currentKeys = new Set(current.map((s) => s.sectionKey));
+
+  const changes = current.flatMap((section) => {
+    const change = diffSection(
+      source,
+      previousByKey.get(section.sectionKey)?.text ?? null,
+      section
+    );
+    return change ? [change] : [];
+  });
+
+  for (const section of previous) {
+    if (!currentKeys.has(section.sectionKey)) {
+      changes.push({
+        ...source,
+        sectionKey: section.sectionKey,
+        chapterKey: section.chapterKey,
+        citation: section.citation,
+        heading: section.heading,
+        changeType: 'removed',
+        diff: redline(section.text, ''),
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Collects change events for a source compared section by section
+ */
+export interface ChangeTracker {
+  /** Compare a section with its previous snapshot text (null if not stored) */
+  compare(previousText: string | null, current: SectionSnapshot): void;
+  /** Change events, or [] if no section had a previous snapshot */
+  events(): SectionChangeEvent[];
+}
+
+/**
+ * Create a change tracker for sources stored one section at a time
+ *
+ * If none of the compared sections had a previous snapshot, the source is
+ * being ingested for the first time and no events are reported, rather
+ * than one "added" event per section.
+ *
+ * @example
+ * ```ts
+ * const tracker = createChangeTracker(texasCodeChangeSource('AL'));
+ * for (const section of sections) {
+ *   const previous = await getTexasStatute(bucket, 'AL', section.chapter, section.section);
+ *   tracker.compare(previous && storedSectionText(previous), texasStatuteSnapshot(section));
+ * }
+ * await recordSectionChanges(env.CONVEX_URL, tracker.events());
+ * ```
+ */
+export function createChangeTracker(source: ChangeSource): ChangeTracker {
+  const changes: SectionChangeEvent[] = [];
+  let hasPrevious = false;
+
+  return {
+    compare(previousText, current) {
+      hasPrevious ||= previousText !== null;
+      const change = diffSection(source, previousText, current);
+      if (change) changes.push(change);
+    },
+
+    events() {
+      return hasPrevious ? changes : [];
+    },
+  };
+}
+
+/**
+ * Text of a document stored by the Texas and county pipelines
+ *
+ * Those pipelines wrap section text in a minimal HTML shell for R2.
+ */
+export function storedSectionText(stored: string): string {
+  return stored.replace(/^<html><body>/, '').replace(/<\/body><\/html>$/, '');
+}
+
+// ============================================================================
+// Snapshots and Sources
+// ============================================================================
+
+/**
+ * Section and chapter keys from the first chunk ID of a section
+ */
+function sectionKeys(
+  firstChunkId: string,
+  section: string
+): Pick<SectionSnapshot, 'sectionKey' | 'chapterKey'> {
+  const sectionKey = firstChunkId.replace(/-0$/, '');
+  return {
+    sectionKey,
+    chapterKey: sectionKey.slice(0, -(section.length + 1)),
+  };
+}
+
+/**
+ * Build change source for a CFR title
+ */
+export function federalChangeSource(titleNumber: number): ChangeSource {
+  return {
+    sourceKey: generateSourceId(titleNumber),
+    sourceType: 'federal',
+    jurisdiction: 'US',
+  };
+}
+
+/**
+ * Build snapshot of a CFR section
+ */
+export function cfrSectionSnapshot(
+  titleNumber: number,
+  partNumber: number,
+  section: CFRSection
+): SectionSnapshot {
+  return {
+    ...sectionKeys(
+      generateChunkId(titleNumber, partNumber, section.number, 0),
+      section.number
+    ),
+    citation: generateCFRCitation(titleNumber, section.number),
+    heading: section.title,
+    text: section.text,
+  };
+}
+
+/**
+ * Build change source for a Texas statute code
+ */
+export function texasCodeChangeSource(code: string): ChangeSource {
+  return {
+    sourceKey: generateTexasSourceId('statute', code),
+    sourceType: 'state',
+    jurisdiction: 'TX',
+  };
+}
+
+/**
+ * Build snapshot of a Texas statute section
+ */
+export function texasStatuteSnapshot(
+  section: TexasStatuteSection
+): SectionSnapshot {
+  return {
+    ...sectionKeys(
+      generateTexasChunkId(
+        'statute',
+        section.code,
+        section.chapter,
+        section.section,
+        0
+      ),
+      section.section
+    ),
+    citation: generateTexasStatuteCitation(section.code, section.section),
+    heading: section.heading,
+    text: section.text,
+  };
+}
+
+/**
+ * Build change source for a Texas Administrative Code title
+ */
+export function tacChangeSource(titleNumber: number): ChangeSource {
+  return {
+    sourceKey: generateTexasSourceId('tac', titleNumber),
+    sourceType: 'state',
+    jurisdiction: 'TX',
+  };
+}
+
+/**
+ * Build snapshot of a TAC rule
+ */
+export function tacRuleSnapshot(rule: TACRule): SectionSnapshot {
+  return {
+    ...sectionKeys(
+      generateTexasChunkId('tac', rule.title, rule.chapter, rule.section, 0),
+      rule.section
+    ),
+    citation: generateTACCitation(rule.title, rule.section),
+    heading: rule.heading,
+    text: rule.text,
+  };
+}
+
+/**
+ * Build change source for a county code of ordinances
+ */
+export function countyChangeSource(
+  county: string,
+  fipsCode: string
+): ChangeSource {
+  return {
+    sourceKey: generateCountySourceId(county),
+    sourceType: 'county',
+    jurisdiction: countyJurisdictionId('TX', fipsCode),
+  };
+}
+
+/**
+ * Build snapshot of a county ordinance section
+ */
+export function countyOrdinanceSnapshot(
+  ordinance: CountyOrdinance,
+  codeName = 'Code of Ordinances'
+): SectionSnapshot {
+  return {
+    ...sectionKeys(
+      generateCountyChunkId(
+        ordinance.county,
+        ordinance.chapter,
+        ordinance.section,
+        0
+      ),
+      ordinance.section
+    ),
+    citation: generateCountyCitation(
+      ordinance.county,
+      codeName,
+      ordinance.section
+    ),
+    heading: ordinance.heading,
+    text: ordinance.text,
+  };
+}
+
+/**
+ * Build change source for a city code of ordinances
+ */
+export function municipalChangeSource(cityId: string): ChangeSource {
+  return {
+    sourceKey: generateMunicipalSourceId(cityId),
+    sourceType: 'municipal',
+    jurisdiction: cityJurisdictionId('TX', cityId),
+  };
+}
+
+/**
+ * Build snapshot of a city ordinance section
+ */
+export function municipalOrdinanceSnapshot(
+  cityName: string,
+  ordinance: MunicipalOrdinance
+): SectionSnapshot {
+  return {
+    ...sectionKeys(
+      generateMunicipalChunkId(
+        ordinance.cityId,
+        ordinance.chapter,
+        ordinance.section,
+        0
+      ),
+      ordinance.section
+    ),
+    citation: generateMunicipalCitation(cityName, ordinance.section),
+    heading: ordinance.heading,
+    text: ordinance.text,
+  };
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Record change events in Convex
+ *
+ * Calls the `changes:recordChanges` mutation over the Convex HTTP API in
+ * batches. Best-effort: returns the number of events recorded instead of
+ * throwing when Convex is not configured or a call fails.
+ *
+ * @param convexUrl Convex deployment URL (env.CONVEX_URL)
+ * @param changes Change events from diffSection / diffSections
+ * @returns Number of events recorded
+ *
+ * @example
+ * ```ts
+ * const changes = diffSections(federalChangeSource(21), previous, current);
+ * await recordSectionChanges(env.CONVEX_URL, changes);
+ * ```
+ */
+export async function recordSectionChanges(
+  convexUrl: string | undefined,
+  changes: SectionChangeEvent[]
+): Promise<number> {
+  if (!convexUrl || changes.length === 0) {
+    return 0;
+  }
+
+  const detectedAt = Date.now();
+  let recorded = 0;
+
+  for (let i = 0; i < changes.length; i += RECORD_BATCH_SIZE) {
+    const batch = changes.slice(i, i + RECORD_BATCH_SIZE);
+    try {
+      const response = await fetch(`${convexUrl}/api/mutation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          path: 'changes:recordChanges',
+          args: { events: batch, detectedAt },
+        }),
+      });
+
+      if (!response.ok) {
+        console.warn(
+          `[Changes] Failed to record ${batch.length} changes: ${response.status}`
+        );
+        continue;
+      }
+      recorded += batch.length;
+    } catch (error) {
+      console.warn(
+        `[Changes] Failed to record ${batch.length} changes: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  }
+
+  return recorded;
+}
@@ -171,6 +171,28 @@ export function generateChunkId(
   return `cfr-${title}-${part}-${section}-${chunkIndex}`;
 }
 
+/**
+ * Generate chunk ID for a superseded version of a CFR section
+ *
+ * Format: {chunkId}@{effectiveDate}
+ *
+ * @param chunkId Chunk ID of the section (see generateChunkId)
+ * @param effectiveDate Date the version took effect (YYYY-MM-DD)
+ * @returns Versioned chunk identifier
+ *
+ * @example
+ * ```ts
+ * generateVersionedChunkId('cfr-21-117-117.3-0', '2021-03-01')
+ * // => "cfr-21-117-117.3-0@2021-03-01"
+ * ```
+ */
+export function generateVersionedChunkId(
+  chunkId: string,
+  effectiveDate: string
+): string {
+  return `${chunkId}@${effectiveDate}`;
+}
+
 /**
  * Generate source ID for a CFR title
  *
@@ -812,3 +834,214 @@ export function generateMunicipalHierarchy(
     `Section ${section}`,
   ];
 }
+
+// ============================================================================
+// Federal Register Citation Utilities
+// ============================================================================
+
+/**
+ * Generate Federal Register citation for a rule document
+ *
+ * Format: [Volume] Fed. Reg. [Page] ([Date])
+ * Documents not yet paginated are cited by document number.
+ *
+ * @param frCitation API citation (e.g., "91 FR 61234"), if published
+ * @param documentNumber FR document number (e.g., "2026-18231")
+ * @param publicationDate Publication date (YYYY-MM-DD)
+ * @returns Citation string
+ *
+ * @example
+ * ```ts
+ * generateFederalRegisterCitation('91 FR 61234', '2026-18231', '2026-09-15')
+ * // => "91 Fed. Reg. 61234 (Sept. 15, 2026)"
+ *
+ * generateFederalRegisterCitation(undefined, '2026-18231', '2026-09-15')
+ * // => "FR Doc. 2026-18231 (Sept. 15, 2026)"
+ * ```
+ */
+export function generateFederalRegisterCitation(
+  frCitation: string | undefined,
+  documentNumber: string,
+  publicationDate: string
+): string {
+  const [year, month, day] = publicationDate.split('-').map(Number);
+  const months = [
+    'Jan.',
+    'Feb.',
+    'Mar.',
+    'Apr.',
+    'May',
+    'June',
+    'July',
+    'Aug.',
+    'Sept.',
+    'Oct.',
+    'Nov.',
+    'Dec.',
+  ];
+  const date = `${months[(month ?? 1) - 1]} ${day}, ${year}`;
+
+  const match = frCitation?.match(/^(\d+)\s+FR\s+(\d+)$/);
+  return match
+    ? `${match[1]} Fed. Reg. ${match[2]} (${date})`
+    : `FR Doc. ${documentNumber} (${date})`;
+}
+
+/**
+ * Generate unique chunk ID for a Federal Register document
+ *
+ * Format: fr-{documentNumber}-{chunkIndex}
+ *
+ * @param documentNumber FR document number (e.g., "2026-18231")
+ * @param chunkIndex Chunk index within the document
+ * @returns Unique chunk identifier
+ *
+ * @example
+ * ```ts
+ * generateFederalRegisterChunkId('2026-18231', 0)
+ * // => "fr-2026-18231-0"
+ * ```
+ */
+export function generateFederalRegisterChunkId(
+  documentNumber: string,
+  chunkIndex: number
+): string {
+  return `fr-${documentNumber}-${chunkIndex}`;
+}
+
+/**
+ * Generate source ID for an agency's Federal Register rules
+ *
+ * Format: fr-{agencyKey}
+ *
+ * @param agencyKey Agency key (e.g., "fda")
+ * @returns Source identifier
+ *
+ * @example
+ * ```ts
+ * generateFederalRegisterSourceId('fda')
+ * // => "fr-fda"
+ * ```
+ */
+export function generateFederalRegisterSourceId(agencyKey: string): string {
+  return `fr-${agencyKey}`;
+}
+
+// ============================================================================
+// United States Code Citation Utilities
+// ============================================================================
+
+/**
+ * Generate Bluebook-format U.S. Code citation
+ *
+ * Format: [Title] U.S.C. § [Section][(Subsection)]
+ *
+ * @param title USC title number
+ * @param section Section number (e.g., "812", "360bbb-3")
+ * @param subsection Optional subsection identifier (e.g., "(a)(1)")
+ * @returns Bluebook citation string
+ *
+ * @example
+ * ```ts
+ * generateUSCCitation(21, '812')
+ * // => "21 U.S.C. § 812"
+ *
+ * generateUSCCitation(26, '5001', '(a)(1)')
+ * // => "26 U.S.C. § 5001(a)(1)"
+ * ```
+ */
+export function generateUSCCitation(
+  title: number,
+  section: string,
+  subsection?: string
+): string {
+  // Examples: "812", "360bbb-3", "1681a"
+  if (!/^\d+[a-z0-9-]*$/i.test(section)) {
+    throw new Error(
+      `Invalid USC section format: ${section}. Expected format like "812", "1681a", or "360bbb-3"`
+    );
+  }
+
+  return `${title} U.S.C. § ${section}${subsection ?? ''}`;
+}
+
+/**
+ * Generate uscode.house.gov URL for a specific section
+ *
+ * @param title USC title number
+ * @param section Section number (e.g., "812")
+ * @returns Direct URL to the OLRC section view
+ *
+ * @example
+ * ```ts
+ * generateUSCUrl(21, '812')
+ * // => "https://uscode.house.gov/view.xhtml?req=granuleid:USC-prelim-title21-section812&num=0&edition=prelim"
+ * ```
+ */
+export function generateUSCUrl(title: number, section: string): string {
+  return `https://uscode.house.gov/view.xhtml?req=granuleid:USC-prelim-title${title}-section${section}&num=0&edition=prelim`;
+}
+
+/**
+ * Generate unique chunk ID for a U.S. Code section chunk
+ *
+ * Format: usc-{title}-{section}-{chunkIndex}
+ *
+ * @param title USC title number
+ * @param section Section number
+ * @param chunkIndex Chunk index within section
+ * @returns Unique chunk identifier
+ *
+ * @example
+ * ```ts
+ * generateUSCChunkId(21, '812', 0)
+ * // => "usc-21-812-0"
+ * ```
+ */
+export function generateUSCChunkId(
+  title: number,
+  section: string,
+  chunkIndex: number
+): string {
+  return `usc-${title}-${section}-${chunkIndex}`;
+}
+
+/**
+ * Generate source ID for a U.S. Code title
+ *
+ * Format: usc-title-{titleNumber}
+ *
+ * @param titleNumber USC title number
+ * @returns Source identifier
+ *
+ * @example
+ * ```ts
+ * generateUSCSourceId(21)
+ * // => "usc-title-21"
+ * ```
+ */
+export function generateUSCSourceId(titleNumber: number): string {
+  return `usc-title-${titleNumber}`;
+}
+
+/**
+ * Generate hierarchy breadcrumbs for a U.S. Code section
+ *
+ * @param title USC title number
+ * @param chapter Chapter number (e.g., "13", "9A")
+ * @param section Section number
+ * @returns Array of hierarchy strings
+ *
+ * @example
+ * ```ts
+ * generateUSCHierarchy(21, '13', '812')
+ * // => ["Title 21", "Chapter 13", "Section 812"]
+ * ```
+ */
+export function generateUSCHierarchy(
+  title: number,
+  chapter: string,
+  section: string
+): string[] {
+  return [`Title ${title}`, `Chapter ${chapter}`, `Section ${section}`];
+}
@@ -0,0 +1,280 @@
+/**
+ * Convex Source Registration
+ *
+ * Registers each ingested source document (the `sourceId` stamped on every
+ * Pinecone chunk, e.g. "cfr-title-21", "county-harris") as a row in the
+ * Convex `sources` table, together with its jurisdiction.
+ *
+ * This is what lets the query pipeline map a retrieved chunk back to a
+ * Convex source record, and keeps `sources.lastScrapedAt` in step with
+ * actual ingestion.
+ *
+ * Registration is best-effort: failures are logged but never fail a pipeline.
+ */
+
+import {
+  generateSourceId,
+  generateTexasSourceId,
+  generateCountySourceId,
+  generateMunicipalSourceId,
+  generateFederalRegisterSourceId,
+  generateUSCSourceId,
+} from './citations';
+import type { TexasCodeConfig, TACTitleConfig } from '../texas/types';
+import type { CountySourceConfig } from '../counties/types';
+import type { MunicipalCityConfig } from '../municipal/types';
+import type { FederalRegisterAgencyConfig } from '../federal-register/types';
+
+/**
+ * Jurisdiction that owns a source (mirrors Convex `jurisdictions` fields)
+ */
+export interface SourceJurisdiction {
+  /** Jurisdiction level */
+  type: 'federal' | 'state' | 'county' | 'city';
+  /** Display name (e.g., "United States", "Texas", "Harris County", "Houston") */
+  name: string;
+  /** State code (e.g., "TX") */
+  stateCode?: string;
+  /** County FIPS code (e.g., "48201") */
+  countyFips?: string;
+  /** City identifier (e.g., "houston") */
+  cityId?: string;
+}
+
+/**
+ * Source registration payload for `sources:upsertSource`
+ */
+export interface SourceRegistration {
+  /** Pinecone chunk sourceId (e.g., "cfr-title-21") */
+  sourceKey: string;
+  /** Display name (e.g., "21 CFR - Food and Drugs") */
+  name: string;
+  /** Base URL for the source */
+  url: string;
+  /** Convex source type */
+  sourceType: 'statutes' | 'regulations' | 'ordinances' | 'other';
+  /** Owning jurisdiction */
+  jurisdiction: SourceJurisdiction;
+  /** Result of the ingestion run */
+  status: 'complete' | 'error';
+  /** Number of vectors upserted for this source in the run */
+  vectorCount?: number;
+}
+
+const FEDERAL_JURISDICTION: SourceJurisdiction = {
+  type: 'federal',
+  name: 'United States',
+};
+
+const TEXAS_JURISDICTION: SourceJurisdiction = {
+  type: 'state',
+  name: 'Texas',
+  stateCode: 'TX',
+};
+
+/**
+ * Build registration for a CFR title
+ */
+export function federalTitleSource(
+  titleNumber: number,
+  titleName: string | undefined,
+  status: SourceRegistration['status'],
+  vectorCount?: number
+): SourceRegistration {
+  return {
+    sourceKey: generateSourceId(titleNumber),
+    name: titleName
+      ? `${titleNumber} CFR - ${titleName}`
+      : `${titleNumber} CFR`,
+    url: `https://www.ecfr.gov/current/title-${titleNumber}`,
+    sourceType: 'regulations',
+    jurisdiction: FEDERAL_JURISDICTION,
+    status,
+    vectorCount,
+  };
+}
+
+/**
+ * Build registration for a U.S. Code title
+ */
+export function uscTitleSource(
+  titleNumber: number,
+  titleName: string | undefined,
+  status: SourceRegistration['status'],
+  vectorCount?: number
+): SourceRegistration {
+  return {
+    sourceKey: generateUSCSourceId(titleNumber),
+    name: titleName
+      ? `${titleNumber} U.S.C. - ${titleName}`
+      : `${titleNumber} U.S.C.`,
+    url: `https://uscode.house.gov/browse/prelim@title${titleNumber}`,
+    sourceType: 'statutes',
+    jurisdiction: FEDERAL_JURISDICTION,
+    status,
+    vectorCount,
+  };
+}
+
+/**
+ * Build registration for an agency's Federal Register rules
+ */
+export function federalRegisterSource(
+  agency: FederalRegisterAgencyConfig,
+  status: SourceRegistration['status'],
+  vectorCount?: number
+): SourceRegistration {
+  return {
+    sourceKey: generateFederalRegisterSourceId(agency.key),
+    name: `Federal Register - ${agency.name} rules`,
+    url: `https://www.federalregister.gov/agencies/${agency.slug}`,
+    sourceType: 'regulations',
+    jurisdiction: FEDERAL_JURISDICTION,
+    status,
+    vectorCount,
+  };
+}
+
+/**
+ * Build registration for a Texas statute code
+ */
+export function texasCodeSource(
+  codeConfig: TexasCodeConfig,
+  status: SourceRegistration['status'],
+  vectorCount?: number
+): SourceRegistration {
+  return {
+    sourceKey: generateTexasSourceId('statute', codeConfig.abbreviation),
+    name: `Texas ${codeConfig.name}`,
+    url: `https://statutes.capitol.texas.gov/?link=${codeConfig.abbreviation}`,
+    sourceType: 'statutes',
+    jurisdiction: TEXAS_JURISDICTION,
+    status,
+    vectorCount,
+  };
+}
+
+/**
+ * Build registration for a Texas Administrative Code title
+ */
+export function texasTACSource(
+  titleConfig: TACTitleConfig,
+  status: SourceRegistration['status'],
+  vectorCount?: number
+): SourceRegistration {
+  return {
+    sourceKey: generateTexasSourceId('tac', titleConfig.number),
+    name: `${titleConfig.number} TAC - ${titleConfig.name}`,
+    url: 'https://texreg.sos.state.tx.us/public/readtac$ext.viewtac',
+    sourceType: 'regulations',
+    jurisdiction: TEXAS_JURISDICTION,
+    status,
+    vectorCount,
+  };
+}
+
+/**
+ * Build registration for a county code of ordinances
+ */
+export function countySource(
+  config: CountySourceConfig,
+  status: SourceRegistration['status'],
+  vectorCount?: number
+): SourceRegistration {
+  return {
+    sourceKey: generateCountySourceId(config.name),
+    name: `${config.name} County Code of Ordinances`,
+    url: config.baseUrl ?? '',
+    sourceType: 'ordinances',
+    jurisdiction: {
+      type: 'county',
+      name: `${config.name} County`,
+      stateCode: 'TX',
+      countyFips: config.fipsCode,
+    },
+    status,
+    vectorCount,
+  };
+}
+
+/**
+ * Build registration for a city code of ordinances
+ */
+export function municipalSource(
+  city: MunicipalCityConfig,
+  status: SourceRegistration['status'],
+  vectorCount?: number
+): SourceRegistration {
+  return {
+    sourceKey: generateMunicipalSourceId(city.cityId),
+    name: `${city.name} Code of Ordinances`,
+    url: city.baseUrl,
+    sourceType: 'ordinances',
+    jurisdiction: {
+      type: 'city',
+      name: city.name,
+      stateCode: 'TX',
+      cityId: city.cityId,
+    },
+    status,
+    vectorCount,
+  };
+}
+
+/**
+ * Register (upsert) a source in Convex
+ *
+ * Calls the `sources:upsertSource` mutation over the Convex HTTP API.
+ * Best-effort: returns false instead of throwing when Convex is not
+ * configured or the call fails.
+ *
+ * @param convexUrl Convex deployment URL (env.CONVEX_URL)
+ * @param registration Source to register
+ * @returns Whether registration succeeded
+ *
+ * @example
+ * ```ts
+ * await registerSource(
+ *   env.CONVEX_URL,
+ *   federalTitleSource(21, 'Food and Drugs', 'complete', 1234)
+ * );
+ * ```
+ */
+export async function registerSource(
+  convexUrl: string | undefined,
+  registration: SourceRegistration
+): Promise<boolean> {
+  if (!convexUrl) {
+    return false;
+  }
+
+  try {
+    const response = await fetch(`${convexUrl}/api/mutation`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        path: 'sources:upsertSource',
+        args: {
+          ...registration,
+          lastScrapedAt: Date.now(),
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      console.warn(
+        `[Sources] Failed to register ${registration.sourceKey}: ${response.status}`
+      );
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.warn(
+      `[Sources] Failed to register ${registration.sourceKey}: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+    return false;
+  }
+}
@@ -8,6 +8,7 @@
  * - Markdown cache check first (30-day TTL) to minimize Firecrawl costs
  * - Skip-and-log: failed cities logged but batch continues
  * - Checkpoint updated after each successful city
+ * - Section changes computed against the previously stored ordinances
  * - Sequential processing to avoid API overload
  */
 
@@ -23,11 +24,18 @@ import type { Env as ScraperEnv } from './scraper';
 import { parseMarkdownToOrdinances, validateOrdinances } from './parser';
 import {
   storeMunicipalOrdinances,
+  getMunicipalOrdinance,
   storeMunicipalMarkdown,
   getMunicipalMarkdown,
   saveMunicipalCheckpoint,
   loadMunicipalCheckpoint,
 } from './storage';
+import {
+  createChangeTracker,
+  municipalChangeSource,
+  municipalOrdinanceSnapshot,
+  recordSectionChanges,
+} from '../lib/changes';
 
 // ============================================================================
 // Environment Types
@@ -38,6 +46,8 @@ import {
  */
 export interface Env extends ScraperEnv {
   FIRECRAWL_API_KEY: string;
+  /** Convex deployment URL for change events (skipped if unset) */
+  CONVEX_URL?: string;
 }
 
 // ============================================================================
@@ -68,6 +78,8 @@ export interface CityFetchResult {
   fromCache: boolean;
   /** Firecrawl credits used (0 if cached) */
   creditsUsed: number;
+  /** Section changes recorded in Convex since the previous run */
+  sectionsChanged: number;
 }
 
 // ============================================================================
@@ -78,7 +90,8 @@ export interface CityFetchResult {
  * Fetch and store ordinances for a single city
  *
  * Checks markdown cache first to minimize Firecrawl API costs.
- * Stores both raw markdown (cache) and parsed ordinances.
+ * Stores both raw markdown (cache) and parsed ordinances, after recording
+ * changes against the previously stored ordinances in Convex.
  *
  * @param env Cloudflare Workers environment
  * @param city City configuration
@@ -142,6 +155,26 @@ export async function fetchCity(
     }
   }
 
+  // Compare with the previous run's copies before overwriting them
+  const changes = createChangeTracker(municipalChangeSource(city.cityId));
+  for (const ordinance of ordinances) {
+    const previous = await getMunicipalOrdinance(
+      env,
+      city.cityId,
+      ordinance.chapter,
+      ordinance.section
+    );
+    changes.compare(
+      previous?.text ?? null,
+      municipalOrdinanceSnapshot(city.name, ordinance)
+    );
+  }
+
+  const sectionsChanged = await recordSectionChanges(
+    env.CONVEX_URL,
+    changes.events()
+  );
+
   // Store parsed ordinances
   await storeMunicipalOrdinances(env, ordinances);
 
@@ -149,7 +182,12 @@ export async function fetchCity(
     `[Municipal] Stored ${ordinances.length} ordinances for ${city.name} (cache: ${fromCache}, credits: ${creditsUsed})`
   );
 
-  return { ordinances, fromCache, creditsUsed };
+  return {
+    ordinances,
+    fromCache,
+    creditsUsed,
+    sectionsChanged,
+  };
 }
 
 /**
@@ -18,6 +18,7 @@
  * 4. Sync freshness to Convex (best-effort)
  */
 
+import { cityJurisdictionId } from '@compliance-iq/shared-types';
 import type {
   MunicipalCityConfig,
   MunicipalCheckpoint,
@@ -27,6 +28,8 @@ import { fetchCity, type Env as FetchEnv } from './fetch';
 import { chunkCity } from './chunk';
 import { embedChunks } from '../federal/embed';
 import { initPinecone, getIndex, upsertChunks, type ChunkMetadata } from '../pinecone';
+import { registerSource, municipalSource } from '../lib/sources';
+import { generateMunicipalSourceId } from '../lib/citations';
 import {
   saveMunicipalCheckpoint,
   loadMunicipalCheckpoint,
@@ -185,9 +188,9 @@ export async function processCity(
       values: embeddedChunk.embedding,
       metadata: {
         chunkId: originalChunk.chunkId,
-        sourceId: `municipal-${city.cityId}-${originalChunk.chapter}-${originalChunk.section}`,
+        sourceId: generateMunicipalSourceId(city.cityId),
         sourceType: 'municipal' as const,
-        jurisdiction: `TX-${city.cityId}`,
+        jurisdiction: cityJurisdictionId('TX', city.cityId),
         text: originalChunk.text,
         citation: originalChunk.citation,
         title: `${city.name} Code of Ordinances - ${originalChunk.section}`,
@@ -215,6 +218,12 @@ export async function processCity(
 
   await upsertChunks(index, vectors);
 
+  // Register city code in Convex sources (best-effort)
+  await registerSource(
+    env.CONVEX_URL,
+    municipalSource(city, 'complete', vectors.length)
+  );
+
   const duration = Date.now() - startTime;
 
   console.log(
@@ -20,8 +20,8 @@ export type ChunkMetadata = RecordMetadata & {
   /** Source document identifier (e.g., CFR title/part, statute chapter) */
   sourceId: string;
 
-  /** Type of regulatory source */
-  sourceType: 'federal' | 'state' | 'county' | 'municipal';
+  /** Type of regulatory source ('federal_register' = proposed/final rule summaries) */
+  sourceType: 'federal' | 'state' | 'county' | 'municipal' | 'federal_register';
 
   /** Jurisdiction (e.g., 'US', 'TX', 'Harris County', 'Houston') */
   jurisdiction: string;
@@ -49,6 +49,24 @@ export type ChunkMetadata = RecordMetadata & {
 
   /** ISO 8601 timestamp of last known update to source (optional) */
   lastUpdated?: string;
+
+  /** Date the text version took effect, as YYYYMMDD (versioned sources only) */
+  effectiveFrom?: number;
+
+  /** Date the text version was superseded, as YYYYMMDD (99991231 while in force) */
+  effectiveTo?: number;
+
+  /** Federal Register rule type (federal_register only) */
+  documentType?: 'proposed_rule' | 'final_rule';
+
+  /** CFR parts a rule amends, as "{title}-{part}" (federal_register only) */
+  cfrParts?: string[];
+
+  /** Date a final rule takes effect, as YYYYMMDD (federal_register only) */
+  effectiveOn?: number;
+
+  /** Comment deadline of a proposed rule, as YYYYMMDD (federal_register only) */
+  commentsCloseOn?: number;
 };
 
 /**
@@ -7,7 +7,7 @@
  * Pipeline Flow:
  * 1. Load checkpoint (if exists) to resume from last position
  * 2. Fetch source HTML (statutes or TAC)
- * 3. Store raw HTML in R2
+ * 3. Record section changes against the stored copy, store raw HTML in R2
  * 4. Chunk sections into embeddings-ready chunks
  * 5. Generate embeddings via OpenAI
  * 6. Upsert vectors to Pinecone with metadata
@@ -31,6 +31,8 @@ import { fetchTACTitle } from './fetch-tac';
 import {
   storeTexasStatute,
   storeTACRule,
+  getTexasStatute,
+  getTACRule,
   saveTexasCheckpoint,
   loadTexasCheckpoint,
   clearTexasCheckpoint,
@@ -38,6 +40,20 @@ import {
 import { chunkTexasStatute, chunkTACRule, type TexasChunkContext, type TACChunkContext } from './chunk';
 import { embedChunks } from '../federal/embed'; // Reuse federal embed
 import { initPinecone, getIndex, upsertChunks } from '../pinecone';
+import {
+  registerSource,
+  texasCodeSource,
+  texasTACSource,
+} from '../lib/sources';
+import {
+  createChangeTracker,
+  recordSectionChanges,
+  storedSectionText,
+  texasCodeChangeSource,
+  texasStatuteSnapshot,
+  tacChangeSource,
+  tacRuleSnapshot,
+} from '../lib/changes';
 
 /**
  * Result of processing a single Texas source (statute code or TAC title)
@@ -117,11 +133,26 @@ export async function processTexasCode(
 
     // Collect all sections
     const sections: TexasStatuteSection[] = [];
+    const changes = createChangeTracker(
+      texasCodeChangeSource(codeConfig.abbreviation)
+    );
     for await (const section of fetchTexasCode(codeConfig)) {
       sections.push(section);
 
       // Store raw HTML in R2
       try {
+        // Compare with the previous run's copy before overwriting it
+        const previous = await getTexasStatute(
+          env.DOCUMENTS_BUCKET,
+          section.code,
+          section.chapter,
+          section.section
+        );
+        changes.compare(
+          previous === null ? null : storedSectionText(previous),
+          texasStatuteSnapshot(section)
+        );
+
         // Fetch HTML again for storage (in production, we'd cache this)
         const html = `<html><body>${section.text}</body></html>`; // Simplified for now
         await storeTexasStatute(env.DOCUMENTS_BUCKET, section, html);
@@ -183,6 +214,19 @@ export async function processTexasCode(
     await upsertChunks(index, records);
     vectorsUpserted = records.length;
 
+    // Record section changes in Convex (best-effort)
+    await recordSectionChanges(env.CONVEX_URL, changes.events());
+
+    // Register code in Convex sources (best-effort)
+    await registerSource(
+      env.CONVEX_URL,
+      texasCodeSource(
+        codeConfig,
+        errors.length === 0 ? 'complete' : 'error',
+        vectorsUpserted
+      )
+    );
+
     const durationMs = Date.now() - startTime;
     console.log(
       `[TX Pipeline] Code ${codeConfig.abbreviation} complete: ${vectorsUpserted} vectors in ${durationMs}ms`
@@ -254,11 +298,24 @@ export async function processTexasTACTitle(
 
     // Collect all rules
     const rules: TACRule[] = [];
+    const changes = createChangeTracker(tacChangeSource(titleConfig.number));
     for await (const rule of fetchTACTitle(titleConfig)) {
       rules.push(rule);
 
       // Store raw HTML in R2
       try {
+        // Compare with the previous run's copy before overwriting it
+        const previous = await getTACRule(
+          env.DOCUMENTS_BUCKET,
+          rule.title,
+          rule.chapter,
+          rule.section
+        );
+        changes.compare(
+          previous === null ? null : storedSectionText(previous),
+          tacRuleSnapshot(rule)
+        );
+
         // Fetch HTML again for storage (in production, we'd cache this)
         const html = `<html><body>${rule.text}</body></html>`; // Simplified for now
         await storeTACRule(env.DOCUMENTS_BUCKET, rule, html);
@@ -320,6 +377,19 @@ export async function processTexasTACTitle(
     await upsertChunks(index, records);
     vectorsUpserted = records.length;
 
+    // Record section changes in Convex (best-effort)
+    await recordSectionChanges(env.CONVEX_URL, changes.events());
+
+    // Register TAC title in Convex sources (best-effort)
+    await registerSource(
+      env.CONVEX_URL,
+      texasTACSource(
+        titleConfig,
+        errors.length === 0 ? 'complete' : 'error',
+        vectorsUpserted
+      )
+    );
+
     const durationMs = Date.now() - startTime;
     console.log(
       `[TX Pipeline] TAC Title ${titleConfig.number} complete: ${vectorsUpserted} vectors in ${durationMs}ms`
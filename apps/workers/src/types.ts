@@ -2,6 +2,7 @@ import type {
   Workflow,
   FederalBatchParams,
   FederalTitleParams,
+  USCTitleParams,
   TexasBatchParams,
   TexasCodeParams,
   TexasTACParams,
@@ -40,6 +41,9 @@ export interface Env {
   FEDERAL_BATCH_WORKFLOW: Workflow<FederalBatchParams>;
   FEDERAL_TITLE_WORKFLOW: Workflow<FederalTitleParams>;
 
+  // Federal U.S. Code pipeline
+  USC_TITLE_WORKFLOW: Workflow<USCTitleParams>;
+
   // Texas state pipeline
   TEXAS_BATCH_WORKFLOW: Workflow<TexasBatchParams>;
   TEXAS_CODE_WORKFLOW: Workflow<TexasCodeParams>;
@@ -18,11 +18,17 @@
  */
 
 import type { Index } from '@pinecone-database/pinecone';
+import {
+  cityJurisdictionId,
+  countyJurisdictionId,
+} from '@compliance-iq/shared-types';
 import type {
   CoverageReport,
   JurisdictionCoverage,
 } from './types';
 import { TARGET_TITLES } from '../federal/types';
+import { USC_TARGET_TITLES } from '../federal/usc/types';
+import { generateUSCSourceId } from '../lib/citations';
 import { getEnabledCounties } from '../counties/sources';
 import { getEnabledCities } from '../municipal/cities';
 
@@ -90,10 +96,11 @@ export async function getIndexedJurisdictions(
 }
 
 /**
- * Check coverage for federal CFR titles.
+ * Check coverage for federal CFR and U.S. Code titles.
  *
  * Compares indexed federal jurisdictions against TARGET_TITLES to determine
- * which titles have been processed.
+ * which titles have been processed. U.S. Code titles (USC_TARGET_TITLES)
+ * are checked individually by sourceId.
  *
  * Note: Federal data uses jurisdiction='US' for all titles. We can verify
  * that federal data exists but cannot determine which specific titles are missing
@@ -131,6 +138,26 @@ export async function checkFederalCoverage(
     status: federalIndexed ? 'active' : 'missing',
   }));
 
+  // U.S. Code titles share jurisdiction='US', so probe each by sourceId
+  const dummyVector = new Array(3072).fill(0);
+  for (const title of USC_TARGET_TITLES) {
+    const results = await index.query({
+      vector: dummyVector,
+      topK: 1,
+      filter: { sourceId: generateUSCSourceId(title.number) },
+    });
+    const indexed = results.matches.length > 0;
+
+    coverage.push({
+      name: `Title ${title.number} U.S.C.: ${title.name}`,
+      identifier: 'US',
+      expected: title.enabled,
+      indexed,
+      vectorCount: 0,
+      status: indexed ? 'active' : 'missing',
+    });
+  }
+
   return coverage;
 }
 
@@ -164,7 +191,7 @@ export async function checkCountyCoverage(
 
   // Build coverage report
   const coverage: JurisdictionCoverage[] = targetCounties.map((county) => {
-    const jurisdiction = `TX-${county.fipsCode}`;
+    const jurisdiction = countyJurisdictionId('TX', county.fipsCode);
     const indexed = indexedJurisdictions.includes(jurisdiction);
 
     return {
@@ -210,7 +237,7 @@ export async function checkMunicipalCoverage(
 
   // Build coverage report
   const coverage: JurisdictionCoverage[] = targetCities.map((city) => {
-    const jurisdiction = `TX-${city.cityId}`;
+    const jurisdiction = cityJurisdictionId('TX', city.cityId);
     const indexed = indexedJurisdictions.includes(jurisdiction);
 
     return {
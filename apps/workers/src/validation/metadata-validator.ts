@@ -54,6 +54,8 @@ export interface SourceTypeDistribution {
   county: number;
   /** Number of municipal chunks */
   municipal: number;
+  /** Number of Federal Register rule chunks */
+  federal_register: number;
 }
 
 /**
@@ -264,6 +266,7 @@ export function checkSourceTypeDistribution(
     state: 0,
     county: 0,
     municipal: 0,
+    federal_register: 0,
   };
 
   for (const metadata of metadataArray) {
@@ -4,9 +4,10 @@
  * Worker workflow that processes a single Texas county through the full pipeline:
  * 1. Fetch ordinances via platform adapter
  * 2. Parse into ordinance sections
- * 3. Chunk ordinances for embedding
- * 4. Generate embeddings in batches
- * 5. Upsert vectors to Pinecone in batches
+ * 3. Record section changes and store ordinances in R2
+ * 4. Chunk ordinances for embedding
+ * 5. Generate embeddings in batches
+ * 6. Upsert vectors to Pinecone in batches
  */
 
 import {
@@ -14,6 +15,7 @@ import {
   type WorkflowEvent,
   type WorkflowStep,
 } from 'cloudflare:workers';
+import { countyJurisdictionId } from '@compliance-iq/shared-types';
 import type { Env } from '../../types';
 import type {
   CountyProcessorParams,
@@ -27,6 +29,17 @@ import {
   UPSERT_BATCH_SIZE,
 } from '../utils/step-helpers';
 import { createStateManager } from '../utils/state-manager';
+import { registerSource, countySource } from '../../lib/sources';
+import {
+  createChangeTracker,
+  recordSectionChanges,
+  countyChangeSource,
+  countyOrdinanceSnapshot,
+} from '../../lib/changes';
+import {
+  getCountyOrdinance,
+  storeCountyOrdinance,
+} from '../../counties/storage';
 import { getAdapterForCounty } from '../../counties/adapters';
 import { chunkCountyOrdinance, type CountyChunkContext } from '../../counties/chunk';
 import { getCountyByName } from '../../counties/sources';
@@ -143,6 +156,43 @@ export class CountyProcessorWorkflow extends WorkflowEntrypoint<
         };
       }
 
+      // ========================================================================
+      // Step 1b: Record section changes and store ordinances in R2
+      // ========================================================================
+      await step.do('record-changes', async () => {
+        const ordinances =
+          await state.getRequired<CountyOrdinance[]>('ordinances');
+        const changes = createChangeTracker(
+          countyChangeSource(countyName, countyConfig.fipsCode)
+        );
+
+        // Compare with the previous run's copies before overwriting them
+        for (const ordinance of ordinances) {
+          const previous = await getCountyOrdinance(
+            this.env.DOCUMENTS_BUCKET,
+            countyConfig.fipsCode,
+            ordinance.chapter,
+            ordinance.section
+          );
+          changes.compare(previous, countyOrdinanceSnapshot(ordinance));
+        }
+
+        const recorded = await recordSectionChanges(
+          this.env.CONVEX_URL,
+          changes.events()
+        );
+
+        for (const ordinance of ordinances) {
+          await storeCountyOrdinance(
+            this.env.DOCUMENTS_BUCKET,
+            ordinance,
+            ordinance.text
+          );
+        }
+
+        return { recorded };
+      });
+
       // ========================================================================
       // Step 2: Chunk ordinances
       // ========================================================================
@@ -175,7 +225,7 @@ export class CountyProcessorWorkflow extends WorkflowEntrypoint<
                 chunkId: chunk.chunkId,
                 sourceId: chunk.sourceId,
                 sourceType: 'county',
-                jurisdiction: `TX-${fipsCode}`,
+                jurisdiction: countyJurisdictionId('TX', fipsCode),
                 text: chunk.text,
                 citation: chunk.citation,
                 chunkIndex: chunk.chunkIndex,
@@ -318,7 +368,18 @@ export class CountyProcessorWorkflow extends WorkflowEntrypoint<
       }
 
       // ========================================================================
-      // Step 5: Cleanup
+      // Step 5: Register source in Convex (best-effort)
+      // ========================================================================
+      await step.do('register-source', async () => {
+        const registered = await registerSource(
+          this.env.CONVEX_URL,
+          countySource(countyConfig, 'complete', totalUpserted)
+        );
+        return { registered };
+      });
+
+      // ========================================================================
+      // Step 6: Cleanup
       // ========================================================================
       await step.do('cleanup', async () => {
         return await state.cleanup();
@@ -35,6 +35,11 @@ import { createStateManager } from '../utils/state-manager';
  * const instance = await env.FEDERAL_BATCH_WORKFLOW.create({
  *   params: { titles: [21, 27] }
  * });
+ *
+ * // Re-index only parts that changed since the last run
+ * const instance = await env.FEDERAL_BATCH_WORKFLOW.create({
+ *   params: { delta: true }
+ * });
  * ```
  */
 export class FederalBatchWorkflow extends WorkflowEntrypoint<
@@ -47,7 +52,7 @@ export class FederalBatchWorkflow extends WorkflowEntrypoint<
   ): Promise<FederalBatchResult> {
     const startTime = Date.now();
     const instanceId = event.instanceId;
-    const { titles: requestedTitles } = event.payload;
+    const { titles: requestedTitles, delta, asOfDate } = event.payload;
 
     console.log(
       `[FederalBatchWorkflow] Starting batch workflow (instance: ${instanceId})`
@@ -102,6 +107,8 @@ export class FederalBatchWorkflow extends WorkflowEntrypoint<
             params: {
               titleNumber: title.number,
               parentInstanceId: instanceId,
+              delta,
+              asOfDate,
             },
           });
 
@@ -6,6 +6,19 @@
  * 2. Chunk sections for embedding
  * 3. Generate embeddings in batches
  * 4. Upsert vectors to Pinecone in batches
+ * 5. Delete vectors for sections and parts that no longer exist
+ * 6. Record indexed part hashes and a change log entry
+ *
+ * In delta mode (`delta: true`), only parts whose eCFR hash differs from
+ * the last indexed run are chunked, embedded and upserted; re-running an
+ * unchanged title makes no embedding calls. See federal/delta.ts.
+ *
+ * With `asOfDate`, the workflow indexes the point-in-time snapshot cached by
+ * `POST /cache/federal/refresh/:title?asOf=YYYY-MM-DD`: only section
+ * versions superseded since that date are upserted, under versioned chunk
+ * IDs. There is no indexed state to diff, so nothing is deleted, and the
+ * change log and source registration steps (which track the current
+ * version) are no-ops.
  *
  * IMPORTANT: This workflow requires pre-cached CFR data in R2.
  * Run `POST /cache/federal/refresh/:title` before triggering the workflow.
@@ -29,9 +42,21 @@ import {
   getUpsertBatchCount,
   EMBED_BATCH_SIZE,
   UPSERT_BATCH_SIZE,
+  DELETE_BATCH_SIZE,
 } from '../utils/constants';
 import { createStateManager } from '../utils/state-manager';
+import { registerSource, federalTitleSource } from '../../lib/sources';
 import { getCachedPart, getTitleManifest } from '../../federal/cache-read';
+import {
+  appendChangeLog,
+  diffTitleManifest,
+  getIndexedState,
+  saveIndexedState,
+  staleChunkIds,
+  updateIndexedState,
+  type IndexedPart,
+  type IndexedTitleState,
+} from '../../federal/delta';
 import { getCategoriesForTitle } from '../../federal/types';
 import type { CFRPart, CFRSection } from '../../federal/types';
 // Note: chunkCFRPart, OpenAI, and Pinecone are dynamically imported
@@ -43,7 +68,7 @@ import type { CFRPart, CFRSection } from '../../federal/types';
  * @example
  * ```typescript
  * const instance = await env.FEDERAL_TITLE_WORKFLOW.create({
- *   params: { titleNumber: 21 }
+ *   params: { titleNumber: 21, delta: true }
  * });
  * ```
  */
@@ -56,7 +81,13 @@ export class FederalTitleWorkflow extends WorkflowEntrypoint<
     step: WorkflowStep
   ): Promise<FederalTitleResult> {
     const startTime = Date.now();
-    const { titleNumber, parentInstanceId: _parentInstanceId } = event.payload;
+    const {
+      titleNumber,
+      parentInstanceId: _parentInstanceId,
+      delta = false,
+      asOfDate,
+    } = event.payload;
+    const snapshot = asOfDate !== undefined;
     const instanceId = event.instanceId;
 
     console.log(
@@ -81,22 +112,60 @@ export class FederalTitleWorkflow extends WorkflowEntrypoint<
           console.log(`[FederalTitleWorkflow] Getting structure for title ${titleNumber}`);
 
           // Get parts list from cache manifest (required)
-          const manifest = await getTitleManifest(this.env.DOCUMENTS_BUCKET, titleNumber);
+          const manifest = await getTitleManifest(
+            this.env.DOCUMENTS_BUCKET,
+            titleNumber,
+            asOfDate
+          );
           if (!manifest || manifest.parts.length === 0) {
+            const query = snapshot ? `?asOf=${asOfDate}` : '';
             throw new Error(
-              `No cached data for title ${titleNumber}. ` +
-              `Run POST /cache/federal/refresh/${titleNumber} first.`
+              `No cached data for title ${titleNumber}${snapshot ? ` as of ${asOfDate}` : ''}. ` +
+                `Run POST /cache/federal/refresh/${titleNumber}${query} first.`
             );
           }
 
           console.log(`[FederalTitleWorkflow] Using cached manifest (${manifest.parts.length} parts)`);
-          const parts = manifest.parts.map(p => p.partNumber);
+
+          // Snapshots are indexed in full, outside the delta bookkeeping
+          if (snapshot) {
+            const parts = manifest.parts.map((p) => p.partNumber);
+            await state.put('structure', { parts });
+            return {
+              partsCount: parts.length,
+              parts,
+              titleName: manifest.titleName,
+              changes: [],
+              unchangedCount: 0,
+            };
+          }
+
+          // Diff part hashes against the last indexed run
+          const indexed = await getIndexedState(
+            this.env.DOCUMENTS_BUCKET,
+            titleNumber
+          );
+          const { changes, unchanged } = diffTitleManifest(manifest, indexed);
+          await state.put('indexed', indexed);
+
+          // Delta mode skips parts whose hash is unchanged
+          const parts = delta
+            ? changes
+                .filter((c) => c.change !== 'removed')
+                .map((c) => c.partNumber)
+            : manifest.parts.map((p) => p.partNumber);
           await state.put('structure', { parts });
 
+          console.log(
+            `[FederalTitleWorkflow] ${changes.length} parts changed, ${unchanged.length} unchanged (${delta ? 'delta' : 'full'} mode)`
+          );
+
           return {
             partsCount: parts.length,
             parts,
             titleName: manifest.titleName,
+            changes,
+            unchangedCount: unchanged.length,
           };
         }
       );
@@ -111,6 +180,7 @@ export class FederalTitleWorkflow extends WorkflowEntrypoint<
       // ========================================================================
       let totalChunks = 0;
       let totalSections = 0;
+      const partChunkCounts = new Map<number, number>();
 
       for (let partIdx = 0; partIdx < structureResult.parts.length; partIdx++) {
         const partNumber = structureResult.parts[partIdx]!;
@@ -127,7 +197,8 @@ export class FederalTitleWorkflow extends WorkflowEntrypoint<
             const cached = await getCachedPart(
               this.env.DOCUMENTS_BUCKET,
               titleNumber,
-              partNumber
+              partNumber,
+              asOfDate
             );
 
             if (!cached) {
@@ -152,15 +223,18 @@ export class FederalTitleWorkflow extends WorkflowEntrypoint<
             };
 
             // Dynamically import chunkCFRPart to avoid loading tiktoken at startup
-            const { chunkCFRPart } = await import('../../federal/chunk');
+            const { chunkCFRPart, toSnapshotChunks, effectiveRangeMetadata } =
+              await import('../../federal/chunk');
 
             // Generate chunks for this part
-            const chunks = chunkCFRPart(part, {
+            const allChunks = chunkCFRPart(part, {
               titleNumber,
               titleName: cached.titleName,
               chapter: 'I',
               category,
             });
+            // Snapshots keep only versions superseded since asOfDate
+            const chunks = snapshot ? toSnapshotChunks(allChunks) : allChunks;
 
             // Convert to storage format with metadata (filter empty chunks)
             const partChunks: StoredChunks['chunks'] = [];
@@ -183,6 +257,7 @@ export class FederalTitleWorkflow extends WorkflowEntrypoint<
                   chunkIndex: chunk.chunkIndex,
                   totalChunks: chunk.totalChunks,
                   ...(chunk.category ? { category: chunk.category } : {}),
+                  ...effectiveRangeMetadata(chunk),
                   indexedAt: new Date().toISOString(),
                 },
               });
@@ -209,6 +284,7 @@ export class FederalTitleWorkflow extends WorkflowEntrypoint<
 
         totalChunks += partResult.chunksCount;
         totalSections += partResult.sectionsCount;
+        partChunkCounts.set(partNumber, partResult.chunksCount);
       }
 
       // ========================================================================
@@ -216,17 +292,34 @@ export class FederalTitleWorkflow extends WorkflowEntrypoint<
       // ========================================================================
       const mergeResult = await step.do('merge-chunks', async () => {
         const allChunks: StoredChunks['chunks'] = [];
+        const indexedParts: IndexedPart[] = [];
+        const hashes = new Map(
+          structureResult.changes.map((c) => [c.partNumber, c.xmlHash])
+        );
+        const previous = await state.get<IndexedTitleState>('indexed');
+        const indexedAt = new Date().toISOString();
 
         // Load chunks from each part
         for (const partNumber of structureResult.parts) {
           const partData = await state.get<StoredChunks>(`part-chunks-${partNumber}`);
           if (partData) {
             allChunks.push(...partData.chunks);
+            indexedParts.push({
+              partNumber,
+              // Unchanged parts (full mode) keep their indexed hash
+              xmlHash: hashes.has(partNumber)
+                ? hashes.get(partNumber)
+                : previous?.parts.find((p) => p.partNumber === partNumber)
+                    ?.xmlHash,
+              chunkIds: partData.chunks.map((c) => c.chunkId),
+              indexedAt,
+            });
           }
         }
 
-        // Store merged chunks
+        // Store merged chunks and the vector IDs each part now has
         await state.put('chunks', { chunks: allChunks, count: allChunks.length });
+        await state.put('indexed-parts', indexedParts);
 
         // Clean up part-specific chunk files
         for (const partNumber of structureResult.parts) {
@@ -386,7 +479,122 @@ export class FederalTitleWorkflow extends WorkflowEntrypoint<
       );
 
       // ========================================================================
-      // Step 6: Cleanup and return result
+      // Step 5b: Delete vectors for removed sections and parts
+      // ========================================================================
+      const deletedByPart = await step.do(
+        'delete-stale',
+        { retries: { limit: 3, backoff: 'exponential', delay: 500 } },
+        async () => {
+          const previous = await state.get<IndexedTitleState>('indexed');
+          const indexedParts =
+            (await state.get<IndexedPart[]>('indexed-parts')) ?? [];
+          if (!previous) return {} as Record<number, number>;
+
+          const stale = new Map<number, string[]>();
+          for (const part of indexedParts) {
+            const before = previous.parts.find(
+              (p) => p.partNumber === part.partNumber
+            );
+            if (before) {
+              stale.set(
+                part.partNumber,
+                staleChunkIds(before.chunkIds, part.chunkIds)
+              );
+            }
+          }
+          for (const change of structureResult.changes) {
+            if (change.change === 'removed') {
+              const before = previous.parts.find(
+                (p) => p.partNumber === change.partNumber
+              );
+              stale.set(change.partNumber, before?.chunkIds ?? []);
+            }
+          }
+
+          const ids = [...stale.values()].flat();
+          if (ids.length > 0) {
+            // Import Pinecone dynamically
+            const { Pinecone } = await import('@pinecone-database/pinecone');
+            const pinecone = new Pinecone({
+              apiKey: this.env.PINECONE_API_KEY,
+            });
+            const index = pinecone.index('compliance-embeddings');
+
+            for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+              await index.deleteMany(ids.slice(i, i + DELETE_BATCH_SIZE));
+            }
+          }
+
+          console.log(
+            `[FederalTitleWorkflow] Deleted ${ids.length} stale vectors`
+          );
+
+          return Object.fromEntries(
+            [...stale].map(([partNumber, partIds]) => [
+              partNumber,
+              partIds.length,
+            ])
+          ) as Record<number, number>;
+        }
+      );
+
+      const totalDeleted = Object.values(deletedByPart).reduce(
+        (sum, n) => sum + n,
+        0
+      );
+
+      // ========================================================================
+      // Step 5c: Record indexed hashes and the change log
+      // ========================================================================
+      await step.do('record-changes', async () => {
+        if (snapshot) return { recorded: 0 };
+
+        const previous = await state.get<IndexedTitleState>('indexed');
+        const indexedParts =
+          (await state.get<IndexedPart[]>('indexed-parts')) ?? [];
+        const removed = structureResult.changes
+          .filter((c) => c.change === 'removed')
+          .map((c) => c.partNumber);
+
+        await saveIndexedState(
+          this.env.DOCUMENTS_BUCKET,
+          updateIndexedState(titleNumber, previous, indexedParts, removed)
+        );
+        await appendChangeLog(this.env.DOCUMENTS_BUCKET, {
+          titleNumber,
+          mode: delta ? 'delta' : 'full',
+          runAt: new Date().toISOString(),
+          changes: structureResult.changes.map((change) => ({
+            ...change,
+            vectorsUpserted: partChunkCounts.get(change.partNumber) ?? 0,
+            vectorsDeleted: deletedByPart[change.partNumber] ?? 0,
+          })),
+          unchangedParts: structureResult.unchangedCount,
+        });
+
+        return { recorded: structureResult.changes.length };
+      });
+
+      // ========================================================================
+      // Step 6: Register source in Convex (best-effort)
+      // ========================================================================
+      await step.do('register-source', async () => {
+        if (snapshot) return { registered: false };
+
+        const registered = await registerSource(
+          this.env.CONVEX_URL,
+          federalTitleSource(
+            titleNumber,
+            structureResult.titleName,
+            'complete',
+            totalUpserted
+          )
+        );
+        return { registered };
+      });
+
+      // ========================================================================
+      // Step 7: Cleanup and return result
       // ========================================================================
       await step.do('cleanup', async () => {
         // Clean up workflow state from R2
@@ -407,8 +615,10 @@ export class FederalTitleWorkflow extends WorkflowEntrypoint<
         data: {
           titleNumber,
           partsProcessed: structureResult.partsCount,
+          partsUnchanged: delta ? structureResult.unchangedCount : 0,
           chunksCreated: chunkResult.chunksCreated,
           vectorsUpserted: totalUpserted,
+          vectorsDeleted: totalDeleted,
         },
       };
     } catch (error) {
@@ -0,0 +1,399 @@
+/**
+ * USCTitleWorkflow
+ *
+ * Worker workflow that processes a single U.S. Code title through the
+ * federal pipeline:
+ * 1. Read pre-parsed chapters from R2 cache (avoids CPU-intensive XML parsing)
+ * 2. Chunk sections for embedding (CFRChunk-compatible, U.S.C. citations)
+ * 3. Generate embeddings in batches
+ * 4. Upsert vectors to Pinecone in batches
+ * 5. Register the title as a statute source in Convex
+ *
+ * IMPORTANT: This workflow requires pre-cached USC data in R2.
+ * Run `POST /cache/usc/refresh/:title` before triggering the workflow.
+ *
+ * Uses R2 for intermediate state to stay under 1 MiB step return limit.
+ */
+
+import {
+  WorkflowEntrypoint,
+  type WorkflowEvent,
+  type WorkflowStep,
+} from 'cloudflare:workers';
+import type { RecordMetadata } from '@pinecone-database/pinecone';
+import type { Env } from '../../types';
+import type { USCTitleParams, USCTitleResult, StoredChunks } from '../types';
+import {
+  getEmbedBatchCount,
+  getUpsertBatchCount,
+  EMBED_BATCH_SIZE,
+  UPSERT_BATCH_SIZE,
+} from '../utils/constants';
+import { createStateManager } from '../utils/state-manager';
+import { registerSource, uscTitleSource } from '../../lib/sources';
+import {
+  getCachedUSCChapter,
+  getUSCTitleManifest,
+} from '../../federal/usc/cache-read';
+import {
+  getCategoriesForUSCTitle,
+  USC_EFFECTIVE_RANGE,
+} from '../../federal/usc/types';
+// Note: chunkUSCChapter, OpenAI, and Pinecone are dynamically imported
+// to avoid loading heavy dependencies at startup (prevents CPU limit)
+
+/**
+ * USCTitleWorkflow - Process a single U.S. Code title
+ *
+ * @example
+ * ```typescript
+ * const instance = await env.USC_TITLE_WORKFLOW.create({
+ *   params: { titleNumber: 21 }
+ * });
+ * ```
+ */
+export class USCTitleWorkflow extends WorkflowEntrypoint<Env, USCTitleParams> {
+  override async run(
+    event: WorkflowEvent<USCTitleParams>,
+    step: WorkflowStep
+  ): Promise<USCTitleResult> {
+    const startTime = Date.now();
+    const { titleNumber } = event.payload;
+    const instanceId = event.instanceId;
+
+    console.log(
+      `[USCTitleWorkflow] Starting title ${titleNumber} (instance: ${instanceId})`
+    );
+
+    // Create state manager for this instance
+    const state = createStateManager(
+      this.env.DOCUMENTS_BUCKET,
+      'usc-title',
+      instanceId
+    );
+
+    try {
+      // ========================================================================
+      // Step 1: Get title structure from the cache manifest
+      // ========================================================================
+      const structureResult = await step.do(
+        'get-structure',
+        { retries: { limit: 3, backoff: 'exponential', delay: 1000 } },
+        async () => {
+          const manifest = await getUSCTitleManifest(
+            this.env.DOCUMENTS_BUCKET,
+            titleNumber
+          );
+          if (!manifest || manifest.chapters.length === 0) {
+            throw new Error(
+              `No cached data for USC title ${titleNumber}. ` +
+                `Run POST /cache/usc/refresh/${titleNumber} first.`
+            );
+          }
+
+          console.log(
+            `[USCTitleWorkflow] Using cached manifest (${manifest.chapters.length} chapters, release point ${manifest.releasePoint})`
+          );
+
+          return {
+            chapters: manifest.chapters.map((c) => c.chapterNumber),
+            titleName: manifest.titleName,
+          };
+        }
+      );
+
+      // ========================================================================
+      // Step 2: Chunk each chapter from cache
+      // Store chunks to R2 within each step to avoid 1 MiB return limit
+      // ========================================================================
+      let totalSections = 0;
+
+      for (const chapterNumber of structureResult.chapters) {
+        const chapterResult = await step.do(
+          `process-chapter-${chapterNumber}`,
+          { retries: { limit: 3, backoff: 'exponential', delay: 1000 } },
+          async () => {
+            const cached = await getCachedUSCChapter(
+              this.env.DOCUMENTS_BUCKET,
+              titleNumber,
+              chapterNumber
+            );
+
+            if (!cached) {
+              throw new Error(
+                `Cache miss: USC title ${titleNumber} chapter ${chapterNumber}. ` +
+                  `Run POST /cache/usc/refresh/${titleNumber} first.`
+              );
+            }
+
+            // Dynamically import chunking to avoid loading it at startup
+            const { chunkUSCChapter } = await import('../../federal/usc/chunk');
+
+            const chunks = chunkUSCChapter(
+              {
+                number: cached.chapterNumber,
+                name: cached.chapterName,
+                sections: cached.sections,
+              },
+              {
+                titleNumber,
+                category: getCategoriesForUSCTitle(titleNumber)[0],
+              }
+            );
+
+            // Convert to storage format with metadata (filter empty chunks)
+            const chapterChunks: StoredChunks['chunks'] = [];
+            for (const chunk of chunks) {
+              if (!chunk.text || chunk.text.trim().length === 0) {
+                console.warn(
+                  `[USCTitleWorkflow] Skipping empty chunk: ${chunk.chunkId}`
+                );
+                continue;
+              }
+              chapterChunks.push({
+                chunkId: chunk.chunkId,
+                text: chunk.text,
+                metadata: {
+                  chunkId: chunk.chunkId,
+                  sourceId: chunk.sourceId,
+                  sourceType: 'federal',
+                  jurisdiction: 'US',
+                  text: chunk.text,
+                  citation: chunk.citation,
+                  chunkIndex: chunk.chunkIndex,
+                  totalChunks: chunk.totalChunks,
+                  ...(chunk.category ? { category: chunk.category } : {}),
+                  ...USC_EFFECTIVE_RANGE,
+                  indexedAt: new Date().toISOString(),
+                },
+              });
+            }
+
+            await state.put(`chapter-chunks-${chapterNumber}`, {
+              chunks: chapterChunks,
+              count: chapterChunks.length,
+            });
+
+            return {
+              sectionsCount: cached.sections.length,
+              chunksCount: chapterChunks.length,
+            };
+          }
+        );
+
+        totalSections += chapterResult.sectionsCount;
+      }
+
+      // ========================================================================
+      // Step 3: Merge all chapter chunks into a single chunks file
+      // ========================================================================
+      const mergeResult = await step.do('merge-chunks', async () => {
+        const allChunks: StoredChunks['chunks'] = [];
+
+        for (const chapterNumber of structureResult.chapters) {
+          const chapterData = await state.get<StoredChunks>(
+            `chapter-chunks-${chapterNumber}`
+          );
+          if (chapterData) {
+            allChunks.push(...chapterData.chunks);
+          }
+        }
+
+        await state.put('chunks', {
+          chunks: allChunks,
+          count: allChunks.length,
+        });
+
+        for (const chapterNumber of structureResult.chapters) {
+          await state.delete(`chapter-chunks-${chapterNumber}`);
+        }
+
+        return { merged: allChunks.length };
+      });
+
+      const chunkResult = {
+        chunksCreated: mergeResult.merged,
+        embedBatchCount: getEmbedBatchCount(mergeResult.merged),
+        upsertBatchCount: getUpsertBatchCount(mergeResult.merged),
+      };
+
+      console.log(
+        `[USCTitleWorkflow] Created ${chunkResult.chunksCreated} chunks from ${totalSections} sections (${chunkResult.embedBatchCount} embed batches, ${chunkResult.upsertBatchCount} upsert batches)`
+      );
+
+      // ========================================================================
+      // Step 4: Embed chunks in batches
+      // ========================================================================
+      for (let i = 0; i < chunkResult.embedBatchCount; i++) {
+        await step.do(
+          `embed-batch-${i}`,
+          { retries: { limit: 4, backoff: 'exponential', delay: 1000 } },
+          async () => {
+            const { chunks } = await state.getRequired<StoredChunks>('chunks');
+
+            const startIdx = i * EMBED_BATCH_SIZE;
+            const endIdx = Math.min(startIdx + EMBED_BATCH_SIZE, chunks.length);
+            const batchChunks = chunks.slice(startIdx, endIdx);
+            if (batchChunks.length === 0) return 0;
+
+            // Import OpenAI dynamically to avoid initialization issues
+            const { default: OpenAI } = await import('openai');
+            const openai = new OpenAI({ apiKey: this.env.OPENAI_API_KEY });
+
+            const response = await openai.embeddings.create({
+              model: 'text-embedding-3-large',
+              input: batchChunks.map((c) => c.text),
+              encoding_format: 'float',
+            });
+
+            const embeddings = response.data.map((d, idx) => ({
+              chunkId: batchChunks[idx]!.chunkId,
+              values: d.embedding,
+            }));
+
+            await state.put(`embeddings-${i}`, {
+              embeddings,
+              count: embeddings.length,
+            });
+
+            return embeddings.length;
+          }
+        );
+      }
+
+      // ========================================================================
+      // Step 5: Upsert vectors to Pinecone in batches
+      // ========================================================================
+      let totalUpserted = 0;
+
+      for (let i = 0; i < chunkResult.upsertBatchCount; i++) {
+        const upsertedCount = await step.do(
+          `upsert-batch-${i}`,
+          { retries: { limit: 3, backoff: 'exponential', delay: 500 } },
+          async () => {
+            const { chunks } = await state.getRequired<StoredChunks>('chunks');
+
+            const startIdx = i * UPSERT_BATCH_SIZE;
+            const endIdx = Math.min(
+              startIdx + UPSERT_BATCH_SIZE,
+              chunks.length
+            );
+            const batchChunks = chunks.slice(startIdx, endIdx);
+            if (batchChunks.length === 0) return 0;
+
+            // Load the embedding batches covering this range
+            const firstEmbedBatch = Math.floor(startIdx / EMBED_BATCH_SIZE);
+            const lastEmbedBatch = Math.floor((endIdx - 1) / EMBED_BATCH_SIZE);
+            const embeddingMap = new Map<string, number[]>();
+            for (let eb = firstEmbedBatch; eb <= lastEmbedBatch; eb++) {
+              const embedData = await state.getRequired<{
+                embeddings: Array<{ chunkId: string; values: number[] }>;
+              }>(`embeddings-${eb}`);
+              for (const e of embedData.embeddings) {
+                embeddingMap.set(e.chunkId, e.values);
+              }
+            }
+
+            const vectors = batchChunks.map((chunk) => {
+              const values = embeddingMap.get(chunk.chunkId);
+              if (!values) {
+                throw new Error(`Missing embedding: ${chunk.chunkId}`);
+              }
+              return {
+                id: chunk.chunkId,
+                values,
+                metadata: chunk.metadata as RecordMetadata,
+              };
+            });
+
+            // Import Pinecone dynamically
+            const { Pinecone } = await import('@pinecone-database/pinecone');
+            const pinecone = new Pinecone({
+              apiKey: this.env.PINECONE_API_KEY,
+            });
+            const index = pinecone.index('compliance-embeddings');
+
+            await index.upsert(vectors);
+
+            return vectors.length;
+          }
+        );
+
+        totalUpserted += upsertedCount;
+      }
+
+      console.log(
+        `[USCTitleWorkflow] Total upserted: ${totalUpserted} vectors`
+      );
+
+      // ========================================================================
+      // Step 6: Register source in Convex (best-effort)
+      // ========================================================================
+      await step.do('register-source', async () => {
+        const registered = await registerSource(
+          this.env.CONVEX_URL,
+          uscTitleSource(
+            titleNumber,
+            structureResult.titleName,
+            'complete',
+            totalUpserted
+          )
+        );
+        return { registered };
+      });
+
+      // ========================================================================
+      // Step 7: Cleanup and return result
+      // ========================================================================
+      await step.do('cleanup', async () => {
+        const cleaned = await state.cleanup();
+        console.log(`[USCTitleWorkflow] Cleaned up ${cleaned} state files`);
+        return cleaned;
+      });
+
+      const durationMs = Date.now() - startTime;
+
+      console.log(
+        `[USCTitleWorkflow] Completed title ${titleNumber}: ${totalUpserted} vectors in ${durationMs}ms`
+      );
+
+      return {
+        success: true,
+        durationMs,
+        data: {
+          titleNumber,
+          chaptersProcessed: structureResult.chapters.length,
+          chunksCreated: chunkResult.chunksCreated,
+          vectorsUpserted: totalUpserted,
+        },
+      };
+    } catch (error) {
+      const durationMs = Date.now() - startTime;
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+
+      console.error(
+        `[USCTitleWorkflow] Failed title ${titleNumber}: ${errorMessage}`
+      );
+
+      // Try to clean up on failure
+      try {
+        await state.cleanup();
+      } catch {
+        // Ignore cleanup errors
+      }
+
+      return {
+        success: false,
+        durationMs,
+        error: errorMessage,
+        data: {
+          titleNumber,
+          chaptersProcessed: 0,
+          chunksCreated: 0,
+          vectorsUpserted: 0,
+        },
+      };
+    }
+  }
+}
@@ -14,6 +14,7 @@ export * from './utils/state-manager';
 // Federal Workflows
 export { FederalBatchWorkflow } from './federal/batch.workflow';
 export { FederalTitleWorkflow } from './federal/title.workflow';
+export { USCTitleWorkflow } from './federal/usc.workflow';
 
 // Texas Workflows
 export { TexasBatchWorkflow } from './texas/batch.workflow';
@@ -14,6 +14,7 @@ import {
   type WorkflowEvent,
   type WorkflowStep,
 } from 'cloudflare:workers';
+import { cityJurisdictionId } from '@compliance-iq/shared-types';
 import type { Env } from '../../types';
 import type {
   CityProcessorParams,
@@ -27,6 +28,8 @@ import {
   UPSERT_BATCH_SIZE,
 } from '../utils/step-helpers';
 import { createStateManager } from '../utils/state-manager';
+import { registerSource, municipalSource } from '../../lib/sources';
+import { generateMunicipalSourceId } from '../../lib/citations';
 import { getCityById } from '../../municipal/cities';
 import { fetchCity, type Env as FetchEnv } from '../../municipal/fetch';
 import { chunkCity } from '../../municipal/chunk';
@@ -120,6 +123,7 @@ export class CityProcessorWorkflow extends WorkflowEntrypoint<
               DOCUMENTS_BUCKET: this.env.DOCUMENTS_BUCKET,
               R2_BUCKET: this.env.DOCUMENTS_BUCKET,
               FIRECRAWL_API_KEY: this.env.FIRECRAWL_API_KEY,
+              CONVEX_URL: this.env.CONVEX_URL,
             } as FetchEnv,
             cityConfig,
             { skipCache }
@@ -185,9 +189,9 @@ export class CityProcessorWorkflow extends WorkflowEntrypoint<
             text: chunk.text,
             metadata: {
               chunkId: chunk.chunkId,
-              sourceId: `municipal-${cityId}-${chunk.chapter}-${chunk.section}`,
+              sourceId: generateMunicipalSourceId(cityId),
               sourceType: 'municipal',
-              jurisdiction: `TX-${cityId}`,
+              jurisdiction: cityJurisdictionId('TX', cityId),
               text: chunk.text,
               citation: chunk.citation,
               title: `${cityConfig.name} Code of Ordinances - ${chunk.section}`,
@@ -333,7 +337,18 @@ export class CityProcessorWorkflow extends WorkflowEntrypoint<
       }
 
       // ========================================================================
-      // Step 5: Cleanup
+      // Step 5: Register source in Convex (best-effort)
+      // ========================================================================
+      await step.do('register-source', async () => {
+        const registered = await registerSource(
+          this.env.CONVEX_URL,
+          municipalSource(cityConfig, 'complete', totalUpserted)
+        );
+        return { registered };
+      });
+
+      // ========================================================================
+      // Step 6: Cleanup
       // ========================================================================
       await step.do('cleanup', async () => {
         return await state.cleanup();
@@ -4,9 +4,10 @@
  * Worker workflow that processes a single Texas statute code through the full pipeline:
  * 1. Fetch statute sections from Texas Legislature
  * 2. Parse into sections
- * 3. Chunk sections for embedding
- * 4. Generate embeddings in batches
- * 5. Upsert vectors to Pinecone in batches
+ * 3. Record section changes and store sections in R2
+ * 4. Chunk sections for embedding
+ * 5. Generate embeddings in batches
+ * 6. Upsert vectors to Pinecone in batches
  */
 
 import {
@@ -23,6 +24,15 @@ import {
   UPSERT_BATCH_SIZE,
 } from '../utils/step-helpers';
 import { createStateManager } from '../utils/state-manager';
+import { registerSource, texasCodeSource } from '../../lib/sources';
+import {
+  createChangeTracker,
+  recordSectionChanges,
+  storedSectionText,
+  texasCodeChangeSource,
+  texasStatuteSnapshot,
+} from '../../lib/changes';
+import { getTexasStatute, storeTexasStatute } from '../../texas/storage';
 import { fetchTexasCode } from '../../texas/fetch-statutes';
 import { chunkTexasStatute, type TexasChunkContext } from '../../texas/chunk';
 import { TARGET_STATUTES, type TexasStatuteSection } from '../../texas/types';
@@ -122,6 +132,46 @@ export class TexasCodeWorkflow extends WorkflowEntrypoint<Env, TexasCodeParams>
         };
       }
 
+      // ========================================================================
+      // Step 1b: Record section changes and store sections in R2
+      // ========================================================================
+      await step.do('record-changes', async () => {
+        const sections =
+          await state.getRequired<TexasStatuteSection[]>('sections');
+        const changes = createChangeTracker(
+          texasCodeChangeSource(codeAbbreviation)
+        );
+
+        // Compare with the previous run's copies before overwriting them
+        for (const section of sections) {
+          const previous = await getTexasStatute(
+            this.env.DOCUMENTS_BUCKET,
+            section.code,
+            section.chapter,
+            section.section
+          );
+          changes.compare(
+            previous === null ? null : storedSectionText(previous),
+            texasStatuteSnapshot(section)
+          );
+        }
+
+        const recorded = await recordSectionChanges(
+          this.env.CONVEX_URL,
+          changes.events()
+        );
+
+        for (const section of sections) {
+          await storeTexasStatute(
+            this.env.DOCUMENTS_BUCKET,
+            section,
+            `<html><body>${section.text}</body></html>`
+          );
+        }
+
+        return { recorded };
+      });
+
       // ========================================================================
       // Step 2: Chunk sections
       // ========================================================================
@@ -294,7 +344,18 @@ export class TexasCodeWorkflow extends WorkflowEntrypoint<Env, TexasCodeParams>
       }
 
       // ========================================================================
-      // Step 5: Cleanup
+      // Step 5: Register source in Convex (best-effort)
+      // ========================================================================
+      await step.do('register-source', async () => {
+        const registered = await registerSource(
+          this.env.CONVEX_URL,
+          texasCodeSource(codeConfig, 'complete', totalUpserted)
+        );
+        return { registered };
+      });
+
+      // ========================================================================
+      // Step 6: Cleanup
       // ========================================================================
       await step.do('cleanup', async () => {
         const cleaned = await state.cleanup();
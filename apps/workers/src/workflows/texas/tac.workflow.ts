@@ -5,9 +5,10 @@
  * through the full pipeline:
  * 1. Fetch TAC rules from Texas SOS
  * 2. Parse into rules
- * 3. Chunk rules for embedding
- * 4. Generate embeddings in batches
- * 5. Upsert vectors to Pinecone in batches
+ * 3. Record rule changes and store rules in R2
+ * 4. Chunk rules for embedding
+ * 5. Generate embeddings in batches
+ * 6. Upsert vectors to Pinecone in batches
  */
 
 import {
@@ -24,6 +25,15 @@ import {
   UPSERT_BATCH_SIZE,
 } from '../utils/step-helpers';
 import { createStateManager } from '../utils/state-manager';
+import { registerSource, texasTACSource } from '../../lib/sources';
+import {
+  createChangeTracker,
+  recordSectionChanges,
+  storedSectionText,
+  tacChangeSource,
+  tacRuleSnapshot,
+} from '../../lib/changes';
+import { getTACRule, storeTACRule } from '../../texas/storage';
 import { fetchTACTitle } from '../../texas/fetch-tac';
 import { chunkTACRule, type TACChunkContext } from '../../texas/chunk';
 import { TARGET_TAC_TITLES, type TACRule } from '../../texas/types';
@@ -123,6 +133,43 @@ export class TexasTACWorkflow extends WorkflowEntrypoint<Env, TexasTACParams> {
         };
       }
 
+      // ========================================================================
+      // Step 1b: Record rule changes and store rules in R2
+      // ========================================================================
+      await step.do('record-changes', async () => {
+        const rules = await state.getRequired<TACRule[]>('rules');
+        const changes = createChangeTracker(tacChangeSource(tacTitleNumber));
+
+        // Compare with the previous run's copies before overwriting them
+        for (const rule of rules) {
+          const previous = await getTACRule(
+            this.env.DOCUMENTS_BUCKET,
+            rule.title,
+            rule.chapter,
+            rule.section
+          );
+          changes.compare(
+            previous === null ? null : storedSectionText(previous),
+            tacRuleSnapshot(rule)
+          );
+        }
+
+        const recorded = await recordSectionChanges(
+          this.env.CONVEX_URL,
+          changes.events()
+        );
+
+        for (const rule of rules) {
+          await storeTACRule(
+            this.env.DOCUMENTS_BUCKET,
+            rule,
+            `<html><body>${rule.text}</body></html>`
+          );
+        }
+
+        return { recorded };
+      });
+
       // ========================================================================
       // Step 2: Chunk rules
       // ========================================================================
@@ -295,7 +342,18 @@ export class TexasTACWorkflow extends WorkflowEntrypoint<Env, TexasTACParams> {
       }
 
       // ========================================================================
-      // Step 5: Cleanup
+      // Step 5: Register source in Convex (best-effort)
+      // ========================================================================
+      await step.do('register-source', async () => {
+        const registered = await registerSource(
+          this.env.CONVEX_URL,
+          texasTACSource(titleConfig, 'complete', totalUpserted)
+        );
+        return { registered };
+      });
+
+      // ========================================================================
+      // Step 6: Cleanup
       // ========================================================================
       await step.do('cleanup', async () => {
         const cleaned = await state.cleanup();
@@ -104,6 +104,10 @@ export interface BatchProgress {
 export interface FederalBatchParams extends BaseWorkflowParams {
   /** Optional list of titles to process (defaults to all enabled) */
   titles?: number[];
+  /** Only re-index parts whose eCFR hash changed since the last run */
+  delta?: boolean;
+  /** Index the point-in-time snapshot cached for this date (YYYY-MM-DD) */
+  asOfDate?: string;
 }
 
 /**
@@ -126,6 +130,10 @@ export interface FederalTitleParams extends BaseWorkflowParams {
   titleNumber: number;
   /** Parent batch workflow instance ID (for tracking) */
   parentInstanceId?: string;
+  /** Only re-index parts whose eCFR hash changed since the last run */
+  delta?: boolean;
+  /** Index the point-in-time snapshot cached for this date (YYYY-MM-DD) */
+  asOfDate?: string;
 }
 
 /**
@@ -135,6 +143,30 @@ export interface FederalTitleResult extends WorkflowResult {
   data?: {
     titleNumber: number;
     partsProcessed: number;
+    /** Parts skipped in delta mode (hash unchanged) */
+    partsUnchanged?: number;
+    chunksCreated: number;
+    vectorsUpserted: number;
+    /** Vectors deleted for removed sections or parts */
+    vectorsDeleted?: number;
+  };
+}
+
+/**
+ * Parameters for USCTitleWorkflow
+ */
+export interface USCTitleParams extends BaseWorkflowParams {
+  /** USC title number to process */
+  titleNumber: number;
+}
+
+/**
+ * Result from USCTitleWorkflow
+ */
+export interface USCTitleResult extends WorkflowResult {
+  data?: {
+    titleNumber: number;
+    chaptersProcessed: number;
     chunksCreated: number;
     vectorsUpserted: number;
   };
@@ -405,6 +437,7 @@ export interface WorkflowBindings {
   // Federal
   FEDERAL_BATCH_WORKFLOW: Workflow<FederalBatchParams>;
   FEDERAL_TITLE_WORKFLOW: Workflow<FederalTitleParams>;
+  USC_TITLE_WORKFLOW: Workflow<USCTitleParams>;
   // Texas
   TEXAS_BATCH_WORKFLOW: Workflow<TexasBatchParams>;
   TEXAS_CODE_WORKFLOW: Workflow<TexasCodeParams>;
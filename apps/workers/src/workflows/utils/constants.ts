@@ -11,6 +11,9 @@ export const EMBED_BATCH_SIZE = 64;
 /** Batch size for Pinecone upserts (recommended: 100) */
 export const UPSERT_BATCH_SIZE = 100;
 
+/** Batch size for Pinecone deletes by ID (API limit: 1000) */
+export const DELETE_BATCH_SIZE = 1000;
+
 /** Delay between embedding batches (ms) */
 export const EMBED_BATCH_DELAY = 100;
 
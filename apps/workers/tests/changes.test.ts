@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  redline,
+  diffSections,
+  createChangeTracker,
+  cfrSectionSnapshot,
+  federalChangeSource,
+  municipalOrdinanceSnapshot,
+  type SectionSnapshot,
+} from '../src/lib/changes';
+import type { MunicipalOrdinance } from '../src/municipal/types';
+
+const source = federalChangeSource(21);
+
+const section = (number: string, text: string): SectionSnapshot =>
+  cfrSectionSnapshot(21, 117, {
+    number,
+    title: `Section ${number}`,
+    text,
+    subsections: [],
+  });
+
+describe('redline', () => {
+  it('marks changed words between unchanged text', () => {
+    expect(
+      redline(
+        'Permits expire after one year.',
+        'Permits expire after two years.'
+      )
+    ).toEqual([
+      { op: 'equal', text: 'Permits expire after ' },
+      { op: 'delete', text: 'one year.' },
+      { op: 'insert', text: 'two years.' },
+    ]);
+  });
+
+  it('reproduces both texts', () => {
+    const before = 'A food facility must register annually with FDA.';
+    const after = 'Each food facility must register biennially with FDA.';
+    const segments = redline(before, after);
+    const text = (ops: string[]) =>
+      segments
+        .filter((s) => ops.includes(s.op))
+        .map((s) => s.text)
+        .join('');
+    expect(text(['equal', 'delete'])).toBe(before);
+    expect(text(['equal', 'insert'])).toBe(after);
+  });
+});
+
+describe('diffSections', () => {
+  it('reports added, modified and removed sections', () => {
+    const changes = diffSections(
+      source,
+      [section('117.3', 'Definitions.'), section('117.5', 'Old exemption.')],
+      [
+        section('117.3', 'Definitions.\n'),
+        section('117.5', 'New exemption.'),
+        section('117.7', 'Applicability.'),
+      ]
+    );
+    expect(changes.map((c) => [c.sectionKey, c.changeType])).toEqual([
+      ['cfr-21-117-117.5', 'modified'],
+      ['cfr-21-117-117.7', 'added'],
+    ]);
+    expect(changes[0]).toMatchObject({
+      sourceKey: 'cfr-title-21',
+      chapterKey: 'cfr-21-117',
+      citation: '21 C.F.R. § 117.5',
+    });
+
+    const removed = diffSections(
+      source,
+      [section('117.3', 'Definitions.')],
+      []
+    );
+    expect(removed[0]).toMatchObject({
+      changeType: 'removed',
+      diff: [{ op: 'delete', text: 'Definitions.' }],
+    });
+  });
+});
+
+describe('createChangeTracker', () => {
+  const ordinance: MunicipalOrdinance = {
+    cityId: 'houston',
+    chapter: '10',
+    section: '10-2',
+    heading: 'Permits',
+    text: 'A permit is required.',
+    subsections: [],
+    sourceUrl: 'https://library.municode.com/tx/houston',
+    scrapedAt: new Date('2026-10-01'),
+  };
+
+  it('reports no events for a first run', () => {
+    const tracker = createChangeTracker(source);
+    tracker.compare(null, municipalOrdinanceSnapshot('Houston', ordinance));
+    expect(tracker.events()).toEqual([]);
+  });
+
+  it('reports new sections once a previous snapshot exists', () => {
+    const tracker = createChangeTracker(source);
+    tracker.compare(
+      'A permit is required.',
+      municipalOrdinanceSnapshot('Houston', ordinance)
+    );
+    tracker.compare(
+      null,
+      municipalOrdinanceSnapshot('Houston', { ...ordinance, section: '10-3' })
+    );
+    expect(tracker.events()).toMatchObject([
+      {
+        sectionKey: 'municipal-houston-10-10-3',
+        chapterKey: 'municipal-houston-10',
+        changeType: 'added',
+      },
+    ]);
+  });
+});
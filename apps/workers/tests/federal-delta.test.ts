@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffTitleManifest,
+  staleChunkIds,
+  updateIndexedState,
+  type IndexedTitleState,
+} from '../src/federal/delta';
+import type { TitleManifest } from '../src/federal/cache-read';
+
+const manifestPart = (partNumber: number, xmlHash: string) => ({
+  partNumber,
+  partName: `Part ${partNumber}`,
+  sectionCount: 1,
+  xmlHash,
+  cachedAt: '2026-10-12T02:00:00.000Z',
+});
+
+const manifest: TitleManifest = {
+  titleNumber: 21,
+  titleName: 'Food and Drugs',
+  parts: [
+    manifestPart(101, 'a'),
+    manifestPart(117, 'b2'),
+    manifestPart(120, 'c'),
+  ],
+  lastRefresh: '2026-10-12T02:00:00.000Z',
+  ecfrDate: '2026-10-12',
+};
+
+const indexed: IndexedTitleState = {
+  titleNumber: 21,
+  parts: [
+    {
+      partNumber: 101,
+      xmlHash: 'a',
+      chunkIds: ['cfr-21-101-101.1-0'],
+      indexedAt: '2026-10-05T00:00:00.000Z',
+    },
+    {
+      partNumber: 117,
+      xmlHash: 'b1',
+      chunkIds: [
+        'cfr-21-117-117.3-0',
+        'cfr-21-117-117.5-0',
+        'cfr-21-117-117.5-1',
+      ],
+      indexedAt: '2026-10-05T00:00:00.000Z',
+    },
+    {
+      partNumber: 118,
+      xmlHash: 'd',
+      chunkIds: ['cfr-21-118-118.1-0'],
+      indexedAt: '2026-10-05T00:00:00.000Z',
+    },
+  ],
+  lastIndexed: '2026-10-05T00:00:00.000Z',
+};
+
+describe('diffTitleManifest', () => {
+  it('classifies parts by hash against the last indexed run', () => {
+    expect(diffTitleManifest(manifest, indexed)).toEqual({
+      changes: [
+        {
+          partNumber: 117,
+          change: 'changed',
+          previousHash: 'b1',
+          xmlHash: 'b2',
+        },
+        { partNumber: 120, change: 'added', xmlHash: 'c' },
+        { partNumber: 118, change: 'removed', previousHash: 'd' },
+      ],
+      unchanged: [101],
+    });
+  });
+
+  it('treats every part as added without indexed state', () => {
+    const { changes, unchanged } = diffTitleManifest(manifest, null);
+    expect(changes.map((c) => c.change)).toEqual(['added', 'added', 'added']);
+    expect(unchanged).toEqual([]);
+  });
+
+  it('reports nothing to do for an unchanged title', () => {
+    const current = updateIndexedState(
+      21,
+      null,
+      manifest.parts.map((p) => ({
+        partNumber: p.partNumber,
+        xmlHash: p.xmlHash,
+        chunkIds: [],
+        indexedAt: p.cachedAt,
+      })),
+      []
+    );
+    expect(diffTitleManifest(manifest, current).changes).toEqual([]);
+  });
+});
+
+describe('staleChunkIds', () => {
+  it('returns vectors for removed sections and dropped trailing chunks', () => {
+    expect(
+      staleChunkIds(indexed.parts[1]!.chunkIds, [
+        'cfr-21-117-117.5-0',
+        'cfr-21-117-117.7-0',
+      ])
+    ).toEqual(['cfr-21-117-117.3-0', 'cfr-21-117-117.5-1']);
+  });
+});
+
+describe('updateIndexedState', () => {
+  it('replaces re-indexed parts, drops removed ones and keeps the rest', () => {
+    const updated = updateIndexedState(
+      21,
+      indexed,
+      [
+        {
+          partNumber: 117,
+          xmlHash: 'b2',
+          chunkIds: ['cfr-21-117-117.5-0'],
+          indexedAt: '2026-10-12T00:00:00.000Z',
+        },
+      ],
+      [118]
+    );
+    expect(updated.parts.map((p) => [p.partNumber, p.xmlHash])).toEqual([
+      [101, 'a'],
+      [117, 'b2'],
+    ]);
+  });
+});
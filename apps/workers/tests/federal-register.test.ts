@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  buildDocumentsSearchUrl,
+  fetchFederalRegisterDocuments,
+  parseFederalRegisterDocument,
+  FederalRegisterFetchError,
+  type RawFederalRegisterDocument,
+} from '../src/federal-register/fetch';
+import { chunkFederalRegisterDocument } from '../src/federal-register/chunk';
+import { generateFederalRegisterCitation } from '../src/lib/citations';
+
+const fixture = (name: string): string =>
+  readFileSync(join(__dirname, 'fixtures', 'federal-register', name), 'utf8');
+
+const page1 = JSON.parse(fixture('documents-page-1.json')) as {
+  results: RawFederalRegisterDocument[];
+};
+
+/** Replays the recorded API pages */
+function recordedFetch(requested: string[]): typeof fetch {
+  return (async (input: RequestInfo | URL) => {
+    const url = String(input);
+    requested.push(url);
+    const name = url.includes('page=2')
+      ? 'documents-page-2.json'
+      : 'documents-page-1.json';
+    return new Response(fixture(name), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }) as typeof fetch;
+}
+
+describe('buildDocumentsSearchUrl', () => {
+  it('requests proposed and final rules of the tracked agencies', () => {
+    const url = new URL(
+      buildDocumentsSearchUrl({ since: '2026-07-01', until: '2026-09-30' })
+    );
+
+    expect(url.searchParams.getAll('conditions[type][]')).toEqual([
+      'RULE',
+      'PRORULE',
+    ]);
+    expect(url.searchParams.getAll('conditions[agencies][]')).toContain(
+      'food-and-drug-administration'
+    );
+    expect(url.searchParams.get('conditions[publication_date][gte]')).toBe(
+      '2026-07-01'
+    );
+    expect(url.searchParams.get('conditions[publication_date][lte]')).toBe(
+      '2026-09-30'
+    );
+    expect(url.searchParams.getAll('fields[]')).toContain('cfr_references');
+  });
+});
+
+describe('parseFederalRegisterDocument', () => {
+  it('links a proposed rule to the CFR parts it amends', () => {
+    const doc = parseFederalRegisterDocument(page1.results[0]!);
+
+    expect(doc).toMatchObject({
+      documentNumber: '2026-14102',
+      documentType: 'proposed_rule',
+      agencyKeys: ['fda'],
+      commentsCloseOn: '2026-11-12',
+      cfrReferences: [
+        { title: 21, part: 117 },
+        { title: 21, part: 507 },
+      ],
+    });
+    expect(doc?.effectiveOn).toBeUndefined();
+  });
+
+  it('attributes sub-agency rules through the parent department', () => {
+    const doc = parseFederalRegisterDocument(page1.results[1]!);
+
+    expect(doc?.documentType).toBe('final_rule');
+    expect(doc?.agencyKeys).toEqual(['usda']);
+    expect(doc?.effectiveOn).toBe('2027-01-01');
+  });
+
+  it('skips rules amending only untracked CFR titles', () => {
+    expect(parseFederalRegisterDocument(page1.results[2]!)).toBeNull();
+  });
+
+  it('skips documents that are not rules', () => {
+    expect(
+      parseFederalRegisterDocument({ ...page1.results[0]!, type: 'Notice' })
+    ).toBeNull();
+  });
+});
+
+describe('fetchFederalRegisterDocuments', () => {
+  it('follows pagination across recorded pages', async () => {
+    const requested: string[] = [];
+    const { documents, skipped } = await fetchFederalRegisterDocuments({
+      since: '2026-07-01',
+      fetchFn: recordedFetch(requested),
+    });
+
+    expect(requested).toHaveLength(2);
+    expect(documents.map((d) => d.documentNumber)).toEqual([
+      '2026-14102',
+      '2026-15877',
+      '2026-17415',
+      '2026-18231',
+      '2026-19044',
+    ]);
+    expect(skipped).toBe(1);
+  });
+
+  it('rejects malformed dates before fetching', async () => {
+    const requested: string[] = [];
+    await expect(
+      fetchFederalRegisterDocuments({
+        since: '07/01/2026',
+        fetchFn: recordedFetch(requested),
+      })
+    ).rejects.toThrow('Invalid date');
+    expect(requested).toHaveLength(0);
+  });
+
+  it('does not retry client errors', async () => {
+    let calls = 0;
+    const fetchFn = (async () => {
+      calls++;
+      return new Response('Bad Request', { status: 400 });
+    }) as typeof fetch;
+
+    await expect(
+      fetchFederalRegisterDocuments({ since: '2026-07-01', fetchFn })
+    ).rejects.toBeInstanceOf(FederalRegisterFetchError);
+    expect(calls).toBe(1);
+  });
+});
+
+describe('chunkFederalRegisterDocument', () => {
+  it('summarizes the rule with its amended parts and dates', () => {
+    const doc = parseFederalRegisterDocument(page1.results[0]!)!;
+    const chunk = chunkFederalRegisterDocument(doc);
+
+    expect(chunk.chunkId).toBe('fr-2026-14102-0');
+    expect(chunk.sourceId).toBe('fr-fda');
+    expect(chunk.cfrParts).toEqual(['21-117', '21-507']);
+    expect(chunk.citation).toBe('91 Fed. Reg. 44120 (July 14, 2026)');
+    expect(chunk.text).toContain('Proposed rule: Current Good Manufacturing');
+    expect(chunk.text).toContain('Amends: 21 CFR part 117, 21 CFR part 507');
+    expect(chunk.text).toContain('Comments due: 2026-11-12');
+  });
+});
+
+describe('generateFederalRegisterCitation', () => {
+  it('falls back to the document number before pagination', () => {
+    expect(
+      generateFederalRegisterCitation(undefined, '2026-18231', '2026-09-15')
+    ).toBe('FR Doc. 2026-18231 (Sept. 15, 2026)');
+  });
+});
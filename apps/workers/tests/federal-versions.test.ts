@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sectionEffectiveRanges,
+  type CFRSectionVersion,
+} from '../src/federal/fetch';
+import { toSnapshotChunks, effectiveRangeMetadata } from '../src/federal/chunk';
+import type { CFRChunk } from '../src/federal/types';
+
+const version = (
+  identifier: string,
+  date: string,
+  removed = false
+): CFRSectionVersion => ({ identifier, date, removed });
+
+const versions: CFRSectionVersion[] = [
+  version('117.3', '2024-01-15'),
+  version('117.3', '2017-01-03'),
+  version('117.3', '2021-03-01'),
+  version('117.5', '2017-01-03'),
+  version('117.7', '2023-09-01'),
+  version('117.9', '2017-01-03'),
+  version('117.9', '2022-05-10', true),
+];
+
+describe('sectionEffectiveRanges', () => {
+  it('resolves the version in force on a date and when it was superseded', () => {
+    const ranges = sectionEffectiveRanges(versions, '2023-06-01');
+    expect(ranges.get('117.3')).toEqual({
+      effectiveDate: '2021-03-01',
+      effectiveUntil: '2024-01-15',
+    });
+    expect(ranges.get('117.5')).toEqual({ effectiveDate: '2017-01-03' });
+    // Not yet added, and already removed, on that date
+    expect(ranges.has('117.7')).toBe(false);
+    expect(ranges.has('117.9')).toBe(false);
+  });
+
+  it('uses the latest versions without a date', () => {
+    const ranges = sectionEffectiveRanges(versions);
+    expect(ranges.get('117.3')).toEqual({ effectiveDate: '2024-01-15' });
+    expect(ranges.get('117.7')).toEqual({ effectiveDate: '2023-09-01' });
+  });
+});
+
+describe('snapshot chunks', () => {
+  const chunk = (
+    chunkId: string,
+    effectiveDate?: string,
+    effectiveUntil?: string
+  ) =>
+    ({
+      chunkId,
+      effectiveDate,
+      effectiveUntil,
+    }) as CFRChunk;
+
+  it('keeps only superseded versions under versioned IDs', () => {
+    const snapshot = toSnapshotChunks([
+      chunk('cfr-21-117-117.3-0', '2021-03-01', '2024-01-15'),
+      chunk('cfr-21-117-117.5-0', '2017-01-03'),
+      chunk('cfr-21-117-117.8-0'),
+    ]);
+    expect(snapshot.map((c) => c.chunkId)).toEqual([
+      'cfr-21-117-117.3-0@2021-03-01',
+    ]);
+  });
+
+  it('encodes effective ranges as numeric metadata', () => {
+    expect(
+      effectiveRangeMetadata(chunk('a', '2021-03-01', '2024-01-15'))
+    ).toEqual({ effectiveFrom: 20210301, effectiveTo: 20240115 });
+    expect(effectiveRangeMetadata(chunk('a', '2017-01-03'))).toEqual({
+      effectiveFrom: 20170103,
+      effectiveTo: 99991231,
+    });
+    expect(effectiveRangeMetadata(chunk('a'))).toEqual({});
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  JURISDICTIONS,
+  canonicalJurisdictionId,
+  cityJurisdictionId,
+  countyJurisdictionId,
+  getJurisdiction,
+  jurisdictionAncestors,
+  normalizeCityId,
+} from '@compliance-iq/shared-types';
+import { TEXAS_CITIES } from '../src/municipal/cities';
+import { TARGET_COUNTIES } from '../src/counties/sources';
+
+describe('Jurisdiction registry', () => {
+  it('has unique IDs, names and aliases, and every parent exists', () => {
+    const ids = JURISDICTIONS.map((j) => j.id);
+    const aliases = JURISDICTIONS.flatMap((j) =>
+      [j.name, ...j.aliases].map((alias) => alias.toLowerCase())
+    );
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(new Set(aliases).size).toBe(aliases.length);
+    for (const j of JURISDICTIONS) {
+      if (j.parentId) {
+        expect(getJurisdiction(j.parentId), `${j.id} parent`).toBeDefined();
+      }
+    }
+  });
+
+  it('covers every configured city under a configured county', () => {
+    for (const city of TEXAS_CITIES) {
+      const id = cityJurisdictionId('TX', city.cityId);
+
+      expect(city.cityId, city.name).toBe(normalizeCityId(city.name));
+      expect(cityJurisdictionId('TX', city.name)).toBe(id);
+      expect(getJurisdiction(id)?.level, id).toBe('municipal');
+      expect(jurisdictionAncestors(id).slice(-2)).toEqual(['TX', 'US']);
+      expect(getJurisdiction(jurisdictionAncestors(id)[1]!)?.level).toBe(
+        'county'
+      );
+    }
+  });
+
+  it('covers every configured county', () => {
+    for (const county of TARGET_COUNTIES) {
+      const jurisdiction = getJurisdiction(
+        countyJurisdictionId('TX', county.fipsCode)
+      );
+
+      expect(jurisdiction?.level, county.name).toBe('county');
+      expect(jurisdiction?.name).toBe(`${county.name} County`);
+    }
+  });
+
+  it('maps legacy hyphenated city IDs to canonical IDs', () => {
+    expect(canonicalJurisdictionId('TX-san-antonio')).toBe('TX-san_antonio');
+    expect(canonicalJurisdictionId('TX-fort-worth')).toBe('TX-fort_worth');
+    expect(canonicalJurisdictionId('tx-new-braunfels')).toBe(
+      'TX-new_braunfels'
+    );
+    expect(canonicalJurisdictionId('TX-48201')).toBe('TX-48201');
+    expect(canonicalJurisdictionId('Bexar County')).toBe('TX-48029');
+    expect(canonicalJurisdictionId('Dallas')).toBe('TX-dallas');
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { deflateRawSync } from 'node:zlib';
+import {
+  buildUSCTitleUrl,
+  extractXMLFromZip,
+  fetchUSCTitleChapters,
+  parseUSLMChapter,
+  parseUSLMXML,
+  splitUSLMChapters,
+} from '../src/federal/usc/fetch';
+import { chunkUSCSection } from '../src/federal/usc/chunk';
+
+const excerpt = readFileSync(
+  join(__dirname, 'fixtures', 'usc', 'usc21-excerpt.xml'),
+  'utf8'
+);
+
+/** Emits text in fixed-size pieces, splitting tags across pieces */
+async function* pieces(text: string, size: number): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) {
+    yield text.slice(i, i + size);
+  }
+}
+
+/** Single-entry zip archive (method 0 = stored, 8 = deflated) */
+function zipOf(name: string, content: string, method: 0 | 8): ArrayBuffer {
+  const raw = Buffer.from(content, 'utf8');
+  const data = method === 8 ? deflateRawSync(raw) : raw;
+  const fileName = Buffer.from(name, 'utf8');
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(method, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(raw.length, 22);
+  local.writeUInt16LE(fileName.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(method, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(raw.length, 24);
+  central.writeUInt16LE(fileName.length, 28);
+  central.writeUInt32LE(0, 42);
+
+  const centralOffset = local.length + fileName.length + data.length;
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(1, 8);
+  eocd.writeUInt16LE(1, 10);
+  eocd.writeUInt32LE(central.length + fileName.length, 12);
+  eocd.writeUInt32LE(centralOffset, 16);
+
+  const zip = Buffer.concat([local, fileName, data, central, fileName, eocd]);
+  return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.length);
+}
+
+describe('buildUSCTitleUrl', () => {
+  it('points at the OLRC release point archive', () => {
+    expect(buildUSCTitleUrl(21, '119-36')).toBe(
+      'https://uscode.house.gov/download/releasepoints/us/pl/119/36/xml_usc21@119-36.zip'
+    );
+    expect(buildUSCTitleUrl(7, '119-36')).toContain('xml_usc07@119-36.zip');
+  });
+});
+
+describe('splitUSLMChapters', () => {
+  it('yields whole chapters however the text is split', async () => {
+    for (const size of [7, 64, excerpt.length]) {
+      const chapters: string[] = [];
+      for await (const chapter of splitUSLMChapters(pieces(excerpt, size))) {
+        chapters.push(chapter);
+      }
+
+      expect(chapters).toHaveLength(2);
+      expect(chapters[0]).toMatch(
+        /^<chapter identifier="\/us\/usc\/t21\/ch12">/
+      );
+      expect(chapters[1]).toMatch(/<\/chapter>$/);
+      expect(chapters[1]).toContain('§ 812.');
+    }
+  });
+});
+
+describe('parseUSLMChapter', () => {
+  it('collects sections in force from subchapters and parts', async () => {
+    const fragments: string[] = [];
+    for await (const chapter of splitUSLMChapters(pieces(excerpt, 512))) {
+      fragments.push(chapter);
+    }
+    const chapter = parseUSLMChapter(fragments[1]!);
+
+    expect(chapter?.number).toBe('13');
+    expect(chapter?.name).toBe('DRUG ABUSE PREVENTION AND CONTROL');
+    // § 803 is repealed
+    expect(chapter?.sections.map((s) => s.number)).toEqual(['802', '812']);
+  });
+
+  it('renders numbered levels as paragraphs without notes or source credits', () => {
+    const title = parseUSLMXML(excerpt);
+    const section = title.chapters[1]!.sections[1]!;
+
+    expect(title.number).toBe(21);
+    expect(title.name).toBe('FOOD AND DRUGS');
+    expect(section.title).toBe('Schedules of controlled substances');
+    expect(section.text.split('\n\n')).toEqual([
+      '(a) Establishment There are established five schedules of controlled substances, to be known as schedules I, II, III, IV, and V. Such schedules shall initially consist of the substances listed in this section.',
+      expect.stringMatching(
+        /^\(b\) Placement on schedules; findings required Except where control is required .* in effect on October 27, 1970, and/
+      ),
+      '(1) Schedule I.—',
+      '(A) The drug or other substance has a high potential for abuse.',
+      '(B) The drug or other substance has no currently accepted medical use in treatment in the United States.',
+    ]);
+    expect(section.text).not.toContain('Pub. L.');
+    expect(section.text).not.toContain('Editorial Notes');
+    expect(section.subsections?.map((s) => s.id)).toEqual(['(a)', '(b)']);
+  });
+});
+
+describe('extractXMLFromZip', () => {
+  it.each([0, 8] as const)(
+    'reads the XML entry (method %i)',
+    async (method) => {
+      const stream = extractXMLFromZip(zipOf('usc21.xml', excerpt, method));
+      expect(await new Response(stream).text()).toBe(excerpt);
+    }
+  );
+});
+
+describe('fetchUSCTitleChapters', () => {
+  it('downloads, decompresses and parses a title', async () => {
+    const requested: string[] = [];
+    const fetchFn = (async (input: RequestInfo | URL) => {
+      requested.push(String(input));
+      return new Response(zipOf('usc21.xml', excerpt, 8));
+    }) as typeof fetch;
+
+    const chapters = [];
+    for await (const chapter of fetchUSCTitleChapters(21, {
+      releasePoint: '119-36',
+      fetchFn,
+    })) {
+      chapters.push(chapter);
+    }
+
+    expect(requested).toEqual([buildUSCTitleUrl(21, '119-36')]);
+    expect(chapters.map((c) => c.number)).toEqual(['12', '13']);
+  });
+});
+
+describe('chunkUSCSection', () => {
+  it('produces CFRChunk-compatible chunks with U.S.C. citations', () => {
+    const section = parseUSLMXML(excerpt).chapters[1]!.sections[1]!;
+    const [chunk] = chunkUSCSection(section, {
+      titleNumber: 21,
+      chapter: '13',
+      category: 'pharmacy',
+    });
+
+    expect(chunk).toMatchObject({
+      chunkId: 'usc-21-812-0',
+      sourceId: 'usc-title-21',
+      citation: '21 U.S.C. § 812',
+      title: 21,
+      part: 13,
+      section: '812',
+      hierarchy: ['Title 21', 'Chapter 13', 'Section 812'],
+      category: 'pharmacy',
+      chunkIndex: 0,
+      totalChunks: 1,
+    });
+    expect(chunk?.url).toContain('USC-prelim-title21-section812');
+  });
+
+  it('splits oversized sections at subsections', () => {
+    const long = (label: string) =>
+      `${label} ${'Controlled substance findings apply. '.repeat(700)}`;
+    const chunks = chunkUSCSection(
+      {
+        number: '812',
+        title: 'Schedules',
+        text: `${long('(a)')}\n\n${long('(b)')}`,
+        subsections: [
+          { id: '(a)', text: long('(a)') },
+          { id: '(b)', text: long('(b)') },
+        ],
+      },
+      { titleNumber: 21, chapter: '13' }
+    );
+
+    expect(chunks.map((c) => c.citation)).toEqual([
+      '21 U.S.C. § 812(a)',
+      '21 U.S.C. § 812(b)',
+    ]);
+    expect(chunks.map((c) => c.chunkId)).toEqual([
+      'usc-21-812-0',
+      'usc-21-812-1',
+    ]);
+  });
+});
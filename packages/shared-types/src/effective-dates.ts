@@ -0,0 +1,60 @@
+/**
+ * Effective Date Ranges
+ *
+ * Versioned regulatory text (eCFR point-in-time snapshots) is tagged with
+ * the range of dates each version was in force. Pinecone range filters
+ * ($lte, $gt) only apply to numbers, so the ingestion pipelines store the
+ * range as `effectiveFrom` / `effectiveTo` YYYYMMDD numbers, and Convex
+ * retrieval filters on the same encoding:
+ *
+ *   in force on D  <=>  effectiveFrom <= D < effectiveTo
+ *
+ * A version still in force has effectiveTo = OPEN_EFFECTIVE_TO.
+ */
+
+/**
+ * effectiveTo of a version that has not been superseded
+ */
+export const OPEN_EFFECTIVE_TO = 99991231;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check a YYYY-MM-DD date string (rejects impossible dates like 2023-02-30)
+ */
+export function isIsoDate(value: string): boolean {
+  if (!ISO_DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return (
+    !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+  );
+}
+
+/**
+ * Encode a YYYY-MM-DD date as a YYYYMMDD number
+ *
+ * @param date - ISO date (e.g., "2023-06-01")
+ * @returns Numeric date (e.g., 20230601)
+ * @throws Error if the date is not a valid YYYY-MM-DD date
+ */
+export function toEffectiveDateNumber(date: string): number {
+  if (!isIsoDate(date)) {
+    throw new Error(`Invalid date "${date}" (expected YYYY-MM-DD)`);
+  }
+  return Number(date.replace(/-/g, ''));
+}
+
+/**
+ * Decode a YYYYMMDD number into a YYYY-MM-DD date
+ *
+ * @returns ISO date, or undefined for OPEN_EFFECTIVE_TO
+ */
+export function fromEffectiveDateNumber(value: number): string | undefined {
+  if (value >= OPEN_EFFECTIVE_TO) {
+    return undefined;
+  }
+  const digits = String(value).padStart(8, '0');
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+}
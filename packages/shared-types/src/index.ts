@@ -4,5 +4,5 @@
  * This package provides type definitions used across all apps and packages.
  */
 
-// Placeholder exports - will be populated as types are needed
-export type {};
+export * from './jurisdictions';
+export * from './effective-dates';
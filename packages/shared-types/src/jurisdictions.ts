@@ -0,0 +1,290 @@
+/**
+ * Canonical Jurisdiction IDs
+ *
+ * One definition of the jurisdiction identifiers used as the Pinecone
+ * `jurisdiction` metadata by the ingestion pipelines and as retrieval filters
+ * by the Convex geocoder, so both sides always build the same IDs:
+ *
+ * - federal: "US"
+ * - state: two-letter code, e.g. "TX"
+ * - county: "{state}-{county FIPS}", e.g. "TX-48201"
+ * - municipal: "{state}-{cityId}", e.g. "TX-san_antonio", where cityId is
+ *   the city name lowercased with non-alphanumeric runs replaced by "_"
+ *
+ * The registry lists the jurisdictions we cover (US -> TX -> county -> city)
+ * with their parents and known aliases (old or alternate spellings), so
+ * stored or user-supplied IDs can be mapped back to canonical ones.
+ */
+
+export type JurisdictionLevel = 'federal' | 'state' | 'county' | 'municipal';
+
+/**
+ * A jurisdiction in the registry
+ */
+export interface JurisdictionDefinition {
+  /** Canonical ID (e.g., "TX-san_antonio") */
+  id: string;
+  /** Jurisdiction level */
+  level: JurisdictionLevel;
+  /** Display name (e.g., "San Antonio", "Bexar County") */
+  name: string;
+  /** Canonical ID of the containing jurisdiction (cities: principal county) */
+  parentId?: string;
+  /** Other IDs and names (besides `name`) that refer to this jurisdiction */
+  aliases: string[];
+}
+
+export const FEDERAL_JURISDICTION_ID = 'US';
+
+/**
+ * Normalize a city name or ID into a canonical cityId
+ *
+ * @param city - City name or ID (e.g., "San Antonio", "san-antonio")
+ * @returns Canonical cityId (e.g., "san_antonio")
+ */
+export function normalizeCityId(city: string): string {
+  return city
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
+/**
+ * Canonical ID for a state
+ *
+ * @param stateCode - Two-letter state code (any case)
+ * @returns State ID (e.g., "TX")
+ */
+export function stateJurisdictionId(stateCode: string): string {
+  return stateCode.trim().toUpperCase();
+}
+
+/**
+ * Canonical ID for a county
+ *
+ * @param stateCode - Two-letter state code
+ * @param countyFips - 5-digit county FIPS code (e.g., "48201")
+ * @returns County ID (e.g., "TX-48201")
+ */
+export function countyJurisdictionId(
+  stateCode: string,
+  countyFips: string
+): string {
+  return `${stateJurisdictionId(stateCode)}-${countyFips.trim()}`;
+}
+
+/**
+ * Canonical ID for a city
+ *
+ * @param stateCode - Two-letter state code
+ * @param city - City name or cityId (e.g., "San Antonio" or "san_antonio")
+ * @returns City ID (e.g., "TX-san_antonio")
+ */
+export function cityJurisdictionId(stateCode: string, city: string): string {
+  return `${stateJurisdictionId(stateCode)}-${normalizeCityId(city)}`;
+}
+
+const county = (name: string, fips: string): JurisdictionDefinition => ({
+  id: countyJurisdictionId('TX', fips),
+  level: 'county',
+  name: `${name} County`,
+  parentId: 'TX',
+  aliases: [],
+});
+
+const city = (
+  name: string,
+  countyFips: string,
+  aliases: string[] = []
+): JurisdictionDefinition => {
+  const id = cityJurisdictionId('TX', name);
+  const hyphenated = id.replace(/_/g, '-');
+  return {
+    id,
+    level: 'municipal',
+    name,
+    parentId: countyJurisdictionId('TX', countyFips),
+    aliases: [
+      // IDs built by the geocoder before cityIds were canonical
+      ...(hyphenated !== id ? [hyphenated] : []),
+      ...aliases,
+    ],
+  };
+};
+
+/**
+ * Jurisdictions we cover
+ *
+ * Counties: the county pipeline targets plus the counties of covered cities.
+ * Cities: the municipal pipeline targets.
+ */
+export const JURISDICTIONS: JurisdictionDefinition[] = [
+  {
+    id: FEDERAL_JURISDICTION_ID,
+    level: 'federal',
+    name: 'United States',
+    aliases: ['Federal', 'USA'],
+  },
+  {
+    id: 'TX',
+    level: 'state',
+    name: 'Texas',
+    parentId: FEDERAL_JURISDICTION_ID,
+    aliases: [],
+  },
+
+  county('Harris', '48201'),
+  county('Dallas', '48113'),
+  county('Tarrant', '48439'),
+  county('Bexar', '48029'),
+  county('Travis', '48453'),
+  county('Collin', '48085'),
+  county('Denton', '48121'),
+  county('Fort Bend', '48157'),
+  county('Williamson', '48491'),
+  county('El Paso', '48141'),
+  county('Nueces', '48355'),
+  county('Lubbock', '48303'),
+  county('Webb', '48479'),
+  county('Potter', '48375'),
+  county('Cameron', '48061'),
+  county('Bell', '48027'),
+
+  city('Houston', '48201'),
+  city('San Antonio', '48029'),
+  city('Dallas', '48113'),
+  city('Austin', '48453'),
+  city('Fort Worth', '48439', ['Ft Worth']),
+  city('El Paso', '48141'),
+  city('Arlington', '48439'),
+  city('Plano', '48085'),
+  city('Corpus Christi', '48355'),
+  city('Lubbock', '48303'),
+  city('Laredo', '48479'),
+  city('Irving', '48113'),
+  city('Garland', '48113'),
+  city('Frisco', '48085'),
+  city('McKinney', '48085', ['Mc Kinney']),
+  city('Amarillo', '48375'),
+  city('Grand Prairie', '48113'),
+  city('Brownsville', '48061'),
+  city('Pasadena', '48201'),
+  city('Killeen', '48027'),
+];
+
+const BY_ID = new Map(JURISDICTIONS.map((j) => [j.id, j]));
+
+/**
+ * Look up a jurisdiction by canonical ID
+ *
+ * @param id - Canonical jurisdiction ID
+ * @returns Definition, or undefined if not in the registry
+ */
+export function getJurisdiction(
+  id: string
+): JurisdictionDefinition | undefined {
+  return BY_ID.get(id);
+}
+
+/**
+ * Level of a jurisdiction ID
+ *
+ * Registry jurisdictions use their registry level; other IDs are classified
+ * by format ("US", "TX", "TX-48201", "TX-new_braunfels").
+ *
+ * @param id - Canonical jurisdiction ID
+ * @returns Jurisdiction level
+ */
+export function jurisdictionLevel(id: string): JurisdictionLevel {
+  const known = getJurisdiction(id);
+  if (known) {
+    return known.level;
+  }
+  if (id === FEDERAL_JURISDICTION_ID) {
+    return 'federal';
+  }
+  if (/^[A-Z]{2}-\d{5}$/.test(id)) {
+    return 'county';
+  }
+  return /^[A-Z]{2}-/.test(id) ? 'municipal' : 'state';
+}
+
+/**
+ * Map a jurisdiction ID or alias to its canonical ID
+ *
+ * Registry IDs, names and aliases resolve to the registry ID; other IDs
+ * that follow the canonical format are normalized (e.g., "tx-new-braunfels"
+ * -> "TX-new_braunfels").
+ *
+ * @param idOrAlias - Jurisdiction ID, alias, or name
+ * @returns Canonical ID
+ *
+ * @example
+ * ```ts
+ * canonicalJurisdictionId('TX-san-antonio') // => "TX-san_antonio"
+ * canonicalJurisdictionId('Bexar County') // => "TX-48029"
+ * ```
+ */
+export function canonicalJurisdictionId(idOrAlias: string): string {
+  const value = idOrAlias.trim();
+  if (BY_ID.has(value)) {
+    return value;
+  }
+
+  const lower = value.toLowerCase();
+  const match = JURISDICTIONS.find(
+    (j) =>
+      j.id.toLowerCase() === lower ||
+      j.name.toLowerCase() === lower ||
+      j.aliases.some((alias) => alias.toLowerCase() === lower)
+  );
+  if (match) {
+    return match.id;
+  }
+
+  const [, state, rest] = value.match(/^([A-Za-z]{2})-(.+)$/) ?? [];
+  if (state && rest) {
+    return /^\d{5}$/.test(rest)
+      ? countyJurisdictionId(state, rest)
+      : cityJurisdictionId(state, rest);
+  }
+  return /^[A-Za-z]{2}$/.test(value) ? stateJurisdictionId(value) : value;
+}
+
+/**
+ * Canonicalize a list of jurisdiction IDs (order kept, duplicates dropped)
+ *
+ * @param ids - Jurisdiction IDs, possibly using aliases
+ * @returns Canonical IDs
+ */
+export function canonicalJurisdictionIds(ids: string[]): string[] {
+  return [...new Set(ids.map(canonicalJurisdictionId))];
+}
+
+/**
+ * Jurisdiction and its ancestors, innermost first
+ *
+ * @param id - Canonical jurisdiction ID
+ * @returns IDs up to "US" (e.g., ["TX-houston", "TX-48201", "TX", "US"]);
+ *   just [id] if the ID is not in the registry
+ */
+export function jurisdictionAncestors(id: string): string[] {
+  const chain = [id];
+  let parentId = getJurisdiction(id)?.parentId;
+  while (parentId) {
+    chain.push(parentId);
+    parentId = getJurisdiction(parentId)?.parentId;
+  }
+  return chain;
+}
+
+/**
+ * Direct children of a jurisdiction in the registry
+ *
+ * @param id - Canonical jurisdiction ID
+ * @returns Child definitions (e.g., counties of "TX", cities of "TX-48201")
+ */
+export function childJurisdictions(id: string): JurisdictionDefinition[] {
+  return JURISDICTIONS.filter((j) => j.parentId === id);
+}